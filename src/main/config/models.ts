@@ -21,6 +21,30 @@ export const ThinkingConfigSchema = z.discriminatedUnion('type', [
 ]);
 export type ThinkingConfig = z.infer<typeof ThinkingConfigSchema>;
 
+/**
+ * 요청 한도 스키마 (null 또는 0 = 제한 없음)
+ * - rpm: 분당 요청 수
+ * - tpm: 분당 입력 토큰 수
+ * - rpd: 일일 요청 수
+ */
+export const RateLimitsSchema = z.object({
+  rpm: z.number().int().min(0).nullable(),
+  tpm: z.number().int().min(0).nullable(),
+  rpd: z.number().int().min(0).nullable(),
+});
+export type RateLimits = z.infer<typeof RateLimitsSchema>;
+
+/**
+ * 토큰 가격 스키마 (USD, 100만 토큰당 / 유료 등급 기준)
+ * - input: 입력 토큰
+ * - output: 출력 토큰 (사고 토큰 포함)
+ */
+export const ModelPricingSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+});
+export type ModelPricing = z.infer<typeof ModelPricingSchema>;
+
 /**
  * Gemini 모델 정보 스키마
  */
@@ -32,6 +56,8 @@ export const GeminiModelInfoSchema = z.object({
   contextWindow: z.number().int().positive(),
   isExperimental: z.boolean().default(false),
   thinkingConfig: ThinkingConfigSchema.optional(),
+  rateLimits: RateLimitsSchema, // 기본 요청 한도 (무료 등급 기준, 사용자가 재정의 가능)
+  pricing: ModelPricingSchema, // 비용 추정용 가격
 });
 export type GeminiModelInfo = z.infer<typeof GeminiModelInfoSchema>;
 
@@ -47,6 +73,8 @@ export const GEMINI_MODELS: GeminiModelInfo[] = [
     contextWindow: 1048576,
     isExperimental: false,
     thinkingConfig: { type: 'level', level: 'minimal' },
+    rateLimits: { rpm: 10, tpm: 250000, rpd: 250 },
+    pricing: { input: 0.5, output: 3.0 },
   },
   {
     id: 'gemini-2.5-flash',
@@ -56,6 +84,8 @@ export const GEMINI_MODELS: GeminiModelInfo[] = [
     contextWindow: 1048576,
     isExperimental: false,
     thinkingConfig: { type: 'budget', budget: 0 },
+    rateLimits: { rpm: 10, tpm: 250000, rpd: 250 },
+    pricing: { input: 0.3, output: 2.5 },
   },
   {
     id: 'gemini-2.5-flash-lite',
@@ -65,6 +95,8 @@ export const GEMINI_MODELS: GeminiModelInfo[] = [
     contextWindow: 1048576,
     isExperimental: false,
     thinkingConfig: { type: 'budget', budget: 0 },
+    rateLimits: { rpm: 15, tpm: 250000, rpd: 1000 },
+    pricing: { input: 0.1, output: 0.4 },
   },
 ];
 
@@ -6,6 +6,7 @@
 import type { Kysely } from 'kysely';
 import { sql } from 'kysely';
 import type { Database } from './types';
+import { generateCuid, nowISOString } from './utils';
 
 //------------------------------------------------------------------------------
 // Migration Definition
@@ -122,6 +123,331 @@ const MIGRATIONS: MigrationDefinition[] = [
       `.execute(db);
     },
   },
+  {
+    version: 3,
+    name: 'add_translation_concurrency',
+    up: async db => {
+      // 동시에 번역할 청크 수 (1 = 순차 처리)
+      await sql`ALTER TABLE "translation_config" ADD COLUMN "concurrency" INTEGER NOT NULL DEFAULT 1`.execute(db);
+    },
+  },
+  {
+    version: 4,
+    name: 'add_retry_policy',
+    up: async db => {
+      // 일시적인 API 오류 자동 재시도 설정
+      await sql`ALTER TABLE "translation_config" ADD COLUMN "maxAttempts" INTEGER NOT NULL DEFAULT 3`.execute(db);
+      await sql`ALTER TABLE "translation_config" ADD COLUMN "retryBaseDelayMs" INTEGER NOT NULL DEFAULT 2000`.execute(db);
+      await sql`ALTER TABLE "translation_config" ADD COLUMN "retryMaxDelayMs" INTEGER NOT NULL DEFAULT 60000`.execute(db);
+    },
+  },
+  {
+    version: 5,
+    name: 'add_model_rate_limits',
+    up: async db => {
+      // model_rate_limits 테이블 (모델별 요청 한도 사용자 재정의, NULL = 모델 기본값)
+      await sql`
+        CREATE TABLE IF NOT EXISTS "model_rate_limits" (
+          "model" TEXT NOT NULL PRIMARY KEY,
+          "rpm" INTEGER,
+          "tpm" INTEGER,
+          "rpd" INTEGER,
+          "updatedAt" DATETIME NOT NULL
+        )
+      `.execute(db);
+    },
+  },
+  {
+    version: 6,
+    name: 'add_session_last_template',
+    up: async db => {
+      // 마지막으로 번역에 사용한 템플릿 (비정상 종료 후 자동 재개에 사용)
+      await sql`ALTER TABLE "translation_sessions" ADD COLUMN "lastTemplateId" TEXT`.execute(db);
+    },
+  },
+  {
+    version: 7,
+    name: 'add_translation_queue',
+    up: async db => {
+      // translation_queue 테이블 (여러 세션의 번역을 순서대로 실행하는 전역 작업 대기열, 세션당 1개 항목)
+      await sql`
+        CREATE TABLE IF NOT EXISTS "translation_queue" (
+          "sessionId" TEXT NOT NULL PRIMARY KEY,
+          "templateId" TEXT NOT NULL,
+          "position" INTEGER NOT NULL,
+          "status" TEXT NOT NULL DEFAULT 'queued',
+          "errorMessage" TEXT,
+          "enqueuedAt" DATETIME NOT NULL,
+          "startedAt" DATETIME,
+          "finishedAt" DATETIME,
+          "updatedAt" DATETIME NOT NULL,
+          CONSTRAINT "translation_queue_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "translation_sessions" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+        )
+      `.execute(db);
+
+      await sql`CREATE INDEX IF NOT EXISTS "translation_queue_status_position_idx" ON "translation_queue"("status", "position")`.execute(
+        db
+      );
+
+      // 동시에 번역할 세션 수
+      await sql`ALTER TABLE "translation_config" ADD COLUMN "queueConcurrency" INTEGER NOT NULL DEFAULT 1`.execute(db);
+    },
+  },
+  {
+    version: 8,
+    name: 'add_chunk_revisions',
+    up: async db => {
+      // translation_chunk_revisions 테이블 (청크 번역 결과를 덮어쓰지 않고 시도마다 보관)
+      await sql`
+        CREATE TABLE IF NOT EXISTS "translation_chunk_revisions" (
+          "id" TEXT NOT NULL PRIMARY KEY,
+          "chunkId" TEXT NOT NULL,
+          "translatedText" TEXT NOT NULL,
+          "origin" TEXT NOT NULL,
+          "model" TEXT,
+          "templateId" TEXT,
+          "generationConfig" TEXT,
+          "promptTokens" INTEGER,
+          "completionTokens" INTEGER,
+          "totalTokens" INTEGER,
+          "processingTime" INTEGER,
+          "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          CONSTRAINT "translation_chunk_revisions_chunkId_fkey" FOREIGN KEY ("chunkId") REFERENCES "translation_chunks" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+        )
+      `.execute(db);
+
+      await sql`CREATE INDEX IF NOT EXISTS "translation_chunk_revisions_chunkId_idx" ON "translation_chunk_revisions"("chunkId", "createdAt")`.execute(
+        db
+      );
+
+      // 현재 번역문이 어느 리비전인지
+      await sql`ALTER TABLE "translation_chunks" ADD COLUMN "currentRevisionId" TEXT`.execute(db);
+
+      // 기존 번역문을 첫 리비전으로 보관 (생성 정보는 남아 있지 않음)
+      await sql`
+        INSERT INTO "translation_chunk_revisions" ("id", "chunkId", "translatedText", "origin", "totalTokens", "processingTime", "createdAt")
+        SELECT lower(hex(randomblob(12))), "id", "translatedText", 'auto', "tokenCount", "processingTime", "updatedAt"
+        FROM "translation_chunks"
+        WHERE "translatedText" IS NOT NULL
+      `.execute(db);
+
+      await sql`
+        UPDATE "translation_chunks"
+        SET "currentRevisionId" = (
+          SELECT "id" FROM "translation_chunk_revisions" WHERE "translation_chunk_revisions"."chunkId" = "translation_chunks"."id"
+        )
+        WHERE "translatedText" IS NOT NULL
+      `.execute(db);
+    },
+  },
+  {
+    version: 9,
+    name: 'add_chunk_manual_edit',
+    up: async db => {
+      // 번역문을 직접 수정한 시각 (전체 재번역 시 기본으로 건너뜀)
+      await sql`ALTER TABLE "translation_chunks" ADD COLUMN "manuallyEditedAt" DATETIME`.execute(db);
+    },
+  },
+  {
+    version: 10,
+    name: 'add_session_config_overrides',
+    up: async db => {
+      // 세션별 번역 설정 (NULL = 전역 설정 사용)
+      await sql`ALTER TABLE "translation_sessions" ADD COLUMN "model" TEXT`.execute(db);
+      await sql`ALTER TABLE "translation_sessions" ADD COLUMN "templateId" TEXT`.execute(db);
+      await sql`ALTER TABLE "translation_sessions" ADD COLUMN "chunkSize" INTEGER`.execute(db);
+      await sql`ALTER TABLE "translation_sessions" ADD COLUMN "temperature" REAL`.execute(db);
+      await sql`ALTER TABLE "translation_sessions" ADD COLUMN "maxOutputTokens" INTEGER`.execute(db);
+      await sql`ALTER TABLE "translation_sessions" ADD COLUMN "topP" REAL`.execute(db);
+      await sql`ALTER TABLE "translation_sessions" ADD COLUMN "topK" INTEGER`.execute(db);
+    },
+  },
+  {
+    version: 11,
+    name: 'add_chunk_truncation_recovery',
+    up: async db => {
+      // 출력 토큰 한도(MAX_TOKENS)로 잘린 응답을 어떻게 처리했는지 (continued | truncated)
+      await sql`ALTER TABLE "translation_chunks" ADD COLUMN "truncationRecovery" TEXT`.execute(db);
+    },
+  },
+  {
+    version: 12,
+    name: 'add_blocked_chunk_fallback',
+    up: async db => {
+      // 안전 필터 등으로 차단된 청크의 사유 (promptFeedback.blockReason 또는 finishReason)
+      await sql`ALTER TABLE "translation_chunks" ADD COLUMN "blockReason" TEXT`.execute(db);
+
+      // 차단 시 대응: skip (원문 유지) | template (대체 템플릿으로 재시도) | model (대체 모델로 재시도)
+      await sql`ALTER TABLE "translation_config" ADD COLUMN "blockedFallback" TEXT NOT NULL DEFAULT 'skip'`.execute(db);
+      await sql`ALTER TABLE "translation_config" ADD COLUMN "fallbackTemplateId" TEXT`.execute(db);
+      await sql`ALTER TABLE "translation_config" ADD COLUMN "fallbackModel" TEXT`.execute(db);
+    },
+  },
+  {
+    version: 13,
+    name: 'add_chunk_quality_checks',
+    up: async db => {
+      // 번역 품질 검사에서 걸린 항목 (쉼표로 구분, NULL = 문제 없음 / 검사 안 함)
+      await sql`ALTER TABLE "translation_chunks" ADD COLUMN "qaFlags" TEXT`.execute(db);
+
+      // 품질 검사에 걸린 청크를 자동으로 다시 번역할 횟수 (0 = 사용 안 함)
+      await sql`ALTER TABLE "translation_config" ADD COLUMN "qaAutoRetries" INTEGER NOT NULL DEFAULT 0`.execute(db);
+    },
+  },
+  {
+    version: 14,
+    name: 'add_session_post_process_rules',
+    up: async db => {
+      // 세션별 번역문 후처리 규칙 (YAML, 템플릿의 postprocess 규칙 뒤에 적용)
+      await sql`ALTER TABLE "translation_sessions" ADD COLUMN "postProcessRules" TEXT`.execute(db);
+    },
+  },
+  {
+    version: 15,
+    name: 'add_glossary_entries',
+    up: async db => {
+      // glossary_entries 테이블 (sessionId가 NULL이면 전역 용어)
+      await sql`
+        CREATE TABLE IF NOT EXISTS "glossary_entries" (
+          "id" TEXT NOT NULL PRIMARY KEY,
+          "sessionId" TEXT,
+          "sourceTerm" TEXT NOT NULL,
+          "targetTerm" TEXT NOT NULL,
+          "partOfSpeech" TEXT,
+          "notes" TEXT,
+          "caseSensitive" INTEGER NOT NULL DEFAULT 0,
+          "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          "updatedAt" DATETIME NOT NULL,
+          CONSTRAINT "glossary_entries_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "translation_sessions" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+        )
+      `.execute(db);
+
+      await sql`CREATE INDEX IF NOT EXISTS "glossary_entries_sessionId_idx" ON "glossary_entries"("sessionId", "sourceTerm")`.execute(db);
+
+      // 기존 사용자 사전의 "원문=번역" 줄을 세션 용어로 복사 ({{session.customDict}}만 쓰는 템플릿이 있으므로 customDict는 그대로 둠)
+      const sessions = await db
+        .selectFrom('translation_sessions')
+        .select(['id', 'customDict'])
+        .where('customDict', 'is not', null)
+        .execute();
+
+      const now = nowISOString();
+
+      for (const session of sessions) {
+        const seen = new Set<string>();
+
+        for (const line of (session.customDict ?? '').split(/\r?\n/)) {
+          const separator = line.indexOf('=');
+          const sourceTerm = line.slice(0, separator).trim();
+          const targetTerm = line.slice(separator + 1).trim();
+
+          if (separator === -1 || !sourceTerm || !targetTerm || seen.has(sourceTerm)) {
+            continue;
+          }
+          seen.add(sourceTerm);
+
+          await sql`
+            INSERT INTO "glossary_entries" ("id", "sessionId", "sourceTerm", "targetTerm", "updatedAt")
+            VALUES (${generateCuid()}, ${session.id}, ${sourceTerm}, ${targetTerm}, ${now})
+          `.execute(db);
+        }
+      }
+    },
+  },
+  {
+    version: 16,
+    name: 'add_glossary_checks',
+    up: async db => {
+      // 번역문이 지키지 않은 용어 (JSON 배열, NULL = 문제 없음 / 검사 안 함)
+      await sql`ALTER TABLE "translation_chunks" ADD COLUMN "glossaryViolations" TEXT`.execute(db);
+
+      // 용어를 지키지 않은 청크에 보낼 교정 요청 횟수 (0 = 사용 안 함)
+      await sql`ALTER TABLE "translation_config" ADD COLUMN "glossaryCorrections" INTEGER NOT NULL DEFAULT 0`.execute(db);
+    },
+  },
+  {
+    version: 17,
+    name: 'add_translation_memory',
+    up: async db => {
+      // 번역 메모리 사용 방식 (off | reference | reuse)
+      await sql`ALTER TABLE "translation_config" ADD COLUMN "translationMemory" TEXT NOT NULL DEFAULT 'reuse'`.execute(db);
+
+      // 번역 메모리 적중 여부 (exact = 메모리 번역문 재사용, fuzzy = 비슷한 번역을 참고로 전달, NULL = 적중 없음)
+      await sql`ALTER TABLE "translation_chunks" ADD COLUMN "tmMatch" TEXT`.execute(db);
+    },
+  },
+  {
+    version: 18,
+    name: 'add_session_characters',
+    up: async db => {
+      // session_characters 테이블 (세션별 등장인물, aliases / speechLevels는 JSON 배열)
+      await sql`
+        CREATE TABLE IF NOT EXISTS "session_characters" (
+          "id" TEXT NOT NULL PRIMARY KEY,
+          "sessionId" TEXT NOT NULL,
+          "name" TEXT NOT NULL,
+          "aliases" TEXT NOT NULL DEFAULT '[]',
+          "gender" TEXT,
+          "role" TEXT,
+          "targetName" TEXT,
+          "defaultSpeechLevel" TEXT,
+          "speechLevels" TEXT NOT NULL DEFAULT '[]',
+          "notes" TEXT,
+          "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          "updatedAt" DATETIME NOT NULL,
+          CONSTRAINT "session_characters_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "translation_sessions" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+        )
+      `.execute(db);
+
+      await sql`CREATE INDEX IF NOT EXISTS "session_characters_sessionId_idx" ON "session_characters"("sessionId", "name")`.execute(db);
+    },
+  },
+  {
+    version: 19,
+    name: 'add_session_summary',
+    up: async db => {
+      // 지금까지의 줄거리 요약 / 요약에 포함된 마지막 청크 (분할 / 병합으로 순서가 바뀌어도 추적되도록 id로 저장)
+      await sql`ALTER TABLE "translation_sessions" ADD COLUMN "summary" TEXT`.execute(db);
+      await sql`ALTER TABLE "translation_sessions" ADD COLUMN "summaryChunkId" TEXT`.execute(db);
+
+      // 요약 갱신 주기 (완료된 청크 수, 0 = 사용 안 함) / 요약에 쓸 모델 (NULL = 번역 모델)
+      await sql`ALTER TABLE "translation_config" ADD COLUMN "summaryInterval" INTEGER NOT NULL DEFAULT 0`.execute(db);
+      await sql`ALTER TABLE "translation_config" ADD COLUMN "summaryModel" TEXT`.execute(db);
+    },
+  },
+  {
+    version: 20,
+    name: 'add_cost_confirm_threshold',
+    up: async db => {
+      // 예상 비용(USD)이 이 값을 넘으면 번역 시작 전에 확인 (0 = 확인 안 함)
+      await sql`ALTER TABLE "translation_config" ADD COLUMN "costConfirmThreshold" REAL NOT NULL DEFAULT 1`.execute(db);
+    },
+  },
+  {
+    version: 21,
+    name: 'add_usage_records',
+    up: async db => {
+      // usage_records 테이블 (Gemini API 호출마다 토큰 사용량, 세션이 삭제되어도 사용량은 남김)
+      await sql`
+        CREATE TABLE IF NOT EXISTS "usage_records" (
+          "id" TEXT NOT NULL PRIMARY KEY,
+          "sessionId" TEXT,
+          "chunkId" TEXT,
+          "model" TEXT NOT NULL,
+          "purpose" TEXT NOT NULL,
+          "promptTokens" INTEGER NOT NULL DEFAULT 0,
+          "completionTokens" INTEGER NOT NULL DEFAULT 0,
+          "thinkingTokens" INTEGER NOT NULL DEFAULT 0,
+          "totalTokens" INTEGER NOT NULL DEFAULT 0,
+          "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          CONSTRAINT "usage_records_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "translation_sessions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+        )
+      `.execute(db);
+
+      await sql`CREATE INDEX IF NOT EXISTS "usage_records_createdAt_idx" ON "usage_records"("createdAt")`.execute(db);
+      await sql`CREATE INDEX IF NOT EXISTS "usage_records_sessionId_idx" ON "usage_records"("sessionId")`.execute(db);
+    },
+  },
 ];
 
 //------------------------------------------------------------------------------
@@ -15,6 +15,12 @@ export interface Database {
   translation_config: TranslationConfigTable;
   translation_sessions: TranslationSessionTable;
   translation_chunks: TranslationChunkTable;
+  model_rate_limits: ModelRateLimitTable;
+  translation_queue: TranslationQueueTable;
+  translation_chunk_revisions: TranslationChunkRevisionTable;
+  glossary_entries: GlossaryEntryTable;
+  session_characters: SessionCharacterTable;
+  usage_records: UsageRecordTable;
   _migrations: MigrationTable;
 }
 
@@ -61,6 +67,20 @@ export interface TranslationConfigTable {
   maxOutputTokens: number | null;
   topP: number | null;
   topK: number | null;
+  concurrency: Generated<number>; // 동시 번역 청크 수
+  queueConcurrency: Generated<number>; // 대기열에서 동시에 번역할 세션 수
+  maxAttempts: Generated<number>; // 청크당 최대 시도 횟수 (자동 재시도 포함)
+  retryBaseDelayMs: Generated<number>;
+  retryMaxDelayMs: Generated<number>;
+  blockedFallback: Generated<string>; // skip | template | model
+  fallbackTemplateId: string | null; // blockedFallback = template일 때 사용할 템플릿
+  fallbackModel: string | null; // blockedFallback = model일 때 사용할 모델
+  qaAutoRetries: Generated<number>; // 품질 검사에 걸린 청크 자동 재번역 횟수 (0 = 사용 안 함)
+  glossaryCorrections: Generated<number>; // 용어를 지키지 않은 청크에 보낼 교정 요청 횟수 (0 = 사용 안 함)
+  translationMemory: Generated<string>; // off | reference (비슷한 번역만 참고) | reuse (같은 원문은 번역 재사용)
+  summaryInterval: Generated<number>; // 완료된 청크 몇 개마다 줄거리 요약을 갱신할지 (0 = 사용 안 함)
+  summaryModel: string | null; // 요약에 쓸 모델 (null = 번역 모델)
+  costConfirmThreshold: Generated<number>; // 예상 비용(USD)이 이 값을 넘으면 시작 전에 확인 (0 = 확인 안 함)
   updatedAt: string;
 }
 
@@ -82,6 +102,18 @@ export interface TranslationSessionTable {
   translatedText: string | null;
   status: Generated<string>; // draft | ready | translating | paused | completed | failed
   totalChunks: Generated<number>;
+  lastTemplateId: string | null; // 마지막으로 번역에 사용한 템플릿
+  // 세션별 설정 (NULL = 전역 설정 / 선택한 템플릿 사용)
+  model: string | null;
+  templateId: string | null;
+  chunkSize: number | null;
+  temperature: number | null;
+  maxOutputTokens: number | null;
+  topP: number | null;
+  topK: number | null;
+  postProcessRules: string | null; // 후처리 규칙 (YAML)
+  summary: string | null; // 지금까지의 줄거리 요약 (자동 갱신, 직접 수정 가능)
+  summaryChunkId: string | null; // 요약에 포함된 마지막 청크
   createdAt: Generated<string>;
   updatedAt: string;
 }
@@ -100,11 +132,18 @@ export interface TranslationChunkTable {
   order: number; // 청크 순서 (0부터)
   sourceText: string;
   translatedText: string | null;
-  status: Generated<string>; // pending | processing | completed | failed
+  status: Generated<string>; // pending | processing | completed | failed | blocked
   errorMessage: string | null;
   retryCount: Generated<number>;
   tokenCount: number | null;
   processingTime: number | null; // ms
+  currentRevisionId: string | null; // 현재 번역문의 리비전 (FK to translation_chunk_revisions)
+  manuallyEditedAt: string | null; // 번역문을 직접 수정한 시각 (NULL = 수정 안 함)
+  truncationRecovery: string | null; // continued (이어서 생성해 복구) | truncated (복구 실패) | NULL
+  blockReason: string | null; // 차단 사유 (SAFETY, PROHIBITED_CONTENT 등)
+  qaFlags: string | null; // 품질 검사에 걸린 항목 (쉼표로 구분, 예: length_ratio,repetition)
+  glossaryViolations: string | null; // 지키지 않은 용어 (GlossaryViolation 배열의 JSON, NULL = 문제 없음)
+  tmMatch: string | null; // exact | fuzzy | NULL (번역 메모리 적중 여부)
   createdAt: Generated<string>;
   updatedAt: string;
 }
@@ -113,6 +152,129 @@ export type TranslationChunk = Selectable<TranslationChunkTable>;
 export type NewTranslationChunk = Insertable<TranslationChunkTable>;
 export type TranslationChunkUpdate = Updateable<TranslationChunkTable>;
 
+//------------------------------------------------------------------------------
+// Model Rate Limit Table (모델별 요청 한도 재정의)
+//------------------------------------------------------------------------------
+
+export interface ModelRateLimitTable {
+  model: string; // 모델 ID
+  rpm: number | null; // NULL = 모델 기본값, 0 = 제한 없음
+  tpm: number | null;
+  rpd: number | null;
+  updatedAt: string;
+}
+
+export type ModelRateLimit = Selectable<ModelRateLimitTable>;
+export type NewModelRateLimit = Insertable<ModelRateLimitTable>;
+export type ModelRateLimitUpdate = Updateable<ModelRateLimitTable>;
+
+//------------------------------------------------------------------------------
+// Translation Queue Table (전역 번역 작업 대기열, 세션당 1개)
+//------------------------------------------------------------------------------
+
+export interface TranslationQueueTable {
+  sessionId: string; // PK, FK to translation_sessions
+  templateId: string;
+  position: number; // 낮을수록 먼저 실행
+  status: Generated<string>; // queued | running | paused | done | failed | canceled
+  errorMessage: string | null;
+  enqueuedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  updatedAt: string;
+}
+
+export type TranslationQueueItem = Selectable<TranslationQueueTable>;
+export type NewTranslationQueueItem = Insertable<TranslationQueueTable>;
+export type TranslationQueueItemUpdate = Updateable<TranslationQueueTable>;
+
+//------------------------------------------------------------------------------
+// Translation Chunk Revision Table (청크 번역 이력)
+//------------------------------------------------------------------------------
+
+export interface TranslationChunkRevisionTable {
+  id: string; // CUID
+  chunkId: string; // FK to translation_chunks
+  translatedText: string;
+  origin: string; // auto | retry | manual
+  model: string | null;
+  templateId: string | null;
+  generationConfig: string | null; // JSON (요청에 사용한 GeminiGenerationConfig)
+  promptTokens: number | null;
+  completionTokens: number | null;
+  totalTokens: number | null;
+  processingTime: number | null; // ms
+  createdAt: Generated<string>;
+}
+
+export type TranslationChunkRevision = Selectable<TranslationChunkRevisionTable>;
+export type NewTranslationChunkRevision = Insertable<TranslationChunkRevisionTable>;
+export type TranslationChunkRevisionUpdate = Updateable<TranslationChunkRevisionTable>;
+
+//------------------------------------------------------------------------------
+// Glossary Entry Table (용어집)
+//------------------------------------------------------------------------------
+
+export interface GlossaryEntryTable {
+  id: string; // CUID
+  sessionId: string | null; // FK to translation_sessions (NULL = 전역 용어)
+  sourceTerm: string;
+  targetTerm: string;
+  partOfSpeech: string | null;
+  notes: string | null;
+  caseSensitive: Generated<number>; // 0 | 1 (원문에서 용어를 찾을 때 대소문자 구분)
+  createdAt: Generated<string>;
+  updatedAt: string;
+}
+
+export type GlossaryEntry = Selectable<GlossaryEntryTable>;
+export type NewGlossaryEntry = Insertable<GlossaryEntryTable>;
+export type GlossaryEntryUpdate = Updateable<GlossaryEntryTable>;
+
+//------------------------------------------------------------------------------
+// Session Character Table (등장인물)
+//------------------------------------------------------------------------------
+
+export interface SessionCharacterTable {
+  id: string; // CUID
+  sessionId: string; // FK to translation_sessions
+  name: string; // 원문에서 쓰는 이름
+  aliases: Generated<string>; // JSON string[] (별명 / 호칭 등 원문에서 이 인물을 가리키는 다른 표기)
+  gender: string | null; // 'female' | 'male' | 'other'
+  role: string | null;
+  targetName: string | null; // 번역문에서 쓸 이름
+  defaultSpeechLevel: string | null; // 'formal' | 'polite' | 'casual' (다른 인물에게 기본으로 쓰는 말투)
+  speechLevels: Generated<string>; // JSON CharacterSpeechLevel[] (특정 인물에게 쓰는 말투)
+  notes: string | null;
+  createdAt: Generated<string>;
+  updatedAt: string;
+}
+
+export type SessionCharacter = Selectable<SessionCharacterTable>;
+export type NewSessionCharacter = Insertable<SessionCharacterTable>;
+export type SessionCharacterUpdate = Updateable<SessionCharacterTable>;
+
+//------------------------------------------------------------------------------
+// Usage Record Table (API 호출별 토큰 사용량)
+//------------------------------------------------------------------------------
+
+export interface UsageRecordTable {
+  id: string; // CUID
+  sessionId: string | null; // FK to translation_sessions (NULL = 세션과 무관한 호출 / 삭제된 세션)
+  chunkId: string | null; // 청크 번역 호출이면 청크 id (청크가 재청킹으로 사라져도 남김)
+  model: string;
+  purpose: string; // 'translation' | 'continuation' | 'glossaryCorrection' | 'summary' | 'glossaryExtraction' | 'other'
+  promptTokens: Generated<number>;
+  completionTokens: Generated<number>;
+  thinkingTokens: Generated<number>;
+  totalTokens: Generated<number>;
+  createdAt: Generated<string>;
+}
+
+export type UsageRecord = Selectable<UsageRecordTable>;
+export type NewUsageRecord = Insertable<UsageRecordTable>;
+export type UsageRecordUpdate = Updateable<UsageRecordTable>;
+
 //------------------------------------------------------------------------------
 // Migration Table (Internal)
 //------------------------------------------------------------------------------
@@ -0,0 +1,49 @@
+// ============================================
+// 요청 중단
+// ============================================
+
+/**
+ * AbortSignal로 작업이 중단되었을 때 발생하는 에러
+ *
+ * 실패가 아니므로 재시도하거나 청크를 failed로 기록하지 않습니다.
+ */
+export class RequestAbortedError extends Error {
+  constructor(message = 'Request aborted') {
+    super(message);
+    this.name = 'RequestAbortedError';
+  }
+}
+
+export function isAbortError(error: unknown): error is RequestAbortedError {
+  return error instanceof RequestAbortedError;
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new RequestAbortedError();
+  }
+}
+
+/**
+ * 중단 가능한 대기 (중단되면 즉시 RequestAbortedError로 reject)
+ */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestAbortedError());
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,8 +1,13 @@
 import { z } from 'zod';
-import axios, { AxiosError } from 'axios';
+import { Readable } from 'stream';
+import axios, { AxiosError, type AxiosResponse } from 'axios';
 import { logger } from '../utils/log';
+import { estimateTokenCount } from '../utils/tokenEstimate';
 import { getModelById, type ThinkingConfig } from '../config/models';
-import { db } from '../database/index';
+import { db, generateCuid, nowISOString } from '../database/index';
+import type { UsagePurpose } from '@shared/types';
+import { rateLimiter, type RateLimitTicket } from './rateLimiter';
+import { RequestAbortedError } from './abort';
 
 // ============================================
 // Gemini API 타입 정의 (Zod 스키마)
@@ -38,6 +43,7 @@ export const GeminiGenerationConfigSchema = z.object({
   topP: z.number().min(0).max(1).optional(),
   topK: z.number().int().positive().optional(),
   thinkingConfig: GeminiThinkingConfigSchema.optional(),
+  responseMimeType: z.enum(['text/plain', 'application/json']).optional(),
 });
 export type GeminiGenerationConfig = z.infer<typeof GeminiGenerationConfigSchema>;
 
@@ -73,16 +79,35 @@ export const GeminiCandidateContentSchema = z.object({
   role: z.literal('model'),
 });
 
+export const GeminiSafetyRatingSchema = z.object({
+  category: z.string(),
+  probability: z.string(),
+  blocked: z.boolean().optional(),
+});
+export type GeminiSafetyRating = z.infer<typeof GeminiSafetyRatingSchema>;
+
+// 안전 필터 등으로 프롬프트 자체가 차단되면 candidates 없이 blockReason만 옴
+export const GeminiPromptFeedbackSchema = z.object({
+  blockReason: z.string().optional(),
+  safetyRatings: z.array(GeminiSafetyRatingSchema).optional(),
+});
+export type GeminiPromptFeedback = z.infer<typeof GeminiPromptFeedbackSchema>;
+
 export const GeminiCandidateSchema = z.object({
-  content: GeminiCandidateContentSchema,
+  content: GeminiCandidateContentSchema.optional(), // 출력이 차단되면 content가 없을 수 있음
   finishReason: z.string(),
   index: z.number().int(),
+  safetyRatings: z.array(GeminiSafetyRatingSchema).optional(),
 });
 export type GeminiCandidate = z.infer<typeof GeminiCandidateSchema>;
 
+// 출력이 정책에 의해 차단된 경우의 finishReason
+export const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'RECITATION', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']);
+
 export const GeminiUsageMetadataSchema = z.object({
   promptTokenCount: z.number().int(),
   candidatesTokenCount: z.number().int(),
+  thoughtsTokenCount: z.number().int().optional(), // thinking 모델의 사고 토큰 (출력 토큰으로 과금, candidatesTokenCount에는 포함되지 않음)
   totalTokenCount: z.number().int(),
   promptTokensDetails: z
     .array(
@@ -96,23 +121,133 @@ export const GeminiUsageMetadataSchema = z.object({
 export type GeminiUsageMetadata = z.infer<typeof GeminiUsageMetadataSchema>;
 
 export const GeminiResponseSchema = z.object({
-  candidates: z.array(GeminiCandidateSchema),
+  candidates: z.array(GeminiCandidateSchema).default([]),
+  promptFeedback: GeminiPromptFeedbackSchema.optional(),
   usageMetadata: GeminiUsageMetadataSchema,
   modelVersion: z.string(),
   responseId: z.string(),
 });
 export type GeminiResponse = z.infer<typeof GeminiResponseSchema>;
 
+// 스트리밍 응답 조각 (SSE data 하나, 마지막 조각에만 finishReason / 전체 usageMetadata가 포함됨)
+export const GeminiStreamChunkSchema = z.object({
+  candidates: z
+    .array(
+      z.object({
+        content: z.object({ parts: z.array(GeminiPartSchema).optional() }).optional(),
+        finishReason: z.string().optional(),
+        safetyRatings: z.array(GeminiSafetyRatingSchema).optional(),
+      })
+    )
+    .optional(),
+  promptFeedback: GeminiPromptFeedbackSchema.optional(),
+  usageMetadata: GeminiUsageMetadataSchema.partial().optional(),
+  modelVersion: z.string().optional(),
+  responseId: z.string().optional(),
+});
+export type GeminiStreamChunk = z.infer<typeof GeminiStreamChunkSchema>;
+
+// countTokens 응답
+export const GeminiCountTokensResponseSchema = z.object({
+  totalTokens: z.number().int(),
+});
+export type GeminiCountTokensResponse = z.infer<typeof GeminiCountTokensResponseSchema>;
+
 // 에러 응답 타입
 export const GeminiErrorResponseSchema = z.object({
   error: z.object({
     code: z.number(),
     message: z.string(),
     status: z.string(),
+    details: z
+      .array(
+        z.looseObject({
+          '@type': z.string(),
+          retryDelay: z.string().optional(), // google.rpc.RetryInfo (예: "17s")
+        })
+      )
+      .optional(),
   }),
 });
 export type GeminiErrorResponse = z.infer<typeof GeminiErrorResponseSchema>;
 
+/**
+ * 에러 응답의 RetryInfo에서 재시도 대기 시간(ms) 추출
+ */
+function parseRetryDelay(error: GeminiErrorResponse['error']): number | undefined {
+  const retryDelay = error.details?.find(d => d.retryDelay !== undefined)?.retryDelay;
+  const seconds = retryDelay ? parseFloat(retryDelay) : NaN;
+  return Number.isFinite(seconds) ? Math.ceil(seconds * 1000) : undefined;
+}
+
+/**
+ * SSE 스트림에서 data 필드를 이벤트 단위로 꺼냄
+ */
+async function* readServerSentEvents(stream: Readable): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  const takeLine = (line: string): string | null => {
+    if (line === '') {
+      const event = data.length > 0 ? data.join('\n') : null;
+      data = [];
+      return event;
+    }
+    if (line.startsWith('data:')) {
+      data.push(line.slice(5).trimStart());
+    }
+    return null;
+  };
+
+  for await (const chunk of stream) {
+    buffer += decoder.decode(chunk as Buffer, { stream: true });
+
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const event = takeLine(buffer.slice(0, newline).replace(/\r$/, ''));
+      buffer = buffer.slice(newline + 1);
+      if (event !== null) {
+        yield event;
+      }
+      newline = buffer.indexOf('\n');
+    }
+  }
+
+  // 마지막 줄바꿈 없이 끝난 이벤트
+  const rest = (buffer + decoder.decode()).replace(/\r$/, '');
+  if (rest !== '') {
+    takeLine(rest);
+  }
+  const last = takeLine('');
+  if (last !== null) {
+    yield last;
+  }
+}
+
+/**
+ * 스트림으로 받은 에러 응답 본문을 JSON으로 읽음 (파싱 실패 시 원문 문자열)
+ */
+async function readStreamAsJson(stream: Readable): Promise<unknown> {
+  let body = '';
+  try {
+    for await (const chunk of stream) {
+      body += chunk.toString();
+    }
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * 요청의 입력 토큰 수 추정 (요청 한도 계산용)
+ */
+export function estimateRequestTokens(request: GeminiRequest): number {
+  const parts = [...request.contents.flatMap(c => c.parts), ...(request.systemInstruction?.parts ?? [])];
+  return parts.reduce((sum, part) => sum + estimateTokenCount(part.text), 0);
+}
+
 // ============================================
 // 기본 Safety Settings (모든 카테고리 BLOCK_NONE)
 // ============================================
@@ -136,6 +271,31 @@ export interface GeminiClientConfig {
   safetySettings?: GeminiSafetySetting[];
 }
 
+export interface GeminiRequestOptions {
+  signal?: AbortSignal; // 중단 시 요청 대기 / 전송을 즉시 취소 (RequestAbortedError)
+  usage?: GeminiUsageContext; // 사용량 기록에 남길 호출 정보 (없으면 purpose = other)
+}
+
+// 사용량 기록 (usage_records)에 함께 남기는 호출 정보
+export interface GeminiUsageContext {
+  purpose: UsagePurpose;
+  sessionId?: string | null;
+  chunkId?: string | null;
+}
+
+export interface GeminiStreamOptions extends GeminiRequestOptions {
+  /** 새로 생성된 텍스트 조각과 지금까지 누적된 전체 텍스트 */
+  onDelta?: (delta: string, text: string) => void;
+}
+
+// 요청 하나의 로깅 / 에러 변환에 쓰이는 정보
+interface RequestContext {
+  requestId: string;
+  startTime: number;
+  endpoint: string; // API 키를 제외한 URL
+  request: GeminiRequest; // 기본값 병합 및 검증을 마친 요청
+}
+
 const DEFAULT_MODEL = 'gemini-2.5-flash';
 const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
 
@@ -162,6 +322,10 @@ export class GeminiClient {
     return this.model;
   }
 
+  get generationConfig(): GeminiGenerationConfig {
+    return this.defaultGenerationConfig;
+  }
+
   /**
    * 모델의 thinkingConfig를 Gemini API 형식으로 변환
    */
@@ -174,14 +338,9 @@ export class GeminiClient {
   }
 
   /**
-   * Gemini API 호출
+   * 기본값 병합 및 요청 검증 (safetySettings, generationConfig 기본값, 모델별 thinkingConfig 적용)
    */
-  async generateContent(request: GeminiRequest): Promise<GeminiResponse> {
-    const requestId = crypto.randomUUID();
-    const startTime = Date.now();
-    const url = `${GEMINI_API_BASE}/${this.model}:generateContent?key=${this.apiKey}`;
-    const urlWithoutKey = `${GEMINI_API_BASE}/${this.model}:generateContent`;
-
+  private buildRequest(request: GeminiRequest): GeminiRequest {
     // 모델 정보에서 thinkingConfig 가져오기
     const modelInfo = getModelById(this.model);
     const thinkingConfig = modelInfo?.thinkingConfig ? this.buildThinkingConfig(modelInfo.thinkingConfig) : undefined;
@@ -199,133 +358,412 @@ export class GeminiClient {
     };
 
     // 요청 검증
-    const validatedRequest = GeminiRequestSchema.parse(mergedRequest);
+    return GeminiRequestSchema.parse(mergedRequest);
+  }
+
+  /**
+   * 요청 로깅 후 요청 한도 슬롯 확보 (한도가 찼으면 자리가 날 때까지 대기열에서 기다림)
+   */
+  private async beginRequest(context: RequestContext, signal?: AbortSignal): Promise<RateLimitTicket> {
+    const { requestId, endpoint, request } = context;
 
-    // 요청 로깅
     logger.info('external_api', 'Gemini API request started', {
       requestId,
       provider: 'gemini',
       model: this.model,
-      endpoint: urlWithoutKey,
+      endpoint,
       method: 'POST',
       request: {
-        contentsLength: validatedRequest.contents.length,
-        contents: validatedRequest.contents,
-        generationConfig: validatedRequest.generationConfig,
-        safetySettings: validatedRequest.safetySettings,
-        systemInstruction: validatedRequest.systemInstruction,
+        contentsLength: request.contents.length,
+        contents: request.contents,
+        generationConfig: request.generationConfig,
+        safetySettings: request.safetySettings,
+        systemInstruction: request.systemInstruction,
       },
       timestamp: new Date().toISOString(),
     });
 
-    try {
-      const response = await axios.post<GeminiResponse>(url, validatedRequest, {
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        timeout: 120000, // 2분 타임아웃
+    const ticket = await rateLimiter.acquire(this.model, estimateRequestTokens(request), signal);
+    if (ticket.waitedMs > 0) {
+      logger.debug('external_api', 'Gemini API request delayed by rate limiter', {
+        requestId,
+        model: this.model,
+        waitedMs: ticket.waitedMs,
       });
+    }
 
-      const endTime = Date.now();
-      const durationMs = endTime - startTime;
+    return ticket;
+  }
 
-      // 응답 검증
-      const validatedResponse = GeminiResponseSchema.parse(response.data);
+  /**
+   * 성공 응답 로깅
+   */
+  private logSuccess(
+    context: RequestContext,
+    response: GeminiResponse,
+    http: Pick<AxiosResponse, 'status' | 'statusText' | 'headers'>
+  ): void {
+    logger.info('external_api', 'Gemini API request successful', {
+      requestId: context.requestId,
+      provider: 'gemini',
+      model: this.model,
+      endpoint: context.endpoint,
+      method: 'POST',
+      httpStatus: http.status,
+      httpStatusText: http.statusText,
+      durationMs: Date.now() - context.startTime,
+      response: {
+        modelVersion: response.modelVersion,
+        responseId: response.responseId,
+        candidatesCount: response.candidates.length,
+        candidates: response.candidates,
+        finishReason: response.candidates[0]?.finishReason,
+        blockReason: response.promptFeedback?.blockReason,
+      },
+      usage: {
+        promptTokenCount: response.usageMetadata.promptTokenCount,
+        candidatesTokenCount: response.usageMetadata.candidatesTokenCount,
+        thoughtsTokenCount: response.usageMetadata.thoughtsTokenCount,
+        totalTokenCount: response.usageMetadata.totalTokenCount,
+        promptTokensDetails: response.usageMetadata.promptTokensDetails,
+      },
+      responseHeaders: {
+        contentType: http.headers['content-type'],
+        contentLength: http.headers['content-length'],
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * 응답의 토큰 사용량을 usage_records에 기록 (차단된 응답도 과금되므로 차단 여부와 무관하게 기록)
+   *
+   * 기록 실패가 번역을 막지 않도록 기다리지 않고, 실패하면 경고만 남깁니다.
+   */
+  private recordUsage(context: RequestContext, response: GeminiResponse, usage: GeminiUsageContext | undefined): void {
+    const { promptTokens, completionTokens, thinkingTokens, totalTokens } = this.extractUsage(response);
+
+    db.insertInto('usage_records')
+      .values({
+        id: generateCuid(),
+        sessionId: usage?.sessionId ?? null,
+        chunkId: usage?.chunkId ?? null,
+        model: this.model,
+        purpose: usage?.purpose ?? 'other',
+        promptTokens,
+        completionTokens,
+        thinkingTokens,
+        totalTokens,
+        createdAt: nowISOString(),
+      })
+      .execute()
+      .catch(error => {
+        logger.warn('database', 'Failed to record Gemini API usage', {
+          requestId: context.requestId,
+          model: this.model,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
+  /**
+   * 프롬프트나 출력이 안전 필터 등으로 차단되었으면 GeminiBlockedError를 던짐
+   */
+  private assertNotBlocked(context: RequestContext, response: GeminiResponse): void {
+    const candidate = response.candidates[0];
+    const reason =
+      response.promptFeedback?.blockReason ??
+      (candidate ? (BLOCKED_FINISH_REASONS.has(candidate.finishReason) ? candidate.finishReason : undefined) : 'NO_CANDIDATES');
+
+    if (!reason) {
+      return;
+    }
+
+    const safetyRatings = (candidate?.safetyRatings ?? response.promptFeedback?.safetyRatings ?? []).filter(
+      r => r.blocked || r.probability === 'HIGH' || r.probability === 'MEDIUM'
+    );
+
+    logger.warn('external_api', 'Gemini API response blocked', {
+      requestId: context.requestId,
+      provider: 'gemini',
+      model: this.model,
+      reason,
+      safetyRatings,
+      timestamp: new Date().toISOString(),
+    });
+
+    throw new GeminiBlockedError(reason, safetyRatings);
+  }
+
+  /**
+   * 실패한 요청을 로깅하고 호출 측에서 다룰 에러로 변환
+   */
+  private toRequestError(error: unknown, context: RequestContext, signal?: AbortSignal): Error {
+    const { requestId, endpoint, request } = context;
+    const durationMs = Date.now() - context.startTime;
+
+    // 차단 응답은 assertNotBlocked에서 이미 기록함
+    if (error instanceof GeminiBlockedError) {
+      return error;
+    }
 
-      // 성공 응답 로깅
-      logger.info('external_api', 'Gemini API request successful', {
+    // 호출 측에서 중단한 경우 (일시 정지 / 취소 / 세션 삭제)
+    if (axios.isCancel(error) || signal?.aborted) {
+      logger.info('external_api', 'Gemini API request aborted', {
         requestId,
         provider: 'gemini',
         model: this.model,
-        endpoint: urlWithoutKey,
+        endpoint,
+        durationMs,
+        timestamp: new Date().toISOString(),
+      });
+      return new RequestAbortedError();
+    }
+
+    if (error instanceof AxiosError) {
+      const errorData = error.response?.data;
+
+      // Gemini API 에러 응답 파싱 시도
+      const parsed = GeminiErrorResponseSchema.safeParse(errorData);
+
+      // 에러 로깅
+      logger.error('external_api', 'Gemini API request failed', {
+        requestId,
+        provider: 'gemini',
+        model: this.model,
+        endpoint,
         method: 'POST',
-        httpStatus: response.status,
-        httpStatusText: response.statusText,
         durationMs,
-        response: {
-          modelVersion: validatedResponse.modelVersion,
-          responseId: validatedResponse.responseId,
-          candidatesCount: validatedResponse.candidates.length,
-          candidates: validatedResponse.candidates,
-          finishReason: validatedResponse.candidates[0]?.finishReason,
-        },
-        usage: {
-          promptTokenCount: validatedResponse.usageMetadata.promptTokenCount,
-          candidatesTokenCount: validatedResponse.usageMetadata.candidatesTokenCount,
-          totalTokenCount: validatedResponse.usageMetadata.totalTokenCount,
-          promptTokensDetails: validatedResponse.usageMetadata.promptTokensDetails,
+        error: {
+          type: 'AxiosError',
+          code: error.code,
+          message: error.message,
+          httpStatus: error.response?.status,
+          httpStatusText: error.response?.statusText,
+          responseData: errorData,
+          parsedError: parsed.success ? parsed.data.error : null,
         },
-        responseHeaders: {
-          contentType: response.headers['content-type'],
-          contentLength: response.headers['content-length'],
+        request: {
+          contentsLength: request.contents.length,
+          generationConfig: request.generationConfig,
         },
         timestamp: new Date().toISOString(),
       });
 
+      if (parsed.success) {
+        return new GeminiAPIError(
+          parsed.data.error.message,
+          parsed.data.error.code,
+          parsed.data.error.status,
+          parseRetryDelay(parsed.data.error)
+        );
+      }
+
+      // 응답 없이 끊긴 경우 (타임아웃 / 네트워크 오류)
+      if (!error.response) {
+        const isTimeout = error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT;
+        return new GeminiAPIError(error.message, isTimeout ? 504 : 503, isTimeout ? 'DEADLINE_EXCEEDED' : 'UNAVAILABLE');
+      }
+
+      // 일반 HTTP 에러
+      return new GeminiAPIError(error.message, error.response.status, 'UNKNOWN_ERROR');
+    }
+
+    // Zod 검증 에러 등
+    logger.error('external_api', 'Gemini API request failed (non-HTTP error)', {
+      requestId,
+      provider: 'gemini',
+      model: this.model,
+      endpoint,
+      method: 'POST',
+      durationMs,
+      error: {
+        type: error instanceof Error ? error.constructor.name : 'Unknown',
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      request: {
+        contentsLength: request.contents.length,
+        generationConfig: request.generationConfig,
+      },
+      timestamp: new Date().toISOString(),
+    });
+
+    return error instanceof Error ? error : new Error(String(error));
+  }
+
+  /**
+   * Gemini API 호출
+   */
+  async generateContent(request: GeminiRequest, options: GeminiRequestOptions = {}): Promise<GeminiResponse> {
+    const { signal } = options;
+    const url = `${GEMINI_API_BASE}/${this.model}:generateContent?key=${this.apiKey}`;
+    const context: RequestContext = {
+      requestId: crypto.randomUUID(),
+      startTime: Date.now(),
+      endpoint: `${GEMINI_API_BASE}/${this.model}:generateContent`,
+      request: this.buildRequest(request),
+    };
+
+    const ticket = await this.beginRequest(context, signal);
+
+    try {
+      const response = await axios.post<GeminiResponse>(url, context.request, {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        timeout: 120000, // 2분 타임아웃
+        signal,
+      });
+
+      // 응답 검증
+      const validatedResponse = GeminiResponseSchema.parse(response.data);
+      ticket.settle(validatedResponse.usageMetadata.promptTokenCount);
+
+      this.logSuccess(context, validatedResponse, response);
+      this.recordUsage(context, validatedResponse, options.usage);
+      this.assertNotBlocked(context, validatedResponse);
+
       return validatedResponse;
     } catch (error) {
-      const endTime = Date.now();
-      const durationMs = endTime - startTime;
+      throw this.toRequestError(error, context, signal);
+    }
+  }
 
-      if (error instanceof AxiosError) {
-        const errorData = error.response?.data;
+  /**
+   * Gemini API 스트리밍 호출 (SSE)
+   *
+   * 생성된 텍스트를 받는 즉시 onDelta로 전달하고, 스트림이 끝나면 조각들을 합쳐 generateContent와 같은 형태의 응답을 반환합니다.
+   */
+  async streamGenerateContent(request: GeminiRequest, options: GeminiStreamOptions = {}): Promise<GeminiResponse> {
+    const { signal, onDelta } = options;
+    const url = `${GEMINI_API_BASE}/${this.model}:streamGenerateContent?alt=sse&key=${this.apiKey}`;
+    const context: RequestContext = {
+      requestId: crypto.randomUUID(),
+      startTime: Date.now(),
+      endpoint: `${GEMINI_API_BASE}/${this.model}:streamGenerateContent`,
+      request: this.buildRequest(request),
+    };
 
-        // Gemini API 에러 응답 파싱 시도
-        const parsed = GeminiErrorResponseSchema.safeParse(errorData);
+    const ticket = await this.beginRequest(context, signal);
 
-        // 에러 로깅
-        logger.error('external_api', 'Gemini API request failed', {
-          requestId,
-          provider: 'gemini',
-          model: this.model,
-          endpoint: urlWithoutKey,
-          method: 'POST',
-          durationMs,
-          error: {
-            type: 'AxiosError',
-            code: error.code,
-            message: error.message,
-            httpStatus: error.response?.status,
-            httpStatusText: error.response?.statusText,
-            responseData: errorData,
-            parsedError: parsed.success ? parsed.data.error : null,
-          },
-          request: {
-            contentsLength: validatedRequest.contents.length,
-            generationConfig: validatedRequest.generationConfig,
-          },
-          timestamp: new Date().toISOString(),
-        });
+    try {
+      const response = await axios.post<Readable>(url, context.request, {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        responseType: 'stream',
+        timeout: 120000, // 2분 타임아웃
+        signal,
+      });
 
-        if (parsed.success) {
-          throw new GeminiAPIError(parsed.data.error.message, parsed.data.error.code, parsed.data.error.status);
+      let text = '';
+      let finishReason: string | undefined;
+      let safetyRatings: GeminiSafetyRating[] | undefined;
+      let promptFeedback: GeminiPromptFeedback | undefined;
+      let usageMetadata: GeminiStreamChunk['usageMetadata'];
+      let modelVersion = '';
+      let responseId = '';
+
+      for await (const data of readServerSentEvents(response.data)) {
+        const chunk = GeminiStreamChunkSchema.parse(JSON.parse(data));
+        const candidate = chunk.candidates?.[0];
+        const delta = candidate?.content?.parts?.map(part => part.text).join('') ?? '';
+
+        if (delta) {
+          text += delta;
+          onDelta?.(delta, text);
         }
 
-        // 일반 HTTP 에러
-        throw new GeminiAPIError(error.message, error.response?.status ?? 500, 'UNKNOWN_ERROR');
+        finishReason = candidate?.finishReason ?? finishReason;
+        safetyRatings = candidate?.safetyRatings ?? safetyRatings;
+        promptFeedback = chunk.promptFeedback ?? promptFeedback;
+        usageMetadata = chunk.usageMetadata ?? usageMetadata;
+        modelVersion = chunk.modelVersion ?? modelVersion;
+        responseId = chunk.responseId ?? responseId;
       }
 
-      // Zod 검증 에러 등
-      logger.error('external_api', 'Gemini API request failed (non-HTTP error)', {
-        requestId,
-        provider: 'gemini',
-        model: this.model,
-        endpoint: urlWithoutKey,
-        method: 'POST',
-        durationMs,
-        error: {
-          type: error instanceof Error ? error.constructor.name : 'Unknown',
-          message: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined,
-        },
-        request: {
-          contentsLength: validatedRequest.contents.length,
-          generationConfig: validatedRequest.generationConfig,
+      // 응답 검증 (조각들을 하나의 응답으로 합침)
+      // 프롬프트가 차단되면 후보 없이 promptFeedback만 옴
+      const isPromptBlocked = Boolean(promptFeedback?.blockReason) && !text && !finishReason;
+
+      // finishReason 없이 스트림이 끝났으면 연결이 중간에 끊긴 것이므로 일부만 받은 텍스트를 완료로 돌려주지 않고 재시도
+      if (!isPromptBlocked && !finishReason) {
+        throw new GeminiAPIError('Stream ended before the response finished', 503, 'UNAVAILABLE');
+      }
+      const validatedResponse = GeminiResponseSchema.parse({
+        candidates: isPromptBlocked
+          ? []
+          : [
+              {
+                content: { role: 'model', parts: [{ text }] },
+                finishReason,
+                index: 0,
+                safetyRatings,
+              },
+            ],
+        promptFeedback,
+        usageMetadata: {
+          promptTokenCount: usageMetadata?.promptTokenCount ?? 0,
+          candidatesTokenCount: usageMetadata?.candidatesTokenCount ?? 0,
+          thoughtsTokenCount: usageMetadata?.thoughtsTokenCount,
+          totalTokenCount: usageMetadata?.totalTokenCount ?? 0,
+          promptTokensDetails: usageMetadata?.promptTokensDetails,
         },
-        timestamp: new Date().toISOString(),
+        modelVersion,
+        responseId,
       });
+      ticket.settle(validatedResponse.usageMetadata.promptTokenCount);
+
+      this.logSuccess(context, validatedResponse, response);
+      this.recordUsage(context, validatedResponse, options.usage);
+      this.assertNotBlocked(context, validatedResponse);
+
+      return validatedResponse;
+    } catch (error) {
+      // 스트림 응답의 에러 본문은 스트림이므로 JSON으로 읽어둔 뒤 변환
+      if (error instanceof AxiosError && error.response?.data instanceof Readable) {
+        error.response.data = await readStreamAsJson(error.response.data);
+      }
+      throw this.toRequestError(error, context, signal);
+    }
+  }
+
+  /**
+   * 요청의 입력 토큰 수 (countTokens 엔드포인트, 생성 요청이 아니므로 요청 한도를 쓰지 않음)
+   */
+  async countTokens(request: GeminiRequest, options: GeminiRequestOptions = {}): Promise<number> {
+    const { signal } = options;
+    const url = `${GEMINI_API_BASE}/${this.model}:countTokens?key=${this.apiKey}`;
+    const context: RequestContext = {
+      requestId: crypto.randomUUID(),
+      startTime: Date.now(),
+      endpoint: `${GEMINI_API_BASE}/${this.model}:countTokens`,
+      request: this.buildRequest(request),
+    };
+
+    try {
+      const response = await axios.post<GeminiCountTokensResponse>(
+        url,
+        {
+          generateContentRequest: {
+            model: `models/${this.model}`,
+            contents: context.request.contents,
+            systemInstruction: context.request.systemInstruction,
+          },
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          timeout: 30000,
+          signal,
+        }
+      );
 
-      throw error;
+      return GeminiCountTokensResponseSchema.parse(response.data).totalTokens;
+    } catch (error) {
+      throw this.toRequestError(error, context, signal);
     }
   }
 
@@ -333,7 +771,14 @@ export class GeminiClient {
    * 텍스트 추출 헬퍼
    */
   extractText(response: GeminiResponse): string {
-    return response.candidates[0]?.content.parts[0]?.text ?? '';
+    return response.candidates[0]?.content?.parts[0]?.text ?? '';
+  }
+
+  /**
+   * 출력 토큰 한도(maxOutputTokens)에 걸려 응답이 잘렸는지
+   */
+  isTruncated(response: GeminiResponse): boolean {
+    return response.candidates[0]?.finishReason === 'MAX_TOKENS';
   }
 
   /**
@@ -342,11 +787,13 @@ export class GeminiClient {
   extractUsage(response: GeminiResponse): {
     promptTokens: number;
     completionTokens: number;
+    thinkingTokens: number;
     totalTokens: number;
   } {
     return {
       promptTokens: response.usageMetadata.promptTokenCount,
       completionTokens: response.usageMetadata.candidatesTokenCount,
+      thinkingTokens: response.usageMetadata.thoughtsTokenCount ?? 0,
       totalTokens: response.usageMetadata.totalTokenCount,
     };
   }
@@ -360,13 +807,28 @@ export class GeminiAPIError extends Error {
   constructor(
     message: string,
     public readonly code: number,
-    public readonly status: string
+    public readonly status: string,
+    public readonly retryDelayMs?: number // 서버가 제안한 재시도 대기 시간
   ) {
     super(message);
     this.name = 'GeminiAPIError';
   }
 }
 
+/**
+ * 프롬프트 또는 출력이 차단된 경우 (같은 요청을 다시 보내도 결과가 같으므로 재시도하지 않음)
+ */
+export class GeminiBlockedError extends Error {
+  constructor(
+    public readonly reason: string, // promptFeedback.blockReason 또는 finishReason (SAFETY, RECITATION 등)
+    public readonly safetyRatings: GeminiSafetyRating[] = []
+  ) {
+    const categories = safetyRatings.map(r => r.category.replace('HARM_CATEGORY_', '')).join(', ');
+    super(`Blocked by Gemini: ${reason}${categories ? ` (${categories})` : ''}`);
+    this.name = 'GeminiBlockedError';
+  }
+}
+
 // ============================================
 // 싱글톤 인스턴스
 // ============================================
@@ -1 +1,4 @@
 export * from './gemini';
+export * from './retry';
+export * from './abort';
+export * from './rateLimiter';
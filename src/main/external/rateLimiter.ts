@@ -0,0 +1,250 @@
+import { getModelById, type RateLimits } from '../config/models';
+import { RequestAbortedError } from './abort';
+
+// ============================================
+// 타입 정의
+// ============================================
+
+export interface RateLimitStatus {
+  model: string;
+  queued: number; // 한도 때문에 대기 중인 요청 수
+  requestsLastMinute: number;
+  tokensLastMinute: number;
+  requestsToday: number;
+  limits: RateLimits;
+}
+
+export interface RateLimitTicket {
+  waitedMs: number;
+  /** 실제 사용한 입력 토큰 수로 추정치를 보정 */
+  settle: (actualTokens: number) => void;
+}
+
+interface RequestRecord {
+  time: number;
+  tokens: number;
+}
+
+interface Waiter {
+  tokens: number;
+  resolve: (record: RequestRecord) => void;
+}
+
+interface ModelBucket {
+  history: RequestRecord[]; // 최근 24시간 동안 보낸 요청 (오래된 순)
+  waiters: Waiter[]; // FIFO 대기열
+  timer: NodeJS.Timeout | null;
+}
+
+type StatusListener = (status: RateLimitStatus[]) => void;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// ============================================
+// 요청 한도 제한기
+// ============================================
+
+/**
+ * 모델별 RPM / TPM / RPD 한도를 지키도록 Gemini 요청을 대기열에 넣는 제한기
+ *
+ * 슬라이딩 윈도우 방식으로 최근 요청 기록을 보고, 한도가 찼으면 가장 오래된 기록이 윈도우를 벗어날 때까지 기다립니다.
+ */
+class RateLimiter {
+  private readonly buckets = new Map<string, ModelBucket>();
+  private readonly overrides = new Map<string, Partial<RateLimits>>();
+  private readonly listeners = new Set<StatusListener>();
+
+  /**
+   * 사용자 재정의 한도 설정 (null 필드는 모델 기본값 사용)
+   */
+  setOverrides(model: string, overrides: Partial<RateLimits>): void {
+    this.overrides.set(model, overrides);
+    if (this.buckets.has(model)) {
+      this.drain(model);
+    }
+  }
+
+  /**
+   * 모델의 실제 적용 한도 (사용자 재정의 > 모델 기본값)
+   */
+  getLimits(model: string): RateLimits {
+    const defaults = getModelById(model)?.rateLimits;
+    const overrides = this.overrides.get(model);
+
+    return {
+      rpm: overrides?.rpm ?? defaults?.rpm ?? null,
+      tpm: overrides?.tpm ?? defaults?.tpm ?? null,
+      rpd: overrides?.rpd ?? defaults?.rpd ?? null,
+    };
+  }
+
+  /**
+   * 요청 슬롯 확보 (한도가 찼으면 자리가 날 때까지 대기)
+   *
+   * @param model 모델 ID
+   * @param estimatedTokens 요청의 예상 입력 토큰 수
+   * @param signal 중단되면 대기열에서 빠지고 RequestAbortedError로 reject
+   */
+  async acquire(model: string, estimatedTokens: number, signal?: AbortSignal): Promise<RateLimitTicket> {
+    const bucket = this.getBucket(model);
+    const startedAt = Date.now();
+
+    const record = await new Promise<RequestRecord>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestAbortedError());
+        return;
+      }
+
+      const waiter: Waiter = {
+        tokens: estimatedTokens,
+        resolve: record => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(record);
+        },
+      };
+
+      const onAbort = () => {
+        const index = bucket.waiters.indexOf(waiter);
+        if (index !== -1) {
+          bucket.waiters.splice(index, 1);
+          this.drain(model);
+        }
+        reject(new RequestAbortedError());
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      bucket.waiters.push(waiter);
+      this.drain(model);
+    });
+
+    return {
+      waitedMs: Date.now() - startedAt,
+      settle: actualTokens => {
+        record.tokens = actualTokens;
+      },
+    };
+  }
+
+  /**
+   * 모델별 현재 상태
+   */
+  getStatus(): RateLimitStatus[] {
+    const now = Date.now();
+
+    return [...this.buckets.entries()].map(([model, bucket]) => {
+      const recent = bucket.history.filter(r => r.time > now - MINUTE_MS);
+      return {
+        model,
+        queued: bucket.waiters.length,
+        requestsLastMinute: recent.length,
+        tokensLastMinute: recent.reduce((sum, r) => sum + r.tokens, 0),
+        requestsToday: bucket.history.length,
+        limits: this.getLimits(model),
+      };
+    });
+  }
+
+  /**
+   * 상태 변경 리스너 등록
+   */
+  onStatusChange(listener: StatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getBucket(model: string): ModelBucket {
+    let bucket = this.buckets.get(model);
+    if (!bucket) {
+      bucket = { history: [], waiters: [], timer: null };
+      this.buckets.set(model, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * 대기열 앞에서부터 한도 안에 들어오는 요청을 통과시키고, 막히면 자리가 날 시점에 다시 시도
+   */
+  private drain(model: string): void {
+    const bucket = this.getBucket(model);
+
+    if (bucket.timer) {
+      clearTimeout(bucket.timer);
+      bucket.timer = null;
+    }
+
+    while (bucket.waiters.length > 0) {
+      const waitMs = this.getWaitTime(model, bucket, bucket.waiters[0].tokens);
+
+      if (waitMs > 0) {
+        bucket.timer = setTimeout(() => {
+          bucket.timer = null;
+          this.drain(model);
+        }, waitMs);
+        break;
+      }
+
+      const waiter = bucket.waiters.shift();
+      if (!waiter) {
+        break;
+      }
+
+      const record: RequestRecord = { time: Date.now(), tokens: waiter.tokens };
+      bucket.history.push(record);
+      waiter.resolve(record);
+    }
+
+    this.notify();
+  }
+
+  /**
+   * 다음 요청을 보내기까지 기다려야 하는 시간(ms) 계산
+   */
+  private getWaitTime(model: string, bucket: ModelBucket, tokens: number): number {
+    const now = Date.now();
+    const { rpm, tpm, rpd } = this.getLimits(model);
+
+    // 24시간이 지난 기록 정리
+    while (bucket.history.length > 0 && bucket.history[0].time <= now - DAY_MS) {
+      bucket.history.shift();
+    }
+
+    const recent = bucket.history.filter(r => r.time > now - MINUTE_MS);
+    let waitMs = 0;
+
+    if (rpm && recent.length >= rpm) {
+      waitMs = Math.max(waitMs, recent[recent.length - rpm].time + MINUTE_MS - now);
+    }
+
+    if (tpm && recent.length > 0) {
+      // 한도보다 큰 단일 요청은 윈도우가 완전히 빌 때까지 기다린 뒤 보냄
+      let used = recent.reduce((sum, r) => sum + r.tokens, 0);
+      for (const record of recent) {
+        if (used + tokens <= tpm) {
+          break;
+        }
+        used -= record.tokens;
+        waitMs = Math.max(waitMs, record.time + MINUTE_MS - now);
+      }
+    }
+
+    if (rpd && bucket.history.length >= rpd) {
+      waitMs = Math.max(waitMs, bucket.history[bucket.history.length - rpd].time + DAY_MS - now);
+    }
+
+    return waitMs;
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) {
+      return;
+    }
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+// 싱글톤 인스턴스
+export const rateLimiter = new RateLimiter();
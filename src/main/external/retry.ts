@@ -0,0 +1,89 @@
+import { GeminiAPIError } from './gemini';
+import { abortableSleep, throwIfAborted } from './abort';
+
+// ============================================
+// 재시도 정책
+// ============================================
+
+export interface RetryPolicy {
+  maxAttempts: number; // 첫 시도를 포함한 최대 시도 횟수
+  baseDelayMs: number; // 첫 재시도 대기 시간 (이후 2배씩 증가)
+  maxDelayMs: number; // 지수 백오프 상한
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+};
+
+// 일시적인 장애로 간주하는 HTTP 코드 / Google RPC 상태
+const RETRYABLE_HTTP_CODES = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_STATUSES = new Set(['RESOURCE_EXHAUSTED', 'INTERNAL', 'UNAVAILABLE', 'DEADLINE_EXCEEDED']);
+
+// ============================================
+// 에러 분류
+// ============================================
+
+/**
+ * 재시도하면 성공할 가능성이 있는 에러인지 판단
+ *
+ * 인증 실패, 잘못된 요청 등은 몇 번을 다시 보내도 같은 결과이므로 즉시 실패로 처리합니다.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof GeminiAPIError)) {
+    return false;
+  }
+  return RETRYABLE_STATUSES.has(error.status) || RETRYABLE_HTTP_CODES.has(error.code);
+}
+
+/**
+ * 다음 재시도까지 대기할 시간 계산
+ *
+ * 서버가 retryDelay 힌트를 준 경우 그 값을 우선하고, 없으면 지수 백오프에 지터(50~100%)를 적용합니다.
+ */
+export function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number {
+  if (error instanceof GeminiAPIError && error.retryDelayMs !== undefined) {
+    return error.retryDelayMs + Math.floor(Math.random() * 1000);
+  }
+
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(exponential * (0.5 + Math.random() * 0.5));
+}
+
+// ============================================
+// 재시도 실행
+// ============================================
+
+export interface RetryOptions {
+  policy: RetryPolicy;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void | Promise<void>;
+  signal?: AbortSignal; // 중단되면 대기 중이던 재시도도 즉시 취소
+}
+
+/**
+ * 재시도 가능한 에러가 발생하면 정책에 따라 작업을 다시 실행
+ *
+ * @param operation 실행할 작업 (1부터 시작하는 시도 번호를 전달받음)
+ * @returns 작업 결과 (마지막 시도까지 실패하면 마지막 에러를 그대로 throw)
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { policy, onRetry, signal } = options;
+  const maxAttempts = Math.max(1, policy.maxAttempts);
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(error, attempt, policy);
+      await onRetry?.(error, attempt, delayMs);
+      await abortableSleep(delayMs, signal);
+    }
+  }
+}
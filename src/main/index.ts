@@ -3,6 +3,7 @@ import { join } from 'path';
 import { electronApp, optimizer, is } from '@electron-toolkit/utils';
 import { initializeDatabase, disconnectDatabase } from './database/client';
 import { registerIpcHandlers } from './ipc';
+import { recoverInterruptedSessions } from './services/recovery';
 
 // 앱 아이콘 경로 (플랫폼별)
 const getIconPath = (): string => {
@@ -61,6 +62,9 @@ app.whenReady().then(async () => {
   // Initialize database
   await initializeDatabase();
 
+  // 이전 실행에서 번역 도중 종료된 세션 복구
+  await recoverInterruptedSessions();
+
   // Register IPC handlers (로거 초기화 포함 - DB 준비 전 큐에 쌓인 로그들 flush)
   await registerIpcHandlers();
 
@@ -15,31 +15,69 @@ import {
   deleteSession,
   getSessionChunks,
   getSessionChunksPaginated,
+  previewPostProcess,
   // File operations
   uploadFileAndChunk,
   getTranslationForDownload,
   // Translation
   startTranslation,
-  translateAllPendingChunks,
+  previewRechunk,
+  estimateTranslationCost,
   getTranslationProgress,
   getPartialTranslation,
   retryFailedChunk,
   translateChunk,
   pauseTranslation,
-  resumeTranslation,
+  prepareRetranslation,
+  updateChunkText,
+  // Chunk revisions
+  listChunkRevisions,
+  promoteChunkRevision,
+  // Chunk split / merge
+  splitChunk,
+  mergeChunkWithNext,
 } from '../services/translation';
+import { translationQueue } from '../services/translationQueue';
 import { templateService } from '../services/templateService';
+import { takeRecoveryReport } from '../services/recovery';
+import { initializeRateLimits, listRateLimitOverrides, updateRateLimitOverrides } from '../services/rateLimits';
+import {
+  listGlossaryEntries,
+  createGlossaryEntry,
+  updateGlossaryEntry,
+  deleteGlossaryEntry,
+  importGlossaryCsv,
+  exportGlossaryCsv,
+  getGlossaryReport,
+  addGlossaryEntries,
+} from '../services/glossary';
+import { extractGlossaryCandidates, cancelGlossaryExtraction } from '../services/glossaryExtraction';
+import { listSessionCharacters, createSessionCharacter, updateSessionCharacter, deleteSessionCharacter } from '../services/characters';
 import { initializeLogger, getLogs, getLogStats, deleteLogs, cleanupOldLogs } from '../services/logs';
+import { getUsageSummary, exportUsageCsv } from '../services/usage';
 import { GEMINI_MODELS } from '../config/models';
 import { getGeminiClient, getGeminiClientAsync } from '../external/gemini';
-import { calculateProgress } from '../services/translationEvents';
+import { rateLimiter } from '../external/rateLimiter';
+import { calculateProgress, emitRateLimitStatus } from '../services/translationEvents';
 import type {
   CreateSessionRequest,
   UpdateSessionRequest,
   UpdateTranslationConfigRequest,
+  UpdateRateLimitsRequest,
+  EnqueueTranslationRequest,
+  ReorderQueueRequest,
+  UpdateChunkTextRequest,
+  RetranslateSessionRequest,
+  CreateGlossaryEntryRequest,
+  UpdateGlossaryEntryRequest,
+  AddGlossaryEntriesRequest,
+  CreateSessionCharacterRequest,
+  UpdateSessionCharacterRequest,
+  ExtractGlossaryRequest,
   GetLogsRequest,
   DeleteLogsRequest,
   LogSettings,
+  GetUsageRequest,
 } from '@shared/types';
 
 // 로그 설정 (메모리 저장)
@@ -58,6 +96,13 @@ export async function registerIpcHandlers(): Promise<void> {
   // 템플릿 서비스 초기화
   templateService.initialize();
 
+  // 요청 한도 재정의 로드 및 대기열 상태를 renderer로 전달
+  await initializeRateLimits();
+  rateLimiter.onStatusChange(emitRateLimitStatus);
+
+  // 이전 실행에서 남은 번역 대기열 재개
+  await translationQueue.initialize();
+
   // ============================================
   // Settings
   // ============================================
@@ -114,6 +159,110 @@ export async function registerIpcHandlers(): Promise<void> {
     return GEMINI_MODELS;
   });
 
+  // ============================================
+  // Rate Limits
+  // ============================================
+
+  ipcMain.handle('rate-limits:list', async () => {
+    return listRateLimitOverrides();
+  });
+
+  ipcMain.handle('rate-limits:update', async (_event, model: string, data: UpdateRateLimitsRequest) => {
+    return updateRateLimitOverrides(model, data);
+  });
+
+  ipcMain.handle('rate-limits:status', async () => {
+    return rateLimiter.getStatus();
+  });
+
+  // ============================================
+  // Translation Queue
+  // ============================================
+
+  ipcMain.handle('queue:list', async () => {
+    return translationQueue.list();
+  });
+
+  ipcMain.handle('queue:enqueue', async (_event, data: EnqueueTranslationRequest) => {
+    return translationQueue.enqueue(data.sessionId, data.templateId);
+  });
+
+  ipcMain.handle('queue:remove', async (_event, sessionId: string) => {
+    return translationQueue.remove(sessionId);
+  });
+
+  ipcMain.handle('queue:reorder', async (_event, sessionIds: ReorderQueueRequest) => {
+    return translationQueue.reorder(sessionIds);
+  });
+
+  ipcMain.handle('queue:clear-finished', async () => {
+    return translationQueue.clearFinished();
+  });
+
+  // ============================================
+  // Glossary
+  // ============================================
+
+  ipcMain.handle('glossary:list', async (_event, sessionId: string | null) => {
+    return listGlossaryEntries(sessionId);
+  });
+
+  ipcMain.handle('glossary:create', async (_event, data: CreateGlossaryEntryRequest) => {
+    return createGlossaryEntry(data);
+  });
+
+  ipcMain.handle('glossary:update', async (_event, id: string, data: UpdateGlossaryEntryRequest) => {
+    return updateGlossaryEntry(id, data);
+  });
+
+  ipcMain.handle('glossary:delete', async (_event, id: string) => {
+    return deleteGlossaryEntry(id);
+  });
+
+  ipcMain.handle('glossary:import-csv', async (_event, sessionId: string | null, content: string) => {
+    return importGlossaryCsv(sessionId, content);
+  });
+
+  ipcMain.handle('glossary:export-csv', async (_event, sessionId: string | null) => {
+    return exportGlossaryCsv(sessionId);
+  });
+
+  ipcMain.handle('glossary:report', async (_event, sessionId: string) => {
+    return getGlossaryReport(sessionId);
+  });
+
+  ipcMain.handle('glossary:add-many', async (_event, sessionId: string, entries: AddGlossaryEntriesRequest) => {
+    return addGlossaryEntries(sessionId, entries);
+  });
+
+  ipcMain.handle('glossary:extract', async (_event, sessionId: string, data: ExtractGlossaryRequest) => {
+    return extractGlossaryCandidates(sessionId, data);
+  });
+
+  ipcMain.handle('glossary:cancel-extract', async (_event, sessionId: string) => {
+    return cancelGlossaryExtraction(sessionId);
+  });
+
+  // ============================================
+  // Characters
+  // ============================================
+
+  ipcMain.handle('characters:list', async (_event, sessionId: string) => {
+    return listSessionCharacters(sessionId);
+  });
+
+  ipcMain.handle('characters:create', async (_event, sessionId: string, data: CreateSessionCharacterRequest) => {
+    return createSessionCharacter(sessionId, data);
+  });
+
+  ipcMain.handle('characters:update', async (_event, id: string, data: UpdateSessionCharacterRequest) => {
+    return updateSessionCharacter(id, data);
+  });
+
+  ipcMain.handle('characters:delete', async (_event, id: string) => {
+    return deleteSessionCharacter(id);
+  });
+
   // ============================================
   // Templates
   // ============================================
@@ -146,7 +295,10 @@ export async function registerIpcHandlers(): Promise<void> {
   });
 
   ipcMain.handle('config:update', async (_event, data: UpdateTranslationConfigRequest) => {
-    return updateTranslationConfig(data);
+    const config = await updateTranslationConfig(data);
+    // 동시 실행 세션 수가 늘었으면 대기 중인 항목 시작
+    await translationQueue.schedule();
+    return config;
   });
 
   // ============================================
@@ -170,7 +322,9 @@ export async function registerIpcHandlers(): Promise<void> {
   });
 
   ipcMain.handle('sessions:delete', async (_event, id: string) => {
-    return deleteSession(id);
+    await deleteSession(id);
+    // 대기열 항목은 세션과 함께 삭제되므로 변경된 대기열 상태를 알림
+    await translationQueue.schedule();
   });
 
   ipcMain.handle('sessions:get-chunks', async (_event, id: string) => {
@@ -181,6 +335,10 @@ export async function registerIpcHandlers(): Promise<void> {
     return getSessionChunksPaginated(id, options);
   });
 
+  ipcMain.handle('sessions:preview-postprocess', async (_event, id: string, rules: string | null) => {
+    return previewPostProcess(id, rules);
+  });
+
   ipcMain.handle('sessions:upload-file', async (_event, sessionId: string, fileName: string, content: string) => {
     return uploadFileAndChunk({
       sessionId,
@@ -201,18 +359,22 @@ export async function registerIpcHandlers(): Promise<void> {
     return startTranslation({ sessionId, sourceText });
   });
 
+  ipcMain.handle('translation:preview-rechunk', async (_event, sessionId: string, sourceText: string) => {
+    return previewRechunk(sessionId, sourceText);
+  });
+
+  ipcMain.handle('translation:estimate-cost', async (_event, sessionId: string, templateId: string) => {
+    return estimateTranslationCost(sessionId, { templateId });
+  });
+
   ipcMain.handle('translation:translate-all', async (_event, sessionId: string, templateId: string) => {
-    // 비동기로 실행 (결과는 IPC 이벤트로 전달)
-    translateAllPendingChunks(sessionId, { templateId }).catch(error => {
-      // 에러를 renderer에 전달
-      BrowserWindow.getAllWindows().forEach(win => {
-        win.webContents.send('translation:error', {
-          type: 'error',
-          sessionId,
-          message: error instanceof Error ? error.message : 'Unknown error',
-        });
-      });
-    });
+    // 대기열에 추가 (실행 결과는 IPC 이벤트로 전달)
+    return translationQueue.enqueue(sessionId, templateId);
+  });
+
+  ipcMain.handle('translation:retranslate-all', async (_event, sessionId: string, data: RetranslateSessionRequest) => {
+    await prepareRetranslation(sessionId, { force: data.force });
+    await translationQueue.enqueue(sessionId, data.templateId);
   });
 
   ipcMain.handle('translation:get-progress', async (_event, sessionId: string) => {
@@ -231,12 +393,40 @@ export async function registerIpcHandlers(): Promise<void> {
     return translateChunk(chunkId, { templateId });
   });
 
+  ipcMain.handle('translation:update-chunk-text', async (_event, chunkId: string, data: UpdateChunkTextRequest) => {
+    return updateChunkText(chunkId, data.translatedText);
+  });
+
+  ipcMain.handle('chunks:list-revisions', async (_event, chunkId: string) => {
+    return listChunkRevisions(chunkId);
+  });
+
+  ipcMain.handle('chunks:promote-revision', async (_event, chunkId: string, revisionId: string) => {
+    return promoteChunkRevision(chunkId, revisionId);
+  });
+
+  ipcMain.handle('chunks:split', async (_event, chunkId: string, position: number) => {
+    return splitChunk(chunkId, position);
+  });
+
+  ipcMain.handle('chunks:merge-next', async (_event, chunkId: string) => {
+    return mergeChunkWithNext(chunkId);
+  });
+
   ipcMain.handle('translation:pause', async (_event, sessionId: string) => {
     return pauseTranslation(sessionId);
   });
 
+  ipcMain.handle('translation:cancel', async (_event, sessionId: string) => {
+    return translationQueue.cancel(sessionId);
+  });
+
   ipcMain.handle('translation:resume', async (_event, sessionId: string, templateId: string) => {
-    return resumeTranslation(sessionId, { templateId });
+    return translationQueue.resume(sessionId, templateId);
+  });
+
+  ipcMain.handle('translation:get-recovery-report', async () => {
+    return takeRecoveryReport();
   });
 
   ipcMain.handle('translation:subscribe', async (_event, sessionId: string) => {
@@ -304,6 +494,18 @@ export async function registerIpcHandlers(): Promise<void> {
     return { success: true, deletedCount };
   });
 
+  // ============================================
+  // Usage
+  // ============================================
+
+  ipcMain.handle('usage:get-summary', async (_event, params?: GetUsageRequest) => {
+    return getUsageSummary(params ?? {});
+  });
+
+  ipcMain.handle('usage:export-csv', async (_event, params?: GetUsageRequest) => {
+    return exportUsageCsv(params ?? {});
+  });
+
   // ============================================
   // Dialog helpers
   // ============================================
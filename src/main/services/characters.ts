@@ -0,0 +1,237 @@
+import { db, generateCuid, nowISOString } from '../database/index';
+import type { SessionCharacter } from '../database/index';
+import {
+  CharacterGenderSchema,
+  SpeechLevelSchema,
+  type SessionCharacter as SessionCharacterDto,
+  type CreateSessionCharacterRequest,
+  type UpdateSessionCharacterRequest,
+  type CharacterSpeechLevel,
+  type CharacterGender,
+  type SpeechLevel,
+} from '@shared/types';
+import type { CharacterProfile } from '../translation/characters';
+
+// ============================================
+// 등장인물 (세션별)
+// ============================================
+
+const MAX_NAME_LENGTH = 200;
+
+function parseJsonArray<T>(value: string): T[] {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function toSessionCharacterDto(character: SessionCharacter): SessionCharacterDto {
+  return {
+    ...character,
+    aliases: parseJsonArray<string>(character.aliases),
+    gender: character.gender as CharacterGender | null,
+    defaultSpeechLevel: character.defaultSpeechLevel as SpeechLevel | null,
+    speechLevels: parseJsonArray<CharacterSpeechLevel>(character.speechLevels),
+  };
+}
+
+function optionalText(value: string | null | undefined): string | null {
+  return value?.trim() || null;
+}
+
+function requireName(value: string | undefined): string {
+  const name = value?.trim() ?? '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw Object.assign(new Error(`Name must be 1-${MAX_NAME_LENGTH} characters`), { statusCode: 400 });
+  }
+  return name;
+}
+
+function optionalEnum<T extends string>(value: T | null | undefined, options: readonly T[], field: string): T | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (!options.includes(value)) {
+    throw Object.assign(new Error(`Invalid ${field}: ${value}`), { statusCode: 400 });
+  }
+  return value;
+}
+
+/**
+ * 별명 정리 (공백 제거, 빈 값 / 이름과 같은 값 / 중복 제외)
+ */
+function normalizeAliases(aliases: string[], name: string): string {
+  const unique = new Set(aliases.map(alias => alias.trim()).filter(alias => alias && alias !== name && alias.length <= MAX_NAME_LENGTH));
+  return JSON.stringify([...unique]);
+}
+
+/**
+ * 인물별 말투 정리 (같은 세션의 다른 인물만, 인물마다 하나씩, 그 외는 건너뜀)
+ */
+async function normalizeSpeechLevels(sessionId: string, characterId: string | null, speechLevels: CharacterSpeechLevel[]): Promise<string> {
+  const characters = await db.selectFrom('session_characters').select('id').where('sessionId', '=', sessionId).execute();
+  const validIds = new Set(characters.map(character => character.id).filter(id => id !== characterId));
+
+  const levels = new Map<string, SpeechLevel>();
+  for (const { characterId: towardId, level } of speechLevels) {
+    if (validIds.has(towardId) && SpeechLevelSchema.options.includes(level)) {
+      levels.set(towardId, level);
+    }
+  }
+
+  return JSON.stringify([...levels].map(([towardId, level]) => ({ characterId: towardId, level })));
+}
+
+async function assertSessionExists(sessionId: string): Promise<void> {
+  const session = await db.selectFrom('translation_sessions').select('id').where('id', '=', sessionId).executeTakeFirst();
+  if (!session) {
+    throw Object.assign(new Error('Session not found'), { statusCode: 404 });
+  }
+}
+
+async function assertUniqueName(sessionId: string, name: string, excludeId?: string): Promise<void> {
+  let query = db.selectFrom('session_characters').select('id').where('sessionId', '=', sessionId).where('name', '=', name);
+  if (excludeId) {
+    query = query.where('id', '!=', excludeId);
+  }
+
+  if (await query.executeTakeFirst()) {
+    throw Object.assign(new Error(`Character already exists: ${name}`), { statusCode: 409 });
+  }
+}
+
+export async function listSessionCharacters(sessionId: string): Promise<SessionCharacterDto[]> {
+  const characters = await db
+    .selectFrom('session_characters')
+    .selectAll()
+    .where('sessionId', '=', sessionId)
+    .orderBy('createdAt', 'asc')
+    .orderBy('name', 'asc')
+    .execute();
+  return characters.map(toSessionCharacterDto);
+}
+
+export async function createSessionCharacter(sessionId: string, data: CreateSessionCharacterRequest): Promise<SessionCharacterDto> {
+  const name = requireName(data.name);
+
+  await assertSessionExists(sessionId);
+  await assertUniqueName(sessionId, name);
+
+  const now = nowISOString();
+  const character = await db
+    .insertInto('session_characters')
+    .values({
+      id: generateCuid(),
+      sessionId,
+      name,
+      aliases: normalizeAliases(data.aliases ?? [], name),
+      gender: optionalEnum(data.gender, CharacterGenderSchema.options, 'gender'),
+      role: optionalText(data.role),
+      targetName: optionalText(data.targetName),
+      defaultSpeechLevel: optionalEnum(data.defaultSpeechLevel, SpeechLevelSchema.options, 'speech level'),
+      speechLevels: await normalizeSpeechLevels(sessionId, null, data.speechLevels ?? []),
+      notes: optionalText(data.notes),
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  return toSessionCharacterDto(character);
+}
+
+export async function updateSessionCharacter(id: string, data: UpdateSessionCharacterRequest): Promise<SessionCharacterDto> {
+  const existing = await db.selectFrom('session_characters').selectAll().where('id', '=', id).executeTakeFirst();
+  if (!existing) {
+    throw Object.assign(new Error('Character not found'), { statusCode: 404 });
+  }
+
+  const name = data.name !== undefined ? requireName(data.name) : existing.name;
+  if (name !== existing.name) {
+    await assertUniqueName(existing.sessionId, name, id);
+  }
+
+  // 이름이 바뀌면 기존 별명에서도 새 이름을 빼야 하므로 별명은 항상 다시 정리
+  const aliases = data.aliases ?? parseJsonArray<string>(existing.aliases);
+
+  const character = await db
+    .updateTable('session_characters')
+    .set({
+      name,
+      aliases: normalizeAliases(aliases, name),
+      ...(data.gender !== undefined && { gender: optionalEnum(data.gender, CharacterGenderSchema.options, 'gender') }),
+      ...(data.role !== undefined && { role: optionalText(data.role) }),
+      ...(data.targetName !== undefined && { targetName: optionalText(data.targetName) }),
+      ...(data.defaultSpeechLevel !== undefined && {
+        defaultSpeechLevel: optionalEnum(data.defaultSpeechLevel, SpeechLevelSchema.options, 'speech level'),
+      }),
+      ...(data.speechLevels !== undefined && {
+        speechLevels: await normalizeSpeechLevels(existing.sessionId, id, data.speechLevels),
+      }),
+      ...(data.notes !== undefined && { notes: optionalText(data.notes) }),
+      updatedAt: nowISOString(),
+    })
+    .where('id', '=', id)
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  return toSessionCharacterDto(character);
+}
+
+/**
+ * 인물 삭제 (다른 인물의 말투 설정에서도 이 인물을 제거)
+ */
+export async function deleteSessionCharacter(id: string): Promise<void> {
+  await db.transaction().execute(async trx => {
+    const deleted = await trx.deleteFrom('session_characters').where('id', '=', id).returning('sessionId').executeTakeFirst();
+    if (!deleted) {
+      return;
+    }
+
+    const others = await trx
+      .selectFrom('session_characters')
+      .select(['id', 'speechLevels'])
+      .where('sessionId', '=', deleted.sessionId)
+      .execute();
+
+    for (const other of others) {
+      const speechLevels = parseJsonArray<CharacterSpeechLevel>(other.speechLevels);
+      const remaining = speechLevels.filter(speechLevel => speechLevel.characterId !== id);
+      if (remaining.length !== speechLevels.length) {
+        await trx
+          .updateTable('session_characters')
+          .set({ speechLevels: JSON.stringify(remaining) })
+          .where('id', '=', other.id)
+          .execute();
+      }
+    }
+  });
+}
+
+// ============================================
+// 번역에 사용할 인물 정보
+// ============================================
+
+/**
+ * 프롬프트용 인물 정보 (말투 상대는 이름으로 변환)
+ */
+export async function getCharacterProfiles(sessionId: string): Promise<CharacterProfile[]> {
+  const characters = await listSessionCharacters(sessionId);
+  const namesById = new Map(characters.map(character => [character.id, character.name]));
+
+  return characters.map(character => ({
+    name: character.name,
+    aliases: character.aliases,
+    gender: character.gender,
+    role: character.role,
+    targetName: character.targetName,
+    defaultSpeechLevel: character.defaultSpeechLevel,
+    speechLevels: character.speechLevels.flatMap(({ characterId, level }) => {
+      const toward = namesById.get(characterId);
+      return toward ? [{ toward, level }] : [];
+    }),
+    notes: character.notes,
+  }));
+}
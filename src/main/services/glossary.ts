@@ -0,0 +1,339 @@
+import type { Kysely } from 'kysely';
+import { db, generateCuid, nowISOString } from '../database/index';
+import type { GlossaryEntry, Database } from '../database/index';
+import type {
+  GlossaryEntry as GlossaryEntryDto,
+  CreateGlossaryEntryRequest,
+  UpdateGlossaryEntryRequest,
+  GlossaryImportResult,
+  AddGlossaryEntriesRequest,
+  GlossaryReport,
+  GlossaryReportTerm,
+} from '@shared/types';
+import { checkGlossaryUsage, type GlossaryTerm } from '../translation/glossary';
+import { parseCsv, stringifyCsv } from '../utils/index';
+
+// ============================================
+// 용어집 (sessionId가 null이면 전역 용어)
+// ============================================
+
+const MAX_TERM_LENGTH = 200;
+
+// CSV 열 순서 (가져올 때 첫 행이 이 이름들을 포함하면 헤더로 보고 열 이름으로 매칭)
+const CSV_COLUMNS = ['sourceTerm', 'targetTerm', 'partOfSpeech', 'notes', 'caseSensitive'] as const;
+
+function toGlossaryEntryDto(entry: GlossaryEntry): GlossaryEntryDto {
+  return {
+    ...entry,
+    caseSensitive: entry.caseSensitive === 1,
+  };
+}
+
+function optionalText(value: string | null | undefined): string | null {
+  return value?.trim() || null;
+}
+
+function requireTerm(value: string | undefined, field: string): string {
+  const term = value?.trim() ?? '';
+  if (!term || term.length > MAX_TERM_LENGTH) {
+    throw Object.assign(new Error(`${field} must be 1-${MAX_TERM_LENGTH} characters`), { statusCode: 400 });
+  }
+  return term;
+}
+
+function scopeQuery(sessionId: string | null, executor: Kysely<Database> = db) {
+  const query = executor.selectFrom('glossary_entries');
+  return sessionId === null ? query.where('sessionId', 'is', null) : query.where('sessionId', '=', sessionId);
+}
+
+async function assertSessionExists(sessionId: string | null): Promise<void> {
+  if (sessionId === null) {
+    return;
+  }
+
+  const session = await db.selectFrom('translation_sessions').select('id').where('id', '=', sessionId).executeTakeFirst();
+  if (!session) {
+    throw Object.assign(new Error('Session not found'), { statusCode: 404 });
+  }
+}
+
+async function assertUniqueSourceTerm(sessionId: string | null, sourceTerm: string, excludeId?: string): Promise<void> {
+  let query = scopeQuery(sessionId).select('id').where('sourceTerm', '=', sourceTerm);
+  if (excludeId) {
+    query = query.where('id', '!=', excludeId);
+  }
+
+  if (await query.executeTakeFirst()) {
+    throw Object.assign(new Error(`Glossary term already exists: ${sourceTerm}`), { statusCode: 409 });
+  }
+}
+
+export async function listGlossaryEntries(sessionId: string | null): Promise<GlossaryEntryDto[]> {
+  const entries = await scopeQuery(sessionId).selectAll().orderBy('sourceTerm', 'asc').execute();
+  return entries.map(toGlossaryEntryDto);
+}
+
+export async function createGlossaryEntry(data: CreateGlossaryEntryRequest): Promise<GlossaryEntryDto> {
+  const sourceTerm = requireTerm(data.sourceTerm, 'Source term');
+  const targetTerm = requireTerm(data.targetTerm, 'Target term');
+
+  await assertSessionExists(data.sessionId);
+  await assertUniqueSourceTerm(data.sessionId, sourceTerm);
+
+  const now = nowISOString();
+  const entry = await db
+    .insertInto('glossary_entries')
+    .values({
+      id: generateCuid(),
+      sessionId: data.sessionId,
+      sourceTerm,
+      targetTerm,
+      partOfSpeech: optionalText(data.partOfSpeech),
+      notes: optionalText(data.notes),
+      caseSensitive: data.caseSensitive ? 1 : 0,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  return toGlossaryEntryDto(entry);
+}
+
+export async function updateGlossaryEntry(id: string, data: UpdateGlossaryEntryRequest): Promise<GlossaryEntryDto> {
+  const existing = await db.selectFrom('glossary_entries').selectAll().where('id', '=', id).executeTakeFirst();
+  if (!existing) {
+    throw Object.assign(new Error('Glossary entry not found'), { statusCode: 404 });
+  }
+
+  const sourceTerm = data.sourceTerm !== undefined ? requireTerm(data.sourceTerm, 'Source term') : undefined;
+  if (sourceTerm !== undefined && sourceTerm !== existing.sourceTerm) {
+    await assertUniqueSourceTerm(existing.sessionId, sourceTerm, id);
+  }
+
+  const entry = await db
+    .updateTable('glossary_entries')
+    .set({
+      ...(sourceTerm !== undefined && { sourceTerm }),
+      ...(data.targetTerm !== undefined && { targetTerm: requireTerm(data.targetTerm, 'Target term') }),
+      ...(data.partOfSpeech !== undefined && { partOfSpeech: optionalText(data.partOfSpeech) }),
+      ...(data.notes !== undefined && { notes: optionalText(data.notes) }),
+      ...(data.caseSensitive !== undefined && { caseSensitive: data.caseSensitive ? 1 : 0 }),
+      updatedAt: nowISOString(),
+    })
+    .where('id', '=', id)
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  return toGlossaryEntryDto(entry);
+}
+
+export async function deleteGlossaryEntry(id: string): Promise<void> {
+  await db.deleteFrom('glossary_entries').where('id', '=', id).execute();
+}
+
+// ============================================
+// 여러 용어 한 번에 추가 (CSV 가져오기 / 추출 결과 검토)
+// ============================================
+
+type GlossaryEntryInput = AddGlossaryEntriesRequest[number];
+
+/**
+ * 원문 용어가 같은 항목은 덮어쓰고, 원문 / 번역어가 비어 있거나 너무 긴 항목은 건너뜀
+ */
+async function upsertGlossaryEntries(sessionId: string | null, inputs: GlossaryEntryInput[]): Promise<GlossaryImportResult> {
+  const result: GlossaryImportResult = { added: 0, updated: 0, skipped: 0 };
+  const now = nowISOString();
+
+  await db.transaction().execute(async trx => {
+    const existing = await scopeQuery(sessionId, trx).select(['id', 'sourceTerm']).execute();
+    const idsBySourceTerm = new Map(existing.map(entry => [entry.sourceTerm, entry.id]));
+
+    for (const input of inputs) {
+      const sourceTerm = input.sourceTerm.trim();
+      const targetTerm = input.targetTerm.trim();
+
+      if (!sourceTerm || !targetTerm || sourceTerm.length > MAX_TERM_LENGTH || targetTerm.length > MAX_TERM_LENGTH) {
+        result.skipped++;
+        continue;
+      }
+
+      const values = {
+        targetTerm,
+        partOfSpeech: optionalText(input.partOfSpeech),
+        notes: optionalText(input.notes),
+        caseSensitive: input.caseSensitive ? 1 : 0,
+        updatedAt: now,
+      };
+
+      const existingId = idsBySourceTerm.get(sourceTerm);
+      if (existingId) {
+        await trx.updateTable('glossary_entries').set(values).where('id', '=', existingId).execute();
+        result.updated++;
+      } else {
+        const id = generateCuid();
+        await trx
+          .insertInto('glossary_entries')
+          .values({ id, sessionId, sourceTerm, ...values, createdAt: now })
+          .execute();
+        idsBySourceTerm.set(sourceTerm, id);
+        result.added++;
+      }
+    }
+  });
+
+  return result;
+}
+
+/**
+ * 검토한 용어 후보를 세션 용어집에 추가
+ */
+export async function addGlossaryEntries(sessionId: string, entries: AddGlossaryEntriesRequest): Promise<GlossaryImportResult> {
+  await assertSessionExists(sessionId);
+  return await upsertGlossaryEntries(sessionId, entries);
+}
+
+// ============================================
+// CSV 가져오기 / 내보내기
+// ============================================
+
+function parseBoolean(value: string | undefined): boolean {
+  return ['1', 'true', 'yes', 'y'].includes((value ?? '').trim().toLowerCase());
+}
+
+/**
+ * CSV로 용어 가져오기
+ *
+ * 같은 범위에 원문 용어가 같은 항목이 있으면 덮어쓰고, 원문 / 번역어가 비어 있는 행은 건너뜁니다.
+ */
+export async function importGlossaryCsv(sessionId: string | null, content: string): Promise<GlossaryImportResult> {
+  await assertSessionExists(sessionId);
+
+  const rows = parseCsv(content);
+  const header = rows[0]?.map(value => value.trim().toLowerCase()) ?? [];
+  const hasHeader = CSV_COLUMNS.slice(0, 2).every(column => header.includes(column.toLowerCase()));
+  const columnIndex = Object.fromEntries(
+    CSV_COLUMNS.map((column, index) => [column, hasHeader ? header.indexOf(column.toLowerCase()) : index])
+  ) as Record<(typeof CSV_COLUMNS)[number], number>;
+
+  const inputs = (hasHeader ? rows.slice(1) : rows).map(row => {
+    const field = (column: (typeof CSV_COLUMNS)[number]) => (columnIndex[column] >= 0 ? row[columnIndex[column]] : undefined);
+    return {
+      sourceTerm: field('sourceTerm') ?? '',
+      targetTerm: field('targetTerm') ?? '',
+      partOfSpeech: field('partOfSpeech'),
+      notes: field('notes'),
+      caseSensitive: parseBoolean(field('caseSensitive')),
+    };
+  });
+
+  return await upsertGlossaryEntries(sessionId, inputs);
+}
+
+/**
+ * 용어집을 CSV로 내보내기 (Excel에서 열 수 있도록 BOM 포함)
+ */
+export async function exportGlossaryCsv(sessionId: string | null): Promise<{ fileName: string; content: string }> {
+  const entries = await listGlossaryEntries(sessionId);
+
+  let fileName = 'glossary.csv';
+  if (sessionId !== null) {
+    const session = await db.selectFrom('translation_sessions').select('title').where('id', '=', sessionId).executeTakeFirst();
+    if (!session) {
+      throw Object.assign(new Error('Session not found'), { statusCode: 404 });
+    }
+    fileName = `${session.title}_glossary.csv`;
+  }
+
+  const rows = entries.map(entry => [
+    entry.sourceTerm,
+    entry.targetTerm,
+    entry.partOfSpeech ?? '',
+    entry.notes ?? '',
+    entry.caseSensitive ? 'true' : 'false',
+  ]);
+
+  return { fileName, content: '\uFEFF' + stringifyCsv([[...CSV_COLUMNS], ...rows]) };
+}
+
+// ============================================
+// 번역에 사용할 용어
+// ============================================
+
+/**
+ * 세션에 적용되는 용어 (세션 용어 + 전역 용어, 원문 용어가 같으면 세션 용어 우선)
+ */
+export async function getGlossaryTerms(sessionId: string): Promise<GlossaryTerm[]> {
+  const entries = await db
+    .selectFrom('glossary_entries')
+    .selectAll()
+    .where(eb => eb.or([eb('sessionId', '=', sessionId), eb('sessionId', 'is', null)]))
+    .execute();
+
+  const terms = new Map<string, GlossaryTerm>();
+  for (const entry of entries) {
+    if (entry.sessionId === null && terms.has(entry.sourceTerm)) {
+      continue;
+    }
+    terms.set(entry.sourceTerm, {
+      sourceTerm: entry.sourceTerm,
+      targetTerm: entry.targetTerm,
+      partOfSpeech: entry.partOfSpeech,
+      notes: entry.notes,
+      caseSensitive: entry.caseSensitive === 1,
+    });
+  }
+
+  return [...terms.values()];
+}
+
+// ============================================
+// 용어 준수 보고서
+// ============================================
+
+/**
+ * 세션의 완료된 청크를 현재 용어집으로 다시 검사해 용어별로 모은 보고서
+ *
+ * 청크에 저장된 검사 결과는 번역 당시의 용어집 기준이므로, 용어를 고친 뒤에도 맞도록 매번 새로 검사합니다.
+ */
+export async function getGlossaryReport(sessionId: string): Promise<GlossaryReport> {
+  await assertSessionExists(sessionId);
+
+  const terms = await getGlossaryTerms(sessionId);
+  const chunks = await db
+    .selectFrom('translation_chunks')
+    .select(['order', 'sourceText', 'translatedText'])
+    .where('sessionId', '=', sessionId)
+    .where('status', '=', 'completed')
+    .orderBy('order', 'asc')
+    .execute();
+
+  const report = new Map<string, GlossaryReportTerm>();
+  let violatingChunks = 0;
+
+  for (const chunk of chunks) {
+    const violations = checkGlossaryUsage(terms, chunk.sourceText, chunk.translatedText ?? '');
+    if (violations.length > 0) {
+      violatingChunks++;
+    }
+
+    for (const violation of violations) {
+      const entry = report.get(violation.sourceTerm) ?? {
+        sourceTerm: violation.sourceTerm,
+        targetTerm: violation.targetTerm,
+        missing: 0,
+        untranslated: 0,
+        chunkOrders: [],
+      };
+      entry[violation.kind]++;
+      entry.chunkOrders.push(chunk.order);
+      report.set(violation.sourceTerm, entry);
+    }
+  }
+
+  return {
+    checkedChunks: chunks.length,
+    violatingChunks,
+    terms: [...report.values()].sort((a, b) => b.chunkOrders.length - a.chunkOrders.length || a.sourceTerm.localeCompare(b.sourceTerm)),
+  };
+}
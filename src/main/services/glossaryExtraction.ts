@@ -0,0 +1,181 @@
+import type { ExtractGlossaryRequest, GlossaryCandidate, GlossaryExtractionResult, GlossaryTermCategory } from '@shared/types';
+import { withRetry } from '../external/retry';
+import { isAbortError } from '../external/abort';
+import { countGlossaryTerm } from '../translation/glossary';
+import {
+  GLOSSARY_EXTRACTION_INSTRUCTION,
+  buildExtractionPrompt,
+  parseExtractionResponse,
+  sampleChunkIndexes,
+} from '../translation/glossaryExtraction';
+import { getSession, getSessionChunks, resolveSessionConfig, createGeminiClientFromConfig, getRetryPolicy } from './translation';
+import { getGlossaryTerms } from './glossary';
+import { templateService } from './templateService';
+import { emitGlossaryExtractProgress } from './translationEvents';
+import { logger } from '../utils/index';
+
+// ============================================
+// 원문에서 용어 후보 추출
+// ============================================
+
+const DEFAULT_SAMPLE_SIZE = 10;
+
+// 추출은 일관된 결과가 중요하므로 낮은 temperature 사용
+const EXTRACTION_TEMPERATURE = 0.2;
+
+// 세션별로 실행 중인 추출 작업 (세션당 하나)
+const extractionJobs = new Map<string, AbortController>();
+
+interface CandidateAccumulator {
+  targetTerms: Map<string, number>; // 제안된 번역어별 횟수
+  category: GlossaryTermCategory;
+  notes: string | null;
+}
+
+/**
+ * 가장 많이 제안된 번역어 (같으면 먼저 제안된 것)
+ */
+function mostProposed(targetTerms: Map<string, number>): string {
+  let best = '';
+  let bestCount = 0;
+  for (const [targetTerm, count] of targetTerms) {
+    if (count > bestCount) {
+      best = targetTerm;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * 세션 원문에서 용어 후보 추출
+ *
+ * 청크를 하나씩 모델에 보내 용어를 모으고, 원문 전체에서 등장 횟수를 세어 반환합니다.
+ * 용어집에 추가하지는 않으며 (검토 후 addGlossaryEntries로 추가), 중단하면 그때까지 모은 후보를 반환합니다.
+ */
+export async function extractGlossaryCandidates(sessionId: string, options: ExtractGlossaryRequest): Promise<GlossaryExtractionResult> {
+  const session = await getSession(sessionId);
+  if (!session) {
+    throw Object.assign(new Error('Session not found'), { statusCode: 404 });
+  }
+
+  if (options.mode !== 'sample' && options.mode !== 'all') {
+    throw Object.assign(new Error('Invalid extraction mode'), { statusCode: 400 });
+  }
+
+  const sampleSize = options.sampleSize ?? DEFAULT_SAMPLE_SIZE;
+  if (options.mode === 'sample' && (!Number.isInteger(sampleSize) || sampleSize < 1)) {
+    throw Object.assign(new Error('Sample size must be a positive integer'), { statusCode: 400 });
+  }
+
+  if (extractionJobs.has(sessionId)) {
+    throw Object.assign(new Error('Term extraction is already running for this session'), { statusCode: 409 });
+  }
+
+  const chunks = await getSessionChunks(sessionId);
+  if (chunks.length === 0) {
+    throw Object.assign(new Error('Session has no source text'), { statusCode: 400 });
+  }
+
+  const selected =
+    options.mode === 'all' ? chunks : sampleChunkIndexes(chunks.length, Math.min(sampleSize, chunks.length)).map(index => chunks[index]);
+
+  const templateId = session.templateId ?? options.templateId;
+  const template = templateId ? templateService.getById(templateId) : undefined;
+  const config = await resolveSessionConfig(sessionId);
+  const client = await createGeminiClientFromConfig(config);
+  const knownTerms = new Set((await getGlossaryTerms(sessionId)).map(term => term.sourceTerm));
+
+  const controller = new AbortController();
+  extractionJobs.set(sessionId, controller);
+
+  const accumulated = new Map<string, CandidateAccumulator>();
+  let processedChunks = 0;
+  let failedChunks = 0;
+
+  try {
+    emitGlossaryExtractProgress(sessionId, 0, selected.length, 0);
+
+    for (const chunk of selected) {
+      const request = {
+        contents: [
+          {
+            role: 'user' as const,
+            parts: [
+              {
+                text: buildExtractionPrompt({
+                  sourceText: chunk.sourceText,
+                  sourceLanguage: template?.sourceLanguage,
+                  targetLanguage: template?.targetLanguage,
+                  knownTerms: [...knownTerms],
+                }),
+              },
+            ],
+          },
+        ],
+        systemInstruction: { parts: [{ text: GLOSSARY_EXTRACTION_INSTRUCTION }] },
+        generationConfig: { temperature: EXTRACTION_TEMPERATURE, responseMimeType: 'application/json' as const },
+      };
+
+      try {
+        const response = await withRetry(
+          () =>
+            client.generateContent(request, {
+              signal: controller.signal,
+              usage: { purpose: 'glossaryExtraction', sessionId, chunkId: chunk.id },
+            }),
+          { policy: getRetryPolicy(config), signal: controller.signal }
+        );
+
+        for (const term of parseExtractionResponse(client.extractText(response))) {
+          if (knownTerms.has(term.sourceTerm)) {
+            continue;
+          }
+
+          const entry = accumulated.get(term.sourceTerm) ?? { targetTerms: new Map(), category: term.category, notes: term.notes };
+          entry.targetTerms.set(term.targetTerm, (entry.targetTerms.get(term.targetTerm) ?? 0) + 1);
+          entry.notes ??= term.notes;
+          accumulated.set(term.sourceTerm, entry);
+        }
+      } catch (error) {
+        if (isAbortError(error)) {
+          break;
+        }
+
+        failedChunks++;
+        logger.warn('external_api', `Term extraction failed for chunk ${chunk.order}`, {
+          sessionId,
+          chunkId: chunk.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      processedChunks++;
+      emitGlossaryExtractProgress(sessionId, processedChunks, selected.length, accumulated.size);
+    }
+  } finally {
+    extractionJobs.delete(sessionId);
+  }
+
+  // 모델이 원문에 없는 표기를 만들어 낸 후보는 제외
+  const fullText = chunks.map(chunk => chunk.sourceText).join('\n');
+  const candidates: GlossaryCandidate[] = [...accumulated]
+    .map(([sourceTerm, entry]) => ({
+      sourceTerm,
+      targetTerm: mostProposed(entry.targetTerms),
+      category: entry.category,
+      notes: entry.notes,
+      frequency: countGlossaryTerm({ sourceTerm, targetTerm: '', partOfSpeech: null, notes: null, caseSensitive: true }, fullText),
+    }))
+    .filter(candidate => candidate.frequency > 0)
+    .sort((a, b) => b.frequency - a.frequency || a.sourceTerm.localeCompare(b.sourceTerm));
+
+  return { candidates, processedChunks, failedChunks };
+}
+
+/**
+ * 실행 중인 추출 작업 중단 (진행 중인 요청도 취소)
+ */
+export function cancelGlossaryExtraction(sessionId: string): void {
+  extractionJobs.get(sessionId)?.abort();
+}
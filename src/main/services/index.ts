@@ -2,3 +2,11 @@ export * from './logs';
 export * from './templateService';
 export * from './translation';
 export * from './translationEvents';
+export * from './rateLimits';
+export * from './recovery';
+export * from './translationJobs';
+export * from './translationQueue';
+export * from './glossary';
+export * from './glossaryExtraction';
+export * from './characters';
+export * from './usage';
@@ -0,0 +1,50 @@
+import { db, nowISOString } from '../database/index';
+import type { ModelRateLimit } from '../database/index';
+import { rateLimiter } from '../external/rateLimiter';
+import type { RateLimits } from '../config/models';
+
+// ============================================
+// 모델별 요청 한도 재정의
+// ============================================
+
+/**
+ * DB에 저장된 재정의 값을 제한기에 반영 (앱 시작 시 호출)
+ */
+export async function initializeRateLimits(): Promise<void> {
+  const rows = await listRateLimitOverrides();
+  for (const row of rows) {
+    rateLimiter.setOverrides(row.model, { rpm: row.rpm, tpm: row.tpm, rpd: row.rpd });
+  }
+}
+
+export async function listRateLimitOverrides(): Promise<ModelRateLimit[]> {
+  return await db.selectFrom('model_rate_limits').selectAll().orderBy('model', 'asc').execute();
+}
+
+export async function updateRateLimitOverrides(model: string, data: Partial<RateLimits>): Promise<ModelRateLimit> {
+  const now = nowISOString();
+
+  const row = await db
+    .insertInto('model_rate_limits')
+    .values({
+      model,
+      rpm: data.rpm ?? null,
+      tpm: data.tpm ?? null,
+      rpd: data.rpd ?? null,
+      updatedAt: now,
+    })
+    .onConflict(oc =>
+      oc.column('model').doUpdateSet({
+        ...(data.rpm !== undefined && { rpm: data.rpm }),
+        ...(data.tpm !== undefined && { tpm: data.tpm }),
+        ...(data.rpd !== undefined && { rpd: data.rpd }),
+        updatedAt: now,
+      })
+    )
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  rateLimiter.setOverrides(model, { rpm: row.rpm, tpm: row.tpm, rpd: row.rpd });
+
+  return row;
+}
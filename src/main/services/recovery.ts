@@ -0,0 +1,62 @@
+import { db, nowISOString } from '../database/index';
+import type { RecoveryReport } from '@shared/types';
+import { logger } from '../utils/index';
+
+// ============================================
+// 중단된 세션 복구
+// ============================================
+
+// 시작 시 복구한 결과 (렌더러에 한 번만 전달)
+let pendingReport: RecoveryReport | null = null;
+
+/**
+ * 번역 도중 앱이 종료되어 남은 상태 정리 (앱 시작 시 호출)
+ *
+ * 작업자가 더 이상 없으므로 processing 청크는 pending으로, translating 세션은 paused로 되돌려
+ * 일시 정지 / 재개가 정상적으로 동작하도록 합니다.
+ * 번역 대기열에 남아 있는 세션은 대기열이 이어서 실행하므로 보고에서 제외합니다.
+ */
+export async function recoverInterruptedSessions(): Promise<RecoveryReport> {
+  const now = nowISOString();
+
+  const report = await db.transaction().execute(async trx => {
+    const sessions = await trx
+      .updateTable('translation_sessions')
+      .set({ status: 'paused', updatedAt: now })
+      .where('status', '=', 'translating')
+      .returning(['id', 'title', 'lastTemplateId'])
+      .execute();
+
+    const chunks = await trx
+      .updateTable('translation_chunks')
+      .set({ status: 'pending', updatedAt: now })
+      .where('status', '=', 'processing')
+      .returning('id')
+      .execute();
+
+    const queued = await trx.selectFrom('translation_queue').select('sessionId').where('status', 'in', ['queued', 'running']).execute();
+    const queuedIds = new Set(queued.map(q => q.sessionId));
+
+    return { sessions: sessions.filter(s => !queuedIds.has(s.id)), resetChunks: chunks.length };
+  });
+
+  if (report.sessions.length > 0 || report.resetChunks > 0) {
+    logger.warn('system', 'Recovered translation state interrupted by app exit', {
+      sessions: report.sessions.map(s => s.id),
+      resetChunks: report.resetChunks,
+    });
+  }
+
+  pendingReport = report.sessions.length > 0 ? report : null;
+
+  return report;
+}
+
+/**
+ * 복구 결과를 한 번만 반환 (이후 호출은 빈 결과)
+ */
+export function takeRecoveryReport(): RecoveryReport {
+  const report = pendingReport ?? { sessions: [], resetChunks: 0 };
+  pendingReport = null;
+  return report;
+}
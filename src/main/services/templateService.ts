@@ -3,7 +3,10 @@ import { readFileSync, readdirSync } from 'fs';
 import { join, basename, extname } from 'path';
 import { parse as parseYaml } from 'yaml';
 import { z } from 'zod';
+import type { PostProcessRule } from '@shared/types';
 import { parseFrontMatter } from '../utils';
+import { parsePostProcessRules } from '../translation/postProcess';
+import { TemplateContextSchema, type TemplateContext } from '../translation/contextWindow';
 
 // ============================================
 // 타입 정의
@@ -14,6 +17,8 @@ const TemplateFrontmatterSchema = z.object({
   sourceLanguage: z.string(),
   targetLanguage: z.string(),
   description: z.string().optional(),
+  postprocess: z.unknown().optional(), // 후처리 규칙 (parsePostProcessRules로 검증)
+  context: TemplateContextSchema.optional(), // contextWindow 헬퍼의 토큰 예산
 });
 
 export interface PromptTemplate {
@@ -22,6 +27,8 @@ export interface PromptTemplate {
   sourceLanguage: string;
   targetLanguage: string;
   description?: string;
+  postProcessRules: PostProcessRule[]; // 번역문에 순서대로 적용할 후처리 규칙
+  context?: TemplateContext; // contextWindow 헬퍼의 토큰 예산
   content: string;
   filePath: string;
 }
@@ -85,6 +92,8 @@ class TemplateService {
           sourceLanguage: frontmatter.sourceLanguage,
           targetLanguage: frontmatter.targetLanguage,
           description: frontmatter.description,
+          postProcessRules: parsePostProcessRules(frontmatter.postprocess),
+          context: frontmatter.context,
           content: parsed.content,
           filePath,
         };
@@ -102,7 +111,7 @@ class TemplateService {
   /**
    * 모든 템플릿 목록 반환 (content 제외)
    */
-  getAll(): Omit<PromptTemplate, 'content' | 'filePath'>[] {
+  getAll(): Omit<PromptTemplate, 'content' | 'filePath' | 'postProcessRules' | 'context'>[] {
     this.ensureInitialized();
 
     return Array.from(this.templates.values()).map(t => ({
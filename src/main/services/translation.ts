@@ -1,27 +1,125 @@
+import type { Kysely } from 'kysely';
 import { db, generateCuid, nowISOString } from '../database/index';
-import type { TranslationSession, TranslationChunk, TranslationConfig } from '../database/index';
-import { GeminiClient, type GeminiGenerationConfig, resetGeminiClient } from '../external/gemini';
-import { buildPromptFromDB } from '../translation/promptBuilder';
+import type { TranslationSession, TranslationChunk, TranslationConfig, TranslationChunkRevision, Database } from '../database/index';
+import type {
+  BlockedFallback,
+  ChunkRevisionOrigin,
+  GlossaryViolation,
+  TranslationMemoryMode,
+  PostProcessPreview,
+  PostProcessRule,
+  TranslationChunkRevision as TranslationChunkRevisionDto,
+  RechunkSummary,
+  TranslationSessionStatus,
+  TranslationCostEstimate,
+  TokenCountSource,
+} from '@shared/types';
+import {
+  GeminiClient,
+  GeminiAPIError,
+  GeminiBlockedError,
+  type GeminiGenerationConfig,
+  type GeminiRequest,
+  type GeminiUsageContext,
+  resetGeminiClient,
+  estimateRequestTokens,
+} from '../external/gemini';
+import { withRetry, DEFAULT_RETRY_POLICY, type RetryPolicy } from '../external/retry';
+import { isAbortError } from '../external/abort';
+import { buildPromptFromDB, templateUsesPreviousTranslation } from '../translation/promptBuilder';
 import { splitIntoChunks } from '../translation/chunker';
+import { diffChunks, hashSourceText, type ChunkDiff } from '../translation/chunkDiff';
+import { checkTranslationQuality } from '../translation/qualityCheck';
+import { postProcessTranslation, parsePostProcessRulesYaml } from '../translation/postProcess';
+import { checkGlossaryUsage, buildGlossaryCorrectionPrompt, type GlossaryTerm } from '../translation/glossary';
+import { TranslationMemory, type TranslationMemoryMatch } from '../translation/translationMemory';
+import { SUMMARY_INSTRUCTION, buildSummaryPrompt } from '../translation/summary';
+import { resolveContextBudget } from '../translation/contextWindow';
+import type { CharacterProfile } from '../translation/characters';
+import { getOutputRatio, calculateCostUsd } from '../translation/costEstimate';
+import { sampleChunkIndexes } from '../translation/glossaryExtraction';
 import type { ChunkInfo } from '../translation/promptBuilder';
-import { emitChunkStart, emitChunkProgress, emitSessionStatus, emitSessionComplete } from './translationEvents';
-import { templateService } from './templateService';
-import { logger } from '../utils/index';
-import { DEFAULT_MODEL_ID } from '../config/models';
+import { emitChunkStart, emitChunkDelta, emitChunkProgress, emitSessionStatus, emitSessionComplete } from './translationEvents';
+import { templateService, type PromptTemplate } from './templateService';
+import { getGlossaryTerms } from './glossary';
+import { getCharacterProfiles } from './characters';
+import { translationJobs } from './translationJobs';
+import { logger, estimateTokenCount } from '../utils/index';
+import { DEFAULT_MODEL_ID, getModelById } from '../config/models';
 
 // ============================================
-// 후처리 유틸리티
+// 출력 잘림 복구
 // ============================================
 
-function postProcessTranslation(text: string): string {
-  return text.replace(/<!--[\s\S]*?-->/g, '').trim();
+// MAX_TOKENS로 잘린 응답을 이어서 생성할 최대 횟수
+const MAX_CONTINUATIONS = 3;
+
+const CONTINUATION_PROMPT =
+  'Your previous response was cut off by the output token limit. Continue the translation exactly where it stopped. ' +
+  'Do not repeat any text you have already written and do not add any preamble or explanation.';
+
+// ============================================
+// 차단 청크 처리
+// ============================================
+
+/**
+ * 청크가 최종 번역문에 들어갈 텍스트 (차단된 청크는 원문을 그대로 사용)
+ */
+function chunkOutputText(chunk: Pick<TranslationChunk, 'status' | 'sourceText' | 'translatedText'>): string {
+  return chunk.status === 'blocked' ? chunk.sourceText : (chunk.translatedText ?? '');
+}
+
+// ============================================
+// 번역 품질 검사
+// ============================================
+
+/**
+ * 번역문 품질 검사 결과를 DB 저장 형식으로 변환 (문제가 없으면 null)
+ *
+ * @param templateId 번역에 사용한 템플릿 (언어 쌍 판별용, 없으면 언어와 무관한 항목만 검사)
+ */
+function runQualityCheck(sourceText: string, translatedText: string, templateId: string | null): string | null {
+  const template = templateId ? templateService.getById(templateId) : undefined;
+  const flags = checkTranslationQuality({
+    sourceText,
+    translatedText,
+    sourceLanguage: template?.sourceLanguage,
+    targetLanguage: template?.targetLanguage,
+  });
+
+  return flags.length > 0 ? flags.join(',') : null;
+}
+
+function countQaFlags(qaFlags: string | null | undefined): number {
+  return qaFlags ? qaFlags.split(',').length : 0;
+}
+
+/**
+ * 용어 준수 검사 결과를 DB 저장 형식으로 변환 (문제가 없으면 null)
+ */
+function serializeGlossaryViolations(violations: GlossaryViolation[]): string | null {
+  return violations.length > 0 ? JSON.stringify(violations) : null;
+}
+
+/**
+ * 청크에 적용되는 현재 용어집으로 번역문을 검사 (직접 수정 / 리비전 교체 시)
+ */
+async function runGlossaryCheck(sessionId: string, sourceText: string, translatedText: string): Promise<string | null> {
+  const terms = await getGlossaryTerms(sessionId);
+  return serializeGlossaryViolations(checkGlossaryUsage(terms, sourceText, translatedText));
 }
 
 // ============================================
 // 타입 정의
 // ============================================
 
-export interface CreateSessionInput {
+// 세션별 설정 (null = 전역 설정 사용)
+export type SessionConfigOverrides = Pick<
+  TranslationSession,
+  'model' | 'templateId' | 'chunkSize' | 'temperature' | 'maxOutputTokens' | 'topP' | 'topK' | 'postProcessRules'
+>;
+
+export interface CreateSessionInput extends Partial<SessionConfigOverrides> {
   title: string;
   memo?: string;
   customDict?: string;
@@ -35,7 +133,7 @@ export interface StartTranslationInput {
 export interface ChunkResult {
   chunkId: string;
   order: number;
-  status: 'completed' | 'failed';
+  status: 'completed' | 'failed' | 'blocked' | 'aborted';
   translatedText?: string;
   errorMessage?: string;
 }
@@ -46,6 +144,7 @@ export interface TranslationProgress {
   totalChunks: number;
   completedChunks: number;
   failedChunks: number;
+  blockedChunks: number;
   pendingChunks: number;
   processingChunks: number;
   progressPercent: number;
@@ -70,6 +169,20 @@ export async function getTranslationConfig(): Promise<TranslationConfig> {
         maxOutputTokens: 32000,
         topP: null,
         topK: null,
+        concurrency: 1,
+        queueConcurrency: 1,
+        maxAttempts: DEFAULT_RETRY_POLICY.maxAttempts,
+        retryBaseDelayMs: DEFAULT_RETRY_POLICY.baseDelayMs,
+        retryMaxDelayMs: DEFAULT_RETRY_POLICY.maxDelayMs,
+        blockedFallback: 'skip',
+        fallbackTemplateId: null,
+        fallbackModel: null,
+        qaAutoRetries: 0,
+        glossaryCorrections: 0,
+        translationMemory: 'reuse',
+        summaryInterval: 0,
+        summaryModel: null,
+        costConfirmThreshold: 1,
         updatedAt: now,
       })
       .returningAll()
@@ -86,6 +199,20 @@ export async function updateTranslationConfig(data: {
   maxOutputTokens?: number;
   topP?: number;
   topK?: number;
+  concurrency?: number;
+  queueConcurrency?: number;
+  maxAttempts?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  blockedFallback?: BlockedFallback;
+  fallbackTemplateId?: string | null;
+  fallbackModel?: string | null;
+  qaAutoRetries?: number;
+  glossaryCorrections?: number;
+  translationMemory?: TranslationMemoryMode;
+  summaryInterval?: number;
+  summaryModel?: string | null;
+  costConfirmThreshold?: number;
 }): Promise<TranslationConfig> {
   const now = nowISOString();
 
@@ -101,6 +228,20 @@ export async function updateTranslationConfig(data: {
         ...(data.maxOutputTokens !== undefined && { maxOutputTokens: data.maxOutputTokens }),
         ...(data.topP !== undefined && { topP: data.topP }),
         ...(data.topK !== undefined && { topK: data.topK }),
+        ...(data.concurrency !== undefined && { concurrency: data.concurrency }),
+        ...(data.queueConcurrency !== undefined && { queueConcurrency: data.queueConcurrency }),
+        ...(data.maxAttempts !== undefined && { maxAttempts: data.maxAttempts }),
+        ...(data.retryBaseDelayMs !== undefined && { retryBaseDelayMs: data.retryBaseDelayMs }),
+        ...(data.retryMaxDelayMs !== undefined && { retryMaxDelayMs: data.retryMaxDelayMs }),
+        ...(data.blockedFallback !== undefined && { blockedFallback: data.blockedFallback }),
+        ...(data.fallbackTemplateId !== undefined && { fallbackTemplateId: data.fallbackTemplateId }),
+        ...(data.fallbackModel !== undefined && { fallbackModel: data.fallbackModel }),
+        ...(data.qaAutoRetries !== undefined && { qaAutoRetries: data.qaAutoRetries }),
+        ...(data.glossaryCorrections !== undefined && { glossaryCorrections: data.glossaryCorrections }),
+        ...(data.translationMemory !== undefined && { translationMemory: data.translationMemory }),
+        ...(data.summaryInterval !== undefined && { summaryInterval: data.summaryInterval }),
+        ...(data.summaryModel !== undefined && { summaryModel: data.summaryModel }),
+        ...(data.costConfirmThreshold !== undefined && { costConfirmThreshold: data.costConfirmThreshold }),
         updatedAt: now,
       })
       .where('id', '=', 1)
@@ -117,6 +258,20 @@ export async function updateTranslationConfig(data: {
         maxOutputTokens: data.maxOutputTokens ?? 32000,
         topP: data.topP ?? null,
         topK: data.topK ?? null,
+        concurrency: data.concurrency ?? 1,
+        queueConcurrency: data.queueConcurrency ?? 1,
+        maxAttempts: data.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+        retryBaseDelayMs: data.retryBaseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+        retryMaxDelayMs: data.retryMaxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+        blockedFallback: data.blockedFallback ?? 'skip',
+        fallbackTemplateId: data.fallbackTemplateId ?? null,
+        fallbackModel: data.fallbackModel ?? null,
+        qaAutoRetries: data.qaAutoRetries ?? 0,
+        glossaryCorrections: data.glossaryCorrections ?? 0,
+        translationMemory: data.translationMemory ?? 'reuse',
+        summaryInterval: data.summaryInterval ?? 0,
+        summaryModel: data.summaryModel ?? null,
+        costConfirmThreshold: data.costConfirmThreshold ?? 1,
         updatedAt: now,
       })
       .returningAll()
@@ -124,7 +279,7 @@ export async function updateTranslationConfig(data: {
   }
 }
 
-async function createGeminiClientFromConfig(config: TranslationConfig): Promise<GeminiClient> {
+export async function createGeminiClientFromConfig(config: TranslationConfig): Promise<GeminiClient> {
   const generationConfig: GeminiGenerationConfig = {
     temperature: config.temperature,
     maxOutputTokens: config.maxOutputTokens ?? undefined,
@@ -144,6 +299,372 @@ async function createGeminiClientFromConfig(config: TranslationConfig): Promise<
   });
 }
 
+// ============================================
+// 세션별 설정
+// ============================================
+
+function applySessionOverrides(config: TranslationConfig, session: SessionConfigOverrides): TranslationConfig {
+  return {
+    ...config,
+    model: session.model ?? config.model,
+    chunkSize: session.chunkSize ?? config.chunkSize,
+    temperature: session.temperature ?? config.temperature,
+    maxOutputTokens: session.maxOutputTokens ?? config.maxOutputTokens,
+    topP: session.topP ?? config.topP,
+    topK: session.topK ?? config.topK,
+  };
+}
+
+/**
+ * 세션에 실제로 적용되는 설정 (세션에서 지정한 값이 전역 설정보다 우선)
+ */
+export async function resolveSessionConfig(sessionId: string): Promise<TranslationConfig> {
+  const session = await db.selectFrom('translation_sessions').selectAll().where('id', '=', sessionId).executeTakeFirst();
+
+  if (!session) {
+    throw Object.assign(new Error('Session not found'), { statusCode: 404 });
+  }
+
+  return applySessionOverrides(await getTranslationConfig(), session);
+}
+
+/**
+ * 세션에 지정된 템플릿이 있으면 우선 사용 (템플릿 파일이 사라졌으면 요청한 템플릿으로)
+ */
+function resolveSessionTemplate(session: SessionConfigOverrides, requestedId: string): PromptTemplate {
+  const sessionTemplate = session.templateId ? templateService.getById(session.templateId) : undefined;
+  return sessionTemplate ?? templateService.getByIdOrThrow(requestedId);
+}
+
+// ============================================
+// 후처리 규칙
+// ============================================
+
+/**
+ * 세션 후처리 규칙(YAML) 검증 (비어 있으면 null로 저장)
+ */
+function validateSessionPostProcessRules(source: string | null | undefined): string | null {
+  if (!source?.trim()) {
+    return null;
+  }
+
+  try {
+    parsePostProcessRulesYaml(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw Object.assign(new Error(`Invalid post-processing rules: ${message}`), { statusCode: 400 });
+  }
+
+  return source;
+}
+
+/**
+ * 번역문에 적용할 후처리 규칙 (템플릿 규칙 다음에 세션 규칙)
+ */
+function resolvePostProcessRules(
+  templateId: string | null,
+  session: Pick<TranslationSession, 'id' | 'postProcessRules'>
+): PostProcessRule[] {
+  const templateRules = (templateId ? templateService.getById(templateId)?.postProcessRules : undefined) ?? [];
+
+  try {
+    return [...templateRules, ...parsePostProcessRulesYaml(session.postProcessRules)];
+  } catch (error) {
+    // 저장할 때 검증하므로 보통은 여기까지 오지 않음
+    logger.warn('system', 'Ignoring invalid session post-processing rules', {
+      sessionId: session.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return templateRules;
+  }
+}
+
+/**
+ * 후처리 규칙 미리보기
+ *
+ * 저장하기 전의 세션 규칙을 번역된 청크에 적용해 봅니다. 규칙으로 내용이 바뀌는 첫 청크를 보여주고,
+ * 바뀌는 청크가 없으면 첫 번역 청크를 그대로 보여줍니다.
+ */
+export async function previewPostProcess(sessionId: string, rules: string | null): Promise<PostProcessPreview | null> {
+  const session = await db.selectFrom('translation_sessions').selectAll().where('id', '=', sessionId).executeTakeFirst();
+
+  if (!session) {
+    throw Object.assign(new Error('Session not found'), { statusCode: 404 });
+  }
+
+  const postProcessRules = resolvePostProcessRules(session.templateId ?? session.lastTemplateId, {
+    id: session.id,
+    postProcessRules: validateSessionPostProcessRules(rules),
+  });
+
+  const chunks = await db
+    .selectFrom('translation_chunks')
+    .select(['id', 'order', 'translatedText'])
+    .where('sessionId', '=', sessionId)
+    .where('status', '=', 'completed')
+    .orderBy('order', 'asc')
+    .execute();
+
+  let preview: PostProcessPreview | null = null;
+
+  for (const chunk of chunks) {
+    const before = chunk.translatedText ?? '';
+    const after = postProcessTranslation(before, postProcessRules);
+
+    if (after !== before) {
+      return { chunkId: chunk.id, order: chunk.order, before, after };
+    }
+    preview ??= { chunkId: chunk.id, order: chunk.order, before, after };
+  }
+
+  return preview;
+}
+
+// ============================================
+// 번역 메모리
+// ============================================
+
+// 프롬프트에 참고로 넣을 비슷한 문단의 최소 유사도 / 최대 개수
+const TM_FUZZY_MIN_SCORE = 0.7;
+const TM_FUZZY_LIMIT = 5;
+
+// 마지막으로 만든 번역 메모리 색인 (단일 청크 번역 / 재시도 / 비용 추정을 반복할 때 색인을 다시 만들지 않도록)
+let memoryCache: { key: string; memory: TranslationMemory } | null = null;
+
+function languagePairKey(template: Pick<PromptTemplate, 'sourceLanguage' | 'targetLanguage'>): string {
+  return `${template.sourceLanguage.trim().toLowerCase()}→${template.targetLanguage.trim().toLowerCase()}`;
+}
+
+/**
+ * 다른 세션의 완료된 청크로 번역 메모리 색인 생성 (사용 안 함이면 null)
+ *
+ * 같은 세션의 청크는 제외합니다 (다시 번역할 때 이전 번역이 그대로 돌아오지 않도록).
+ * 다른 언어로 번역한 결과가 재사용되지 않도록, 세션 템플릿 (없으면 마지막으로 사용한 템플릿)의 언어 쌍이 같은 세션만 사용합니다.
+ * 대상 세션들의 완료된 청크 수 / 마지막 수정 시각이 그대로면 캐시된 색인을 재사용합니다
+ * (청크가 완료되거나 번역문이 바뀌면 updatedAt이 갱신되므로 색인도 다시 만들어짐).
+ */
+async function loadTranslationMemory(sessionId: string, mode: string, template: PromptTemplate): Promise<TranslationMemory | null> {
+  if (mode === 'off') {
+    return null;
+  }
+
+  const pairKey = languagePairKey(template);
+  const sessions = await db
+    .selectFrom('translation_sessions')
+    .select(['id', 'templateId', 'lastTemplateId'])
+    .where('id', '!=', sessionId)
+    .execute();
+
+  const sessionIds = sessions
+    .filter(session => {
+      const sessionTemplate =
+        (session.templateId ? templateService.getById(session.templateId) : undefined) ??
+        (session.lastTemplateId ? templateService.getById(session.lastTemplateId) : undefined);
+      return sessionTemplate !== undefined && languagePairKey(sessionTemplate) === pairKey;
+    })
+    .map(session => session.id);
+
+  if (sessionIds.length === 0) {
+    return new TranslationMemory([]);
+  }
+
+  const stats = await db
+    .selectFrom('translation_chunks')
+    .select(eb => [eb.fn.countAll().as('count'), eb.fn.max('updatedAt').as('lastUpdatedAt')])
+    .where('sessionId', 'in', sessionIds)
+    .where('status', '=', 'completed')
+    .executeTakeFirstOrThrow();
+
+  const cacheKey = hashSourceText([sessionId, pairKey, stats.count, stats.lastUpdatedAt, ...sessionIds].join('\n'));
+  if (memoryCache?.key === cacheKey) {
+    return memoryCache.memory;
+  }
+
+  const chunks = await db
+    .selectFrom('translation_chunks')
+    .select(['sourceText', 'translatedText'])
+    .where('sessionId', 'in', sessionIds)
+    .where('status', '=', 'completed')
+    .where('translatedText', 'is not', null)
+    .execute();
+
+  const memory = new TranslationMemory(chunks.map(chunk => ({ sourceText: chunk.sourceText, translatedText: chunk.translatedText ?? '' })));
+  memoryCache = { key: cacheKey, memory };
+  return memory;
+}
+
+// ============================================
+// 줄거리 요약
+// ============================================
+
+// 요약은 사실 위주여야 하므로 낮은 temperature 사용
+const SUMMARY_TEMPERATURE = 0.3;
+
+// 요약을 갱신 중인 세션 (병렬 번역에서 동시에 끝난 청크들이 같은 요약을 중복 요청하지 않도록)
+const summaryUpdates = new Set<string>();
+
+/**
+ * 요약 이후 순서대로 완료된 청크가 summaryInterval개 이상 모이면 요약 갱신
+ *
+ * 요약에 포함된 마지막 청크 다음부터 연속으로 완료된 청크만 넣으므로 병렬 번역에서 뒤 청크가 먼저 끝나도 순서가 섞이지 않습니다.
+ * 요약에 실패해도 번역은 계속 진행합니다.
+ */
+async function maybeUpdateSessionSummary(
+  sessionId: string,
+  chunks: TranslationChunk[],
+  config: TranslationConfig,
+  signal: AbortSignal
+): Promise<void> {
+  if (config.summaryInterval <= 0 || summaryUpdates.has(sessionId)) {
+    return;
+  }
+
+  const session = await db
+    .selectFrom('translation_sessions')
+    .select(['summary', 'summaryChunkId'])
+    .where('id', '=', sessionId)
+    .executeTakeFirst();
+  if (!session) {
+    return;
+  }
+
+  // 요약에 포함된 청크가 분할 / 병합 / 재청킹으로 사라졌으면 처음부터 다시 요약
+  const ordered = [...chunks].sort((a, b) => a.order - b.order);
+  const lastIndex = session.summaryChunkId ? ordered.findIndex(c => c.id === session.summaryChunkId) : -1;
+  const previousSummary = session.summaryChunkId && lastIndex === -1 ? null : session.summary;
+
+  const nextChunks: TranslationChunk[] = [];
+  for (const chunk of ordered.slice(lastIndex + 1, lastIndex + 1 + config.summaryInterval)) {
+    if (chunk.status !== 'completed') {
+      break;
+    }
+    nextChunks.push(chunk);
+  }
+
+  if (nextChunks.length < config.summaryInterval) {
+    return;
+  }
+
+  summaryUpdates.add(sessionId);
+  try {
+    const client = await createGeminiClientFromConfig({
+      ...config,
+      model: config.summaryModel ?? config.model,
+      temperature: SUMMARY_TEMPERATURE,
+    });
+
+    const request = {
+      contents: [
+        {
+          role: 'user' as const,
+          parts: [{ text: buildSummaryPrompt({ previousSummary, passages: nextChunks.map(chunk => chunk.sourceText) }) }],
+        },
+      ],
+      systemInstruction: { parts: [{ text: SUMMARY_INSTRUCTION }] },
+    };
+
+    const response = await withRetry(() => client.generateContent(request, { signal, usage: { purpose: 'summary', sessionId } }), {
+      policy: getRetryPolicy(config),
+      signal,
+    });
+    const summary = client.extractText(response).trim();
+    if (!summary) {
+      return;
+    }
+
+    await db
+      .updateTable('translation_sessions')
+      .set({ summary, summaryChunkId: nextChunks[nextChunks.length - 1].id, updatedAt: nowISOString() })
+      .where('id', '=', sessionId)
+      .execute();
+  } catch (error) {
+    if (!isAbortError(error)) {
+      logger.warn('external_api', 'Failed to update session summary', {
+        sessionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  } finally {
+    summaryUpdates.delete(sessionId);
+  }
+}
+
+// ============================================
+// 프롬프트 구성
+// ============================================
+
+// 프롬프트에 넣는 세션 자료 (청크와 무관하게 세션 전체)
+interface PromptResources {
+  glossary: GlossaryTerm[];
+  characters: CharacterProfile[];
+  summary: string | null;
+}
+
+async function loadPromptResources(session: TranslationSession): Promise<PromptResources> {
+  const glossary = await getGlossaryTerms(session.id);
+  const characters = await getCharacterProfiles(session.id);
+  // 번역 중에 요약이 갱신되므로 매번 최신 요약을 사용
+  const latestSession = await db.selectFrom('translation_sessions').select('summary').where('id', '=', session.id).executeTakeFirst();
+
+  return { glossary, characters, summary: latestSession?.summary ?? session.summary };
+}
+
+function toChunkInfos(chunks: TranslationChunk[]): ChunkInfo[] {
+  return chunks.map(c => ({
+    order: c.order,
+    sourceText: c.sourceText,
+    translatedText: c.translatedText,
+    status: c.status,
+  }));
+}
+
+interface BuildChunkRequestInput {
+  chunk: Pick<TranslationChunk, 'order' | 'sourceText'>;
+  session: TranslationSession;
+  allChunks: ChunkInfo[];
+  template: string;
+  templateId: string;
+  model: string; // contextWindow 헬퍼의 예산을 정할 모델
+  memoryMatches: TranslationMemoryMatch[];
+  resources: PromptResources;
+}
+
+/**
+ * 청크 하나의 번역 요청 구성 (템플릿 렌더링에 실패하면 예외)
+ */
+function buildChunkRequest(input: BuildChunkRequestInput): GeminiRequest {
+  const { chunk, session, resources } = input;
+
+  const promptResult = buildPromptFromDB({
+    session: {
+      id: session.id,
+      title: session.title,
+      customDict: session.customDict,
+      memo: session.memo,
+      summary: resources.summary,
+    },
+    currentChunk: {
+      order: chunk.order,
+      sourceText: chunk.sourceText,
+    },
+    allChunks: input.allChunks,
+    glossary: resources.glossary,
+    memory: input.memoryMatches,
+    characters: resources.characters,
+    contextBudget: resolveContextBudget(templateService.getById(input.templateId)?.context, getModelById(input.model)?.contextWindow),
+    template: input.template,
+  });
+
+  if (!promptResult.success) {
+    throw new Error(`Prompt build failed: ${promptResult.errors.join(', ')}`);
+  }
+
+  return {
+    contents: promptResult.geminiMessages.contents,
+    systemInstruction: promptResult.geminiMessages.systemInstruction,
+  };
+}
+
 // ============================================
 // 세션 관리
 // ============================================
@@ -163,6 +684,15 @@ export async function createSession(input: CreateSessionInput): Promise<Translat
       sourceText: null,
       translatedText: null,
       totalChunks: 0,
+      lastTemplateId: null,
+      model: input.model ?? null,
+      templateId: input.templateId ?? null,
+      chunkSize: input.chunkSize ?? null,
+      temperature: input.temperature ?? null,
+      maxOutputTokens: input.maxOutputTokens ?? null,
+      topP: input.topP ?? null,
+      topK: input.topK ?? null,
+      postProcessRules: validateSessionPostProcessRules(input.postProcessRules),
       createdAt: now,
       updatedAt: now,
     })
@@ -181,14 +711,24 @@ export async function listSessions(): Promise<TranslationSession[]> {
 
 export async function updateSession(
   sessionId: string,
-  data: Partial<Pick<TranslationSession, 'title' | 'memo' | 'customDict'>>
+  data: Partial<Pick<TranslationSession, 'title' | 'memo' | 'customDict' | 'summary'> & SessionConfigOverrides>
 ): Promise<TranslationSession> {
   const now = nowISOString();
 
+  if (data.postProcessRules !== undefined) {
+    data = { ...data, postProcessRules: validateSessionPostProcessRules(data.postProcessRules) };
+  }
+
+  // 요약을 직접 고쳐도 요약 범위는 유지하고, 비우면 처음부터 다시 요약
+  if (data.summary !== undefined) {
+    data = { ...data, summary: data.summary?.trim() || null };
+  }
+
   return await db
     .updateTable('translation_sessions')
     .set({
       ...data,
+      ...(data.summary === null && { summaryChunkId: null }),
       updatedAt: now,
     })
     .where('id', '=', sessionId)
@@ -197,6 +737,10 @@ export async function updateSession(
 }
 
 export async function deleteSession(sessionId: string): Promise<void> {
+  // 진행 중인 번역이 삭제된 행을 갱신하지 않도록 먼저 중단
+  translationJobs.abort(sessionId);
+  await translationJobs.waitForIdle(sessionId);
+
   await db.deleteFrom('translation_sessions').where('id', '=', sessionId).execute();
 }
 
@@ -267,7 +811,7 @@ export async function uploadFileAndChunk(input: FileUploadInput): Promise<FileUp
   const charCount = content.length;
   const fileSize = Buffer.byteLength(content, 'utf-8');
 
-  const config = await getTranslationConfig();
+  const config = await resolveSessionConfig(sessionId);
   const chunks = splitIntoChunks(content, config.chunkSize);
 
   if (chunks.length === 0) {
@@ -276,36 +820,11 @@ export async function uploadFileAndChunk(input: FileUploadInput): Promise<FileUp
 
   const now = nowISOString();
 
-  const session = await db.transaction().execute(async trx => {
-    const existingSession = await trx.selectFrom('translation_sessions').selectAll().where('id', '=', sessionId).executeTakeFirst();
-
-    if (!existingSession) {
-      throw Object.assign(new Error('Session not found'), { statusCode: 404 });
-    }
-
-    await trx.deleteFrom('translation_chunks').where('sessionId', '=', sessionId).execute();
-
-    for (let index = 0; index < chunks.length; index++) {
-      await trx
-        .insertInto('translation_chunks')
-        .values({
-          id: generateCuid(),
-          sessionId,
-          order: index,
-          sourceText: chunks[index],
-          translatedText: null,
-          status: 'pending',
-          errorMessage: null,
-          retryCount: 0,
-          tokenCount: null,
-          processingTime: null,
-          createdAt: now,
-          updatedAt: now,
-        })
-        .execute();
-    }
+  await db.transaction().execute(async trx => {
+    await assertSessionCanRechunk(trx, sessionId);
+    await applyRechunk(trx, sessionId, chunks, now);
 
-    return await trx
+    await trx
       .updateTable('translation_sessions')
       .set({
         originalFileName: fileName,
@@ -316,10 +835,13 @@ export async function uploadFileAndChunk(input: FileUploadInput): Promise<FileUp
         updatedAt: now,
       })
       .where('id', '=', sessionId)
-      .returningAll()
-      .executeTakeFirstOrThrow();
+      .execute();
   });
 
+  // 유지된 청크만으로 모두 번역되어 있으면 바로 완료 처리
+  await assembleTranslation(sessionId);
+  const session = await db.selectFrom('translation_sessions').selectAll().where('id', '=', sessionId).executeTakeFirstOrThrow();
+
   return {
     session,
     totalChunks: chunks.length,
@@ -340,11 +862,11 @@ export async function getTranslationForDownload(sessionId: string): Promise<{ co
     .selectFrom('translation_chunks')
     .selectAll()
     .where('sessionId', '=', sessionId)
-    .where('status', '=', 'completed')
+    .where('status', 'in', ['completed', 'blocked'])
     .orderBy('order', 'asc')
     .execute();
 
-  const content = chunks.map(c => c.translatedText ?? '').join('\n\n');
+  const content = chunks.map(chunkOutputText).join('\n\n');
 
   const originalName = session.originalFileName || session.title;
   const lastDot = originalName.lastIndexOf('.');
@@ -361,7 +883,7 @@ export async function getTranslationForDownload(sessionId: string): Promise<{ co
 export async function startTranslation(input: StartTranslationInput): Promise<TranslationProgress> {
   const { sessionId, sourceText } = input;
 
-  const config = await getTranslationConfig();
+  const config = await resolveSessionConfig(sessionId);
   const chunks = splitIntoChunks(sourceText, config.chunkSize);
 
   if (chunks.length === 0) {
@@ -371,153 +893,710 @@ export async function startTranslation(input: StartTranslationInput): Promise<Tr
   const now = nowISOString();
 
   await db.transaction().execute(async trx => {
-    const session = await trx.selectFrom('translation_sessions').selectAll().where('id', '=', sessionId).executeTakeFirst();
-
-    if (!session) {
-      throw Object.assign(new Error('Session not found'), { statusCode: 404 });
-    }
-
-    await trx.deleteFrom('translation_chunks').where('sessionId', '=', sessionId).execute();
-
-    for (let index = 0; index < chunks.length; index++) {
-      await trx
-        .insertInto('translation_chunks')
-        .values({
-          id: generateCuid(),
-          sessionId,
-          order: index,
-          sourceText: chunks[index],
-          translatedText: null,
-          status: 'pending',
-          errorMessage: null,
-          retryCount: 0,
-          tokenCount: null,
-          processingTime: null,
-          createdAt: now,
-          updatedAt: now,
-        })
-        .execute();
-    }
+    await assertSessionCanRechunk(trx, sessionId);
+    await applyRechunk(trx, sessionId, chunks, now);
 
     await trx
       .updateTable('translation_sessions')
       .set({
         sourceText,
+        translatedText: null,
         status: 'ready',
+        totalChunks: chunks.length,
         updatedAt: now,
       })
       .where('id', '=', sessionId)
       .execute();
   });
 
+  // 유지된 청크만으로 모두 번역되어 있으면 바로 완료 처리
+  await assembleTranslation(sessionId);
+
   return getTranslationProgress(sessionId);
 }
 
-export async function getTranslationProgress(sessionId: string): Promise<TranslationProgress> {
-  const session = await db.selectFrom('translation_sessions').selectAll().where('id', '=', sessionId).executeTakeFirst();
+/**
+ * 재청킹 미리보기 - 새 원문으로 청킹했을 때 기존 청크가 어떻게 바뀌는지 (DB는 변경하지 않음)
+ */
+export async function previewRechunk(sessionId: string, sourceText: string): Promise<RechunkSummary> {
+  const config = await resolveSessionConfig(sessionId);
+  const chunks = splitIntoChunks(sourceText, config.chunkSize);
 
-  if (!session) {
-    throw Object.assign(new Error('Session not found'), { statusCode: 404 });
-  }
+  const existing = await getSessionChunks(sessionId);
 
-  const chunks = await db.selectFrom('translation_chunks').selectAll().where('sessionId', '=', sessionId).execute();
+  return summarizeRechunk(
+    diffChunks(
+      existing.map(c => hashSourceText(c.sourceText)),
+      chunks.map(hashSourceText)
+    )
+  );
+}
 
-  const completed = chunks.filter(c => c.status === 'completed').length;
-  const failed = chunks.filter(c => c.status === 'failed').length;
-  const pending = chunks.filter(c => c.status === 'pending').length;
-  const processing = chunks.filter(c => c.status === 'processing').length;
+// ============================================
+// 재청킹 (기존 번역 보존)
+// ============================================
 
+function summarizeRechunk(diff: ChunkDiff): RechunkSummary {
   return {
-    sessionId,
-    status: session.status,
-    totalChunks: chunks.length,
-    completedChunks: completed,
-    failedChunks: failed,
-    pendingChunks: pending,
-    processingChunks: processing,
-    progressPercent: chunks.length > 0 ? Math.round((completed / chunks.length) * 100) : 0,
+    kept: diff.matches.filter(m => m.type === 'kept').length,
+    changed: diff.matches.filter(m => m.type === 'changed').length,
+    added: diff.matches.filter(m => m.type === 'added').length,
+    removed: diff.removed.length,
+    total: diff.matches.length,
   };
 }
 
-interface TranslateSingleChunkInput {
-  chunk: TranslationChunk;
-  session: TranslationSession;
-  allChunks: TranslationChunk[];
-  config: TranslationConfig;
-  client: GeminiClient;
-  template: string;
-}
+async function assertSessionCanRechunk(trx: Kysely<Database>, sessionId: string): Promise<void> {
+  const session = await trx.selectFrom('translation_sessions').select('status').where('id', '=', sessionId).executeTakeFirst();
 
-async function translateSingleChunk(input: TranslateSingleChunkInput): Promise<ChunkResult> {
-  const { chunk, session, allChunks, client, template } = input;
-  const startTime = Date.now();
-  const now = nowISOString();
+  if (!session) {
+    throw Object.assign(new Error('Session not found'), { statusCode: 404 });
+  }
 
-  emitChunkStart(session.id, chunk.id, chunk.order);
+  if (session.status === 'translating') {
+    throw Object.assign(new Error('Cannot re-chunk a session while it is being translated'), { statusCode: 400 });
+  }
+}
 
-  await db.updateTable('translation_chunks').set({ status: 'processing', updatedAt: now }).where('id', '=', chunk.id).execute();
+/**
+ * 새 청크 목록을 기존 청크와 비교해 반영
+ *
+ * 원문 해시가 같은 청크는 번역 / 이력 / 상태를 그대로 유지하고, 바뀐 청크는 이력을 유지한 채 pending으로,
+ * 새 청크는 추가, 사라진 청크는 삭제합니다. (sessionId, order) 유니크 제약 때문에 유지되는 청크를
+ * 먼저 음수 order로 옮긴 뒤 최종 순서를 매깁니다.
+ */
+async function applyRechunk(trx: Kysely<Database>, sessionId: string, chunks: string[], now: string): Promise<void> {
+  const existing = await trx
+    .selectFrom('translation_chunks')
+    .selectAll()
+    .where('sessionId', '=', sessionId)
+    .orderBy('order', 'asc')
+    .execute();
 
-  try {
-    const chunkInfos: ChunkInfo[] = allChunks.map(c => ({
-      order: c.order,
-      sourceText: c.sourceText,
-      translatedText: c.translatedText,
-      status: c.status,
-    }));
-
-    const promptResult = buildPromptFromDB({
-      session: {
-        id: session.id,
-        title: session.title,
-        customDict: session.customDict,
-        memo: session.memo,
-      },
-      currentChunk: {
-        order: chunk.order,
-        sourceText: chunk.sourceText,
-      },
-      allChunks: chunkInfos,
-      template,
-    });
+  const diff = diffChunks(
+    existing.map(c => hashSourceText(c.sourceText)),
+    chunks.map(hashSourceText)
+  );
+
+  if (diff.removed.length > 0) {
+    await trx
+      .deleteFrom('translation_chunks')
+      .where(
+        'id',
+        'in',
+        diff.removed.map(index => existing[index].id)
+      )
+      .execute();
+  }
 
-    if (!promptResult.success) {
-      throw new Error(`Prompt build failed: ${promptResult.errors.join(', ')}`);
+  // 1단계: 남는 청크를 임시 순서로 이동
+  for (const [index, match] of diff.matches.entries()) {
+    if (match.type !== 'added') {
+      await trx
+        .updateTable('translation_chunks')
+        .set({ order: -(index + 1) })
+        .where('id', '=', existing[match.oldIndex].id)
+        .execute();
     }
+  }
 
-    const response = await client.generateContent({
-      contents: promptResult.geminiMessages.contents,
-      systemInstruction: promptResult.geminiMessages.systemInstruction,
-    });
+  // 2단계: 최종 순서 지정 및 바뀐 / 새 청크 반영
+  for (const [index, match] of diff.matches.entries()) {
+    if (match.type === 'kept') {
+      await trx.updateTable('translation_chunks').set({ order: index }).where('id', '=', existing[match.oldIndex].id).execute();
+    } else if (match.type === 'changed') {
+      await trx
+        .updateTable('translation_chunks')
+        .set({
+          order: index,
+          sourceText: chunks[index],
+          translatedText: null,
+          status: 'pending',
+          errorMessage: null,
+          retryCount: 0,
+          tokenCount: null,
+          processingTime: null,
+          currentRevisionId: null,
+          manuallyEditedAt: null,
+          truncationRecovery: null,
+          blockReason: null,
+          qaFlags: null,
+          glossaryViolations: null,
+          tmMatch: null,
+          updatedAt: now,
+        })
+        .where('id', '=', existing[match.oldIndex].id)
+        .execute();
+    } else {
+      await trx
+        .insertInto('translation_chunks')
+        .values({
+          id: generateCuid(),
+          sessionId,
+          order: index,
+          sourceText: chunks[index],
+          translatedText: null,
+          status: 'pending',
+          errorMessage: null,
+          retryCount: 0,
+          tokenCount: null,
+          processingTime: null,
+          currentRevisionId: null,
+          manuallyEditedAt: null,
+          truncationRecovery: null,
+          blockReason: null,
+          qaFlags: null,
+          glossaryViolations: null,
+          tmMatch: null,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .execute();
+    }
+  }
+}
 
-    const rawTranslatedText = client.extractText(response);
-    const translatedText = postProcessTranslation(rawTranslatedText);
-    const usage = client.extractUsage(response);
-    const processingTime = Date.now() - startTime;
+export async function getTranslationProgress(sessionId: string): Promise<TranslationProgress> {
+  const session = await db.selectFrom('translation_sessions').selectAll().where('id', '=', sessionId).executeTakeFirst();
 
-    const updatedChunk = await db
+  if (!session) {
+    throw Object.assign(new Error('Session not found'), { statusCode: 404 });
+  }
+
+  const chunks = await db.selectFrom('translation_chunks').selectAll().where('sessionId', '=', sessionId).execute();
+
+  const completed = chunks.filter(c => c.status === 'completed').length;
+  const failed = chunks.filter(c => c.status === 'failed').length;
+  const blocked = chunks.filter(c => c.status === 'blocked').length;
+  const pending = chunks.filter(c => c.status === 'pending').length;
+  const processing = chunks.filter(c => c.status === 'processing').length;
+
+  return {
+    sessionId,
+    status: session.status,
+    totalChunks: chunks.length,
+    completedChunks: completed,
+    failedChunks: failed,
+    blockedChunks: blocked,
+    pendingChunks: pending,
+    processingChunks: processing,
+    progressPercent: chunks.length > 0 ? Math.round(((completed + blocked) / chunks.length) * 100) : 0,
+  };
+}
+
+interface TranslateSingleChunkInput {
+  chunk: TranslationChunk;
+  session: TranslationSession;
+  allChunks: TranslationChunk[]; // 같은 세션의 청크 상태 (번역 중 갱신되며, 병렬 작업자 간에 공유됨)
+  config: TranslationConfig;
+  client: GeminiClient;
+  template: string;
+  templateId: string;
+  origin: ChunkRevisionOrigin; // 번역 결과를 리비전으로 남길 때의 출처
+  signal?: AbortSignal; // 세션 작업이 중단되면 진행 중인 요청도 취소
+  isFallback?: boolean; // 차단 후 대체 템플릿 / 모델로 다시 시도하는 중인지
+  qaAttempt?: number; // 품질 검사에 걸려 다시 번역한 횟수
+  previousQaFlags?: string | null; // 품질 검사 재번역이면 기존 번역문의 검사 결과
+  memory?: TranslationMemory | null; // 다른 세션의 번역 메모리 (null = 사용 안 함)
+}
+
+/**
+ * 차단된 청크를 다시 시도할 대체 템플릿 / 모델 (설정이 없거나 현재와 같으면 null)
+ */
+async function resolveBlockedFallback(
+  input: TranslateSingleChunkInput
+): Promise<Pick<TranslateSingleChunkInput, 'client' | 'template' | 'templateId'> | null> {
+  const { config, client, templateId } = input;
+
+  if (config.blockedFallback === 'template' && config.fallbackTemplateId && config.fallbackTemplateId !== templateId) {
+    const fallbackTemplate = templateService.getById(config.fallbackTemplateId);
+    return fallbackTemplate ? { client, template: fallbackTemplate.content, templateId: fallbackTemplate.id } : null;
+  }
+
+  if (config.blockedFallback === 'model' && config.fallbackModel && config.fallbackModel !== client.modelName) {
+    const fallbackClient = await createGeminiClientFromConfig({ ...config, model: config.fallbackModel });
+    return { client: fallbackClient, template: input.template, templateId };
+  }
+
+  return null;
+}
+
+export function getRetryPolicy(config: TranslationConfig): RetryPolicy {
+  return {
+    maxAttempts: config.maxAttempts,
+    baseDelayMs: config.retryBaseDelayMs,
+    maxDelayMs: config.retryMaxDelayMs,
+  };
+}
+
+/**
+ * 공유 청크 목록에서 같은 id의 청크를 최신 상태로 교체
+ */
+function replaceChunk(chunks: TranslationChunk[], updated: TranslationChunk): void {
+  const index = chunks.findIndex(c => c.id === updated.id);
+  if (index !== -1) {
+    chunks[index] = updated;
+  }
+}
+
+/**
+ * 대기 청크를 작업자 수만큼 연속된 구간으로 나눔
+ *
+ * 각 작업자가 자기 구간을 순서대로 번역하므로 구간 안의 청크는 항상 직전 청크의 번역을 문맥으로 받고,
+ * 구간의 첫 청크만 앞 구간이 끝나지 않았을 경우 이전 문맥 없이 번역됩니다.
+ */
+function splitIntoLanes(chunks: TranslationChunk[], laneCount: number): TranslationChunk[][] {
+  const laneSize = Math.ceil(chunks.length / laneCount);
+  const lanes: TranslationChunk[][] = [];
+
+  for (let start = 0; start < chunks.length; start += laneSize) {
+    lanes.push(chunks.slice(start, start + laneSize));
+  }
+
+  return lanes;
+}
+
+/**
+ * 번역 메모리의 이전 번역으로 청크 완료 처리 (API 호출 없음)
+ */
+async function completeChunkFromMemory(input: TranslateSingleChunkInput, translatedText: string, startTime: number): Promise<ChunkResult> {
+  const { chunk, session, allChunks, templateId } = input;
+  const processingTime = Date.now() - startTime;
+  const glossaryViolations = await runGlossaryCheck(session.id, chunk.sourceText, translatedText);
+
+  const updatedChunk = await db.transaction().execute(async trx => {
+    const revision = await trx
+      .insertInto('translation_chunk_revisions')
+      .values({
+        id: generateCuid(),
+        chunkId: chunk.id,
+        translatedText,
+        origin: 'memory',
+        model: null,
+        templateId: null,
+        generationConfig: null,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        processingTime,
+        createdAt: nowISOString(),
+      })
+      .returning('id')
+      .executeTakeFirstOrThrow();
+
+    return await trx
       .updateTable('translation_chunks')
       .set({
         status: 'completed',
         translatedText,
         processingTime,
-        tokenCount: usage.totalTokens,
+        tokenCount: 0,
         errorMessage: null,
+        currentRevisionId: revision.id,
+        manuallyEditedAt: null,
+        truncationRecovery: null,
+        blockReason: null,
+        qaFlags: runQualityCheck(chunk.sourceText, translatedText, templateId),
+        glossaryViolations,
+        tmMatch: 'exact',
         updatedAt: nowISOString(),
       })
       .where('id', '=', chunk.id)
       .returningAll()
       .executeTakeFirstOrThrow();
+  });
+
+  replaceChunk(allChunks, updatedChunk);
+  emitChunkProgress(session.id, updatedChunk, allChunks);
+
+  return {
+    chunkId: chunk.id,
+    order: chunk.order,
+    status: 'completed',
+    translatedText,
+  };
+}
+
+async function translateSingleChunk(input: TranslateSingleChunkInput): Promise<ChunkResult> {
+  const { chunk, session, allChunks, config, client, template, templateId, origin, signal } = input;
+  const startTime = Date.now();
+  const now = nowISOString();
+  let retryCount = chunk.retryCount;
+
+  emitChunkStart(session.id, chunk.id, chunk.order);
+
+  const processingChunk = await db
+    .updateTable('translation_chunks')
+    .set({ status: 'processing', updatedAt: now })
+    .where('id', '=', chunk.id)
+    .returningAll()
+    .executeTakeFirstOrThrow();
+  replaceChunk(allChunks, processingChunk);
+
+  try {
+    // 세션 전체 번역에서는 같은 원문의 이전 번역을 그대로 재사용 (청크 단위로 직접 번역할 때는 항상 새로 번역)
+    const reusedText =
+      input.memory && config.translationMemory === 'reuse' && origin === 'auto' ? input.memory.translateExactly(chunk.sourceText) : null;
+    if (reusedText !== null) {
+      return await completeChunkFromMemory(input, reusedText, startTime);
+    }
 
-    const updatedChunks = allChunks.map(c => (c.id === chunk.id ? updatedChunk : c));
-    emitChunkProgress(session.id, updatedChunk, updatedChunks);
+    const postProcessRules = resolvePostProcessRules(templateId, session);
+    const resources = await loadPromptResources(session);
+    const { glossary } = resources;
+    const memoryMatches = input.memory?.findFuzzy(chunk.sourceText, { minScore: TM_FUZZY_MIN_SCORE, limit: TM_FUZZY_LIMIT }) ?? [];
+
+    const request = buildChunkRequest({
+      chunk,
+      session,
+      allChunks: toChunkInfos(allChunks),
+      template,
+      templateId,
+      model: client.modelName, // 대체 모델로 다시 시도하는 경우도 있으므로 실제 요청할 모델 기준
+      memoryMatches,
+      resources,
+    });
+
+    // 생성되는 텍스트를 실시간으로 전달 (재시도하면 미리보기도 처음부터 다시 채워짐)
+    const onDelta = (_delta: string, text: string) => {
+      emitChunkDelta(session.id, chunk.id, chunk.order, postProcessTranslation(text, postProcessRules));
+    };
+
+    // 이어서 생성 / 용어 교정 호출도 같은 청크의 사용량으로 기록
+    const usageContext: GeminiUsageContext = { purpose: 'translation', sessionId: session.id, chunkId: chunk.id };
+
+    // 정상 종료했는데 번역문이 비어 있으면 결과에 빈 구간이 생기므로 완료로 기록하지 않고 재시도
+    const streamTranslation = async () => {
+      const result = await client.streamGenerateContent(request, { signal, onDelta, usage: usageContext });
+      if (!client.isTruncated(result) && !client.extractText(result).trim()) {
+        throw new GeminiAPIError('Response contained no translated text', 503, 'UNAVAILABLE');
+      }
+      return result;
+    };
+
+    // 일시적인 오류는 백오프 후 자동 재시도 (시도할 때마다 retryCount 기록)
+    const response = await withRetry(streamTranslation, {
+      policy: getRetryPolicy(config),
+      signal,
+      onRetry: async (error, attempt, delayMs) => {
+        retryCount++;
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+        logger.warn('external_api', `Chunk ${chunk.order} attempt ${attempt} failed, retrying in ${delayMs}ms`, {
+          sessionId: session.id,
+          chunkId: chunk.id,
+          error: errorMessage,
+        });
+
+        const retryingChunk = await db
+          .updateTable('translation_chunks')
+          .set({ retryCount, errorMessage, updatedAt: nowISOString() })
+          .where('id', '=', chunk.id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+        replaceChunk(allChunks, retryingChunk);
+        emitChunkProgress(session.id, retryingChunk, allChunks);
+      },
+    });
+
+    let rawTranslatedText = client.extractText(response);
+    const usage = client.extractUsage(response);
+    let truncated = client.isTruncated(response);
+    let continuations = 0;
+
+    // 출력 토큰 한도로 잘렸으면 지금까지의 출력을 model 턴으로 넣고 이어서 생성
+    while (truncated && continuations < MAX_CONTINUATIONS) {
+      continuations++;
+      const previousText = rawTranslatedText;
+
+      logger.warn('external_api', `Chunk ${chunk.order} output hit MAX_TOKENS, continuing (${continuations}/${MAX_CONTINUATIONS})`, {
+        sessionId: session.id,
+        chunkId: chunk.id,
+      });
+
+      const continuationRequest = {
+        ...request,
+        contents: [
+          ...request.contents,
+          { role: 'model' as const, parts: [{ text: previousText }] },
+          { role: 'user' as const, parts: [{ text: CONTINUATION_PROMPT }] },
+        ],
+      };
+
+      const continuation = await withRetry(
+        () =>
+          client.streamGenerateContent(continuationRequest, {
+            signal,
+            onDelta: (delta, text) => onDelta(delta, previousText + text),
+            usage: { ...usageContext, purpose: 'continuation' },
+          }),
+        { policy: getRetryPolicy(config), signal }
+      );
+
+      const continuationUsage = client.extractUsage(continuation);
+      usage.promptTokens += continuationUsage.promptTokens;
+      usage.completionTokens += continuationUsage.completionTokens;
+      usage.totalTokens += continuationUsage.totalTokens;
+
+      rawTranslatedText = previousText + client.extractText(continuation);
+      truncated = client.isTruncated(continuation);
+    }
+
+    let processingTime = Date.now() - startTime;
+
+    // 이어서 생성해도 끝나지 않은 번역문은 완료로 기록하지 않음 (기존 번역문 유지)
+    if (truncated) {
+      const errorMessage = `Output was cut off at the token limit after ${continuations} continuation(s)`;
+
+      // 품질 검사 재번역이면 아래 catch에서 기존 번역문으로 되돌림
+      if (input.previousQaFlags !== undefined) {
+        throw new Error(errorMessage);
+      }
+
+      const truncatedChunk = await db
+        .updateTable('translation_chunks')
+        .set({
+          status: 'failed',
+          errorMessage,
+          retryCount: retryCount + 1,
+          truncationRecovery: 'truncated',
+          processingTime,
+          tokenCount: usage.totalTokens,
+          updatedAt: nowISOString(),
+        })
+        .where('id', '=', chunk.id)
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      replaceChunk(allChunks, truncatedChunk);
+      emitChunkProgress(session.id, truncatedChunk, allChunks);
+
+      return {
+        chunkId: chunk.id,
+        order: chunk.order,
+        status: 'failed',
+        errorMessage,
+      };
+    }
+
+    let translatedText = postProcessTranslation(rawTranslatedText, postProcessRules);
+    let glossaryViolations = checkGlossaryUsage(glossary, chunk.sourceText, translatedText);
+    let corrections = 0;
+
+    // 용어를 지키지 않았으면 번역 대화에 이어서 해당 용어만 고치도록 요청 (위반이 줄어든 경우에만 채택)
+    while (glossaryViolations.length > 0 && corrections < config.glossaryCorrections) {
+      corrections++;
+
+      logger.warn('external_api', `Chunk ${chunk.order} missed ${glossaryViolations.length} glossary term(s), requesting correction`, {
+        sessionId: session.id,
+        chunkId: chunk.id,
+        attempt: corrections,
+      });
+
+      const correctionRequest = {
+        ...request,
+        contents: [
+          ...request.contents,
+          { role: 'model' as const, parts: [{ text: translatedText }] },
+          { role: 'user' as const, parts: [{ text: buildGlossaryCorrectionPrompt(glossaryViolations) }] },
+        ],
+      };
+
+      const correction = await withRetry(
+        () => client.generateContent(correctionRequest, { signal, usage: { ...usageContext, purpose: 'glossaryCorrection' } }),
+        { policy: getRetryPolicy(config), signal }
+      );
+
+      const correctionUsage = client.extractUsage(correction);
+      usage.promptTokens += correctionUsage.promptTokens;
+      usage.completionTokens += correctionUsage.completionTokens;
+      usage.totalTokens += correctionUsage.totalTokens;
+
+      // 잘린 교정 결과는 기존 번역문보다 나쁠 수 있으므로 버림
+      if (client.isTruncated(correction)) {
+        continue;
+      }
+
+      const correctedText = postProcessTranslation(client.extractText(correction), postProcessRules);
+      const correctedViolations = checkGlossaryUsage(glossary, chunk.sourceText, correctedText);
+
+      if (correctedText && correctedViolations.length < glossaryViolations.length) {
+        translatedText = correctedText;
+        glossaryViolations = correctedViolations;
+      }
+    }
+
+    processingTime = Date.now() - startTime;
+    const qaFlags = runQualityCheck(chunk.sourceText, translatedText, templateId);
+
+    // 품질 검사 재번역 결과가 기존 번역문보다 나아지지 않았으면 이력에만 남기고 기존 번역문 유지
+    const keepPrevious = input.previousQaFlags !== undefined && countQaFlags(qaFlags) >= countQaFlags(input.previousQaFlags);
+
+    // 이전 번역문을 덮어쓰지 않도록 시도 결과를 리비전으로 남기고 현재 리비전으로 지정
+    const updatedChunk = await db.transaction().execute(async trx => {
+      const revision = await trx
+        .insertInto('translation_chunk_revisions')
+        .values({
+          id: generateCuid(),
+          chunkId: chunk.id,
+          translatedText,
+          origin,
+          model: client.modelName,
+          templateId,
+          generationConfig: JSON.stringify(client.generationConfig),
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          totalTokens: usage.totalTokens,
+          processingTime,
+          createdAt: nowISOString(),
+        })
+        .returning('id')
+        .executeTakeFirstOrThrow();
+
+      if (keepPrevious) {
+        return await trx
+          .updateTable('translation_chunks')
+          .set({ status: 'completed', updatedAt: nowISOString() })
+          .where('id', '=', chunk.id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+      }
+
+      return await trx
+        .updateTable('translation_chunks')
+        .set({
+          status: 'completed',
+          translatedText,
+          processingTime,
+          tokenCount: usage.totalTokens,
+          errorMessage: null,
+          currentRevisionId: revision.id,
+          manuallyEditedAt: null,
+          truncationRecovery: continuations > 0 ? 'continued' : null,
+          blockReason: null,
+          qaFlags,
+          glossaryViolations: serializeGlossaryViolations(glossaryViolations),
+          tmMatch: memoryMatches.length > 0 ? 'fuzzy' : null,
+          updatedAt: nowISOString(),
+        })
+        .where('id', '=', chunk.id)
+        .returningAll()
+        .executeTakeFirstOrThrow();
+    });
+
+    replaceChunk(allChunks, updatedChunk);
+    emitChunkProgress(session.id, updatedChunk, allChunks);
+
+    // 품질 검사에 걸렸으면 설정한 횟수만큼 다시 번역
+    const qaAttempt = input.qaAttempt ?? 0;
+    if (updatedChunk.qaFlags && qaAttempt < config.qaAutoRetries) {
+      logger.warn('external_api', `Chunk ${chunk.order} failed quality checks (${updatedChunk.qaFlags}), retranslating`, {
+        sessionId: session.id,
+        chunkId: chunk.id,
+        attempt: qaAttempt + 1,
+      });
+
+      return translateSingleChunk({
+        ...input,
+        chunk: updatedChunk,
+        origin: 'retry',
+        qaAttempt: qaAttempt + 1,
+        previousQaFlags: updatedChunk.qaFlags,
+      });
+    }
 
     return {
       chunkId: chunk.id,
       order: chunk.order,
       status: 'completed',
-      translatedText,
+      translatedText: updatedChunk.translatedText ?? translatedText,
     };
   } catch (error) {
+    // 품질 검사 재번역은 첫 번역문과 리비전이 이미 저장되어 있으므로 중단 / 차단 / 실패와 관계없이 완료 상태로 되돌림
+    if (input.previousQaFlags !== undefined) {
+      if (!isAbortError(error)) {
+        logger.warn('external_api', `Chunk ${chunk.order} quality retry failed, keeping the previous translation`, {
+          sessionId: session.id,
+          chunkId: chunk.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      const restoredChunk = await db
+        .updateTable('translation_chunks')
+        .set({ status: 'completed', updatedAt: nowISOString() })
+        .where('id', '=', chunk.id)
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      replaceChunk(allChunks, restoredChunk);
+      emitChunkProgress(session.id, restoredChunk, allChunks);
+
+      return {
+        chunkId: chunk.id,
+        order: chunk.order,
+        status: 'completed',
+        translatedText: restoredChunk.translatedText ?? undefined,
+      };
+    }
+
+    // 중단된 청크는 실패로 기록하지 않고 대기 상태로 되돌림 (재개 시 다시 번역)
+    if (isAbortError(error)) {
+      const pendingChunk = await db
+        .updateTable('translation_chunks')
+        .set({ status: 'pending', updatedAt: nowISOString() })
+        .where('id', '=', chunk.id)
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      replaceChunk(allChunks, pendingChunk);
+      emitChunkProgress(session.id, pendingChunk, allChunks);
+
+      return {
+        chunkId: chunk.id,
+        order: chunk.order,
+        status: 'aborted',
+      };
+    }
+
+    // 안전 필터 등으로 차단된 경우: 설정된 대체 수단으로 한 번 더 시도하고, 그래도 막히면 차단으로 표시
+    if (error instanceof GeminiBlockedError) {
+      const fallback = input.isFallback ? null : await resolveBlockedFallback(input).catch(() => null);
+
+      if (fallback) {
+        logger.warn('external_api', `Chunk ${chunk.order} was blocked (${error.reason}), retrying with fallback`, {
+          sessionId: session.id,
+          chunkId: chunk.id,
+          blockedFallback: config.blockedFallback,
+        });
+
+        return translateSingleChunk({ ...input, ...fallback, chunk: { ...chunk, retryCount: retryCount + 1 }, isFallback: true });
+      }
+
+      const blockedChunk = await db
+        .updateTable('translation_chunks')
+        .set({
+          status: 'blocked',
+          errorMessage: error.message,
+          blockReason: error.reason,
+          retryCount: retryCount + 1,
+          updatedAt: nowISOString(),
+        })
+        .where('id', '=', chunk.id)
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      replaceChunk(allChunks, blockedChunk);
+      emitChunkProgress(session.id, blockedChunk, allChunks);
+
+      return {
+        chunkId: chunk.id,
+        order: chunk.order,
+        status: 'blocked',
+        errorMessage: error.message,
+      };
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
     const updatedChunk = await db
@@ -525,15 +1604,15 @@ async function translateSingleChunk(input: TranslateSingleChunkInput): Promise<C
       .set({
         status: 'failed',
         errorMessage,
-        retryCount: chunk.retryCount + 1,
+        retryCount: retryCount + 1,
         updatedAt: nowISOString(),
       })
       .where('id', '=', chunk.id)
       .returningAll()
       .executeTakeFirstOrThrow();
 
-    const updatedChunks = allChunks.map(c => (c.id === chunk.id ? updatedChunk : c));
-    emitChunkProgress(session.id, updatedChunk, updatedChunks);
+    replaceChunk(allChunks, updatedChunk);
+    emitChunkProgress(session.id, updatedChunk, allChunks);
 
     return {
       chunkId: chunk.id,
@@ -557,7 +1636,7 @@ export async function translateChunk(chunkId: string, options: { templateId: str
     throw Object.assign(new Error('Session not found'), { statusCode: 404 });
   }
 
-  const promptTemplate = templateService.getByIdOrThrow(options.templateId);
+  const promptTemplate = resolveSessionTemplate(session, options.templateId);
 
   const allChunks = await db
     .selectFrom('translation_chunks')
@@ -566,31 +1645,42 @@ export async function translateChunk(chunkId: string, options: { templateId: str
     .orderBy('order', 'asc')
     .execute();
 
-  const config = await getTranslationConfig();
+  const config = applySessionOverrides(await getTranslationConfig(), session);
   const client = await createGeminiClientFromConfig(config);
+  const memory = await loadTranslationMemory(session.id, config.translationMemory, promptTemplate);
 
   const sessionWithOverride = options?.customDict ? { ...session, customDict: options.customDict } : session;
 
-  const result = await translateSingleChunk({
-    chunk,
-    session: sessionWithOverride,
-    allChunks,
-    config,
-    client,
-    template: promptTemplate.content,
-  });
+  const job = translationJobs.start(chunk.sessionId);
 
-  if (result.status === 'completed') {
-    await assembleTranslation(chunk.sessionId);
-  }
+  try {
+    const result = await translateSingleChunk({
+      chunk,
+      session: sessionWithOverride,
+      allChunks,
+      config,
+      client,
+      template: promptTemplate.content,
+      templateId: promptTemplate.id,
+      origin: 'retry',
+      signal: job.signal,
+      memory,
+    });
 
-  const updatedChunk = await db.selectFrom('translation_chunks').selectAll().where('id', '=', chunkId).executeTakeFirst();
+    if (result.status === 'completed' || result.status === 'blocked') {
+      await assembleTranslation(chunk.sessionId);
+    }
 
-  if (!updatedChunk) {
-    throw Object.assign(new Error('Chunk not found after translation'), { statusCode: 500 });
-  }
+    const updatedChunk = await db.selectFrom('translation_chunks').selectAll().where('id', '=', chunkId).executeTakeFirst();
 
-  return updatedChunk;
+    if (!updatedChunk) {
+      throw Object.assign(new Error('Chunk not found after translation'), { statusCode: 500 });
+    }
+
+    return updatedChunk;
+  } finally {
+    job.finish();
+  }
 }
 
 export async function translateAllPendingChunks(sessionId: string, options: { templateId: string }): Promise<ChunkResult[]> {
@@ -607,95 +1697,206 @@ export async function translateAllPendingChunks(sessionId: string, options: { te
     .orderBy('order', 'asc')
     .execute();
 
-  const promptTemplate = templateService.getByIdOrThrow(options.templateId);
+  const promptTemplate = resolveSessionTemplate(session, options.templateId);
 
-  await db
-    .updateTable('translation_sessions')
-    .set({ status: 'translating', updatedAt: nowISOString() })
-    .where('id', '=', sessionId)
-    .execute();
-
-  emitSessionStatus(sessionId, 'translating', allChunks);
-
-  const pendingChunks = allChunks.filter(c => c.status === 'pending' || c.status === 'failed');
+  const job = translationJobs.start(sessionId);
 
-  if (pendingChunks.length === 0) {
+  try {
     await db
       .updateTable('translation_sessions')
-      .set({ status: 'completed', updatedAt: nowISOString() })
+      .set({ status: 'translating', lastTemplateId: promptTemplate.id, updatedAt: nowISOString() })
       .where('id', '=', sessionId)
       .execute();
-    emitSessionStatus(sessionId, 'completed', allChunks);
-    return [];
-  }
 
-  const config = await getTranslationConfig();
-  const client = await createGeminiClientFromConfig(config);
-  const template = promptTemplate.content;
+    emitSessionStatus(sessionId, 'translating', allChunks);
 
-  const results: ChunkResult[] = [];
-  const mutableChunks = [...allChunks];
+    const pendingChunks = allChunks.filter(c => c.status === 'pending' || c.status === 'failed');
 
-  for (const chunk of pendingChunks) {
-    const currentSession = await db.selectFrom('translation_sessions').select('status').where('id', '=', sessionId).executeTakeFirst();
+    if (pendingChunks.length === 0) {
+      await db
+        .updateTable('translation_sessions')
+        .set({ status: 'completed', updatedAt: nowISOString() })
+        .where('id', '=', sessionId)
+        .execute();
+      emitSessionStatus(sessionId, 'completed', allChunks);
+      return [];
+    }
 
-    if (currentSession?.status === 'paused') {
-      break;
+    const config = applySessionOverrides(await getTranslationConfig(), session);
+    const client = await createGeminiClientFromConfig(config);
+    const template = promptTemplate.content;
+    const memory = await loadTranslationMemory(sessionId, config.translationMemory, promptTemplate);
+
+    const results: ChunkResult[] = [];
+    const chunkState = [...allChunks];
+
+    // 작업자 풀 구성: 직전 번역문을 참조하는 템플릿은 연속 구간 단위로, 아니면 공유 큐에서 하나씩 가져감
+    const concurrency = Math.max(1, Math.min(config.concurrency, pendingChunks.length));
+    const queue = [...pendingChunks];
+    const lanes = templateUsesPreviousTranslation(template)
+      ? splitIntoLanes(queue, concurrency)
+      : Array.from({ length: concurrency }, () => queue);
+
+    const runWorker = async (lane: TranslationChunk[]): Promise<void> => {
+      for (let chunk = lane.shift(); chunk && !job.signal.aborted; chunk = lane.shift()) {
+        const result = await translateSingleChunk({
+          chunk,
+          session,
+          allChunks: chunkState,
+          config,
+          client,
+          template,
+          templateId: promptTemplate.id,
+          origin: 'auto',
+          signal: job.signal,
+          memory,
+        });
+        results.push(result);
+
+        if (result.status === 'completed' && !job.signal.aborted) {
+          await maybeUpdateSessionSummary(sessionId, chunkState, config, job.signal);
+        }
+      }
+    };
+
+    await Promise.all(lanes.map(runWorker));
+    results.sort((a, b) => a.order - b.order);
+
+    // 일시 정지 / 취소 / 삭제로 중단된 경우 세션 상태는 중단한 쪽에서 갱신함
+    if (job.signal.aborted) {
+      return results;
     }
 
-    const result = await translateSingleChunk({
-      chunk,
-      session,
-      allChunks: mutableChunks,
-      config,
-      client,
-      template,
-    });
-    results.push(result);
+    const finalSession = await db.selectFrom('translation_sessions').select('status').where('id', '=', sessionId).executeTakeFirst();
 
-    const chunkIndex = mutableChunks.findIndex(c => c.id === chunk.id);
-    if (chunkIndex !== -1 && result.status === 'completed') {
-      mutableChunks[chunkIndex] = {
-        ...mutableChunks[chunkIndex],
-        status: 'completed',
-        translatedText: result.translatedText ?? null,
-      };
+    if (finalSession?.status !== 'paused') {
+      const hasFailures = results.some(r => r.status === 'failed');
+      const allProcessed = results.length === pendingChunks.length;
+
+      let finalStatus: string;
+      if (!allProcessed) {
+        finalStatus = 'paused';
+      } else if (hasFailures) {
+        finalStatus = 'failed';
+      } else {
+        finalStatus = 'completed';
+      }
+
+      await db
+        .updateTable('translation_sessions')
+        .set({ status: finalStatus, updatedAt: nowISOString() })
+        .where('id', '=', sessionId)
+        .execute();
+
+      emitSessionStatus(sessionId, finalStatus as 'completed' | 'failed' | 'paused', chunkState);
+
+      if (finalStatus === 'completed') {
+        await assembleTranslation(sessionId);
+        const completedSession = await db.selectFrom('translation_sessions').selectAll().where('id', '=', sessionId).executeTakeFirst();
+        if (completedSession) {
+          emitSessionComplete(sessionId, completedSession);
+        }
+      }
     }
+
+    return results;
+  } finally {
+    job.finish();
   }
+}
 
-  const finalSession = await db.selectFrom('translation_sessions').select('status').where('id', '=', sessionId).executeTakeFirst();
+// ============================================
+// 번역 비용 추정
+// ============================================
 
-  if (finalSession?.status !== 'paused') {
-    const hasFailures = results.some(r => r.status === 'failed');
-    const allProcessed = results.length === pendingChunks.length;
+// countTokens로 실제 토큰 수를 셀 최대 청크 수 (나머지는 표본의 실제 / 로컬 추정 비율로 보정)
+const COUNT_TOKENS_SAMPLE_SIZE = 10;
 
-    let finalStatus: string;
-    if (!allProcessed) {
-      finalStatus = 'paused';
-    } else if (hasFailures) {
-      finalStatus = 'failed';
-    } else {
-      finalStatus = 'completed';
-    }
+/**
+ * 세션 전체 번역을 시작하기 전의 예상 토큰 수 / 비용
+ *
+ * 대기 / 실패 청크의 실제 프롬프트를 렌더링해 입력 토큰을 세고, 출력 토큰은 원문 토큰에 언어 쌍별 비율을 곱해 추정합니다.
+ * 아직 번역되지 않은 앞 청크는 원문을 번역문 자리에 넣어 문맥 길이를 어림합니다.
+ */
+export async function estimateTranslationCost(sessionId: string, options: { templateId: string }): Promise<TranslationCostEstimate> {
+  const session = await db.selectFrom('translation_sessions').selectAll().where('id', '=', sessionId).executeTakeFirst();
 
-    await db
-      .updateTable('translation_sessions')
-      .set({ status: finalStatus, updatedAt: nowISOString() })
-      .where('id', '=', sessionId)
-      .execute();
+  if (!session) {
+    throw Object.assign(new Error('Session not found'), { statusCode: 404 });
+  }
 
-    emitSessionStatus(sessionId, finalStatus as 'completed' | 'failed' | 'paused', mutableChunks);
+  const allChunks = await getSessionChunks(sessionId);
+  const promptTemplate = resolveSessionTemplate(session, options.templateId);
+  const config = applySessionOverrides(await getTranslationConfig(), session);
+  const memory = await loadTranslationMemory(sessionId, config.translationMemory, promptTemplate);
 
-    if (finalStatus === 'completed') {
-      await assembleTranslation(sessionId);
-      const completedSession = await db.selectFrom('translation_sessions').selectAll().where('id', '=', sessionId).executeTakeFirst();
-      if (completedSession) {
-        emitSessionComplete(sessionId, completedSession);
+  const pendingChunks = allChunks.filter(c => c.status === 'pending' || c.status === 'failed');
+  const chunksToTranslate =
+    memory && config.translationMemory === 'reuse'
+      ? pendingChunks.filter(c => memory.translateExactly(c.sourceText) === null)
+      : pendingChunks;
+
+  const assumedChunks = toChunkInfos(allChunks).map(c =>
+    c.status === 'completed' && c.translatedText !== null ? c : { ...c, translatedText: c.sourceText, status: 'completed' }
+  );
+  const resources = await loadPromptResources(session);
+
+  const requests = chunksToTranslate.map(chunk =>
+    buildChunkRequest({
+      chunk,
+      session,
+      allChunks: assumedChunks,
+      template: promptTemplate.content,
+      templateId: promptTemplate.id,
+      model: config.model,
+      memoryMatches: memory?.findFuzzy(chunk.sourceText, { minScore: TM_FUZZY_MIN_SCORE, limit: TM_FUZZY_LIMIT }) ?? [],
+      resources,
+    })
+  );
+
+  const localTokens = requests.map(estimateRequestTokens);
+  let inputTokens = localTokens.reduce((sum, tokens) => sum + tokens, 0);
+  let tokenSource: TokenCountSource = 'local';
+
+  if (requests.length > 0) {
+    try {
+      const client = await createGeminiClientFromConfig(config);
+      const sample = sampleChunkIndexes(requests.length, COUNT_TOKENS_SAMPLE_SIZE);
+      const counted = await Promise.all(sample.map(index => client.countTokens(requests[index])));
+
+      const countedTokens = counted.reduce((sum, tokens) => sum + tokens, 0);
+      const sampledTokens = sample.reduce((sum, index) => sum + localTokens[index], 0);
+      if (sampledTokens > 0) {
+        inputTokens = Math.round((inputTokens * countedTokens) / sampledTokens);
       }
+      tokenSource = 'api';
+    } catch (error) {
+      // API 키가 없거나 오프라인이면 로컬 추정값 사용
+      logger.warn('external_api', 'Token count failed, using local estimate', {
+        sessionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
     }
   }
 
-  return results;
+  const outputRatio = getOutputRatio(promptTemplate.sourceLanguage, promptTemplate.targetLanguage);
+  const sourceTokens = chunksToTranslate.reduce((sum, chunk) => sum + estimateTokenCount(chunk.sourceText), 0);
+  const outputTokens = Math.ceil(sourceTokens * outputRatio);
+
+  const pricing = getModelById(config.model)?.pricing;
+  const costUsd = pricing ? calculateCostUsd(inputTokens, outputTokens, pricing) : null;
+
+  return {
+    model: config.model,
+    chunkCount: chunksToTranslate.length,
+    reusedChunkCount: pendingChunks.length - chunksToTranslate.length,
+    inputTokens,
+    outputTokens,
+    outputRatio,
+    costUsd,
+    tokenSource,
+    requiresConfirmation: costUsd !== null && config.costConfirmThreshold > 0 && costUsd > config.costConfirmThreshold,
+  };
 }
 
 // ============================================
@@ -720,6 +1921,10 @@ export async function pauseTranslation(sessionId: string): Promise<TranslationSe
     .returningAll()
     .executeTakeFirstOrThrow();
 
+  // 진행 중인 요청을 중단하고 청크가 pending으로 되돌아갈 때까지 대기
+  translationJobs.abort(sessionId);
+  await translationJobs.waitForIdle(sessionId);
+
   const chunks = await db.selectFrom('translation_chunks').selectAll().where('sessionId', '=', sessionId).execute();
 
   emitSessionStatus(sessionId, 'paused', chunks);
@@ -727,20 +1932,77 @@ export async function pauseTranslation(sessionId: string): Promise<TranslationSe
   return updatedSession;
 }
 
-export async function resumeTranslation(sessionId: string, options: { templateId: string }): Promise<void> {
+/**
+ * 번역 취소 (진행 중인 요청을 중단하고 세션을 번역 시작 전 상태로 되돌림, 완료된 청크는 유지)
+ */
+export async function cancelTranslation(sessionId: string): Promise<TranslationSession> {
   const session = await db.selectFrom('translation_sessions').selectAll().where('id', '=', sessionId).executeTakeFirst();
 
   if (!session) {
     throw Object.assign(new Error('Session not found'), { statusCode: 404 });
   }
 
-  if (session.status !== 'paused' && session.status !== 'failed') {
-    throw Object.assign(new Error(`Cannot resume session in '${session.status}' state`), { statusCode: 400 });
+  if (session.status !== 'translating' && session.status !== 'paused') {
+    throw Object.assign(new Error(`Cannot cancel session in '${session.status}' state`), { statusCode: 400 });
   }
 
-  translateAllPendingChunks(sessionId, options).catch(error => {
-    logger.error('system', `Resume translation failed for session ${sessionId}:`, error);
+  translationJobs.abort(sessionId);
+  await translationJobs.waitForIdle(sessionId);
+
+  const updatedSession = await db
+    .updateTable('translation_sessions')
+    .set({ status: 'ready', updatedAt: nowISOString() })
+    .where('id', '=', sessionId)
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  const chunks = await db.selectFrom('translation_chunks').selectAll().where('sessionId', '=', sessionId).execute();
+
+  emitSessionStatus(sessionId, 'ready', chunks);
+
+  return updatedSession;
+}
+
+/**
+ * 전체 재번역 준비 - 청크를 대기 상태로 되돌림 (실제 번역은 대기열에서 실행)
+ *
+ * @param options.force true면 직접 수정한 청크도 다시 번역, 아니면 수정본 유지
+ * @returns 대기 상태로 되돌린 청크 수
+ */
+export async function prepareRetranslation(sessionId: string, options: { force?: boolean } = {}): Promise<number> {
+  const session = await db.selectFrom('translation_sessions').selectAll().where('id', '=', sessionId).executeTakeFirst();
+
+  if (!session) {
+    throw Object.assign(new Error('Session not found'), { statusCode: 404 });
+  }
+
+  if (session.status === 'draft' || session.status === 'translating') {
+    throw Object.assign(new Error(`Cannot retranslate session in '${session.status}' state`), { statusCode: 400 });
+  }
+
+  const now = nowISOString();
+
+  const resetChunks = await db.transaction().execute(async trx => {
+    let query = trx
+      .updateTable('translation_chunks')
+      .set({ status: 'pending', errorMessage: null, updatedAt: now })
+      .where('sessionId', '=', sessionId)
+      .where('status', '!=', 'processing');
+
+    if (!options.force) {
+      query = query.where('manuallyEditedAt', 'is', null);
+    }
+
+    const chunks = await query.returning('id').execute();
+
+    await trx.updateTable('translation_sessions').set({ status: 'ready', updatedAt: now }).where('id', '=', sessionId).execute();
+
+    return chunks;
   });
+
+  emitSessionStatus(sessionId, 'ready', await getSessionChunks(sessionId));
+
+  return resetChunks.length;
 }
 
 export async function retryFailedChunk(chunkId: string, options: { templateId: string }): Promise<TranslationChunk> {
@@ -750,7 +2012,7 @@ export async function retryFailedChunk(chunkId: string, options: { templateId: s
     throw Object.assign(new Error('Chunk not found'), { statusCode: 404 });
   }
 
-  if (chunk.status !== 'failed') {
+  if (chunk.status !== 'failed' && chunk.status !== 'blocked') {
     throw Object.assign(new Error('Chunk is not in failed state'), { statusCode: 400 });
   }
 
@@ -764,6 +2026,353 @@ export async function retryFailedChunk(chunkId: string, options: { templateId: s
   });
 }
 
+// ============================================
+// 청크 리비전 (번역 이력)
+// ============================================
+
+function toRevisionDto(revision: TranslationChunkRevision): TranslationChunkRevisionDto {
+  return {
+    ...revision,
+    origin: revision.origin as ChunkRevisionOrigin,
+    generationConfig: revision.generationConfig ? (JSON.parse(revision.generationConfig) as Record<string, unknown>) : null,
+  };
+}
+
+/**
+ * 청크의 번역 리비전 목록 (최신순)
+ */
+export async function listChunkRevisions(chunkId: string): Promise<TranslationChunkRevisionDto[]> {
+  const revisions = await db
+    .selectFrom('translation_chunk_revisions')
+    .selectAll()
+    .where('chunkId', '=', chunkId)
+    .orderBy('createdAt', 'desc')
+    .execute();
+
+  return revisions.map(toRevisionDto);
+}
+
+/**
+ * 이전 리비전을 청크의 현재 번역문으로 되돌림
+ */
+export async function promoteChunkRevision(chunkId: string, revisionId: string): Promise<TranslationChunk> {
+  const { chunk } = await getEditableChunk(chunkId);
+
+  if (chunk.status === 'processing') {
+    throw Object.assign(new Error('Cannot change a chunk while it is being translated'), { statusCode: 400 });
+  }
+
+  const revision = await db
+    .selectFrom('translation_chunk_revisions')
+    .selectAll()
+    .where('id', '=', revisionId)
+    .where('chunkId', '=', chunkId)
+    .executeTakeFirst();
+
+  if (!revision) {
+    throw Object.assign(new Error('Revision not found'), { statusCode: 404 });
+  }
+
+  const glossaryViolations = await runGlossaryCheck(chunk.sessionId, chunk.sourceText, revision.translatedText);
+
+  const updatedChunk = await db
+    .updateTable('translation_chunks')
+    .set({
+      status: 'completed',
+      translatedText: revision.translatedText,
+      tokenCount: revision.totalTokens,
+      processingTime: revision.processingTime,
+      errorMessage: null,
+      currentRevisionId: revision.id,
+      manuallyEditedAt: revision.origin === 'manual' ? nowISOString() : null,
+      truncationRecovery: null,
+      blockReason: null,
+      qaFlags: revision.origin === 'manual' ? null : runQualityCheck(chunk.sourceText, revision.translatedText, revision.templateId),
+      glossaryViolations,
+      tmMatch: revision.origin === 'memory' ? 'exact' : null,
+      updatedAt: nowISOString(),
+    })
+    .where('id', '=', chunkId)
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  await assembleTranslation(chunk.sessionId);
+
+  const allChunks = await getSessionChunks(chunk.sessionId);
+  emitChunkProgress(chunk.sessionId, updatedChunk, allChunks);
+
+  return updatedChunk;
+}
+
+/**
+ * 번역문 직접 수정 (수정본은 manual 리비전으로 남기고 청크를 직접 수정됨으로 표시)
+ */
+export async function updateChunkText(chunkId: string, text: string): Promise<TranslationChunk> {
+  const translatedText = text.trim();
+
+  if (!translatedText) {
+    throw Object.assign(new Error('Translated text is required'), { statusCode: 400 });
+  }
+
+  const { chunk } = await getEditableChunk(chunkId);
+
+  if (chunk.status === 'processing') {
+    throw Object.assign(new Error('Cannot change a chunk while it is being translated'), { statusCode: 400 });
+  }
+
+  const now = nowISOString();
+  const glossaryViolations = await runGlossaryCheck(chunk.sessionId, chunk.sourceText, translatedText);
+
+  const updatedChunk = await db.transaction().execute(async trx => {
+    const revision = await trx
+      .insertInto('translation_chunk_revisions')
+      .values({
+        id: generateCuid(),
+        chunkId,
+        translatedText,
+        origin: 'manual',
+        model: null,
+        templateId: null,
+        generationConfig: null,
+        promptTokens: null,
+        completionTokens: null,
+        totalTokens: null,
+        processingTime: null,
+        createdAt: now,
+      })
+      .returning('id')
+      .executeTakeFirstOrThrow();
+
+    return await trx
+      .updateTable('translation_chunks')
+      .set({
+        status: 'completed',
+        translatedText,
+        errorMessage: null,
+        currentRevisionId: revision.id,
+        manuallyEditedAt: now,
+        truncationRecovery: null,
+        blockReason: null,
+        qaFlags: null,
+        glossaryViolations,
+        tmMatch: null,
+        updatedAt: now,
+      })
+      .where('id', '=', chunkId)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  });
+
+  await assembleTranslation(chunk.sessionId);
+
+  const allChunks = await getSessionChunks(chunk.sessionId);
+  emitChunkProgress(chunk.sessionId, updatedChunk, allChunks);
+
+  return updatedChunk;
+}
+
+// ============================================
+// 청크 분할 / 병합
+// ============================================
+
+// 원문이 바뀐 청크 초기화 값 (id를 유지하므로 번역 이력은 남음)
+const RESET_CHUNK_FIELDS = {
+  translatedText: null,
+  status: 'pending',
+  errorMessage: null,
+  retryCount: 0,
+  tokenCount: null,
+  processingTime: null,
+  currentRevisionId: null,
+  manuallyEditedAt: null,
+  truncationRecovery: null,
+  blockReason: null,
+  qaFlags: null,
+  glossaryViolations: null,
+  tmMatch: null,
+} as const;
+
+async function getEditableChunk(chunkId: string): Promise<{ chunk: TranslationChunk; status: TranslationSessionStatus }> {
+  const chunk = await db.selectFrom('translation_chunks').selectAll().where('id', '=', chunkId).executeTakeFirst();
+
+  if (!chunk) {
+    throw Object.assign(new Error('Chunk not found'), { statusCode: 404 });
+  }
+
+  const session = await db.selectFrom('translation_sessions').selectAll().where('id', '=', chunk.sessionId).executeTakeFirstOrThrow();
+
+  // 번역 중인 세션은 대기 청크도 곧 다시 번역되어 변경 내용을 덮어쓰므로 거부
+  if (session.status === 'translating') {
+    throw Object.assign(new Error('Cannot change chunks while the session is being translated'), { statusCode: 400 });
+  }
+
+  // 완료된 세션은 바뀐 청크를 다시 번역할 수 있도록 ready로
+  const status = session.status === 'completed' ? 'ready' : (session.status as TranslationSessionStatus);
+
+  return { chunk, status };
+}
+
+/**
+ * 청크 구성 변경 후 세션의 청크 수 / 상태 갱신
+ */
+async function finishChunkRestructure(
+  trx: Kysely<Database>,
+  sessionId: string,
+  status: TranslationSessionStatus,
+  now: string
+): Promise<void> {
+  const { count } = await trx
+    .selectFrom('translation_chunks')
+    .select(eb => eb.fn.countAll().as('count'))
+    .where('sessionId', '=', sessionId)
+    .executeTakeFirstOrThrow();
+
+  await trx
+    .updateTable('translation_sessions')
+    .set({
+      totalChunks: Number(count),
+      status,
+      ...(status === 'ready' ? { translatedText: null } : {}),
+      updatedAt: now,
+    })
+    .where('id', '=', sessionId)
+    .execute();
+}
+
+/**
+ * 원문의 position 위치에서 청크를 둘로 분할
+ *
+ * 앞부분은 기존 청크(이력 유지)에, 뒷부분은 바로 다음 순서의 새 청크에 들어가며 둘 다 pending이 됩니다.
+ */
+export async function splitChunk(chunkId: string, position: number): Promise<TranslationChunk[]> {
+  const { chunk, status } = await getEditableChunk(chunkId);
+
+  if (chunk.status === 'processing') {
+    throw Object.assign(new Error('Cannot change a chunk while it is being translated'), { statusCode: 400 });
+  }
+
+  const head = chunk.sourceText.slice(0, position).trim();
+  const tail = chunk.sourceText.slice(position).trim();
+
+  if (!Number.isInteger(position) || !head || !tail) {
+    throw Object.assign(new Error('Split position must leave text on both sides'), { statusCode: 400 });
+  }
+
+  const now = nowISOString();
+
+  const result = await db.transaction().execute(async trx => {
+    // 뒤쪽 청크를 한 칸씩 민다 ((sessionId, order) 유니크 제약 때문에 끝에서부터)
+    const following = await trx
+      .selectFrom('translation_chunks')
+      .select(['id', 'order'])
+      .where('sessionId', '=', chunk.sessionId)
+      .where('order', '>', chunk.order)
+      .orderBy('order', 'desc')
+      .execute();
+
+    for (const next of following) {
+      await trx
+        .updateTable('translation_chunks')
+        .set({ order: next.order + 1 })
+        .where('id', '=', next.id)
+        .execute();
+    }
+
+    const first = await trx
+      .updateTable('translation_chunks')
+      .set({ ...RESET_CHUNK_FIELDS, sourceText: head, updatedAt: now })
+      .where('id', '=', chunkId)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    const second = await trx
+      .insertInto('translation_chunks')
+      .values({
+        ...RESET_CHUNK_FIELDS,
+        id: generateCuid(),
+        sessionId: chunk.sessionId,
+        order: chunk.order + 1,
+        sourceText: tail,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await finishChunkRestructure(trx, chunk.sessionId, status, now);
+
+    return [first, second];
+  });
+
+  const allChunks = await getSessionChunks(chunk.sessionId);
+  emitSessionStatus(chunk.sessionId, status, allChunks);
+
+  return result;
+}
+
+/**
+ * 청크를 바로 다음 청크와 병합
+ *
+ * 합친 원문은 앞 청크(이력 유지)에 들어가 pending이 되고, 다음 청크는 이력과 함께 삭제됩니다.
+ */
+export async function mergeChunkWithNext(chunkId: string): Promise<TranslationChunk> {
+  const { chunk, status } = await getEditableChunk(chunkId);
+
+  const next = await db
+    .selectFrom('translation_chunks')
+    .selectAll()
+    .where('sessionId', '=', chunk.sessionId)
+    .where('order', '=', chunk.order + 1)
+    .executeTakeFirst();
+
+  if (!next) {
+    throw Object.assign(new Error('There is no next chunk to merge with'), { statusCode: 400 });
+  }
+
+  if (chunk.status === 'processing' || next.status === 'processing') {
+    throw Object.assign(new Error('Cannot change a chunk while it is being translated'), { statusCode: 400 });
+  }
+
+  const now = nowISOString();
+
+  const merged = await db.transaction().execute(async trx => {
+    await trx.deleteFrom('translation_chunks').where('id', '=', next.id).execute();
+
+    // 뒤쪽 청크를 한 칸씩 당긴다 (앞에서부터)
+    const following = await trx
+      .selectFrom('translation_chunks')
+      .select(['id', 'order'])
+      .where('sessionId', '=', chunk.sessionId)
+      .where('order', '>', next.order)
+      .orderBy('order', 'asc')
+      .execute();
+
+    for (const row of following) {
+      await trx
+        .updateTable('translation_chunks')
+        .set({ order: row.order - 1 })
+        .where('id', '=', row.id)
+        .execute();
+    }
+
+    const updated = await trx
+      .updateTable('translation_chunks')
+      .set({ ...RESET_CHUNK_FIELDS, sourceText: `${chunk.sourceText}\n\n${next.sourceText}`, updatedAt: now })
+      .where('id', '=', chunkId)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await finishChunkRestructure(trx, chunk.sessionId, status, now);
+
+    return updated;
+  });
+
+  const allChunks = await getSessionChunks(chunk.sessionId);
+  emitSessionStatus(chunk.sessionId, status, allChunks);
+
+  return merged;
+}
+
 // ============================================
 // 번역문 조립
 // ============================================
@@ -771,10 +2380,11 @@ export async function retryFailedChunk(chunkId: string, options: { templateId: s
 async function assembleTranslation(sessionId: string): Promise<void> {
   const chunks = await db.selectFrom('translation_chunks').selectAll().where('sessionId', '=', sessionId).orderBy('order', 'asc').execute();
 
-  const allCompleted = chunks.every(c => c.status === 'completed');
+  // 차단된 청크는 원문을 그대로 넣고 완료로 간주
+  const allCompleted = chunks.every(c => c.status === 'completed' || c.status === 'blocked');
 
   if (allCompleted && chunks.length > 0) {
-    const translatedText = chunks.map(c => c.translatedText ?? '').join('\n\n');
+    const translatedText = chunks.map(chunkOutputText).join('\n\n');
 
     await db
       .updateTable('translation_sessions')
@@ -793,11 +2403,11 @@ export async function getPartialTranslation(sessionId: string): Promise<string>
     .selectFrom('translation_chunks')
     .selectAll()
     .where('sessionId', '=', sessionId)
-    .where('status', '=', 'completed')
+    .where('status', 'in', ['completed', 'blocked'])
     .orderBy('order', 'asc')
     .execute();
 
-  return chunks.map(c => c.translatedText ?? '').join('\n\n');
+  return chunks.map(chunkOutputText).join('\n\n');
 }
 
 // ============================================
@@ -3,10 +3,20 @@ import type {
   WsServerEvent,
   WsChunkProgressEvent,
   WsChunkStartEvent,
+  WsChunkDeltaEvent,
   WsSessionStatusEvent,
   WsSessionCompleteEvent,
+  WsRateLimitStatusEvent,
+  WsQueueStatusEvent,
+  WsGlossaryExtractProgressEvent,
+  WsErrorEvent,
+  TranslationQueueEntry,
+  RateLimitStatus,
   ProgressInfo,
   TranslationSessionStatus,
+  TranslationChunkStatus,
+  TruncationRecovery,
+  TmMatch,
 } from '@shared/types';
 import type { TranslationSession, TranslationChunk } from '../database/index';
 
@@ -18,10 +28,11 @@ export function calculateProgress(chunks: TranslationChunk[]): ProgressInfo {
   const total = chunks.length;
   const completed = chunks.filter(c => c.status === 'completed').length;
   const failed = chunks.filter(c => c.status === 'failed').length;
+  const blocked = chunks.filter(c => c.status === 'blocked').length;
   const pending = chunks.filter(c => c.status === 'pending' || c.status === 'processing').length;
-  const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
+  const percent = total > 0 ? Math.round(((completed + blocked) / total) * 100) : 0;
 
-  return { completed, failed, pending, total, percent };
+  return { completed, failed, blocked, pending, total, percent };
 }
 
 // ============================================
@@ -52,6 +63,20 @@ export function emitChunkStart(sessionId: string, chunkId: string, order: number
   sendToAllWindows('translation:chunk-start', event);
 }
 
+/**
+ * 청크 스트리밍 출력 이벤트 (누적 텍스트)
+ */
+export function emitChunkDelta(sessionId: string, chunkId: string, order: number, text: string): void {
+  const event: WsChunkDeltaEvent = {
+    type: 'chunk:delta',
+    sessionId,
+    chunkId,
+    order,
+    text,
+  };
+  sendToAllWindows('translation:chunk-delta', event);
+}
+
 /**
  * 청크 진행 상황 이벤트 (완료 또는 실패)
  */
@@ -67,11 +92,18 @@ export function emitChunkProgress(sessionId: string, chunk: TranslationChunk, al
       order: chunk.order,
       sourceText: chunk.sourceText,
       translatedText: chunk.translatedText,
-      status: chunk.status as 'pending' | 'processing' | 'completed' | 'failed',
+      status: chunk.status as TranslationChunkStatus,
       errorMessage: chunk.errorMessage,
       retryCount: chunk.retryCount,
       tokenCount: chunk.tokenCount,
       processingTime: chunk.processingTime,
+      currentRevisionId: chunk.currentRevisionId,
+      manuallyEditedAt: chunk.manuallyEditedAt,
+      truncationRecovery: chunk.truncationRecovery as TruncationRecovery | null,
+      blockReason: chunk.blockReason,
+      qaFlags: chunk.qaFlags,
+      glossaryViolations: chunk.glossaryViolations,
+      tmMatch: chunk.tmMatch as TmMatch | null,
       createdAt: chunk.createdAt,
       updatedAt: chunk.updatedAt,
     },
@@ -112,6 +144,17 @@ export function emitSessionComplete(sessionId: string, session: TranslationSessi
       translatedText: session.translatedText,
       status: session.status as TranslationSessionStatus,
       totalChunks: session.totalChunks,
+      lastTemplateId: session.lastTemplateId,
+      summary: session.summary,
+      summaryChunkId: session.summaryChunkId,
+      model: session.model,
+      templateId: session.templateId,
+      chunkSize: session.chunkSize,
+      temperature: session.temperature,
+      maxOutputTokens: session.maxOutputTokens,
+      topP: session.topP,
+      topK: session.topK,
+      postProcessRules: session.postProcessRules,
       createdAt: session.createdAt,
       updatedAt: session.updatedAt,
     },
@@ -120,6 +163,54 @@ export function emitSessionComplete(sessionId: string, session: TranslationSessi
   sendToAllWindows('translation:session-complete', event);
 }
 
+/**
+ * 요청 한도 대기열 상태 이벤트
+ */
+export function emitRateLimitStatus(models: RateLimitStatus[]): void {
+  const event: WsRateLimitStatusEvent = {
+    type: 'rateLimit:status',
+    models,
+  };
+  sendToAllWindows('translation:rate-limit', event);
+}
+
+/**
+ * 번역 대기열 상태 이벤트
+ */
+export function emitQueueStatus(entries: TranslationQueueEntry[]): void {
+  const event: WsQueueStatusEvent = {
+    type: 'queue:status',
+    entries,
+  };
+  sendToAllWindows('translation:queue', event);
+}
+
+/**
+ * 용어 추출 진행 상황 이벤트
+ */
+export function emitGlossaryExtractProgress(sessionId: string, processedChunks: number, totalChunks: number, candidates: number): void {
+  const event: WsGlossaryExtractProgressEvent = {
+    type: 'glossary:extract-progress',
+    sessionId,
+    processedChunks,
+    totalChunks,
+    candidates,
+  };
+  sendToAllWindows('translation:glossary-extract', event);
+}
+
+/**
+ * 번역 에러 이벤트
+ */
+export function emitTranslationError(sessionId: string, message: string): void {
+  const event: WsErrorEvent = {
+    type: 'error',
+    sessionId,
+    message,
+  };
+  sendToAllWindows('translation:error', event);
+}
+
 // ============================================
 // 구독 관리 (IPC에서는 불필요하지만 호환성을 위해 유지)
 // ============================================
@@ -0,0 +1,88 @@
+// ============================================
+// 세션별 번역 작업 관리
+// ============================================
+
+export interface TranslationJob {
+  readonly signal: AbortSignal;
+  /** 작업 종료 시 반드시 호출 (finally) */
+  finish: () => void;
+}
+
+interface JobEntry {
+  controller: AbortController;
+  done: Promise<void>;
+}
+
+/**
+ * 세션별로 실행 중인 번역 작업의 AbortController를 보관
+ *
+ * 일시 정지 / 취소 / 세션 삭제 시 진행 중인 Gemini 요청까지 즉시 중단하고, 작업이 정리될 때까지 기다릴 수 있습니다.
+ */
+class TranslationJobRegistry {
+  private readonly jobs = new Map<string, Set<JobEntry>>();
+
+  /**
+   * 새 작업 등록 (같은 세션에 여러 작업이 동시에 있을 수 있음 - 전체 번역 + 단일 청크 번역)
+   */
+  start(sessionId: string): TranslationJob {
+    const controller = new AbortController();
+    let resolveDone!: () => void;
+    const entry: JobEntry = {
+      controller,
+      done: new Promise<void>(resolve => {
+        resolveDone = resolve;
+      }),
+    };
+
+    let entries = this.jobs.get(sessionId);
+    if (!entries) {
+      entries = new Set();
+      this.jobs.set(sessionId, entries);
+    }
+    entries.add(entry);
+
+    return {
+      signal: controller.signal,
+      finish: () => {
+        const current = this.jobs.get(sessionId);
+        current?.delete(entry);
+        if (current?.size === 0) {
+          this.jobs.delete(sessionId);
+        }
+        resolveDone();
+      },
+    };
+  }
+
+  /**
+   * 세션의 모든 작업 중단
+   *
+   * @returns 중단한 작업 수
+   */
+  abort(sessionId: string): number {
+    const entries = this.jobs.get(sessionId);
+    if (!entries) {
+      return 0;
+    }
+    entries.forEach(entry => entry.controller.abort());
+    return entries.size;
+  }
+
+  /**
+   * 세션의 모든 작업이 정리될 때까지 대기
+   */
+  async waitForIdle(sessionId: string): Promise<void> {
+    const entries = this.jobs.get(sessionId);
+    if (!entries) {
+      return;
+    }
+    await Promise.all([...entries].map(entry => entry.done));
+  }
+
+  isRunning(sessionId: string): boolean {
+    return this.jobs.has(sessionId);
+  }
+}
+
+// 싱글톤 인스턴스
+export const translationJobs = new TranslationJobRegistry();
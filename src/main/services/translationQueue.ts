@@ -0,0 +1,316 @@
+import { db, nowISOString } from '../database/index';
+import type { TranslationQueueItem } from '../database/index';
+import type { TranslationQueueEntry, TranslationQueueStatus } from '@shared/types';
+import { translateAllPendingChunks, cancelTranslation, getTranslationConfig } from './translation';
+import { emitQueueStatus, emitTranslationError } from './translationEvents';
+import { templateService } from './templateService';
+import { logger } from '../utils/index';
+
+// 실행이 끝난 것으로 보는 항목 상태 (목록 정리 대상)
+const FINISHED_STATUSES: TranslationQueueStatus[] = ['done', 'failed', 'canceled'];
+
+/**
+ * 번역이 끝난 뒤의 세션 상태를 대기열 항목 상태로 변환
+ */
+function toQueueStatus(sessionStatus: string | undefined): TranslationQueueStatus {
+  switch (sessionStatus) {
+    case 'completed':
+      return 'done';
+    case 'failed':
+      return 'failed';
+    case 'paused':
+      return 'paused';
+    default:
+      // 취소되어 ready로 돌아갔거나 세션이 삭제된 경우
+      return 'canceled';
+  }
+}
+
+// ============================================
+// 번역 대기열
+// ============================================
+
+/**
+ * 모든 세션의 번역 실행을 맡는 전역 작업 대기열
+ *
+ * 등록된 순서(position)대로 최대 queueConcurrency개 세션을 동시에 번역하며, 대기열은 DB에 저장되어 재시작 후에도 이어집니다.
+ */
+class TranslationQueue {
+  private readonly running = new Set<string>(); // 실행 중인 세션 ID
+  private scheduling = false;
+  private rescheduleRequested = false;
+
+  /**
+   * 앱 시작 시 호출 - 이전 실행에서 running으로 남은 항목을 대기 상태로 되돌리고 대기열 재개
+   */
+  async initialize(): Promise<void> {
+    const now = nowISOString();
+    await db
+      .updateTable('translation_queue')
+      .set({ status: 'queued', startedAt: null, updatedAt: now })
+      .where('status', '=', 'running')
+      .execute();
+
+    await this.schedule();
+  }
+
+  async list(): Promise<TranslationQueueEntry[]> {
+    const rows = await db
+      .selectFrom('translation_queue')
+      .innerJoin('translation_sessions', 'translation_sessions.id', 'translation_queue.sessionId')
+      .selectAll('translation_queue')
+      .select('translation_sessions.title as sessionTitle')
+      .orderBy('translation_queue.position', 'asc')
+      .execute();
+
+    return rows.map(row => ({
+      sessionId: row.sessionId,
+      sessionTitle: row.sessionTitle,
+      templateId: row.templateId,
+      position: row.position,
+      status: row.status as TranslationQueueStatus,
+      errorMessage: row.errorMessage,
+      enqueuedAt: row.enqueuedAt,
+      startedAt: row.startedAt,
+      finishedAt: row.finishedAt,
+    }));
+  }
+
+  /**
+   * 세션을 대기열 끝에 추가 (이미 대기 중이거나 실행 중이면 그대로 둠)
+   */
+  async enqueue(sessionId: string, templateId: string): Promise<void> {
+    const session = await db.selectFrom('translation_sessions').selectAll().where('id', '=', sessionId).executeTakeFirst();
+
+    if (!session) {
+      throw Object.assign(new Error('Session not found'), { statusCode: 404 });
+    }
+
+    if (session.totalChunks === 0) {
+      throw Object.assign(new Error('Session has no chunks to translate'), { statusCode: 400 });
+    }
+
+    templateService.getByIdOrThrow(templateId);
+
+    const existing = await this.getItem(sessionId);
+    if (existing?.status === 'queued' || existing?.status === 'running') {
+      return;
+    }
+
+    const now = nowISOString();
+    const last = await db
+      .selectFrom('translation_queue')
+      .select(eb => eb.fn.max('position').as('position'))
+      .executeTakeFirst();
+    const position = (last?.position ?? -1) + 1;
+
+    await db
+      .insertInto('translation_queue')
+      .values({
+        sessionId,
+        templateId,
+        position,
+        status: 'queued',
+        errorMessage: null,
+        enqueuedAt: now,
+        startedAt: null,
+        finishedAt: null,
+        updatedAt: now,
+      })
+      .onConflict(oc =>
+        oc.column('sessionId').doUpdateSet({
+          templateId,
+          position,
+          status: 'queued',
+          errorMessage: null,
+          enqueuedAt: now,
+          startedAt: null,
+          finishedAt: null,
+          updatedAt: now,
+        })
+      )
+      .execute();
+
+    await this.schedule();
+  }
+
+  /**
+   * 일시 정지 / 실패한 세션을 다시 대기열에 넣음
+   */
+  async resume(sessionId: string, templateId: string): Promise<void> {
+    const session = await db.selectFrom('translation_sessions').select('status').where('id', '=', sessionId).executeTakeFirst();
+
+    if (!session) {
+      throw Object.assign(new Error('Session not found'), { statusCode: 404 });
+    }
+
+    if (session.status !== 'paused' && session.status !== 'failed') {
+      throw Object.assign(new Error(`Cannot resume session in '${session.status}' state`), { statusCode: 400 });
+    }
+
+    await this.enqueue(sessionId, templateId);
+  }
+
+  /**
+   * 세션 번역 취소 (대기 중이면 대기열에서 빼고, 실행 중 / 일시 정지면 번역을 중단)
+   */
+  async cancel(sessionId: string): Promise<void> {
+    const session = await db.selectFrom('translation_sessions').select('status').where('id', '=', sessionId).executeTakeFirst();
+
+    if (!session) {
+      throw Object.assign(new Error('Session not found'), { statusCode: 404 });
+    }
+
+    const item = await this.getItem(sessionId);
+    const isWaiting = item?.status === 'queued' || item?.status === 'paused';
+
+    if (isWaiting) {
+      await this.setStatus(sessionId, 'canceled');
+    }
+
+    // 실행 중인 항목은 번역이 중단되면 run()에서 canceled로 기록됨
+    if (session.status === 'translating' || session.status === 'paused') {
+      await cancelTranslation(sessionId);
+    } else if (!isWaiting) {
+      throw Object.assign(new Error(`Cannot cancel session in '${session.status}' state`), { statusCode: 400 });
+    }
+
+    await this.emitStatus();
+  }
+
+  /**
+   * 대기열에서 항목 제거 (실행 중인 항목은 먼저 일시 정지 / 취소해야 함)
+   */
+  async remove(sessionId: string): Promise<void> {
+    if (this.running.has(sessionId)) {
+      throw Object.assign(new Error('Cannot remove a running queue entry'), { statusCode: 400 });
+    }
+
+    await db.deleteFrom('translation_queue').where('sessionId', '=', sessionId).execute();
+    await this.emitStatus();
+  }
+
+  /**
+   * 대기 중인 항목의 실행 순서 변경
+   *
+   * @param sessionIds 새 순서대로 나열한 세션 ID (대기 중이 아닌 항목은 무시)
+   */
+  async reorder(sessionIds: string[]): Promise<void> {
+    const now = nowISOString();
+
+    await db.transaction().execute(async trx => {
+      for (const [index, sessionId] of sessionIds.entries()) {
+        await trx
+          .updateTable('translation_queue')
+          .set({ position: index, updatedAt: now })
+          .where('sessionId', '=', sessionId)
+          .where('status', '=', 'queued')
+          .execute();
+      }
+    });
+
+    await this.emitStatus();
+  }
+
+  /**
+   * 완료 / 실패 / 취소된 항목 정리
+   */
+  async clearFinished(): Promise<void> {
+    await db.deleteFrom('translation_queue').where('status', 'in', FINISHED_STATUSES).execute();
+    await this.emitStatus();
+  }
+
+  /**
+   * 동시 실행 한도 안에서 다음 항목들을 실행 (설정 변경 시에도 호출)
+   */
+  async schedule(): Promise<void> {
+    if (this.scheduling) {
+      this.rescheduleRequested = true;
+      return;
+    }
+
+    this.scheduling = true;
+    try {
+      do {
+        this.rescheduleRequested = false;
+        const { queueConcurrency } = await getTranslationConfig();
+
+        while (this.running.size < queueConcurrency) {
+          const next = await db
+            .selectFrom('translation_queue')
+            .selectAll()
+            .where('status', '=', 'queued')
+            .orderBy('position', 'asc')
+            .executeTakeFirst();
+
+          if (!next) {
+            break;
+          }
+
+          const now = nowISOString();
+          await db
+            .updateTable('translation_queue')
+            .set({ status: 'running', startedAt: now, finishedAt: null, errorMessage: null, updatedAt: now })
+            .where('sessionId', '=', next.sessionId)
+            .execute();
+
+          this.running.add(next.sessionId);
+          void this.run(next).catch(error => {
+            logger.error('system', `Failed to schedule queued translations after session ${next.sessionId}:`, error);
+          });
+        }
+      } while (this.rescheduleRequested);
+    } finally {
+      this.scheduling = false;
+    }
+
+    await this.emitStatus();
+  }
+
+  private async run(item: TranslationQueueItem): Promise<void> {
+    const { sessionId, templateId } = item;
+    let status: TranslationQueueStatus;
+    let errorMessage: string | null = null;
+
+    try {
+      await translateAllPendingChunks(sessionId, { templateId });
+      const session = await db.selectFrom('translation_sessions').select('status').where('id', '=', sessionId).executeTakeFirst();
+      status = toQueueStatus(session?.status);
+    } catch (error) {
+      status = 'failed';
+      errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('system', `Queued translation failed for session ${sessionId}:`, error);
+      emitTranslationError(sessionId, errorMessage);
+    }
+
+    // 상태 기록에 실패해도 대기 중인 다음 항목은 시작되도록 함
+    this.running.delete(sessionId);
+    try {
+      await this.setStatus(sessionId, status, errorMessage);
+    } catch (error) {
+      logger.error('database', `Failed to update queue status for session ${sessionId}:`, error);
+    } finally {
+      await this.schedule();
+    }
+  }
+
+  private async getItem(sessionId: string): Promise<TranslationQueueItem | undefined> {
+    return await db.selectFrom('translation_queue').selectAll().where('sessionId', '=', sessionId).executeTakeFirst();
+  }
+
+  private async setStatus(sessionId: string, status: TranslationQueueStatus, errorMessage: string | null = null): Promise<void> {
+    const now = nowISOString();
+    await db
+      .updateTable('translation_queue')
+      .set({ status, errorMessage, finishedAt: now, updatedAt: now })
+      .where('sessionId', '=', sessionId)
+      .execute();
+  }
+
+  private async emitStatus(): Promise<void> {
+    emitQueueStatus(await this.list());
+  }
+}
+
+// 싱글톤 인스턴스
+export const translationQueue = new TranslationQueue();
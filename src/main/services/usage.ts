@@ -0,0 +1,174 @@
+import { sql } from 'kysely';
+import { db } from '../database/index';
+import { getModelById } from '../config/models';
+import { calculateCostUsd } from '../translation/costEstimate';
+import { stringifyCsv } from '../utils/csv';
+import type { GetUsageRequest, UsageSummary, UsageTotals, SessionUsage, ModelUsage, DailyUsage } from '@shared/types';
+
+// ============================================
+// 토큰 사용량 집계
+// ============================================
+
+const CSV_COLUMNS = [
+  'createdAt',
+  'session',
+  'model',
+  'purpose',
+  'promptTokens',
+  'completionTokens',
+  'thinkingTokens',
+  'totalTokens',
+  'costUsd',
+] as const;
+
+interface TokenCounts {
+  promptTokens: number;
+  completionTokens: number;
+  thinkingTokens: number;
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, thinkingTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+/**
+ * 호출 비용 (USD, 사고 토큰은 출력 토큰으로 과금, 가격 정보가 없는 모델이면 null)
+ */
+function usageCostUsd(model: string, tokens: TokenCounts): number | null {
+  const pricing = getModelById(model)?.pricing;
+  return pricing ? calculateCostUsd(tokens.promptTokens, tokens.completionTokens + tokens.thinkingTokens, pricing) : null;
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.requests += source.requests;
+  target.promptTokens += source.promptTokens;
+  target.completionTokens += source.completionTokens;
+  target.thinkingTokens += source.thinkingTokens;
+  target.totalTokens += source.totalTokens;
+  target.costUsd += source.costUsd;
+}
+
+/**
+ * 조회 기간의 시작 시각 (days가 없으면 전체 기간)
+ */
+function resolveSince(days: number | undefined): string | null {
+  if (days === undefined) {
+    return null;
+  }
+  if (!Number.isInteger(days) || days <= 0) {
+    throw Object.assign(new Error('Days must be a positive integer'), { statusCode: 400 });
+  }
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * 세션 / 모델 / 일별 사용량과 예상 비용
+ *
+ * 모델마다 가격이 다르므로 (세션, 모델, 날짜) 단위로 합산한 뒤 비용을 계산해서 각 기준으로 다시 묶습니다.
+ */
+export async function getUsageSummary(params: GetUsageRequest = {}): Promise<UsageSummary> {
+  const since = resolveSince(params.days);
+
+  let query = db
+    .selectFrom('usage_records')
+    .leftJoin('translation_sessions', 'translation_sessions.id', 'usage_records.sessionId')
+    .select(eb => [
+      'usage_records.sessionId',
+      'translation_sessions.title as sessionTitle',
+      'usage_records.model',
+      sql<string>`date(${sql.ref('usage_records.createdAt')}, 'localtime')`.as('date'),
+      eb.fn.countAll().as('requests'),
+      eb.fn.sum<number>('usage_records.promptTokens').as('promptTokens'),
+      eb.fn.sum<number>('usage_records.completionTokens').as('completionTokens'),
+      eb.fn.sum<number>('usage_records.thinkingTokens').as('thinkingTokens'),
+      eb.fn.sum<number>('usage_records.totalTokens').as('totalTokens'),
+    ])
+    .groupBy(['usage_records.sessionId', 'usage_records.model', 'date']);
+
+  if (since) {
+    query = query.where('usage_records.createdAt', '>=', since);
+  }
+
+  const rows = await query.execute();
+
+  const totals = emptyTotals();
+  const bySession = new Map<string | null, SessionUsage>();
+  const byModel = new Map<string, ModelUsage>();
+  const byDay = new Map<string, DailyUsage>();
+
+  for (const row of rows) {
+    const tokens = {
+      promptTokens: Number(row.promptTokens),
+      completionTokens: Number(row.completionTokens),
+      thinkingTokens: Number(row.thinkingTokens),
+    };
+    const costUsd = usageCostUsd(row.model, tokens);
+    const group: UsageTotals = {
+      requests: Number(row.requests),
+      ...tokens,
+      totalTokens: Number(row.totalTokens),
+      costUsd: costUsd ?? 0,
+    };
+
+    addTotals(totals, group);
+
+    if (!bySession.has(row.sessionId)) {
+      bySession.set(row.sessionId, { ...emptyTotals(), sessionId: row.sessionId, sessionTitle: row.sessionTitle ?? null });
+    }
+    addTotals(bySession.get(row.sessionId)!, group);
+
+    if (!byModel.has(row.model)) {
+      byModel.set(row.model, { ...emptyTotals(), model: row.model, priced: costUsd !== null });
+    }
+    addTotals(byModel.get(row.model)!, group);
+
+    if (!byDay.has(row.date)) {
+      byDay.set(row.date, { ...emptyTotals(), date: row.date });
+    }
+    addTotals(byDay.get(row.date)!, group);
+  }
+
+  return {
+    totals,
+    bySession: [...bySession.values()].sort((a, b) => b.totalTokens - a.totalTokens),
+    byModel: [...byModel.values()].sort((a, b) => b.totalTokens - a.totalTokens),
+    byDay: [...byDay.values()].sort((a, b) => b.date.localeCompare(a.date)),
+  };
+}
+
+/**
+ * 호출별 사용량 CSV (최신순, 비용은 가격 정보가 없는 모델이면 빈 칸)
+ */
+export async function exportUsageCsv(params: GetUsageRequest = {}): Promise<{ fileName: string; content: string }> {
+  const since = resolveSince(params.days);
+
+  let query = db
+    .selectFrom('usage_records')
+    .leftJoin('translation_sessions', 'translation_sessions.id', 'usage_records.sessionId')
+    .selectAll('usage_records')
+    .select('translation_sessions.title as sessionTitle')
+    .orderBy('usage_records.createdAt', 'desc');
+
+  if (since) {
+    query = query.where('usage_records.createdAt', '>=', since);
+  }
+
+  const records = await query.execute();
+
+  const rows = records.map(record => {
+    const costUsd = usageCostUsd(record.model, record);
+    return [
+      record.createdAt,
+      record.sessionTitle ?? '',
+      record.model,
+      record.purpose,
+      String(record.promptTokens),
+      String(record.completionTokens),
+      String(record.thinkingTokens),
+      String(record.totalTokens),
+      costUsd === null ? '' : costUsd.toFixed(6),
+    ];
+  });
+
+  return { fileName: 'usage.csv', content: '\uFEFF' + stringifyCsv([[...CSV_COLUMNS], ...rows]) };
+}
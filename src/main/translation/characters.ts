@@ -0,0 +1,66 @@
+import type { CharacterGender, SpeechLevel } from '@shared/types';
+import { termPattern } from './glossary';
+
+// ============================================
+// 등장인물 유틸리티
+// ============================================
+
+export interface CharacterProfile {
+  name: string;
+  aliases: string[];
+  gender: CharacterGender | null;
+  role: string | null;
+  targetName: string | null;
+  defaultSpeechLevel: SpeechLevel | null;
+  speechLevels: Array<{ toward: string; level: SpeechLevel }>; // toward = 상대 인물 이름
+  notes: string | null;
+}
+
+/**
+ * 텍스트에 이름이나 별명이 등장하는 인물만 반환 (등록 순서 유지)
+ *
+ * 이름은 대소문자를 구분합니다 (영어에서 "Will", "Rose" 같은 이름이 일반 단어와 겹치지 않도록).
+ */
+export function matchCharacters(characters: CharacterProfile[], text: string): CharacterProfile[] {
+  return characters.filter(character => [character.name, ...character.aliases].some(name => name && termPattern(name, true).test(text)));
+}
+
+function formatSpeechLevels(character: CharacterProfile): string | null {
+  const parts: string[] = [];
+  if (character.defaultSpeechLevel) {
+    parts.push(`${character.defaultSpeechLevel} by default`);
+  }
+  for (const { toward, level } of character.speechLevels) {
+    parts.push(`${level} to ${toward}`);
+  }
+  return parts.length > 0 ? parts.join('; ') : null;
+}
+
+/**
+ * 프롬프트에 넣을 인물 목록
+ *
+ * 예:
+ * - "Alice" → "앨리스" (female, protagonist; also: Ali, Miss Carter)
+ *   Speech: casual by default; polite to Professor Grey
+ *   Notes: 주인공의 소꿉친구
+ */
+export function formatCharacters(characters: CharacterProfile[]): string {
+  return characters
+    .map(character => {
+      const name = character.targetName ? `"${character.name}" → "${character.targetName}"` : `"${character.name}"`;
+      const details = [character.gender, character.role].filter(Boolean).join(', ');
+      const aliases = character.aliases.length > 0 ? `also: ${character.aliases.join(', ')}` : '';
+      const summary = [details, aliases].filter(Boolean).join('; ');
+
+      const lines = [`- ${name}${summary ? ` (${summary})` : ''}`];
+      const speech = formatSpeechLevels(character);
+      if (speech) {
+        lines.push(`  Speech: ${speech}`);
+      }
+      if (character.notes) {
+        lines.push(`  Notes: ${character.notes}`);
+      }
+      return lines.join('\n');
+    })
+    .join('\n');
+}
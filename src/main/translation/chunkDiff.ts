@@ -0,0 +1,130 @@
+import { createHash } from 'node:crypto';
+
+// ============================================
+// 재청킹 비교 유틸리티
+// ============================================
+
+/**
+ * 새 청크 하나를 기존 청크와 어떻게 대응시킬지
+ *
+ * - kept: 내용이 같은 기존 청크를 그대로 유지 (번역, 이력, 상태 보존)
+ * - changed: 같은 자리의 기존 청크 내용이 바뀜 (이력은 유지하고 다시 번역)
+ * - added: 대응하는 기존 청크 없음
+ */
+export type ChunkMatch = { type: 'kept'; oldIndex: number } | { type: 'changed'; oldIndex: number } | { type: 'added' };
+
+export interface ChunkDiff {
+  matches: ChunkMatch[]; // 새 청크 순서대로
+  removed: number[]; // 대응하는 새 청크가 없는 기존 청크 인덱스
+}
+
+/**
+ * 청크 원문의 내용 해시
+ */
+export function hashSourceText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * 두 해시 목록의 최장 공통 부분열 (LCS) 쌍을 순서대로 반환
+ */
+function longestCommonSubsequence(a: string[], b: string[]): Array<[number, number]> {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table = new Uint32Array(rows * cols);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] =
+        a[i] === b[j] ? table[(i + 1) * cols + j + 1] + 1 : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * 기존 청크와 새 청크 목록 비교
+ *
+ * 내용 해시가 같은 청크를 순서를 유지하며 최대한 맞추고 (LCS), 맞춰진 청크 사이에 남은 청크는
+ * 같은 구간 안에서 앞에서부터 짝지어 changed로, 짝이 없으면 added / removed로 분류합니다.
+ *
+ * @param oldHashes 기존 청크 원문 해시 (order 순)
+ * @param newHashes 새 청크 원문 해시 (order 순)
+ */
+export function diffChunks(oldHashes: string[], newHashes: string[]): ChunkDiff {
+  // 앞뒤 공통 구간은 LCS 계산에서 제외 (일부만 고친 경우 대부분 여기서 끝남)
+  let prefix = 0;
+  while (prefix < oldHashes.length && prefix < newHashes.length && oldHashes[prefix] === newHashes[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldHashes.length - prefix &&
+    suffix < newHashes.length - prefix &&
+    oldHashes[oldHashes.length - 1 - suffix] === newHashes[newHashes.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldHashes.slice(prefix, oldHashes.length - suffix);
+  const newMiddle = newHashes.slice(prefix, newHashes.length - suffix);
+
+  const anchors: Array<[number, number]> = [];
+  for (let k = 0; k < prefix; k++) {
+    anchors.push([k, k]);
+  }
+  for (const [i, j] of longestCommonSubsequence(oldMiddle, newMiddle)) {
+    anchors.push([prefix + i, prefix + j]);
+  }
+  for (let k = suffix; k > 0; k--) {
+    anchors.push([oldHashes.length - k, newHashes.length - k]);
+  }
+  // 끝 경계 (구간 처리를 단순하게 하기 위한 가상 앵커)
+  anchors.push([oldHashes.length, newHashes.length]);
+
+  const matches: ChunkMatch[] = new Array(newHashes.length);
+  const removed: number[] = [];
+  let oldStart = 0;
+  let newStart = 0;
+
+  for (const [oldAnchor, newAnchor] of anchors) {
+    // 앵커 사이 구간: 앞에서부터 짝지어 changed, 남는 쪽은 added / removed
+    const gap = Math.min(oldAnchor - oldStart, newAnchor - newStart);
+    for (let k = 0; k < gap; k++) {
+      matches[newStart + k] = { type: 'changed', oldIndex: oldStart + k };
+    }
+    for (let j = newStart + gap; j < newAnchor; j++) {
+      matches[j] = { type: 'added' };
+    }
+    for (let i = oldStart + gap; i < oldAnchor; i++) {
+      removed.push(i);
+    }
+
+    if (newAnchor < newHashes.length) {
+      matches[newAnchor] = { type: 'kept', oldIndex: oldAnchor };
+    }
+
+    oldStart = oldAnchor + 1;
+    newStart = newAnchor + 1;
+  }
+
+  return { matches, removed };
+}
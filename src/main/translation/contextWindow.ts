@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { estimateTokenCount } from '../utils/tokenEstimate';
+
+// ============================================
+// 이전 청크 문맥 (토큰 예산 안에서 여러 청크)
+// ============================================
+
+// 템플릿 frontmatter의 context 항목
+export const TemplateContextSchema = z.object({
+  maxTokens: z.number().int().positive().optional(), // 이전 청크 문맥에 쓸 최대 토큰 수
+  windowRatio: z.number().positive().max(1).optional(), // 모델 컨텍스트 윈도우 대비 비율
+  maxChunks: z.number().int().positive().optional(), // 최대 청크 수
+});
+export type TemplateContext = z.infer<typeof TemplateContextSchema>;
+
+export interface ContextBudget {
+  maxTokens: number;
+  maxChunks: number | null;
+}
+
+export interface ContextPair {
+  order: number;
+  sourceText: string;
+  translatedText: string;
+}
+
+interface ContextChunk {
+  order: number;
+  sourceText: string;
+  translatedText: string | null;
+  status: string;
+}
+
+// frontmatter에 예산이 없을 때의 기본 토큰 수
+export const DEFAULT_CONTEXT_TOKENS = 8192;
+
+// 현재 청크, 지시문, 출력이 들어갈 자리를 남기기 위해 문맥에는 컨텍스트 윈도우의 절반까지만 사용
+const MAX_CONTEXT_WINDOW_RATIO = 0.5;
+
+/**
+ * 템플릿 설정과 모델 컨텍스트 윈도우로 실제 예산 계산
+ *
+ * maxTokens와 windowRatio를 함께 지정하면 작은 쪽을 사용합니다.
+ * 둘 다 없거나 계산할 수 있는 값이 없으면 DEFAULT_CONTEXT_TOKENS를 사용하고, 어느 경우든 컨텍스트 윈도우의 절반을 넘지 않습니다.
+ */
+export function resolveContextBudget(context: TemplateContext | undefined, modelContextWindow: number | undefined): ContextBudget {
+  const limits: number[] = [];
+
+  if (context?.maxTokens !== undefined) {
+    limits.push(context.maxTokens);
+  }
+  if (modelContextWindow !== undefined) {
+    if (context?.windowRatio !== undefined) {
+      limits.push(Math.floor(modelContextWindow * context.windowRatio));
+    }
+    limits.push(Math.floor(modelContextWindow * MAX_CONTEXT_WINDOW_RATIO));
+  }
+  // 모델의 컨텍스트 윈도우를 모르면 windowRatio만으로는 예산을 정할 수 없음
+  if (limits.length === 0 || (context?.maxTokens === undefined && context?.windowRatio === undefined)) {
+    limits.push(DEFAULT_CONTEXT_TOKENS);
+  }
+
+  return {
+    maxTokens: Math.min(...limits),
+    maxChunks: context?.maxChunks ?? null,
+  };
+}
+
+/**
+ * 현재 청크 바로 앞에서부터 번역이 완료된 청크를 예산 안에서 모아 원문 순서대로 반환
+ *
+ * 번역되지 않은 청크는 건너뛰고, 다음 청크가 예산을 넘으면 거기서 멈춥니다 (중간을 비우지 않도록).
+ */
+export function selectContextPairs(chunks: ContextChunk[], currentOrder: number, budget: ContextBudget): ContextPair[] {
+  const candidates = chunks
+    .filter(
+      (c): c is ContextChunk & { translatedText: string } => c.order < currentOrder && c.status === 'completed' && c.translatedText !== null
+    )
+    .sort((a, b) => b.order - a.order);
+
+  const pairs: ContextPair[] = [];
+  let usedTokens = 0;
+
+  for (const chunk of candidates) {
+    if (budget.maxChunks !== null && pairs.length >= budget.maxChunks) {
+      break;
+    }
+
+    const tokens = estimateTokenCount(chunk.sourceText) + estimateTokenCount(chunk.translatedText);
+    if (usedTokens + tokens > budget.maxTokens) {
+      break;
+    }
+
+    usedTokens += tokens;
+    pairs.push({ order: chunk.order, sourceText: chunk.sourceText, translatedText: chunk.translatedText });
+  }
+
+  return pairs.reverse();
+}
@@ -0,0 +1,33 @@
+import type { ModelPricing } from '../config/models';
+
+// ============================================
+// 번역 비용 추정
+// ============================================
+
+// 원문 토큰 대비 번역문 토큰 비율 (언어 쌍별 대략값, 키는 템플릿 frontmatter의 언어 이름을 소문자로)
+const OUTPUT_RATIOS: Record<string, number> = {
+  'english→korean': 1.5,
+  'english→japanese': 1.5,
+  'korean→english': 0.7,
+  'japanese→english': 0.7,
+  'korean→japanese': 1.0,
+  'japanese→korean': 1.0,
+};
+
+// 표에 없는 언어 쌍 (조금 크게 잡음)
+export const DEFAULT_OUTPUT_RATIO = 1.2;
+
+/**
+ * 언어 쌍의 출력/입력 토큰 비율
+ */
+export function getOutputRatio(sourceLanguage: string, targetLanguage: string): number {
+  const key = `${sourceLanguage.trim().toLowerCase()}→${targetLanguage.trim().toLowerCase()}`;
+  return OUTPUT_RATIOS[key] ?? DEFAULT_OUTPUT_RATIO;
+}
+
+/**
+ * 토큰 수와 모델 가격으로 비용 계산 (USD)
+ */
+export function calculateCostUsd(inputTokens: number, outputTokens: number, pricing: ModelPricing): number {
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
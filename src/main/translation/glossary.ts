@@ -0,0 +1,99 @@
+import type { GlossaryViolation } from '@shared/types';
+
+// ============================================
+// 용어집 유틸리티
+// ============================================
+
+export interface GlossaryTerm {
+  sourceTerm: string;
+  targetTerm: string;
+  partOfSpeech: string | null;
+  notes: string | null;
+  caseSensitive: boolean;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 용어를 찾는 정규식
+ *
+ * 라틴 문자 / 숫자로 시작하거나 끝나는 용어는 다른 단어의 일부와 겹치지 않도록 경계를 확인합니다.
+ * 한국어 / 일본어 / 중국어는 조사가 붙거나 띄어쓰기가 없으므로 경계를 확인하지 않습니다.
+ */
+export function termPattern(sourceTerm: string, caseSensitive: boolean): RegExp {
+  const start = /^[A-Za-z0-9]/.test(sourceTerm) ? '(?<![A-Za-z0-9])' : '';
+  const end = /[A-Za-z0-9]$/.test(sourceTerm) ? '(?![A-Za-z0-9])' : '';
+  return new RegExp(`${start}${escapeRegExp(sourceTerm)}${end}`, caseSensitive ? 'u' : 'iu');
+}
+
+/**
+ * 텍스트에 원문 용어가 등장하는 항목만 반환 (긴 용어 먼저)
+ */
+export function matchGlossaryTerms(terms: GlossaryTerm[], text: string): GlossaryTerm[] {
+  return terms
+    .filter(term => term.sourceTerm && termPattern(term.sourceTerm, term.caseSensitive).test(text))
+    .sort((a, b) => b.sourceTerm.length - a.sourceTerm.length || a.sourceTerm.localeCompare(b.sourceTerm));
+}
+
+/**
+ * 텍스트에서 원문 용어가 등장한 횟수
+ */
+export function countGlossaryTerm(term: GlossaryTerm, text: string): number {
+  const pattern = termPattern(term.sourceTerm, term.caseSensitive);
+  return term.sourceTerm ? (text.match(new RegExp(pattern.source, `${pattern.flags}g`)) ?? []).length : 0;
+}
+
+/**
+ * 프롬프트에 넣을 용어 목록 (한 줄에 하나)
+ *
+ * 예: - "Hogwarts" → "호그와트" (noun): 마법 학교
+ */
+export function formatGlossaryTerms(terms: GlossaryTerm[]): string {
+  return terms
+    .map(term => {
+      const partOfSpeech = term.partOfSpeech ? ` (${term.partOfSpeech})` : '';
+      const notes = term.notes ? `: ${term.notes}` : '';
+      return `- "${term.sourceTerm}" → "${term.targetTerm}"${partOfSpeech}${notes}`;
+    })
+    .join('\n');
+}
+
+// ============================================
+// 용어 준수 검사
+// ============================================
+
+function includesTerm(text: string, term: string, caseSensitive: boolean): boolean {
+  return caseSensitive ? text.includes(term) : text.toLowerCase().includes(term.toLowerCase());
+}
+
+/**
+ * 원문에 등장하는 용어가 번역문에서 지정한 번역어로 옮겨졌는지 검사
+ *
+ * 번역어가 번역문 어딘가에 있으면 통과로 봅니다 (등장 횟수나 위치는 확인하지 않음).
+ */
+export function checkGlossaryUsage(terms: GlossaryTerm[], sourceText: string, translatedText: string): GlossaryViolation[] {
+  return matchGlossaryTerms(terms, sourceText)
+    .filter(term => !includesTerm(translatedText, term.targetTerm, term.caseSensitive))
+    .map(term => ({
+      sourceTerm: term.sourceTerm,
+      targetTerm: term.targetTerm,
+      kind: termPattern(term.sourceTerm, term.caseSensitive).test(translatedText) ? 'untranslated' : 'missing',
+    }));
+}
+
+/**
+ * 용어만 고치도록 요청하는 교정 프롬프트 (번역 대화에 이어서 보냄)
+ */
+export function buildGlossaryCorrectionPrompt(violations: GlossaryViolation[]): string {
+  const lines = violations.map(violation => `- "${violation.sourceTerm}" must be translated as "${violation.targetTerm}"`);
+
+  return [
+    'Your translation does not follow the required glossary for these terms:',
+    ...lines,
+    '',
+    'Rewrite your previous translation so that each term above uses exactly the required translation. ' +
+      'Change nothing else, and output only the corrected translation without any preamble or explanation.',
+  ].join('\n');
+}
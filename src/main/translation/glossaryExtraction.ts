@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { GlossaryTermCategorySchema, type GlossaryTermCategory } from '@shared/types';
+
+// ============================================
+// 용어 추출 프롬프트 / 응답 처리
+// ============================================
+
+// 프롬프트에 넣을 기존 용어 수 (많으면 앞에서부터 자름)
+const MAX_KNOWN_TERMS = 200;
+
+export const GLOSSARY_EXTRACTION_INSTRUCTION =
+  'You build translation glossaries for long-form fiction. From the given text, extract terms that must be translated ' +
+  'consistently throughout the work: proper nouns (characters, places, organizations, items), recurring special terms, ' +
+  'and honorifics or forms of address. Do not extract ordinary words. Respond with JSON only.';
+
+export interface ExtractionPromptInput {
+  sourceText: string;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  knownTerms: string[]; // 이미 용어집에 있어 다시 제안하지 않을 원문 용어
+}
+
+export interface ExtractedTerm {
+  sourceTerm: string;
+  targetTerm: string;
+  category: GlossaryTermCategory;
+  notes: string | null;
+}
+
+// 모델 응답 형식 (항목 단위로 검증해 형식이 틀린 항목만 버림)
+const ExtractedTermSchema = z.object({
+  sourceTerm: z.string().trim().min(1).max(200),
+  targetTerm: z.string().trim().min(1).max(200),
+  category: z.string().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+/**
+ * 청크 하나에 대한 추출 요청 본문
+ */
+export function buildExtractionPrompt(input: ExtractionPromptInput): string {
+  const source = input.sourceLanguage ? `${input.sourceLanguage} ` : '';
+  const target = input.targetLanguage ?? 'target-language';
+  const known = input.knownTerms.slice(0, MAX_KNOWN_TERMS);
+
+  return [
+    `Extract glossary terms from the following ${source}text and propose a ${target} translation for each.`,
+    '',
+    'Return a JSON array of objects with these keys:',
+    '- "sourceTerm": the term exactly as it appears in the text',
+    `- "targetTerm": the proposed ${target} translation`,
+    '- "category": "name" for proper nouns, "honorific" for honorifics and forms of address, otherwise "term"',
+    '- "notes": a short note for translators (reading, gender, what it refers to), or null',
+    ...(known.length > 0 ? ['', 'These terms are already in the glossary. Do not include them:', ...known.map(term => `- ${term}`)] : []),
+    '',
+    'Text:',
+    '"""',
+    input.sourceText,
+    '"""',
+  ].join('\n');
+}
+
+/**
+ * 모델 응답을 추출 결과로 변환 (코드 블록으로 감싼 응답 허용, JSON이 아니면 빈 목록)
+ */
+export function parseExtractionResponse(text: string): ExtractedTerm[] {
+  const json = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return [];
+  }
+
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  return parsed.flatMap(item => {
+    const result = ExtractedTermSchema.safeParse(item);
+    if (!result.success) {
+      return [];
+    }
+
+    const category = GlossaryTermCategorySchema.safeParse(result.data.category);
+    return [
+      {
+        sourceTerm: result.data.sourceTerm,
+        targetTerm: result.data.targetTerm,
+        category: category.success ? category.data : 'term',
+        notes: result.data.notes?.trim() || null,
+      },
+    ];
+  });
+}
+
+/**
+ * 샘플링할 청크 위치 (원문 전체에 고르게 분포, 처음과 끝 포함)
+ */
+export function sampleChunkIndexes(total: number, sampleSize: number): number[] {
+  if (sampleSize >= total) {
+    return Array.from({ length: total }, (_, index) => index);
+  }
+  if (sampleSize === 1) {
+    return [0];
+  }
+
+  const indexes = new Set<number>();
+  for (let i = 0; i < sampleSize; i++) {
+    indexes.add(Math.round((i * (total - 1)) / (sampleSize - 1)));
+  }
+  return [...indexes];
+}
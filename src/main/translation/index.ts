@@ -4,3 +4,13 @@ export * from './chunker';
 export * from './promptBuilder';
 export * from './templateParser';
 export * from './templateHelper';
+export * from './chunkDiff';
+export * from './qualityCheck';
+export * from './postProcess';
+export * from './glossary';
+export * from './glossaryExtraction';
+export * from './translationMemory';
+export * from './characters';
+export * from './summary';
+export * from './contextWindow';
+export * from './costEstimate';
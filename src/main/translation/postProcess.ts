@@ -0,0 +1,108 @@
+import { parse as parseYaml } from 'yaml';
+import { PostProcessRulesSchema, type PostProcessRule } from '@shared/types';
+
+// ============================================
+// 번역문 후처리 유틸리티
+// ============================================
+
+// stripPreamble 규칙의 기본 패턴 (번역문 맨 앞에서만 제거)
+const DEFAULT_PREAMBLE_PATTERNS = [
+  "^(here is|here's|below is)\\s+(the|your|my)?\\s*(\\w+\\s+)?translation[^\\n]*[:：]\\s*",
+  '^(translation|번역|翻訳)\\s*[:：]\\s*',
+  '^다음은[^\\n]*번역[^\\n]*[:：]\\s*',
+  '^以下[^\\n]*翻訳[^\\n]*[:：]\\s*',
+];
+
+/**
+ * 따옴표를 곧은 따옴표로 통일 (다른 스타일로 바꾸기 전 단계)
+ */
+function toStraightQuotes(text: string): string {
+  return text.replace(/[“”„«»「」]/g, '"').replace(/[‘’『』]/g, "'");
+}
+
+function normalizeQuotes(text: string, style: 'curly' | 'straight' | 'corner'): string {
+  const straight = toStraightQuotes(text);
+
+  switch (style) {
+    case 'straight':
+      return straight;
+    case 'curly':
+      return (
+        straight
+          .replace(/"([^"\n]*)"/g, '“$1”')
+          // 단어 앞의 작은따옴표는 여는 따옴표, 나머지 (축약형 포함)는 닫는 따옴표
+          .replace(/(^|[\s([{“—-])'/gm, '$1‘')
+          .replace(/'/g, '’')
+      );
+    case 'corner':
+      return straight.replace(/"([^"\n]*)"/g, '「$1」').replace(/(^|[\s(「])'([^'\n]*)'/gm, '$1『$2』');
+  }
+}
+
+function normalizeEllipsis(text: string, style: 'unicode' | 'dots'): string {
+  if (style === 'unicode') {
+    return text.replace(/\.{3,}|\. \. \./g, '…').replace(/。{3,}/g, '…');
+  }
+  return text.replace(/…/g, '...');
+}
+
+function stripPreamble(text: string, patterns: string[]): string {
+  let result = text.trimStart();
+  for (const pattern of patterns) {
+    result = result.replace(new RegExp(pattern, 'i'), '');
+  }
+  return result;
+}
+
+function applyRule(text: string, rule: PostProcessRule): string {
+  switch (rule.type) {
+    case 'replace':
+      return text.replace(new RegExp(rule.pattern, rule.flags), rule.replacement);
+    case 'quotes':
+      return normalizeQuotes(text, rule.style);
+    case 'ellipsis':
+      return normalizeEllipsis(text, rule.style);
+    case 'stripPreamble':
+      return stripPreamble(text, rule.patterns ?? DEFAULT_PREAMBLE_PATTERNS);
+  }
+}
+
+/**
+ * 후처리 규칙 검증 (front matter 등에서 이미 파싱한 값)
+ *
+ * @throws 규칙 형식이 잘못되었거나 정규식을 컴파일할 수 없는 경우
+ */
+export function parsePostProcessRules(value: unknown): PostProcessRule[] {
+  const rules = PostProcessRulesSchema.parse(value ?? []);
+
+  // 번역 도중 실패하지 않도록 정규식을 미리 컴파일해 확인
+  for (const rule of rules) {
+    if (rule.type === 'replace') {
+      new RegExp(rule.pattern, rule.flags);
+    } else if (rule.type === 'stripPreamble') {
+      rule.patterns?.forEach(pattern => new RegExp(pattern, 'i'));
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * YAML로 작성한 후처리 규칙 파싱 (세션 설정용, 비어 있으면 빈 목록)
+ */
+export function parsePostProcessRulesYaml(source: string | null | undefined): PostProcessRule[] {
+  if (!source?.trim()) {
+    return [];
+  }
+  return parsePostProcessRules(parseYaml(source));
+}
+
+/**
+ * 번역문 후처리
+ *
+ * HTML 주석 제거와 앞뒤 공백 정리는 항상 적용하고, 그 뒤에 규칙을 순서대로 적용합니다.
+ */
+export function postProcessTranslation(text: string, rules: PostProcessRule[] = []): string {
+  const base = text.replace(/<!--[\s\S]*?-->/g, '').trim();
+  return rules.reduce(applyRule, base).trim();
+}
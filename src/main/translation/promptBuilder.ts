@@ -4,6 +4,10 @@ import { ChatMLParser } from './chatmlParser';
 import type { GeminiConvertedMessages } from './types';
 import { chatMessagesToGemini } from './types';
 import { registerDefaultHelpers } from './templateHelper';
+import { matchGlossaryTerms, formatGlossaryTerms, type GlossaryTerm } from './glossary';
+import { formatTranslationMemory, type TranslationMemoryMatch } from './translationMemory';
+import { matchCharacters, formatCharacters, type CharacterProfile } from './characters';
+import { selectContextPairs, resolveContextBudget, type ContextBudget } from './contextWindow';
 
 // ============================================
 // TranslationContext 타입 정의
@@ -21,6 +25,7 @@ export interface SessionInfo {
   title: string;
   customDict: string | null;
   memo: string | null;
+  summary: string | null; // 지금까지의 줄거리 요약
 }
 
 export interface TranslationContext {
@@ -36,6 +41,10 @@ export interface TranslationContext {
   } | null;
   _chunks: ChunkInfo[];
   _currentOrder: number;
+  _glossary: GlossaryTerm[]; // 세션 + 전역 용어집 (현재 청크와 무관하게 전체)
+  _memory: TranslationMemoryMatch[]; // 현재 청크와 비슷한 이전 번역 (번역 메모리)
+  _characters: CharacterProfile[]; // 세션 등장인물 (현재 청크와 무관하게 전체)
+  _contextBudget: ContextBudget; // contextWindow 헬퍼의 토큰 예산 (템플릿 frontmatter + 모델 컨텍스트 윈도우)
 }
 
 // ============================================
@@ -108,6 +117,47 @@ export function registerTranslationHelpers(parser: TemplateParser): void {
       const maxOrder = Math.max(...this._chunks.map(c => c.order));
       return this._currentOrder === maxOrder;
     },
+
+    // 예산 안에서 직전 청크들의 원문/번역 쌍 (원문 순서, {{#each (contextWindow)}}로 사용)
+    contextWindow(this: TranslationContext) {
+      return selectContextPairs(this._chunks, this._currentOrder, this._contextBudget);
+    },
+
+    hasContextWindow(this: TranslationContext) {
+      return selectContextPairs(this._chunks, this._currentOrder, this._contextBudget).length > 0;
+    },
+
+    // 줄거리 요약이 있는지 ({{session.summary}}로 출력)
+    hasSummary(this: TranslationContext) {
+      return Boolean(this.session.summary?.trim());
+    },
+
+    // 현재 청크 원문에 등장하는 용어만 출력 (프롬프트를 작게 유지)
+    glossary(this: TranslationContext) {
+      return formatGlossaryTerms(matchGlossaryTerms(this._glossary, this.current.sourceText));
+    },
+
+    hasGlossary(this: TranslationContext) {
+      return matchGlossaryTerms(this._glossary, this.current.sourceText).length > 0;
+    },
+
+    // 번역 메모리에서 찾은 비슷한 문단의 이전 번역 (참고용)
+    translationMemory(this: TranslationContext) {
+      return formatTranslationMemory(this._memory);
+    },
+
+    hasTranslationMemory(this: TranslationContext) {
+      return this._memory.length > 0;
+    },
+
+    // 현재 청크 원문에 이름이 등장하는 인물만 출력 (말투 / 번역명 유지용)
+    characters(this: TranslationContext) {
+      return formatCharacters(matchCharacters(this._characters, this.current.sourceText));
+    },
+
+    hasCharacters(this: TranslationContext) {
+      return matchCharacters(this._characters, this.current.sourceText).length > 0;
+    },
   };
 
   parser.registerHelpers(helpers);
@@ -177,16 +227,22 @@ export interface BuildContextInput {
     title: string;
     customDict: string | null;
     memo: string | null;
+    summary?: string | null;
   };
   currentChunk: {
     order: number;
     sourceText: string;
   };
   allChunks: ChunkInfo[];
+  glossary?: GlossaryTerm[];
+  memory?: TranslationMemoryMatch[];
+  characters?: CharacterProfile[];
+  contextBudget?: ContextBudget;
 }
 
 export function buildTranslationContext(input: BuildContextInput): TranslationContext {
-  const { session, currentChunk, allChunks } = input;
+  const { session, currentChunk, allChunks, glossary = [], memory = [], characters = [] } = input;
+  const contextBudget = input.contextBudget ?? resolveContextBudget(undefined, undefined);
 
   const previousChunk = allChunks.find(c => c.order === currentChunk.order - 1 && c.status === 'completed' && c.translatedText !== null);
 
@@ -196,6 +252,7 @@ export function buildTranslationContext(input: BuildContextInput): TranslationCo
       title: session.title,
       customDict: session.customDict,
       memo: session.memo,
+      summary: session.summary ?? null,
     },
     current: {
       order: currentChunk.order,
@@ -210,9 +267,36 @@ export function buildTranslationContext(input: BuildContextInput): TranslationCo
       : null,
     _chunks: allChunks,
     _currentOrder: currentChunk.order,
+    _glossary: glossary,
+    _memory: memory,
+    _characters: characters,
+    _contextBudget: contextBudget,
   };
 }
 
+// ============================================
+// 템플릿 분석
+// ============================================
+
+// 직전 청크의 번역문을 참조하는 템플릿 구문
+const PREVIOUS_TRANSLATION_PATTERNS = [
+  /\bhasPrevious\b/,
+  /\bprevious\.translatedText\b/,
+  /\bchunk\s+-1\s+['"]translated['"]/,
+  /\bhasTranslated\s+-1\b/,
+  /\bcontextWindow\b/,
+  /\bhasContextWindow\b/,
+];
+
+/**
+ * 템플릿이 직전 청크의 번역 결과에 의존하는지 확인
+ *
+ * 의존하는 템플릿은 병렬 번역 시 앞 청크의 번역이 끝난 뒤에 다음 청크를 번역해야 문맥이 유지됩니다.
+ */
+export function templateUsesPreviousTranslation(template: string): boolean {
+  return PREVIOUS_TRANSLATION_PATTERNS.some(pattern => pattern.test(template));
+}
+
 // ============================================
 // 통합 함수
 // ============================================
@@ -223,12 +307,17 @@ export interface BuildPromptFromDBInput {
     title: string;
     customDict: string | null;
     memo: string | null;
+    summary?: string | null;
   };
   currentChunk: {
     order: number;
     sourceText: string;
   };
   allChunks: ChunkInfo[];
+  glossary?: GlossaryTerm[];
+  memory?: TranslationMemoryMatch[];
+  characters?: CharacterProfile[];
+  contextBudget?: ContextBudget;
   template: string;
 }
 
@@ -237,6 +326,10 @@ export function buildPromptFromDB(input: BuildPromptFromDBInput): BuildPromptRes
     session: input.session,
     currentChunk: input.currentChunk,
     allChunks: input.allChunks,
+    glossary: input.glossary,
+    memory: input.memory,
+    characters: input.characters,
+    contextBudget: input.contextBudget,
   });
 
   return buildPrompt({
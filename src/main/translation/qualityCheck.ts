@@ -0,0 +1,191 @@
+import type { QaFlag } from '@shared/types';
+
+// ============================================
+// 번역 품질 검사 유틸리티
+// ============================================
+
+export interface QualityCheckInput {
+  sourceText: string;
+  translatedText: string; // 후처리 후 번역문
+  sourceLanguage?: string; // 템플릿 frontmatter의 언어 이름 (예: English, Korean)
+  targetLanguage?: string;
+}
+
+type Script = 'latin' | 'hangul' | 'kana' | 'han';
+
+const SCRIPT_PATTERNS: Record<Script, RegExp> = {
+  latin: /[A-Za-z]/g,
+  hangul: /[\uAC00-\uD7A3\u3131-\u318E]/g,
+  kana: /[\u3040-\u30FF]/g,
+  han: /[\u4E00-\u9FFF]/g,
+};
+
+// 언어를 대표하는 문자 체계 (일본어는 한자를 중국어와 공유하므로 가나로 판별)
+const LANGUAGE_SCRIPTS: Record<string, Script> = {
+  english: 'latin',
+  french: 'latin',
+  german: 'latin',
+  spanish: 'latin',
+  korean: 'hangul',
+  japanese: 'kana',
+  chinese: 'han',
+};
+
+// 원문 대비 번역문 길이 비율 (공백 제외 글자 수) 허용 범위
+const LENGTH_RATIO_BANDS: Record<string, [number, number]> = {
+  'english>korean': [0.2, 1.0],
+  'korean>english': [1.0, 5.0],
+  'japanese>korean': [0.6, 1.8],
+  'korean>japanese': [0.6, 1.8],
+};
+const DEFAULT_LENGTH_RATIO_BAND: [number, number] = [0.25, 4.0];
+
+// 길이 비율은 짧은 청크에서 편차가 커서 일정 길이 이상일 때만 검사
+const MIN_LENGTH_FOR_RATIO = 200;
+
+// 번역문 글자 중 원문 문자 체계 비율이 이보다 크면 번역되지 않은 부분이 남은 것으로 봄
+const MAX_RESIDUAL_SCRIPT_RATIO = 0.1;
+
+// 템플릿 / 모델 출력 형식이 새어 나온 흔적
+const ARTIFACT_PATTERNS: RegExp[] = [
+  /<\|im_(start|end)\|>/, // ChatML 태그
+  /^\s*(system|user|assistant|model)\s*$/im, // ChatML 역할 줄
+  /\{\{[#/]?[\w.\s()]+\}\}/, // 치환되지 않은 Handlebars 변수
+  /^\s*```/m, // 코드 블록 펜스
+];
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+function countLetters(text: string): number {
+  return countMatches(text, /\p{L}/gu);
+}
+
+function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(p => p.length > 0);
+}
+
+function normalizeLanguage(language?: string): string {
+  return (language ?? '').trim().toLowerCase();
+}
+
+/**
+ * 번역문 길이가 언어 쌍별 범위를 벗어났는지
+ */
+function hasLengthRatioIssue(input: QualityCheckInput): boolean {
+  const sourceLength = input.sourceText.replace(/\s/g, '').length;
+  if (sourceLength < MIN_LENGTH_FOR_RATIO) {
+    return false;
+  }
+
+  const pair = `${normalizeLanguage(input.sourceLanguage)}>${normalizeLanguage(input.targetLanguage)}`;
+  const [min, max] = LENGTH_RATIO_BANDS[pair] ?? DEFAULT_LENGTH_RATIO_BAND;
+  const ratio = input.translatedText.replace(/\s/g, '').length / sourceLength;
+
+  return ratio < min || ratio > max;
+}
+
+/**
+ * 번역문에 원문 문자 체계가 많이 남아 있는지 (번역되지 않은 문장)
+ */
+function hasResidualSourceScript(input: QualityCheckInput): boolean {
+  const sourceScript = LANGUAGE_SCRIPTS[normalizeLanguage(input.sourceLanguage)];
+  const targetScript = LANGUAGE_SCRIPTS[normalizeLanguage(input.targetLanguage)];
+  if (!sourceScript || !targetScript || sourceScript === targetScript) {
+    return false;
+  }
+
+  const letters = countLetters(input.translatedText);
+  if (letters === 0) {
+    return false;
+  }
+
+  return countMatches(input.translatedText, SCRIPT_PATTERNS[sourceScript]) / letters > MAX_RESIDUAL_SCRIPT_RATIO;
+}
+
+/**
+ * 문단 수가 원문과 크게 다른지 (문단 누락 / 병합)
+ */
+function hasParagraphMismatch(input: QualityCheckInput): boolean {
+  const sourceCount = splitParagraphs(input.sourceText).length;
+  const targetCount = splitParagraphs(input.translatedText).length;
+
+  return Math.abs(sourceCount - targetCount) > Math.max(2, Math.round(sourceCount * 0.2));
+}
+
+/**
+ * 같은 문장이 반복되는 생성 루프가 있는지
+ */
+function hasRepetitionLoop(input: QualityCheckInput): boolean {
+  // 원문보다 많이 반복되는 문단
+  const sourceCounts = new Map<string, number>();
+  for (const paragraph of splitParagraphs(input.sourceText)) {
+    sourceCounts.set(paragraph, (sourceCounts.get(paragraph) ?? 0) + 1);
+  }
+
+  const targetCounts = new Map<string, number>();
+  for (const paragraph of splitParagraphs(input.translatedText)) {
+    if (paragraph.length >= 10) {
+      targetCounts.set(paragraph, (targetCounts.get(paragraph) ?? 0) + 1);
+    }
+  }
+
+  const maxSourceRepeat = Math.max(1, ...sourceCounts.values());
+  for (const count of targetCounts.values()) {
+    if (count >= 3 && count > maxSourceRepeat) {
+      return true;
+    }
+  }
+
+  // 출력 끝부분에서 짧은 구절이 계속 반복되는 경우
+  const text = input.translatedText.trimEnd();
+  for (let unit = 2; unit <= 50; unit++) {
+    const repeats = 4;
+    if (text.length < unit * repeats) {
+      break;
+    }
+
+    const tail = text.slice(-unit);
+    if (/\p{L}/u.test(tail) && text.slice(-unit * repeats) === tail.repeat(repeats)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function hasTemplateArtifacts(input: QualityCheckInput): boolean {
+  return ARTIFACT_PATTERNS.some(pattern => pattern.test(input.translatedText) && !pattern.test(input.sourceText));
+}
+
+/**
+ * 번역문 품질 검사
+ *
+ * 원문과 번역문을 비교해 의심스러운 항목을 반환합니다. 번역 품질 자체를 판단하지는 않고,
+ * 사람이 다시 확인해야 할 만한 출력을 골라내는 용도입니다.
+ */
+export function checkTranslationQuality(input: QualityCheckInput): QaFlag[] {
+  const flags: QaFlag[] = [];
+
+  if (hasLengthRatioIssue(input)) {
+    flags.push('length_ratio');
+  }
+  if (hasResidualSourceScript(input)) {
+    flags.push('residual_source_script');
+  }
+  if (hasParagraphMismatch(input)) {
+    flags.push('paragraph_mismatch');
+  }
+  if (hasRepetitionLoop(input)) {
+    flags.push('repetition');
+  }
+  if (hasTemplateArtifacts(input)) {
+    flags.push('template_artifact');
+  }
+
+  return flags;
+}
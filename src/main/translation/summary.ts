@@ -0,0 +1,37 @@
+// ============================================
+// 줄거리 요약 (story so far)
+// ============================================
+
+export const SUMMARY_INSTRUCTION = [
+  'You maintain a running synopsis of a story that is being translated passage by passage.',
+  'The synopsis is given to a translator as background, so keep what helps translate later passages:',
+  'who the characters are and how they relate to each other, where the story is set, and the key events so far.',
+  'Write plain prose without headings or lists, in the same language as the passages, in no more than 300 words.',
+  'Respond with the updated synopsis only.',
+].join(' ');
+
+export interface BuildSummaryPromptInput {
+  previousSummary: string | null;
+  passages: string[]; // 요약에 새로 넣을 청크 원문 (순서대로)
+}
+
+/**
+ * 이전 요약과 새 구간을 합쳐 갱신된 요약을 요청하는 프롬프트
+ */
+export function buildSummaryPrompt(input: BuildSummaryPromptInput): string {
+  const sections: string[] = [];
+
+  if (input.previousSummary?.trim()) {
+    sections.push(['Synopsis so far:', '<synopsis>', input.previousSummary.trim(), '</synopsis>'].join('\n'));
+  }
+
+  sections.push(['Next passages:', '<passages>', input.passages.join('\n\n'), '</passages>'].join('\n'));
+
+  sections.push(
+    input.previousSummary?.trim()
+      ? 'Update the synopsis so that it also covers the next passages. Condense older events if needed to stay within the length limit.'
+      : 'Write a synopsis of these passages.'
+  );
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,221 @@
+import { hashSourceText } from './chunkDiff';
+
+// ============================================
+// 번역 메모리 (이전 세션의 번역을 문단 단위로 재사용)
+// ============================================
+
+export interface TranslationMemorySource {
+  sourceText: string;
+  translatedText: string;
+}
+
+export interface TranslationMemoryMatch {
+  sourceText: string;
+  translatedText: string;
+  score: number; // 0 ~ 1 (1 = 정규화 후 완전 일치)
+}
+
+interface MemorySegment {
+  sourceText: string;
+  translatedText: string;
+  bigrams: Set<string>;
+}
+
+export interface FuzzyMatchOptions {
+  minScore: number;
+  limit: number;
+}
+
+// 이 길이보다 짧은 문단은 퍼지 매칭하지 않음 (짧은 대사는 우연히 비슷한 경우가 많음)
+const MIN_FUZZY_LENGTH = 10;
+
+// 문단 하나당 유사도를 직접 계산할 최대 후보 수 (공통 바이그램이 많은 순)
+const MAX_FUZZY_CANDIDATES = 50;
+
+/**
+ * 비교용 정규화 (유니코드 호환 문자 통일, 연속 공백 하나로)
+ */
+export function normalizeSegment(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 텍스트를 문단(줄) 단위로 분리 (빈 줄 제외)
+ */
+export function splitSegments(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+function toBigrams(text: string): Set<string> {
+  const compact = text.toLowerCase().replace(/\s+/g, '');
+  const bigrams = new Set<string>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    bigrams.add(compact.slice(i, i + 2));
+  }
+  return bigrams;
+}
+
+/**
+ * 두 문단의 유사도 (문자 바이그램 Dice 계수, 띄어쓰기가 없는 언어에도 적용 가능)
+ */
+export function segmentSimilarity(a: string, b: string): number {
+  return diceCoefficient(toBigrams(normalizeSegment(a)), toBigrams(normalizeSegment(b)));
+}
+
+function diceCoefficient(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const bigram of a) {
+    if (b.has(bigram)) {
+      shared++;
+    }
+  }
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * 완료된 청크로 만든 번역 메모리 색인
+ *
+ * 원문과 번역문의 문단 수가 같은 청크만 문단 단위로 짝지어 색인하고,
+ * 문단 수가 달라도 청크 전체가 같으면 재사용할 수 있도록 청크 단위로도 색인합니다.
+ */
+export class TranslationMemory {
+  private readonly exactChunks = new Map<string, string>(); // 정규화한 청크 원문 해시 → 번역문
+  private readonly exactSegments = new Map<string, string>(); // 정규화한 문단 해시 → 번역문
+  private readonly segments: MemorySegment[] = [];
+  private readonly postings = new Map<string, number[]>(); // 바이그램 → segments 인덱스
+
+  constructor(sources: TranslationMemorySource[]) {
+    for (const source of sources) {
+      this.exactChunks.set(hashSourceText(normalizeSegment(source.sourceText)), source.translatedText);
+
+      const sourceSegments = splitSegments(source.sourceText);
+      const translatedSegments = splitSegments(source.translatedText);
+      if (sourceSegments.length !== translatedSegments.length) {
+        continue;
+      }
+
+      sourceSegments.forEach((segment, index) => this.addSegment(segment, translatedSegments[index]));
+    }
+  }
+
+  get size(): number {
+    return this.exactSegments.size;
+  }
+
+  private addSegment(sourceText: string, translatedText: string): void {
+    const hash = hashSourceText(normalizeSegment(sourceText));
+    if (this.exactSegments.has(hash)) {
+      return;
+    }
+    this.exactSegments.set(hash, translatedText);
+
+    const bigrams = toBigrams(normalizeSegment(sourceText));
+    const index = this.segments.push({ sourceText, translatedText, bigrams }) - 1;
+    for (const bigram of bigrams) {
+      const list = this.postings.get(bigram);
+      if (list) {
+        list.push(index);
+      } else {
+        this.postings.set(bigram, [index]);
+      }
+    }
+  }
+
+  private lookupSegment(text: string): string | undefined {
+    return this.exactSegments.get(hashSourceText(normalizeSegment(text)));
+  }
+
+  /**
+   * 청크 전체를 메모리만으로 번역할 수 있으면 번역문 반환 (문단 하나라도 없으면 null)
+   *
+   * 문단 단위로 맞춘 경우 원문의 줄바꿈 구조를 그대로 유지합니다.
+   */
+  translateExactly(sourceText: string): string | null {
+    const chunkMatch = this.exactChunks.get(hashSourceText(normalizeSegment(sourceText)));
+    if (chunkMatch !== undefined) {
+      return chunkMatch;
+    }
+
+    const lines = sourceText.split(/\r?\n/);
+    if (!lines.some(line => line.trim())) {
+      return null;
+    }
+
+    const translatedLines: string[] = [];
+    for (const line of lines) {
+      if (!line.trim()) {
+        translatedLines.push('');
+        continue;
+      }
+
+      const match = this.lookupSegment(line);
+      if (match === undefined) {
+        return null;
+      }
+      translatedLines.push(match);
+    }
+
+    return translatedLines.join('\n');
+  }
+
+  /**
+   * 청크 문단과 비슷한 메모리 문단 (번역 참고용, 유사도가 높은 순)
+   */
+  findFuzzy(sourceText: string, options: FuzzyMatchOptions): TranslationMemoryMatch[] {
+    const matches = new Map<string, TranslationMemoryMatch>();
+
+    for (const segment of splitSegments(sourceText)) {
+      const exact = this.lookupSegment(segment);
+      if (exact !== undefined) {
+        matches.set(segment, { sourceText: segment, translatedText: exact, score: 1 });
+        continue;
+      }
+
+      const normalized = normalizeSegment(segment);
+      if (normalized.length < MIN_FUZZY_LENGTH) {
+        continue;
+      }
+
+      const bigrams = toBigrams(normalized);
+      const sharedCounts = new Map<number, number>();
+      for (const bigram of bigrams) {
+        for (const index of this.postings.get(bigram) ?? []) {
+          sharedCounts.set(index, (sharedCounts.get(index) ?? 0) + 1);
+        }
+      }
+
+      const candidates = [...sharedCounts]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_FUZZY_CANDIDATES)
+        .map(([index]) => this.segments[index]);
+
+      for (const candidate of candidates) {
+        const score = diceCoefficient(bigrams, candidate.bigrams);
+        const existing = matches.get(candidate.sourceText);
+        if (score >= options.minScore && (!existing || existing.score < score)) {
+          matches.set(candidate.sourceText, { sourceText: candidate.sourceText, translatedText: candidate.translatedText, score });
+        }
+      }
+    }
+
+    return [...matches.values()].sort((a, b) => b.score - a.score).slice(0, options.limit);
+  }
+}
+
+/**
+ * 프롬프트에 넣을 참고 번역 목록
+ *
+ * 예:
+ * - (92%) The rain didn't stop.
+ *   → 비는 그칠 줄을 몰랐어.
+ */
+export function formatTranslationMemory(matches: TranslationMemoryMatch[]): string {
+  return matches.map(match => `- (${Math.round(match.score * 100)}%) ${match.sourceText}\n  → ${match.translatedText}`).join('\n');
+}
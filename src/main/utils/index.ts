@@ -1,2 +1,4 @@
 export * from './log';
 export * from './frontMatter';
+export * from './tokenEstimate';
+export * from './csv';
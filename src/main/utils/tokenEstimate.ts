@@ -0,0 +1,25 @@
+// ============================================
+// 토큰 수 추정 (API 호출 없이 로컬에서 계산)
+// ============================================
+
+// 한글 / 가나 / 한자는 대략 글자당 1토큰으로 계산됨
+const CJK_PATTERN = /[぀-ヿ㐀-鿿가-힯豈-﫿]/g;
+
+// 그 외 문자(라틴 문자, 공백, 기호)는 대략 4글자당 1토큰
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * 텍스트의 토큰 수를 보수적으로 추정
+ *
+ * 실제 토크나이저보다 약간 크게 잡으므로 요청 한도 계산에 사용해도 한도를 넘지 않습니다.
+ */
+export function estimateTokenCount(text: string): number {
+  if (!text) {
+    return 0;
+  }
+
+  const cjkCount = text.match(CJK_PATTERN)?.length ?? 0;
+  const otherCount = text.length - cjkCount;
+
+  return cjkCount + Math.ceil(otherCount / CHARS_PER_TOKEN);
+}
@@ -23,6 +23,49 @@ const api: ElectronAPI = {
     list: () => ipcRenderer.invoke('models:list'),
   },
 
+  rateLimits: {
+    list: () => ipcRenderer.invoke('rate-limits:list'),
+    update: (model: string, data: unknown) => ipcRenderer.invoke('rate-limits:update', model, data),
+    getStatus: () => ipcRenderer.invoke('rate-limits:status'),
+  },
+
+  // ============================================
+  // Translation Queue
+  // ============================================
+  queue: {
+    list: () => ipcRenderer.invoke('queue:list'),
+    enqueue: (data: unknown) => ipcRenderer.invoke('queue:enqueue', data),
+    remove: (sessionId: string) => ipcRenderer.invoke('queue:remove', sessionId),
+    reorder: (sessionIds: string[]) => ipcRenderer.invoke('queue:reorder', sessionIds),
+    clearFinished: () => ipcRenderer.invoke('queue:clear-finished'),
+  },
+
+  // ============================================
+  // Glossary
+  // ============================================
+  glossary: {
+    list: (sessionId: string | null) => ipcRenderer.invoke('glossary:list', sessionId),
+    create: (data: unknown) => ipcRenderer.invoke('glossary:create', data),
+    update: (id: string, data: unknown) => ipcRenderer.invoke('glossary:update', id, data),
+    delete: (id: string) => ipcRenderer.invoke('glossary:delete', id),
+    importCsv: (sessionId: string | null, content: string) => ipcRenderer.invoke('glossary:import-csv', sessionId, content),
+    exportCsv: (sessionId: string | null) => ipcRenderer.invoke('glossary:export-csv', sessionId),
+    report: (sessionId: string) => ipcRenderer.invoke('glossary:report', sessionId),
+    addMany: (sessionId: string, entries: unknown) => ipcRenderer.invoke('glossary:add-many', sessionId, entries),
+    extract: (sessionId: string, data: unknown) => ipcRenderer.invoke('glossary:extract', sessionId, data),
+    cancelExtract: (sessionId: string) => ipcRenderer.invoke('glossary:cancel-extract', sessionId),
+  },
+
+  // ============================================
+  // Characters
+  // ============================================
+  characters: {
+    list: (sessionId: string) => ipcRenderer.invoke('characters:list', sessionId),
+    create: (sessionId: string, data: unknown) => ipcRenderer.invoke('characters:create', sessionId, data),
+    update: (id: string, data: unknown) => ipcRenderer.invoke('characters:update', id, data),
+    delete: (id: string) => ipcRenderer.invoke('characters:delete', id),
+  },
+
   // ============================================
   // Templates
   // ============================================
@@ -50,22 +93,39 @@ const api: ElectronAPI = {
     delete: (id: string) => ipcRenderer.invoke('sessions:delete', id),
     getChunks: (id: string) => ipcRenderer.invoke('sessions:get-chunks', id),
     getChunksPaginated: (id: string, options: unknown) => ipcRenderer.invoke('sessions:get-chunks-paginated', id, options),
+    previewPostProcess: (id: string, rules: string | null) => ipcRenderer.invoke('sessions:preview-postprocess', id, rules),
     uploadFile: (id: string, fileName: string, content: string) => ipcRenderer.invoke('sessions:upload-file', id, fileName, content),
     downloadTranslation: (id: string) => ipcRenderer.invoke('sessions:download-translation', id),
   },
 
+  // ============================================
+  // Chunks
+  // ============================================
+  chunks: {
+    listRevisions: (chunkId: string) => ipcRenderer.invoke('chunks:list-revisions', chunkId),
+    promoteRevision: (chunkId: string, revisionId: string) => ipcRenderer.invoke('chunks:promote-revision', chunkId, revisionId),
+    split: (chunkId: string, position: number) => ipcRenderer.invoke('chunks:split', chunkId, position),
+    mergeWithNext: (chunkId: string) => ipcRenderer.invoke('chunks:merge-next', chunkId),
+  },
+
   // ============================================
   // Translation
   // ============================================
   translation: {
     start: (sessionId: string, sourceText: string) => ipcRenderer.invoke('translation:start', sessionId, sourceText),
+    previewRechunk: (sessionId: string, sourceText: string) => ipcRenderer.invoke('translation:preview-rechunk', sessionId, sourceText),
+    estimateCost: (sessionId: string, templateId: string) => ipcRenderer.invoke('translation:estimate-cost', sessionId, templateId),
     translateAll: (sessionId: string, templateId: string) => ipcRenderer.invoke('translation:translate-all', sessionId, templateId),
+    retranslateAll: (sessionId: string, data: unknown) => ipcRenderer.invoke('translation:retranslate-all', sessionId, data),
     getProgress: (sessionId: string) => ipcRenderer.invoke('translation:get-progress', sessionId),
     getPartial: (sessionId: string) => ipcRenderer.invoke('translation:get-partial', sessionId),
     retryChunk: (chunkId: string, templateId: string) => ipcRenderer.invoke('translation:retry-chunk', chunkId, templateId),
     translateChunk: (chunkId: string, templateId: string) => ipcRenderer.invoke('translation:translate-chunk', chunkId, templateId),
+    updateChunkText: (chunkId: string, data: unknown) => ipcRenderer.invoke('translation:update-chunk-text', chunkId, data),
     pause: (sessionId: string) => ipcRenderer.invoke('translation:pause', sessionId),
+    cancel: (sessionId: string) => ipcRenderer.invoke('translation:cancel', sessionId),
     resume: (sessionId: string, templateId: string) => ipcRenderer.invoke('translation:resume', sessionId, templateId),
+    getRecoveryReport: () => ipcRenderer.invoke('translation:get-recovery-report'),
     subscribe: (sessionId: string) => ipcRenderer.invoke('translation:subscribe', sessionId),
     unsubscribe: (sessionId: string) => ipcRenderer.invoke('translation:unsubscribe', sessionId),
   },
@@ -82,6 +142,14 @@ const api: ElectronAPI = {
     cleanup: () => ipcRenderer.invoke('logs:cleanup'),
   },
 
+  // ============================================
+  // Usage
+  // ============================================
+  usage: {
+    getSummary: (params?: unknown) => ipcRenderer.invoke('usage:get-summary', params),
+    exportCsv: (params?: unknown) => ipcRenderer.invoke('usage:export-csv', params),
+  },
+
   // ============================================
   // Events (WebSocket replacement)
   // ============================================
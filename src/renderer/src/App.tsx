@@ -4,6 +4,7 @@ import GlobalDialog from './components/common/GlobalDialog';
 import GlobalSnackbar from './components/common/GlobalSnackbar';
 import LogsPage from './pages/LogsPage';
 import TranslationPage from './pages/TranslationPage';
+import UsagePage from './pages/UsagePage';
 
 function App() {
   return (
@@ -12,6 +13,7 @@ function App() {
       <Routes>
         <Route element={<Layout />}>
           <Route path='/logs' element={<LogsPage />} />
+          <Route path='/usage' element={<UsagePage />} />
           <Route path='/translation' element={<TranslationPage />} />
           <Route path='/' element={<Navigate to='/translation' replace />} />
         </Route>
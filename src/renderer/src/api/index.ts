@@ -1,3 +1,4 @@
 export * from './translation';
 export * from './logs';
+export * from './usage';
 export * from './websocket';
@@ -6,6 +6,8 @@ import type {
   UpdateSessionRequest,
   TranslationChunk,
   TranslationProgressResponse,
+  RechunkSummary,
+  TranslationCostEstimate,
   GetProviderResponse,
   PromptTemplate,
   GetTemplateResponse,
@@ -16,6 +18,24 @@ import type {
   UpdateApiKeyResponse,
   DeleteApiKeyResponse,
   ValidateApiKeyResponse,
+  ModelRateLimitOverride,
+  UpdateRateLimitsRequest,
+  RateLimitStatus,
+  RecoveryReport,
+  TranslationQueueEntry,
+  TranslationChunkRevision,
+  PostProcessPreview,
+  GlossaryEntry,
+  CreateGlossaryEntryRequest,
+  UpdateGlossaryEntryRequest,
+  GlossaryImportResult,
+  GlossaryReport,
+  AddGlossaryEntriesRequest,
+  ExtractGlossaryRequest,
+  GlossaryExtractionResult,
+  SessionCharacter,
+  CreateSessionCharacterRequest,
+  UpdateSessionCharacterRequest,
 } from '@shared/types';
 
 // ============================================
@@ -34,6 +54,22 @@ export async function listModels(): Promise<GeminiModelInfo[]> {
   return window.api.models.list();
 }
 
+// ============================================
+// 요청 한도
+// ============================================
+
+export async function listRateLimitOverrides(): Promise<ModelRateLimitOverride[]> {
+  return window.api.rateLimits.list();
+}
+
+export async function updateRateLimitOverrides(model: string, req: UpdateRateLimitsRequest): Promise<ModelRateLimitOverride> {
+  return window.api.rateLimits.update(model, req);
+}
+
+export async function getRateLimitStatus(): Promise<RateLimitStatus[]> {
+  return window.api.rateLimits.getStatus();
+}
+
 // ============================================
 // 프롬프트 템플릿
 // ============================================
@@ -97,6 +133,10 @@ export async function getSessionChunksPaginated(
   return window.api.sessions.getChunksPaginated(id, options);
 }
 
+export async function previewPostProcess(id: string, rules: string | null): Promise<PostProcessPreview | null> {
+  return window.api.sessions.previewPostProcess(id, rules);
+}
+
 // ============================================
 // 파일 업로드/다운로드
 // ============================================
@@ -121,10 +161,22 @@ export async function startTranslation(sessionId: string, sourceText: string): P
   return window.api.translation.start(sessionId, sourceText);
 }
 
+export async function previewRechunk(sessionId: string, sourceText: string): Promise<RechunkSummary> {
+  return window.api.translation.previewRechunk(sessionId, sourceText);
+}
+
+export async function estimateTranslationCost(sessionId: string, templateId: string): Promise<TranslationCostEstimate> {
+  return window.api.translation.estimateCost(sessionId, templateId);
+}
+
 export async function translateAll(sessionId: string, templateId: string): Promise<void> {
   return window.api.translation.translateAll(sessionId, templateId);
 }
 
+export async function resumeTranslation(sessionId: string, templateId: string): Promise<void> {
+  return window.api.translation.resume(sessionId, templateId);
+}
+
 export async function getProgress(sessionId: string): Promise<TranslationProgressResponse> {
   return window.api.translation.getProgress(sessionId);
 }
@@ -141,6 +193,129 @@ export async function translateSingleChunk(chunkId: string, templateId: string):
   return window.api.translation.translateChunk(chunkId, templateId);
 }
 
+export async function updateChunkText(chunkId: string, translatedText: string): Promise<TranslationChunk> {
+  return window.api.translation.updateChunkText(chunkId, { translatedText });
+}
+
+// 완료된 청크까지 다시 번역 (force가 아니면 직접 수정한 청크는 유지)
+export async function retranslateAll(sessionId: string, templateId: string, force: boolean): Promise<void> {
+  return window.api.translation.retranslateAll(sessionId, { templateId, force });
+}
+
+// 청크 번역 이력 (최신순)
+export async function listChunkRevisions(chunkId: string): Promise<TranslationChunkRevision[]> {
+  return window.api.chunks.listRevisions(chunkId);
+}
+
+export async function promoteChunkRevision(chunkId: string, revisionId: string): Promise<TranslationChunk> {
+  return window.api.chunks.promoteRevision(chunkId, revisionId);
+}
+
+// 원문의 position 위치에서 청크 분할
+export async function splitChunk(chunkId: string, position: number): Promise<TranslationChunk[]> {
+  return window.api.chunks.split(chunkId, position);
+}
+
+// 다음 청크와 병합
+export async function mergeChunkWithNext(chunkId: string): Promise<TranslationChunk> {
+  return window.api.chunks.mergeWithNext(chunkId);
+}
+
+// 앱 시작 시 복구된 중단 세션 (한 번만 반환됨)
+export async function getRecoveryReport(): Promise<RecoveryReport> {
+  return window.api.translation.getRecoveryReport();
+}
+
+// ============================================
+// 번역 대기열
+// ============================================
+
+export async function listQueue(): Promise<TranslationQueueEntry[]> {
+  return window.api.queue.list();
+}
+
+export async function enqueueTranslation(sessionId: string, templateId: string): Promise<void> {
+  return window.api.queue.enqueue({ sessionId, templateId });
+}
+
+export async function removeFromQueue(sessionId: string): Promise<void> {
+  return window.api.queue.remove(sessionId);
+}
+
+export async function reorderQueue(sessionIds: string[]): Promise<void> {
+  return window.api.queue.reorder(sessionIds);
+}
+
+export async function clearFinishedQueue(): Promise<void> {
+  return window.api.queue.clearFinished();
+}
+
+// ============================================
+// 용어집
+// ============================================
+
+export async function listGlossaryEntries(sessionId: string | null): Promise<GlossaryEntry[]> {
+  return window.api.glossary.list(sessionId);
+}
+
+export async function createGlossaryEntry(req: CreateGlossaryEntryRequest): Promise<GlossaryEntry> {
+  return window.api.glossary.create(req);
+}
+
+export async function updateGlossaryEntry(id: string, req: UpdateGlossaryEntryRequest): Promise<GlossaryEntry> {
+  return window.api.glossary.update(id, req);
+}
+
+export async function deleteGlossaryEntry(id: string): Promise<void> {
+  return window.api.glossary.delete(id);
+}
+
+export async function importGlossaryCsv(sessionId: string | null, file: File): Promise<GlossaryImportResult> {
+  const content = await file.text();
+  return window.api.glossary.importCsv(sessionId, content);
+}
+
+export async function exportGlossaryCsv(sessionId: string | null): Promise<{ fileName: string; blob: Blob }> {
+  const result = await window.api.glossary.exportCsv(sessionId);
+  return { fileName: result.fileName, blob: new Blob([result.content], { type: 'text/csv' }) };
+}
+
+export async function getGlossaryReport(sessionId: string): Promise<GlossaryReport> {
+  return window.api.glossary.report(sessionId);
+}
+
+export async function addGlossaryEntries(sessionId: string, entries: AddGlossaryEntriesRequest): Promise<GlossaryImportResult> {
+  return window.api.glossary.addMany(sessionId, entries);
+}
+
+export async function extractGlossaryCandidates(sessionId: string, req: ExtractGlossaryRequest): Promise<GlossaryExtractionResult> {
+  return window.api.glossary.extract(sessionId, req);
+}
+
+export async function cancelGlossaryExtraction(sessionId: string): Promise<void> {
+  return window.api.glossary.cancelExtract(sessionId);
+}
+
+// ============================================
+// 등장인물
+// ============================================
+
+export async function listSessionCharacters(sessionId: string): Promise<SessionCharacter[]> {
+  return window.api.characters.list(sessionId);
+}
+
+export async function createSessionCharacter(sessionId: string, req: CreateSessionCharacterRequest): Promise<SessionCharacter> {
+  return window.api.characters.create(sessionId, req);
+}
+
+export async function updateSessionCharacter(id: string, req: UpdateSessionCharacterRequest): Promise<SessionCharacter> {
+  return window.api.characters.update(id, req);
+}
+
+export async function deleteSessionCharacter(id: string): Promise<void> {
+  return window.api.characters.delete(id);
+}
+
 // ============================================
 // 앱 설정 (API 키 등)
 // ============================================
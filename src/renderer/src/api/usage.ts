@@ -0,0 +1,14 @@
+import type { GetUsageRequest, UsageSummary } from '@shared/types';
+import { UsageSummarySchema } from '@shared/types';
+
+// 토큰 사용량 집계 조회
+export async function getUsageSummary(params?: GetUsageRequest): Promise<UsageSummary> {
+  const response = await window.api.usage.getSummary(params);
+  return UsageSummarySchema.parse(response);
+}
+
+// 호출별 사용량 CSV 내보내기
+export async function exportUsageCsv(params?: GetUsageRequest): Promise<{ fileName: string; blob: Blob }> {
+  const result = await window.api.usage.exportCsv(params);
+  return { fileName: result.fileName, blob: new Blob([result.content], { type: 'text/csv' }) };
+}
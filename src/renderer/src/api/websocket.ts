@@ -23,9 +23,13 @@ class TranslationEventClient {
     const channels = [
       'translation:subscribed',
       'translation:chunk-start',
+      'translation:chunk-delta',
       'translation:chunk-progress',
       'translation:session-status',
       'translation:session-complete',
+      'translation:rate-limit',
+      'translation:queue',
+      'translation:glossary-extract',
       'translation:error',
     ];
 
@@ -78,6 +82,13 @@ class TranslationEventClient {
     window.api.translation.pause(sessionId);
   }
 
+  /**
+   * 번역 취소 (세션을 번역 시작 전 상태로 되돌림)
+   */
+  cancel(sessionId: string): void {
+    window.api.translation.cancel(sessionId);
+  }
+
   /**
    * 번역 재개
    */
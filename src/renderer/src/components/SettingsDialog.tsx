@@ -46,7 +46,15 @@ import {
 import { useTranslation } from 'react-i18next';
 import { useSettingsStore } from '../stores/settingsStore';
 import { useThemeStore, type ThemeMode } from '../stores/themeStore';
-import { getAppSettings, updateApiKey, deleteApiKey, validateApiKey } from '../api/translation';
+import {
+  getAppSettings,
+  updateApiKey,
+  deleteApiKey,
+  validateApiKey,
+  listRateLimitOverrides,
+  updateRateLimitOverrides,
+} from '../api/translation';
+import type { BlockedFallback, RateLimits, TranslationMemoryMode, UpdateRateLimitsRequest } from '@shared/types';
 
 // ============================================
 // Tab Panel
@@ -96,6 +104,21 @@ export default function SettingsDialog() {
   const [maxOutputTokens, setMaxOutputTokens] = useState<number | undefined>(32000);
   const [topP, setTopP] = useState<number | undefined>(undefined);
   const [topK, setTopK] = useState<number | undefined>(undefined);
+  const [concurrency, setConcurrency] = useState(1);
+  const [queueConcurrency, setQueueConcurrency] = useState(1);
+  const [maxAttempts, setMaxAttempts] = useState(3);
+  const [retryBaseDelayMs, setRetryBaseDelayMs] = useState(2000);
+  const [retryMaxDelayMs, setRetryMaxDelayMs] = useState(60000);
+  const [blockedFallback, setBlockedFallback] = useState<BlockedFallback>('skip');
+  const [fallbackTemplateId, setFallbackTemplateId] = useState('');
+  const [fallbackModel, setFallbackModel] = useState('');
+  const [qaAutoRetries, setQaAutoRetries] = useState(0);
+  const [glossaryCorrections, setGlossaryCorrections] = useState(0);
+  const [translationMemory, setTranslationMemory] = useState<TranslationMemoryMode>('reuse');
+  const [summaryInterval, setSummaryInterval] = useState(0);
+  const [summaryModel, setSummaryModel] = useState('');
+  const [costConfirmThreshold, setCostConfirmThreshold] = useState(1);
+  const [rateLimitOverrides, setRateLimitOverrides] = useState<Record<string, UpdateRateLimitsRequest>>({});
   const [advancedExpanded, setAdvancedExpanded] = useState(false);
   const [saving, setSaving] = useState(false);
 
@@ -189,9 +212,32 @@ export default function SettingsDialog() {
       setMaxOutputTokens(config.maxOutputTokens ?? undefined);
       setTopP(config.topP ?? undefined);
       setTopK(config.topK ?? undefined);
+      setConcurrency(config.concurrency ?? 1);
+      setQueueConcurrency(config.queueConcurrency ?? 1);
+      setMaxAttempts(config.maxAttempts ?? 3);
+      setRetryBaseDelayMs(config.retryBaseDelayMs ?? 2000);
+      setRetryMaxDelayMs(config.retryMaxDelayMs ?? 60000);
+      setBlockedFallback(config.blockedFallback ?? 'skip');
+      setFallbackTemplateId(config.fallbackTemplateId ?? '');
+      setFallbackModel(config.fallbackModel ?? '');
+      setQaAutoRetries(config.qaAutoRetries ?? 0);
+      setGlossaryCorrections(config.glossaryCorrections ?? 0);
+      setTranslationMemory(config.translationMemory ?? 'reuse');
+      setSummaryInterval(config.summaryInterval ?? 0);
+      setSummaryModel(config.summaryModel ?? '');
+      setCostConfirmThreshold(config.costConfirmThreshold ?? 1);
     }
   }, [isOpen, translationProps?.config]);
 
+  // 모델별 요청 한도 재정의 로드
+  useEffect(() => {
+    if (isOpen && translationProps) {
+      listRateLimitOverrides()
+        .then(rows => setRateLimitOverrides(Object.fromEntries(rows.map(({ model, rpm, tpm, rpd }) => [model, { rpm, tpm, rpd }]))))
+        .catch(() => setRateLimitOverrides({}));
+    }
+  }, [isOpen, translationProps]);
+
   // 모델 목록 로드
   useEffect(() => {
     if (isOpen && tabIndex === 1 && translationProps) {
@@ -226,7 +272,22 @@ export default function SettingsDialog() {
         maxOutputTokens,
         topP,
         topK,
+        concurrency,
+        queueConcurrency,
+        maxAttempts,
+        retryBaseDelayMs,
+        retryMaxDelayMs,
+        blockedFallback,
+        fallbackTemplateId: fallbackTemplateId || null,
+        fallbackModel: fallbackModel || null,
+        qaAutoRetries,
+        glossaryCorrections,
+        translationMemory,
+        summaryInterval,
+        summaryModel: summaryModel || null,
+        costConfirmThreshold,
       });
+      await Promise.all(Object.entries(rateLimitOverrides).map(([modelId, limits]) => updateRateLimitOverrides(modelId, limits)));
       closeSettings();
     } finally {
       setSaving(false);
@@ -242,6 +303,14 @@ export default function SettingsDialog() {
   // 선택된 모델 정보
   const selectedModel = translationProps?.models.find(m => m.id === model);
 
+  // 선택된 모델의 요청 한도 재정의 편집
+  const handleRateLimitChange = (key: keyof RateLimits, value: string) => {
+    setRateLimitOverrides(prev => ({
+      ...prev,
+      [model]: { ...prev[model], [key]: value === '' ? null : Math.max(0, parseInt(value, 10) || 0) },
+    }));
+  };
+
   return (
     <Dialog
       open={isOpen}
@@ -477,6 +546,52 @@ export default function SettingsDialog() {
                 />
               </Box>
 
+              {/* 동시 번역 수 */}
+              <Box>
+                <Typography variant='subtitle2' gutterBottom>
+                  {t('translation.concurrency')}: {concurrency}
+                </Typography>
+                <Typography variant='caption' color='text.secondary' gutterBottom sx={{ display: 'block', mb: 2 }}>
+                  {t('translation.concurrencyHelp')}
+                </Typography>
+                <Slider
+                  value={concurrency}
+                  onChange={(_, value) => setConcurrency(value as number)}
+                  min={1}
+                  max={8}
+                  step={1}
+                  marks={[
+                    { value: 1, label: '1' },
+                    { value: 4, label: '4' },
+                    { value: 8, label: '8' },
+                  ]}
+                  valueLabelDisplay='auto'
+                />
+              </Box>
+
+              {/* 동시 번역 세션 수 (대기열) */}
+              <Box>
+                <Typography variant='subtitle2' gutterBottom>
+                  {t('translation.queueConcurrency')}: {queueConcurrency}
+                </Typography>
+                <Typography variant='caption' color='text.secondary' gutterBottom sx={{ display: 'block', mb: 2 }}>
+                  {t('translation.queueConcurrencyHelp')}
+                </Typography>
+                <Slider
+                  value={queueConcurrency}
+                  onChange={(_, value) => setQueueConcurrency(value as number)}
+                  min={1}
+                  max={4}
+                  step={1}
+                  marks={[
+                    { value: 1, label: '1' },
+                    { value: 2, label: '2' },
+                    { value: 4, label: '4' },
+                  ]}
+                  valueLabelDisplay='auto'
+                />
+              </Box>
+
               {/* 고급 설정 */}
               <Accordion expanded={advancedExpanded} onChange={(_, exp) => setAdvancedExpanded(exp)}>
                 <AccordionSummary expandIcon={<ExpandMoreIcon />}>
@@ -568,6 +683,257 @@ export default function SettingsDialog() {
                         inputProps: { min: 1, max: 100 },
                       }}
                     />
+
+                    {/* 요청 한도 */}
+                    <Box>
+                      <Typography variant='subtitle2' gutterBottom>
+                        {t('translation.rateLimits')}
+                      </Typography>
+                      <Typography variant='caption' color='text.secondary' gutterBottom sx={{ display: 'block', mb: 2 }}>
+                        {t('translation.rateLimitsHelp')}
+                      </Typography>
+                      <Box sx={{ display: 'flex', gap: 2 }}>
+                        {(['rpm', 'tpm', 'rpd'] as const).map(key => (
+                          <TextField
+                            key={key}
+                            label={t(`translation.${key}`)}
+                            type='number'
+                            value={rateLimitOverrides[model]?.[key] ?? ''}
+                            onChange={e => handleRateLimitChange(key, e.target.value)}
+                            placeholder={selectedModel?.rateLimits[key]?.toString() ?? ''}
+                            size='small'
+                            fullWidth
+                            InputLabelProps={{ shrink: true }}
+                            InputProps={{
+                              inputProps: { min: 0 },
+                            }}
+                          />
+                        ))}
+                      </Box>
+                    </Box>
+
+                    {/* 자동 재시도 */}
+                    <Box>
+                      <Typography variant='subtitle2' gutterBottom>
+                        {t('translation.autoRetry')}
+                      </Typography>
+                      <Typography variant='caption' color='text.secondary' gutterBottom sx={{ display: 'block', mb: 2 }}>
+                        {t('translation.autoRetryHelp')}
+                      </Typography>
+                      <Box sx={{ display: 'flex', gap: 2 }}>
+                        <TextField
+                          label={t('translation.maxAttempts')}
+                          type='number'
+                          value={maxAttempts}
+                          onChange={e => setMaxAttempts(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                          size='small'
+                          fullWidth
+                          InputProps={{
+                            inputProps: { min: 1, max: 10 },
+                          }}
+                        />
+                        <TextField
+                          label={t('translation.retryBaseDelay')}
+                          type='number'
+                          value={retryBaseDelayMs / 1000}
+                          onChange={e => setRetryBaseDelayMs(Math.round((parseFloat(e.target.value) || 0) * 1000))}
+                          size='small'
+                          fullWidth
+                          InputProps={{
+                            endAdornment: <InputAdornment position='end'>{t('translation.seconds')}</InputAdornment>,
+                            inputProps: { min: 0, max: 600, step: 0.5 },
+                          }}
+                        />
+                        <TextField
+                          label={t('translation.retryMaxDelay')}
+                          type='number'
+                          value={retryMaxDelayMs / 1000}
+                          onChange={e => setRetryMaxDelayMs(Math.round((parseFloat(e.target.value) || 0) * 1000))}
+                          size='small'
+                          fullWidth
+                          InputProps={{
+                            endAdornment: <InputAdornment position='end'>{t('translation.seconds')}</InputAdornment>,
+                            inputProps: { min: 0, max: 600 },
+                          }}
+                        />
+                      </Box>
+                    </Box>
+
+                    {/* 차단된 청크 처리 */}
+                    <Box>
+                      <Typography variant='subtitle2' gutterBottom>
+                        {t('translation.blockedFallback.title')}
+                      </Typography>
+                      <Typography variant='caption' color='text.secondary' gutterBottom sx={{ display: 'block', mb: 2 }}>
+                        {t('translation.blockedFallback.help')}
+                      </Typography>
+                      <Box sx={{ display: 'flex', gap: 2 }}>
+                        <FormControl size='small' fullWidth>
+                          <InputLabel>{t('translation.blockedFallback.action')}</InputLabel>
+                          <Select
+                            value={blockedFallback}
+                            label={t('translation.blockedFallback.action')}
+                            onChange={e => setBlockedFallback(e.target.value as BlockedFallback)}
+                          >
+                            <MenuItem value='skip'>{t('translation.blockedFallback.skip')}</MenuItem>
+                            <MenuItem value='template'>{t('translation.blockedFallback.template')}</MenuItem>
+                            <MenuItem value='model'>{t('translation.blockedFallback.model')}</MenuItem>
+                          </Select>
+                        </FormControl>
+                        {blockedFallback === 'template' && (
+                          <FormControl size='small' fullWidth>
+                            <InputLabel>{t('translation.blockedFallback.fallbackTemplate')}</InputLabel>
+                            <Select
+                              value={fallbackTemplateId}
+                              label={t('translation.blockedFallback.fallbackTemplate')}
+                              onChange={e => setFallbackTemplateId(e.target.value)}
+                            >
+                              {translationProps.templates.map(template => (
+                                <MenuItem key={template.id} value={template.id}>
+                                  {template.title}
+                                </MenuItem>
+                              ))}
+                            </Select>
+                          </FormControl>
+                        )}
+                        {blockedFallback === 'model' && (
+                          <FormControl size='small' fullWidth>
+                            <InputLabel>{t('translation.blockedFallback.fallbackModel')}</InputLabel>
+                            <Select
+                              value={fallbackModel}
+                              label={t('translation.blockedFallback.fallbackModel')}
+                              onChange={e => setFallbackModel(e.target.value)}
+                            >
+                              {translationProps.models.map(m => (
+                                <MenuItem key={m.id} value={m.id}>
+                                  {m.name}
+                                </MenuItem>
+                              ))}
+                            </Select>
+                          </FormControl>
+                        )}
+                      </Box>
+                    </Box>
+
+                    {/* 품질 검사 */}
+                    <Box>
+                      <Typography variant='subtitle2' gutterBottom>
+                        {t('translation.qa.title')}
+                      </Typography>
+                      <Typography variant='caption' color='text.secondary' gutterBottom sx={{ display: 'block', mb: 2 }}>
+                        {t('translation.qa.help')}
+                      </Typography>
+                      <TextField
+                        label={t('translation.qa.autoRetries')}
+                        type='number'
+                        value={qaAutoRetries}
+                        onChange={e => setQaAutoRetries(Math.min(3, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+                        helperText={t('translation.qa.autoRetriesHelp')}
+                        size='small'
+                        fullWidth
+                        InputProps={{
+                          inputProps: { min: 0, max: 3 },
+                        }}
+                      />
+                      <TextField
+                        label={t('translation.glossary.corrections')}
+                        type='number'
+                        value={glossaryCorrections}
+                        onChange={e => setGlossaryCorrections(Math.min(3, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+                        helperText={t('translation.glossary.correctionsHelp')}
+                        size='small'
+                        fullWidth
+                        sx={{ mt: 2 }}
+                        InputProps={{
+                          inputProps: { min: 0, max: 3 },
+                        }}
+                      />
+                    </Box>
+
+                    {/* 번역 메모리 */}
+                    <Box>
+                      <Typography variant='subtitle2' gutterBottom>
+                        {t('translation.memory.title')}
+                      </Typography>
+                      <Typography variant='caption' color='text.secondary' gutterBottom sx={{ display: 'block', mb: 2 }}>
+                        {t('translation.memory.help')}
+                      </Typography>
+                      <FormControl size='small' fullWidth>
+                        <InputLabel>{t('translation.memory.mode')}</InputLabel>
+                        <Select
+                          value={translationMemory}
+                          label={t('translation.memory.mode')}
+                          onChange={e => setTranslationMemory(e.target.value as TranslationMemoryMode)}
+                        >
+                          <MenuItem value='off'>{t('translation.memory.modes.off')}</MenuItem>
+                          <MenuItem value='reference'>{t('translation.memory.modes.reference')}</MenuItem>
+                          <MenuItem value='reuse'>{t('translation.memory.modes.reuse')}</MenuItem>
+                        </Select>
+                      </FormControl>
+                    </Box>
+
+                    {/* 줄거리 요약 */}
+                    <Box>
+                      <Typography variant='subtitle2' gutterBottom>
+                        {t('translation.summary.title')}
+                      </Typography>
+                      <Typography variant='caption' color='text.secondary' gutterBottom sx={{ display: 'block', mb: 2 }}>
+                        {t('translation.summary.help')}
+                      </Typography>
+                      <TextField
+                        label={t('translation.summary.interval')}
+                        type='number'
+                        value={summaryInterval}
+                        onChange={e => setSummaryInterval(Math.min(50, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+                        helperText={t('translation.summary.intervalHelp')}
+                        size='small'
+                        fullWidth
+                        InputProps={{
+                          inputProps: { min: 0, max: 50 },
+                        }}
+                      />
+                      {summaryInterval > 0 && (
+                        <FormControl size='small' fullWidth sx={{ mt: 2 }}>
+                          <InputLabel shrink>{t('translation.summary.model')}</InputLabel>
+                          <Select
+                            value={summaryModel}
+                            label={t('translation.summary.model')}
+                            onChange={e => setSummaryModel(e.target.value)}
+                            displayEmpty
+                            notched
+                          >
+                            <MenuItem value=''>{t('translation.summary.sameAsTranslation')}</MenuItem>
+                            {translationProps.models.map(m => (
+                              <MenuItem key={m.id} value={m.id}>
+                                {m.name}
+                              </MenuItem>
+                            ))}
+                          </Select>
+                        </FormControl>
+                      )}
+                    </Box>
+
+                    {/* 예상 비용 확인 */}
+                    <Box>
+                      <Typography variant='subtitle2' gutterBottom>
+                        {t('translation.costEstimate.title')}
+                      </Typography>
+                      <Typography variant='caption' color='text.secondary' gutterBottom sx={{ display: 'block', mb: 2 }}>
+                        {t('translation.costEstimate.settingsHelp')}
+                      </Typography>
+                      <TextField
+                        label={t('translation.costEstimate.threshold')}
+                        type='number'
+                        value={costConfirmThreshold}
+                        onChange={e => setCostConfirmThreshold(Math.min(10000, Math.max(0, parseFloat(e.target.value) || 0)))}
+                        helperText={t('translation.costEstimate.thresholdHelp')}
+                        size='small'
+                        fullWidth
+                        InputProps={{
+                          inputProps: { min: 0, max: 10000, step: 0.5 },
+                        }}
+                      />
+                    </Box>
                   </Box>
                 </AccordionDetails>
               </Accordion>
@@ -0,0 +1,422 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  IconButton,
+  Paper,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import { Add as AddIcon, Edit as EditIcon, Delete as DeleteIcon, Close as RemoveIcon } from '@mui/icons-material';
+import type { CharacterGender, CharacterSpeechLevel, SessionCharacter, SpeechLevel, TranslationSession } from '@shared/types';
+import * as api from '../../api/translation';
+import { dialog } from '../../stores/dialogStore';
+import { snackbar } from '../../stores/snackbarStore';
+
+// ============================================
+// Types / Constants
+// ============================================
+
+interface CharacterForm {
+  name: string;
+  targetName: string;
+  aliases: string; // 쉼표로 구분
+  gender: CharacterGender | '';
+  role: string;
+  defaultSpeechLevel: SpeechLevel | '';
+  speechLevels: CharacterSpeechLevel[];
+  notes: string;
+}
+
+const EMPTY_FORM: CharacterForm = {
+  name: '',
+  targetName: '',
+  aliases: '',
+  gender: '',
+  role: '',
+  defaultSpeechLevel: '',
+  speechLevels: [],
+  notes: '',
+};
+
+const GENDERS: CharacterGender[] = ['female', 'male', 'other'];
+const SPEECH_LEVELS: SpeechLevel[] = ['formal', 'polite', 'casual'];
+
+const NEW_CHARACTER = 'new';
+
+// ============================================
+// Props
+// ============================================
+
+interface CharactersDialogProps {
+  open: boolean;
+  session: TranslationSession | null;
+  onClose: () => void;
+}
+
+// ============================================
+// 등장인물 다이얼로그
+// ============================================
+
+export default function CharactersDialog({ open, session, onClose }: CharactersDialogProps) {
+  const { t } = useTranslation();
+  const [characters, setCharacters] = useState<SessionCharacter[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null); // NEW_CHARACTER = 새 인물
+  const [form, setForm] = useState<CharacterForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const sessionId = session?.id ?? null;
+
+  // 열 때 / 세션이 바뀔 때 다시 로드
+  useEffect(() => {
+    if (!open || !sessionId) return;
+
+    let canceled = false;
+    setEditingId(null);
+    setLoading(true);
+    api
+      .listSessionCharacters(sessionId)
+      .then(result => !canceled && setCharacters(result))
+      .catch(() => snackbar.error('translation.characterProfiles.errors.loadFailed', true))
+      .finally(() => !canceled && setLoading(false));
+
+    return () => {
+      canceled = true;
+    };
+  }, [open, sessionId]);
+
+  const namesById = new Map(characters.map(c => [c.id, c.name]));
+  const otherCharacters = characters.filter(c => c.id !== editingId);
+  const unusedOthers = otherCharacters.filter(c => !form.speechLevels.some(level => level.characterId === c.id));
+
+  const duplicate = editingId !== null && characters.some(c => c.name === form.name.trim() && c.id !== editingId);
+  const canSave = Boolean(form.name.trim()) && !duplicate && !saving;
+
+  const handleAdd = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(NEW_CHARACTER);
+  };
+
+  const handleEdit = (character: SessionCharacter) => {
+    setForm({
+      name: character.name,
+      targetName: character.targetName ?? '',
+      aliases: character.aliases.join(', '),
+      gender: character.gender ?? '',
+      role: character.role ?? '',
+      defaultSpeechLevel: character.defaultSpeechLevel ?? '',
+      speechLevels: character.speechLevels,
+      notes: character.notes ?? '',
+    });
+    setEditingId(character.id);
+  };
+
+  const updateSpeechLevel = (index: number, changes: Partial<CharacterSpeechLevel>) => {
+    setForm(prev => ({
+      ...prev,
+      speechLevels: prev.speechLevels.map((level, i) => (i === index ? { ...level, ...changes } : level)),
+    }));
+  };
+
+  const handleAddSpeechLevel = () => {
+    if (unusedOthers.length === 0) return;
+    setForm(prev => ({ ...prev, speechLevels: [...prev.speechLevels, { characterId: unusedOthers[0].id, level: 'polite' }] }));
+  };
+
+  const handleSave = async () => {
+    if (!canSave || editingId === null || !sessionId) return;
+
+    const data = {
+      name: form.name.trim(),
+      targetName: form.targetName.trim() || null,
+      aliases: form.aliases
+        .split(',')
+        .map(alias => alias.trim())
+        .filter(Boolean),
+      gender: form.gender || null,
+      role: form.role.trim() || null,
+      defaultSpeechLevel: form.defaultSpeechLevel || null,
+      speechLevels: form.speechLevels,
+      notes: form.notes.trim() || null,
+    };
+
+    setSaving(true);
+    try {
+      if (editingId === NEW_CHARACTER) {
+        const created = await api.createSessionCharacter(sessionId, data);
+        setCharacters(prev => [...prev, created]);
+      } else {
+        const updated = await api.updateSessionCharacter(editingId, data);
+        setCharacters(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+      }
+      setEditingId(null);
+    } catch {
+      snackbar.error('translation.characterProfiles.errors.saveFailed', true);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (character: SessionCharacter) => {
+    const confirmed = await dialog.confirm(t('translation.characterProfiles.confirmDelete', { name: character.name }));
+    if (!confirmed) return;
+
+    try {
+      await api.deleteSessionCharacter(character.id);
+      // 다른 인물의 말투 설정에서도 제거됨
+      setCharacters(prev =>
+        prev
+          .filter(c => c.id !== character.id)
+          .map(c => ({ ...c, speechLevels: c.speechLevels.filter(level => level.characterId !== character.id) }))
+      );
+      if (editingId === character.id) {
+        setEditingId(null);
+      }
+    } catch {
+      snackbar.error('translation.characterProfiles.errors.deleteFailed', true);
+    }
+  };
+
+  const renderSpeech = (character: SessionCharacter) => {
+    const parts = [
+      ...(character.defaultSpeechLevel ? [t(`translation.characterProfiles.speechLevels.${character.defaultSpeechLevel}`)] : []),
+      ...character.speechLevels
+        .filter(level => namesById.has(level.characterId))
+        .map(level => `→ ${namesById.get(level.characterId)}: ${t(`translation.characterProfiles.speechLevels.${level.level}`)}`),
+    ];
+    return parts.join(', ');
+  };
+
+  const renderForm = () => (
+    <Paper variant='outlined' sx={{ p: 2, display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr 140px', gap: 1.5 }}>
+        <TextField
+          label={t('translation.characterProfiles.name')}
+          size='small'
+          value={form.name}
+          onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))}
+          error={duplicate}
+          helperText={duplicate ? t('translation.characterProfiles.duplicate') : undefined}
+          inputProps={{ maxLength: 200 }}
+          autoFocus
+          required
+        />
+        <TextField
+          label={t('translation.characterProfiles.targetName')}
+          size='small'
+          value={form.targetName}
+          onChange={e => setForm(prev => ({ ...prev, targetName: e.target.value }))}
+          inputProps={{ maxLength: 200 }}
+        />
+        <FormControl size='small'>
+          <InputLabel>{t('translation.characterProfiles.gender')}</InputLabel>
+          <Select
+            value={form.gender}
+            label={t('translation.characterProfiles.gender')}
+            onChange={e => setForm(prev => ({ ...prev, gender: e.target.value as CharacterGender | '' }))}
+          >
+            <MenuItem value=''>{t('translation.characterProfiles.unspecified')}</MenuItem>
+            {GENDERS.map(gender => (
+              <MenuItem key={gender} value={gender}>
+                {t(`translation.characterProfiles.genders.${gender}`)}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+      <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr 140px', gap: 1.5 }}>
+        <TextField
+          label={t('translation.characterProfiles.aliases')}
+          size='small'
+          value={form.aliases}
+          onChange={e => setForm(prev => ({ ...prev, aliases: e.target.value }))}
+          helperText={t('translation.characterProfiles.aliasesHelp')}
+        />
+        <TextField
+          label={t('translation.characterProfiles.role')}
+          size='small'
+          value={form.role}
+          onChange={e => setForm(prev => ({ ...prev, role: e.target.value }))}
+          inputProps={{ maxLength: 100 }}
+        />
+        <FormControl size='small'>
+          <InputLabel>{t('translation.characterProfiles.defaultSpeechLevel')}</InputLabel>
+          <Select
+            value={form.defaultSpeechLevel}
+            label={t('translation.characterProfiles.defaultSpeechLevel')}
+            onChange={e => setForm(prev => ({ ...prev, defaultSpeechLevel: e.target.value as SpeechLevel | '' }))}
+          >
+            <MenuItem value=''>{t('translation.characterProfiles.unspecified')}</MenuItem>
+            {SPEECH_LEVELS.map(level => (
+              <MenuItem key={level} value={level}>
+                {t(`translation.characterProfiles.speechLevels.${level}`)}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+
+      {/* 특정 인물에게 쓰는 말투 */}
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+        <Typography variant='caption' color='text.secondary'>
+          {t('translation.characterProfiles.speechTowardHelp')}
+        </Typography>
+        {form.speechLevels.map((speechLevel, index) => (
+          <Box key={speechLevel.characterId} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Select
+              size='small'
+              value={speechLevel.characterId}
+              onChange={e => updateSpeechLevel(index, { characterId: e.target.value })}
+              sx={{ flex: 1 }}
+            >
+              {otherCharacters
+                .filter(c => c.id === speechLevel.characterId || unusedOthers.includes(c))
+                .map(c => (
+                  <MenuItem key={c.id} value={c.id}>
+                    {c.name}
+                  </MenuItem>
+                ))}
+            </Select>
+            <Select
+              size='small'
+              value={speechLevel.level}
+              onChange={e => updateSpeechLevel(index, { level: e.target.value as SpeechLevel })}
+              sx={{ width: 160 }}
+            >
+              {SPEECH_LEVELS.map(level => (
+                <MenuItem key={level} value={level}>
+                  {t(`translation.characterProfiles.speechLevels.${level}`)}
+                </MenuItem>
+              ))}
+            </Select>
+            <IconButton
+              size='small'
+              onClick={() => setForm(prev => ({ ...prev, speechLevels: prev.speechLevels.filter((_, i) => i !== index) }))}
+            >
+              <RemoveIcon fontSize='small' />
+            </IconButton>
+          </Box>
+        ))}
+        <Box>
+          <Button size='small' startIcon={<AddIcon />} onClick={handleAddSpeechLevel} disabled={unusedOthers.length === 0}>
+            {t('translation.characterProfiles.addSpeechToward')}
+          </Button>
+        </Box>
+      </Box>
+
+      <TextField
+        label={t('translation.characterProfiles.notes')}
+        size='small'
+        value={form.notes}
+        onChange={e => setForm(prev => ({ ...prev, notes: e.target.value }))}
+        inputProps={{ maxLength: 500 }}
+        fullWidth
+      />
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+        <Button size='small' onClick={() => setEditingId(null)} disabled={saving}>
+          {t('common.cancel')}
+        </Button>
+        <Button size='small' variant='contained' onClick={handleSave} disabled={!canSave}>
+          {t('common.save')}
+        </Button>
+      </Box>
+    </Paper>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth='md' fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        {t('translation.characterProfiles.title')}
+        <Chip label={characters.length} size='small' />
+      </DialogTitle>
+      <DialogContent dividers sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant='caption' color='text.secondary' sx={{ flex: 1 }}>
+            {t('translation.characterProfiles.help')}
+          </Typography>
+          <Button size='small' variant='contained' startIcon={<AddIcon />} onClick={handleAdd} disabled={editingId !== null}>
+            {t('translation.characterProfiles.add')}
+          </Button>
+        </Box>
+
+        {editingId !== null && renderForm()}
+
+        {/* 인물 목록 */}
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : characters.length === 0 ? (
+          <Typography color='text.secondary' sx={{ textAlign: 'center', py: 4 }}>
+            {t('translation.characterProfiles.empty')}
+          </Typography>
+        ) : (
+          <TableContainer sx={{ maxHeight: 400 }}>
+            <Table stickyHeader size='small'>
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('translation.characterProfiles.name')}</TableCell>
+                  <TableCell>{t('translation.characterProfiles.targetName')}</TableCell>
+                  <TableCell>{t('translation.characterProfiles.role')}</TableCell>
+                  <TableCell>{t('translation.characterProfiles.speech')}</TableCell>
+                  <TableCell align='right' />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {characters.map(character => (
+                  <TableRow key={character.id} hover selected={character.id === editingId}>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                        {character.name}
+                        {character.gender && (
+                          <Chip size='small' variant='outlined' label={t(`translation.characterProfiles.genders.${character.gender}`)} />
+                        )}
+                      </Box>
+                      {character.aliases.length > 0 && (
+                        <Typography variant='caption' color='text.secondary'>
+                          {character.aliases.join(', ')}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{character.targetName}</TableCell>
+                    <TableCell>{character.role}</TableCell>
+                    <TableCell sx={{ color: 'text.secondary' }}>{renderSpeech(character)}</TableCell>
+                    <TableCell align='right' sx={{ whiteSpace: 'nowrap' }}>
+                      <IconButton size='small' onClick={() => handleEdit(character)} disabled={editingId !== null}>
+                        <EditIcon fontSize='small' />
+                      </IconButton>
+                      <IconButton size='small' color='error' onClick={() => handleDelete(character)}>
+                        <DeleteIcon fontSize='small' />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('common.close')}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
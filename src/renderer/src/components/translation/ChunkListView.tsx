@@ -18,6 +18,8 @@ import {
   FormControl,
   LinearProgress,
   Collapse,
+  Button,
+  InputBase,
   useTheme,
 } from '@mui/material';
 import {
@@ -29,8 +31,27 @@ import {
   Error as ErrorIcon,
   HourglassEmpty as PendingIcon,
   AutorenewRounded as ProcessingIcon,
+  History as HistoryIcon,
+  ContentCut as SplitIcon,
+  CallMerge as MergeIcon,
+  Block as BlockedIcon,
 } from '@mui/icons-material';
-import type { TranslationChunk, TranslationChunkStatus, ProgressInfo } from '@shared/types';
+import type { TranslationChunk, TranslationChunkStatus, ProgressInfo, QaFlag, GlossaryViolation } from '@shared/types';
+import ChunkTextEditor from './ChunkTextEditor';
+
+// 청크 목록 필터 (상태 또는 품질 / 용어 검사에 걸린 청크)
+export type ChunkFilter = TranslationChunkStatus | 'qaFlagged' | 'glossaryViolations' | 'tmMatched';
+
+// 청크에 저장된 용어 검사 결과 (JSON) 파싱, 형식이 맞지 않으면 빈 목록
+function parseGlossaryViolations(value: string | null | undefined): GlossaryViolation[] {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? (parsed as GlossaryViolation[]) : [];
+  } catch {
+    return [];
+  }
+}
 
 // ============================================
 // Props
@@ -40,11 +61,16 @@ interface ChunkListViewProps {
   chunks: TranslationChunk[];
   totalChunks: number;
   progress: ProgressInfo | null;
-  filter: TranslationChunkStatus | null;
+  filter: ChunkFilter | null;
   isTranslating: boolean;
-  onFilterChange: (status: TranslationChunkStatus | null) => void;
+  streamingTexts: Record<string, string>; // 번역 중인 청크의 실시간 출력
+  onFilterChange: (filter: ChunkFilter | null) => void;
   onRetryChunk: (chunkId: string) => void;
   onTranslateChunk: (chunkId: string) => void;
+  onShowRevisions: (chunkId: string) => void;
+  onUpdateChunkText: (chunkId: string, translatedText: string) => Promise<void>;
+  onSplitChunk: (chunkId: string, position: number) => void;
+  onMergeChunk: (chunkId: string) => void;
 }
 
 // ============================================
@@ -59,6 +85,7 @@ function StatusChip({ status }: { status: TranslationChunkStatus }) {
     processing: { color: 'primary' as const, icon: <ProcessingIcon sx={{ fontSize: 16 }} /> },
     completed: { color: 'success' as const, icon: <SuccessIcon sx={{ fontSize: 16 }} /> },
     failed: { color: 'error' as const, icon: <ErrorIcon sx={{ fontSize: 16 }} /> },
+    blocked: { color: 'warning' as const, icon: <BlockedIcon sx={{ fontSize: 16 }} /> },
   };
 
   const { color, icon } = config[status];
@@ -72,22 +99,50 @@ function StatusChip({ status }: { status: TranslationChunkStatus }) {
 
 interface ChunkRowProps {
   chunk: TranslationChunk;
+  streamingText?: string;
   isTranslating: boolean;
   onRetry: () => void;
   onTranslate: () => void;
+  onShowRevisions: () => void;
+  onSaveText: (translatedText: string) => Promise<void>;
+  hasNext: boolean; // 병합할 다음 청크가 있는지
+  onSplit: (position: number) => void;
+  onMerge: () => void;
 }
 
-function ChunkRow({ chunk, isTranslating, onRetry, onTranslate }: ChunkRowProps) {
+function ChunkRow({
+  chunk,
+  streamingText,
+  isTranslating,
+  onRetry,
+  onTranslate,
+  onShowRevisions,
+  onSaveText,
+  hasNext,
+  onSplit,
+  onMerge,
+}: ChunkRowProps) {
   const { t } = useTranslation();
   const theme = useTheme();
   const [expanded, setExpanded] = useState(false);
+  const [cursor, setCursor] = useState<number | null>(null); // 원문 커서 위치 (분할 지점)
+
+  // 분할 / 병합은 번역 중이 아닐 때만
+  const canRestructure = !isTranslating && chunk.status !== 'processing';
+  const canSplit =
+    canRestructure && cursor !== null && chunk.sourceText.slice(0, cursor).trim() !== '' && chunk.sourceText.slice(cursor).trim() !== '';
+
+  // 번역 중이면 스트리밍 출력을, 아니면 저장된 번역문을 표시
+  const isStreaming = chunk.status === 'processing' && Boolean(streamingText);
+  const translatedText = isStreaming ? streamingText! : chunk.translatedText;
+  const glossaryViolations = parseGlossaryViolations(chunk.glossaryViolations);
 
   const previewLength = 100;
   const sourcePreview = chunk.sourceText.length > previewLength ? chunk.sourceText.slice(0, previewLength) + '...' : chunk.sourceText;
-  const translatedPreview = chunk.translatedText
-    ? chunk.translatedText.length > previewLength
-      ? chunk.translatedText.slice(0, previewLength) + '...'
-      : chunk.translatedText
+  const translatedPreview = translatedText
+    ? translatedText.length > previewLength
+      ? translatedText.slice(0, previewLength) + '...'
+      : translatedText
     : '-';
 
   return (
@@ -106,7 +161,60 @@ function ChunkRow({ chunk, isTranslating, onRetry, onTranslate }: ChunkRowProps)
           </Typography>
         </TableCell>
         <TableCell>
-          <StatusChip status={chunk.status as TranslationChunkStatus} />
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            <StatusChip status={chunk.status as TranslationChunkStatus} />
+            {chunk.manuallyEditedAt && (
+              <Tooltip title={t('translation.manuallyEditedHelp')}>
+                <Chip size='small' variant='outlined' color='secondary' label={t('translation.manuallyEdited')} />
+              </Tooltip>
+            )}
+            {chunk.truncationRecovery && (
+              <Tooltip title={t(`translation.truncation.${chunk.truncationRecovery}Help`)}>
+                <Chip
+                  size='small'
+                  variant='outlined'
+                  color={chunk.truncationRecovery === 'continued' ? 'info' : 'warning'}
+                  label={t(`translation.truncation.${chunk.truncationRecovery}`)}
+                />
+              </Tooltip>
+            )}
+            {chunk.tmMatch && (
+              <Tooltip title={t(`translation.memory.${chunk.tmMatch}Help`)}>
+                <Chip
+                  size='small'
+                  variant='outlined'
+                  color={chunk.tmMatch === 'exact' ? 'success' : 'info'}
+                  label={t(`translation.memory.${chunk.tmMatch}`)}
+                />
+              </Tooltip>
+            )}
+            {chunk.qaFlags && (
+              <Tooltip
+                title={chunk.qaFlags
+                  .split(',')
+                  .map(flag => t(`translation.qa.flags.${flag as QaFlag}`))
+                  .join(', ')}
+              >
+                <Chip size='small' variant='outlined' color='warning' label={t('translation.qa.label')} />
+              </Tooltip>
+            )}
+            {glossaryViolations.length > 0 && (
+              <Tooltip
+                title={glossaryViolations
+                  .map(violation =>
+                    t(`translation.glossary.violation.${violation.kind}`, { source: violation.sourceTerm, target: violation.targetTerm })
+                  )
+                  .join(', ')}
+              >
+                <Chip size='small' variant='outlined' color='warning' label={t('translation.glossary.label')} />
+              </Tooltip>
+            )}
+            {chunk.status === 'blocked' && chunk.blockReason && (
+              <Tooltip title={t('translation.blockedHelp', { reason: chunk.blockReason })}>
+                <Chip size='small' variant='outlined' color='warning' label={chunk.blockReason} />
+              </Tooltip>
+            )}
+          </Box>
         </TableCell>
         <TableCell>
           <Typography variant='body2' noWrap sx={{ maxWidth: 200 }}>
@@ -114,7 +222,11 @@ function ChunkRow({ chunk, isTranslating, onRetry, onTranslate }: ChunkRowProps)
           </Typography>
         </TableCell>
         <TableCell>
-          <Typography variant='body2' noWrap sx={{ maxWidth: 200, color: chunk.translatedText ? 'inherit' : 'text.disabled' }}>
+          <Typography
+            variant='body2'
+            noWrap
+            sx={{ maxWidth: 200, color: translatedText ? 'inherit' : 'text.disabled', fontStyle: isStreaming ? 'italic' : 'normal' }}
+          >
             {translatedPreview}
           </Typography>
         </TableCell>
@@ -127,7 +239,7 @@ function ChunkRow({ chunk, isTranslating, onRetry, onTranslate }: ChunkRowProps)
         </TableCell>
         <TableCell align='right'>
           <Box sx={{ display: 'flex', gap: 0.5, justifyContent: 'flex-end' }}>
-            {chunk.status === 'failed' && (
+            {(chunk.status === 'failed' || chunk.status === 'blocked') && (
               <Tooltip title={t('translation.retryChunk')}>
                 <IconButton
                   size='small'
@@ -169,6 +281,19 @@ function ChunkRow({ chunk, isTranslating, onRetry, onTranslate }: ChunkRowProps)
                 </IconButton>
               </Tooltip>
             )}
+            {chunk.currentRevisionId && (
+              <Tooltip title={t('translation.revisions.title')}>
+                <IconButton
+                  size='small'
+                  onClick={e => {
+                    e.stopPropagation();
+                    onShowRevisions();
+                  }}
+                >
+                  <HistoryIcon fontSize='small' />
+                </IconButton>
+              </Tooltip>
+            )}
             <IconButton size='small'>{expanded ? <CollapseIcon fontSize='small' /> : <ExpandIcon fontSize='small' />}</IconButton>
           </Box>
         </TableCell>
@@ -183,28 +308,44 @@ function ChunkRow({ chunk, isTranslating, onRetry, onTranslate }: ChunkRowProps)
                     {t('translation.sourceText')}
                   </Typography>
                   <Paper variant='outlined' sx={{ p: 1, maxHeight: 200, overflow: 'auto' }}>
-                    <Typography variant='body2' sx={{ whiteSpace: 'pre-wrap' }}>
-                      {chunk.sourceText}
-                    </Typography>
+                    <InputBase
+                      value={chunk.sourceText}
+                      readOnly
+                      multiline
+                      fullWidth
+                      onSelect={e => setCursor((e.target as HTMLTextAreaElement).selectionStart)}
+                      sx={{ p: 0, typography: 'body2' }}
+                    />
                   </Paper>
                 </Box>
                 <Box sx={{ flex: 1 }}>
                   <Typography variant='caption' color='text.secondary' gutterBottom display='block'>
                     {t('translation.translatedText')}
                   </Typography>
-                  <Paper
-                    variant='outlined'
-                    sx={{
-                      p: 1,
-                      maxHeight: 200,
-                      overflow: 'auto',
-                      bgcolor: chunk.translatedText ? 'inherit' : 'action.disabledBackground',
-                    }}
-                  >
-                    <Typography variant='body2' sx={{ whiteSpace: 'pre-wrap', color: chunk.translatedText ? 'inherit' : 'text.disabled' }}>
-                      {chunk.translatedText || t('translation.notTranslatedYet')}
-                    </Typography>
-                  </Paper>
+                  {chunk.status !== 'processing' ? (
+                    <ChunkTextEditor value={chunk.translatedText ?? ''} disabled={isTranslating} onSave={onSaveText} />
+                  ) : (
+                    <Paper
+                      variant='outlined'
+                      sx={{
+                        p: 1,
+                        maxHeight: 200,
+                        overflow: 'auto',
+                        bgcolor: translatedText ? 'inherit' : 'action.disabledBackground',
+                      }}
+                    >
+                      <Typography
+                        variant='body2'
+                        sx={{
+                          whiteSpace: 'pre-wrap',
+                          color: translatedText ? 'inherit' : 'text.disabled',
+                          fontStyle: isStreaming ? 'italic' : 'normal',
+                        }}
+                      >
+                        {translatedText || t('translation.notTranslatedYet')}
+                      </Typography>
+                    </Paper>
+                  )}
                 </Box>
               </Box>
               {chunk.errorMessage && (
@@ -228,6 +369,24 @@ function ChunkRow({ chunk, isTranslating, onRetry, onTranslate }: ChunkRowProps)
                     {t('translation.retryCount', { count: chunk.retryCount })}
                   </Typography>
                 )}
+                <Box sx={{ ml: 'auto', display: 'flex', gap: 1 }}>
+                  <Tooltip title={t('translation.splitChunkHelp')}>
+                    <span>
+                      <Button
+                        size='small'
+                        color='inherit'
+                        startIcon={<SplitIcon />}
+                        disabled={!canSplit}
+                        onClick={() => cursor !== null && onSplit(cursor)}
+                      >
+                        {t('translation.splitChunk')}
+                      </Button>
+                    </span>
+                  </Tooltip>
+                  <Button size='small' color='inherit' startIcon={<MergeIcon />} disabled={!canRestructure || !hasNext} onClick={onMerge}>
+                    {t('translation.mergeWithNext')}
+                  </Button>
+                </Box>
               </Box>
             </Box>
           </Collapse>
@@ -247,9 +406,14 @@ export default function ChunkListView({
   progress,
   filter,
   isTranslating,
+  streamingTexts,
   onFilterChange,
   onRetryChunk,
   onTranslateChunk,
+  onShowRevisions,
+  onUpdateChunkText,
+  onSplitChunk,
+  onMergeChunk,
 }: ChunkListViewProps) {
   const { t } = useTranslation();
 
@@ -276,13 +440,14 @@ export default function ChunkListView({
               <Box sx={{ display: 'flex', gap: 1 }}>
                 <Chip size='small' color='success' label={`${progress.completed} ${t('translation.completed')}`} />
                 {progress.failed > 0 && <Chip size='small' color='error' label={`${progress.failed} ${t('translation.failed')}`} />}
+                {progress.blocked > 0 && <Chip size='small' color='warning' label={`${progress.blocked} ${t('translation.blocked')}`} />}
                 <Chip size='small' label={`${progress.pending} ${t('translation.pending')}`} />
               </Box>
             )}
             <FormControl size='small' sx={{ minWidth: 100 }}>
               <Select
                 value={filter || ''}
-                onChange={e => onFilterChange((e.target.value as TranslationChunkStatus) || null)}
+                onChange={e => onFilterChange((e.target.value as ChunkFilter) || null)}
                 displayEmpty
                 sx={{
                   height: 32,
@@ -297,6 +462,10 @@ export default function ChunkListView({
                 <MenuItem value='processing' sx={{ fontSize: '0.875rem' }}>{t('translation.chunkStatus.processing')}</MenuItem>
                 <MenuItem value='completed' sx={{ fontSize: '0.875rem' }}>{t('translation.chunkStatus.completed')}</MenuItem>
                 <MenuItem value='failed' sx={{ fontSize: '0.875rem' }}>{t('translation.chunkStatus.failed')}</MenuItem>
+                <MenuItem value='blocked' sx={{ fontSize: '0.875rem' }}>{t('translation.chunkStatus.blocked')}</MenuItem>
+                <MenuItem value='qaFlagged' sx={{ fontSize: '0.875rem' }}>{t('translation.qa.filter')}</MenuItem>
+                <MenuItem value='glossaryViolations' sx={{ fontSize: '0.875rem' }}>{t('translation.glossary.filter')}</MenuItem>
+                <MenuItem value='tmMatched' sx={{ fontSize: '0.875rem' }}>{t('translation.memory.filter')}</MenuItem>
               </Select>
             </FormControl>
           </Box>
@@ -326,13 +495,13 @@ export default function ChunkListView({
           <TableHead>
             <TableRow>
               <TableCell width={60}>#</TableCell>
-              <TableCell width={120}>{t('translation.status')}</TableCell>
+              <TableCell width={180}>{t('translation.status')}</TableCell>
               <TableCell>{t('translation.sourceText')}</TableCell>
               <TableCell>{t('translation.translatedText')}</TableCell>
               <TableCell width={80} align='right'>
                 {t('translation.time')}
               </TableCell>
-              <TableCell width={100} align='right'>
+              <TableCell width={130} align='right'>
                 {t('translation.actions')}
               </TableCell>
             </TableRow>
@@ -342,9 +511,15 @@ export default function ChunkListView({
               <ChunkRow
                 key={chunk.id}
                 chunk={chunk}
+                streamingText={streamingTexts[chunk.id]}
                 isTranslating={isTranslating}
                 onRetry={() => onRetryChunk(chunk.id)}
                 onTranslate={() => onTranslateChunk(chunk.id)}
+                onShowRevisions={() => onShowRevisions(chunk.id)}
+                onSaveText={text => onUpdateChunkText(chunk.id, text)}
+                hasNext={chunk.order + 1 < totalChunks}
+                onSplit={position => onSplitChunk(chunk.id, position)}
+                onMerge={() => onMergeChunk(chunk.id)}
               />
             ))}
           </TableBody>
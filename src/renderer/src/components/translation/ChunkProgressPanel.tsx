@@ -6,6 +6,7 @@ import {
   Error as ErrorIcon,
   HourglassEmpty as PendingIcon,
   AutorenewRounded as ProcessingIcon,
+  Block as BlockedIcon,
 } from '@mui/icons-material';
 import type { TranslationChunk, ProgressInfo } from '@shared/types';
 
@@ -67,6 +68,22 @@ function ChunkIcon({ chunk, onRetry }: ChunkIconProps) {
             </IconButton>
           </Tooltip>
         );
+      case 'blocked':
+        return (
+          <Tooltip title={t('translation.clickToRetry')}>
+            <IconButton
+              size='small'
+              onClick={onRetry}
+              sx={{
+                p: 0.25,
+                color: 'warning.main',
+                '&:hover': { bgcolor: theme.custom.stateBackground.warning.light },
+              }}
+            >
+              <BlockedIcon fontSize='small' />
+            </IconButton>
+          </Tooltip>
+        );
       case 'processing':
         return (
           <ProcessingIcon
@@ -93,6 +110,9 @@ function ChunkIcon({ chunk, onRetry }: ChunkIconProps) {
     if (chunk.status === 'failed') {
       return `${baseInfo} - ${chunk.errorMessage || t('translation.failed')}`;
     }
+    if (chunk.status === 'blocked') {
+      return `${baseInfo} - ${t('translation.blockedHelp', { reason: chunk.blockReason ?? '' })}`;
+    }
     return baseInfo;
   };
 
@@ -103,6 +123,8 @@ function ChunkIcon({ chunk, onRetry }: ChunkIconProps) {
         return theme.custom.stateBackground.success.light;
       case 'failed':
         return theme.custom.stateBackground.error.light;
+      case 'blocked':
+        return theme.custom.stateBackground.warning.light;
       case 'processing':
         return theme.custom.stateBackground.primary.light;
       default:
@@ -179,6 +201,9 @@ export default function ChunkProgressPanel({ chunks, progress, onRetryChunk }: C
           {(progress?.failed || 0) > 0 && (
             <Chip size='small' label={`${progress?.failed} ${t('translation.failed')}`} color='error' variant='outlined' />
           )}
+          {(progress?.blocked || 0) > 0 && (
+            <Chip size='small' label={`${progress?.blocked} ${t('translation.blocked')}`} color='warning' variant='outlined' />
+          )}
         </Box>
       </Box>
 
@@ -217,7 +242,11 @@ export default function ChunkProgressPanel({ chunks, progress, onRetryChunk }: C
         }}
       >
         {chunks.map(chunk => (
-          <ChunkIcon key={chunk.id} chunk={chunk} onRetry={chunk.status === 'failed' ? () => onRetryChunk(chunk.id) : undefined} />
+          <ChunkIcon
+            key={chunk.id}
+            chunk={chunk}
+            onRetry={chunk.status === 'failed' || chunk.status === 'blocked' ? () => onRetryChunk(chunk.id) : undefined}
+          />
         ))}
       </Box>
 
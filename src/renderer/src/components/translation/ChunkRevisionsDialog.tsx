@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  List,
+  ListItemButton,
+  ListItemText,
+  Chip,
+  Paper,
+  CircularProgress,
+} from '@mui/material';
+import type { TranslationChunk, TranslationChunkRevision, ChunkRevisionOrigin } from '@shared/types';
+
+// ============================================
+// Props
+// ============================================
+
+interface ChunkRevisionsDialogProps {
+  open: boolean;
+  chunk: TranslationChunk | null;
+  revisions: TranslationChunkRevision[];
+  loading: boolean;
+  disabled: boolean; // 번역 중에는 현재 번역문 변경 불가
+  onClose: () => void;
+  onPromote: (revisionId: string) => Promise<void>;
+}
+
+const originColor: Record<ChunkRevisionOrigin, 'default' | 'primary' | 'secondary' | 'info'> = {
+  auto: 'default',
+  retry: 'primary',
+  manual: 'secondary',
+  memory: 'info',
+};
+
+// ============================================
+// 청크 번역 이력 다이얼로그
+// ============================================
+
+export default function ChunkRevisionsDialog({ open, chunk, revisions, loading, disabled, onClose, onPromote }: ChunkRevisionsDialogProps) {
+  const { t } = useTranslation();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [promoting, setPromoting] = useState(false);
+
+  // 선택이 없으면 현재 리비전 (없으면 최신) 표시
+  const selected =
+    revisions.find(r => r.id === selectedId) ?? revisions.find(r => r.id === chunk?.currentRevisionId) ?? revisions[0] ?? null;
+  const isCurrent = selected?.id === chunk?.currentRevisionId;
+
+  const handleClose = () => {
+    setSelectedId(null);
+    onClose();
+  };
+
+  const handlePromote = async () => {
+    if (!selected) return;
+
+    setPromoting(true);
+    try {
+      await onPromote(selected.id);
+    } finally {
+      setPromoting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth='md' fullWidth>
+      <DialogTitle>
+        {t('translation.revisions.title')}
+        {chunk && (
+          <Typography component='span' color='text.secondary' sx={{ ml: 1 }}>
+            #{chunk.order + 1}
+          </Typography>
+        )}
+      </DialogTitle>
+      <DialogContent dividers>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : revisions.length === 0 ? (
+          <Typography color='text.secondary' sx={{ textAlign: 'center', py: 4 }}>
+            {t('translation.revisions.empty')}
+          </Typography>
+        ) : (
+          <Box sx={{ display: 'flex', gap: 2, minHeight: 320 }}>
+            {/* 리비전 목록 (최신순) */}
+            <List dense disablePadding sx={{ width: 240, flexShrink: 0, overflowY: 'auto', maxHeight: 420 }}>
+              {revisions.map(revision => (
+                <ListItemButton
+                  key={revision.id}
+                  selected={revision.id === selected?.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  sx={{ borderRadius: 1, mb: 0.5 }}
+                >
+                  <ListItemText
+                    primary={
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                        <Chip
+                          label={t(`translation.revisions.origin.${revision.origin}`)}
+                          size='small'
+                          color={originColor[revision.origin]}
+                          variant='outlined'
+                        />
+                        {revision.id === chunk?.currentRevisionId && (
+                          <Chip label={t('translation.revisions.current')} size='small' color='success' />
+                        )}
+                      </Box>
+                    }
+                    secondary={new Date(revision.createdAt).toLocaleString()}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+
+            {/* 선택한 리비전 */}
+            {selected && (
+              <Box sx={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', gap: 1 }}>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+                  {selected.model && (
+                    <Typography variant='caption' color='text.secondary'>
+                      {t('translation.model')}: {selected.model}
+                    </Typography>
+                  )}
+                  {selected.totalTokens !== null && (
+                    <Typography variant='caption' color='text.secondary'>
+                      {selected.totalTokens} tokens
+                    </Typography>
+                  )}
+                  {selected.processingTime !== null && (
+                    <Typography variant='caption' color='text.secondary'>
+                      {(selected.processingTime / 1000).toFixed(1)}s
+                    </Typography>
+                  )}
+                  {typeof selected.generationConfig?.temperature === 'number' && (
+                    <Typography variant='caption' color='text.secondary'>
+                      {t('translation.temperature')}: {selected.generationConfig.temperature}
+                    </Typography>
+                  )}
+                </Box>
+                <Paper variant='outlined' sx={{ p: 1, flex: 1, maxHeight: 400, overflow: 'auto' }}>
+                  <Typography variant='body2' sx={{ whiteSpace: 'pre-wrap' }}>
+                    {selected.translatedText}
+                  </Typography>
+                </Paper>
+              </Box>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>{t('common.close')}</Button>
+        <Button variant='contained' onClick={handlePromote} disabled={!selected || isCurrent || disabled || promoting}>
+          {t('translation.revisions.promote')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Button, useTheme } from '@mui/material';
+import { Save as SaveIcon, Undo as RevertIcon } from '@mui/icons-material';
+import { EditorView, keymap, drawSelection } from '@codemirror/view';
+import { EditorState, Compartment } from '@codemirror/state';
+import { defaultKeymap, history, historyKeymap } from '@codemirror/commands';
+import { createCodeMirrorTheme } from '../../theme/codemirrorTheme';
+
+// ============================================
+// Props
+// ============================================
+
+interface ChunkTextEditorProps {
+  value: string;
+  disabled?: boolean;
+  onSave: (text: string) => Promise<void>;
+}
+
+// ============================================
+// 청크 번역문 편집기
+// ============================================
+
+export default function ChunkTextEditor({ value, disabled = false, onSave }: ChunkTextEditorProps) {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const editorRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const [draft, setDraft] = useState(value);
+  const [saving, setSaving] = useState(false);
+
+  // Compartments for dynamic configuration
+  const themeCompartment = useRef(new Compartment());
+  const readOnlyCompartment = useRef(new Compartment());
+
+  const isDirty = draft !== value;
+
+  // 에디터 초기화 (정적 설정만)
+  useEffect(() => {
+    if (!editorRef.current) return;
+
+    const state = EditorState.create({
+      doc: '',
+      extensions: [
+        drawSelection(),
+        history(),
+        keymap.of([...defaultKeymap, ...historyKeymap]),
+        themeCompartment.current.of([]),
+        readOnlyCompartment.current.of(EditorState.readOnly.of(false)),
+        EditorView.updateListener.of(update => {
+          if (update.docChanged) {
+            setDraft(update.state.doc.toString());
+          }
+        }),
+        EditorView.lineWrapping,
+      ],
+    });
+
+    const view = new EditorView({
+      state,
+      parent: editorRef.current,
+    });
+
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  // 테마 변경 시 업데이트
+  useEffect(() => {
+    if (!viewRef.current) return;
+
+    viewRef.current.dispatch({
+      effects: themeCompartment.current.reconfigure(createCodeMirrorTheme(theme)),
+    });
+  }, [theme]);
+
+  // 읽기 전용 상태 변경 시 업데이트
+  useEffect(() => {
+    if (!viewRef.current) return;
+
+    viewRef.current.dispatch({
+      effects: readOnlyCompartment.current.reconfigure(EditorState.readOnly.of(disabled || saving)),
+    });
+  }, [disabled, saving]);
+
+  // 저장된 번역문이 바뀌면 (재번역, 리비전 복원 등) 에디터 내용 교체
+  useEffect(() => {
+    if (!viewRef.current) return;
+    const currentText = viewRef.current.state.doc.toString();
+    if (currentText !== value) {
+      viewRef.current.dispatch({
+        changes: { from: 0, to: currentText.length, insert: value },
+      });
+    }
+  }, [value]);
+
+  const handleRevert = () => {
+    if (!viewRef.current) return;
+    const currentText = viewRef.current.state.doc.toString();
+    viewRef.current.dispatch({
+      changes: { from: 0, to: currentText.length, insert: value },
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(draft);
+    } catch {
+      // 오류는 스토어에서 안내
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Box
+        ref={editorRef}
+        sx={{
+          border: 1,
+          borderColor: isDirty ? 'primary.main' : 'divider',
+          borderRadius: 1,
+          overflow: 'hidden',
+          '& .cm-editor': {
+            maxHeight: 200,
+            outline: 'none',
+          },
+          '& .cm-scroller': {
+            overflow: 'auto',
+          },
+        }}
+      />
+      {isDirty && (
+        <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+          <Button size='small' color='inherit' startIcon={<RevertIcon />} onClick={handleRevert} disabled={saving}>
+            {t('translation.revertChunkText')}
+          </Button>
+          <Button
+            size='small'
+            variant='contained'
+            startIcon={<SaveIcon />}
+            onClick={handleSave}
+            disabled={disabled || saving || !draft.trim()}
+          >
+            {t('common.save')}
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -8,16 +8,23 @@ import {
   CircularProgress,
   Paper,
   Typography,
+  Chip,
+  Tooltip,
   useTheme,
 } from '@mui/material';
 import {
   PlayArrow as StartIcon,
   Pause as PauseIcon,
+  Stop as CancelIcon,
   Refresh as RetryIcon,
+  Replay as RetranslateIcon,
   ArrowBack as BackIcon,
+  HourglassEmpty as QueuedIcon,
+  QueueOutlined as SessionQueuedIcon,
+  Calculate as EstimateIcon,
 } from '@mui/icons-material';
-import ChunkListView from './ChunkListView';
-import type { TranslationChunk, TranslationChunkStatus, PromptTemplate, ProgressInfo } from '@shared/types';
+import ChunkListView, { type ChunkFilter } from './ChunkListView';
+import type { TranslationChunk, PromptTemplate, ProgressInfo, TranslationCostEstimate } from '@shared/types';
 
 // ============================================
 // Props
@@ -28,25 +35,36 @@ interface ChunksTabProps {
   chunks: TranslationChunk[];
   totalChunks: number;
   progress: ProgressInfo | null;
-  filter: TranslationChunkStatus | null;
+  filter: ChunkFilter | null;
 
   // 템플릿
   templates: PromptTemplate[];
   selectedTemplateId: string | null;
+  templateLocked: boolean; // 세션에 지정된 템플릿을 사용 중
   onSelectTemplate: (id: string) => void;
 
   // 번역 상태
   isTranslating: boolean;
   isPaused: boolean;
   hasFailedChunks: boolean;
+  queuedRequests: number; // 요청 한도 때문에 대기 중인 API 요청 수
+  streamingTexts: Record<string, string>; // 번역 중인 청크의 실시간 출력
+  queuePosition: number | null; // 번역 대기열에서 기다리는 순번 (1부터, 대기 중이 아니면 null)
+  costEstimate: TranslationCostEstimate | null; // 남은 청크를 번역할 때의 예상 비용
 
   // 액션
-  onFilterChange: (status: TranslationChunkStatus | null) => void;
+  onFilterChange: (filter: ChunkFilter | null) => void;
   onRetryChunk: (chunkId: string) => void;
   onTranslateChunk: (chunkId: string) => void;
+  onShowRevisions: (chunkId: string) => void;
+  onUpdateChunkText: (chunkId: string, translatedText: string) => Promise<void>;
+  onSplitChunk: (chunkId: string, position: number) => void;
+  onMergeChunk: (chunkId: string) => void;
   onStart: () => void;
+  onRetranslateAll: () => void;
   onPause: () => void;
   onResume: () => void;
+  onCancel: () => void;
   onRetryFailed: () => void;
   onBackToSource: () => void;
 }
@@ -62,16 +80,27 @@ export default function ChunksTab({
   filter,
   templates,
   selectedTemplateId,
+  templateLocked,
   onSelectTemplate,
   isTranslating,
   isPaused,
   hasFailedChunks,
+  queuedRequests,
+  streamingTexts,
+  queuePosition,
+  costEstimate,
   onFilterChange,
   onRetryChunk,
   onTranslateChunk,
+  onShowRevisions,
+  onUpdateChunkText,
+  onSplitChunk,
+  onMergeChunk,
   onStart,
+  onRetranslateAll,
   onPause,
   onResume,
+  onCancel,
   onRetryFailed,
   onBackToSource,
 }: ChunksTabProps) {
@@ -79,9 +108,12 @@ export default function ChunksTab({
   const theme = useTheme();
 
   // 상태 계산
-  const canStart = !isTranslating && !isPaused && selectedTemplateId && totalChunks > 0;
+  const isQueued = queuePosition !== null;
+  const canStart = !isTranslating && !isPaused && !isQueued && selectedTemplateId && totalChunks > 0;
   const canPause = isTranslating && !isPaused;
-  const canResume = isPaused && selectedTemplateId;
+  const canResume = isPaused && !isQueued && selectedTemplateId;
+  const canCancel = isTranslating || isPaused || isQueued;
+  const canRetranslate = !isTranslating && !isPaused && !isQueued && selectedTemplateId && (progress?.completed ?? 0) > 0;
 
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', height: '100%', gap: 1 }}>
@@ -114,29 +146,31 @@ export default function ChunksTab({
 
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
           {/* 템플릿 선택 */}
-          <FormControl size='small' sx={{ minWidth: 180 }} disabled={isTranslating}>
-            <Select
-              value={selectedTemplateId || ''}
-              onChange={e => onSelectTemplate(e.target.value)}
-              displayEmpty
-              sx={{
-                height: 32,
-                fontSize: '0.875rem',
-                '& .MuiSelect-select': {
-                  py: 0.75,
-                },
-              }}
-            >
-              <MenuItem value='' disabled>
-                {t('translation.template')}
-              </MenuItem>
-              {templates.map(template => (
-                <MenuItem key={template.id} value={template.id} sx={{ fontSize: '0.875rem' }}>
-                  {template.title} ({template.sourceLanguage} → {template.targetLanguage})
+          <Tooltip title={templateLocked ? t('translation.sessionSettings.templateLocked') : ''}>
+            <FormControl size='small' sx={{ minWidth: 180 }} disabled={isTranslating || templateLocked}>
+              <Select
+                value={selectedTemplateId || ''}
+                onChange={e => onSelectTemplate(e.target.value)}
+                displayEmpty
+                sx={{
+                  height: 32,
+                  fontSize: '0.875rem',
+                  '& .MuiSelect-select': {
+                    py: 0.75,
+                  },
+                }}
+              >
+                <MenuItem value='' disabled>
+                  {t('translation.template')}
                 </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
+                {templates.map(template => (
+                  <MenuItem key={template.id} value={template.id} sx={{ fontSize: '0.875rem' }}>
+                    {template.title} ({template.sourceLanguage} → {template.targetLanguage})
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Tooltip>
 
           {/* 실패 청크 재시도 */}
           {hasFailedChunks && !isTranslating && (
@@ -152,6 +186,49 @@ export default function ChunksTab({
             </Button>
           )}
 
+          {/* 예상 비용 */}
+          {canStart && costEstimate && (
+            <Tooltip
+              title={
+                <Box sx={{ whiteSpace: 'pre-line' }}>
+                  {[
+                    t('translation.costEstimate.chunks', { count: costEstimate.chunkCount }),
+                    costEstimate.reusedChunkCount > 0 && t('translation.costEstimate.reused', { count: costEstimate.reusedChunkCount }),
+                    t('translation.costEstimate.tokens', {
+                      input: costEstimate.inputTokens.toLocaleString(),
+                      output: costEstimate.outputTokens.toLocaleString(),
+                      ratio: costEstimate.outputRatio,
+                    }),
+                    t(costEstimate.tokenSource === 'api' ? 'translation.costEstimate.sourceApi' : 'translation.costEstimate.sourceLocal'),
+                  ]
+                    .filter(Boolean)
+                    .join('\n')}
+                </Box>
+              }
+            >
+              <Chip
+                icon={<EstimateIcon />}
+                label={
+                  costEstimate.costUsd !== null
+                    ? t('translation.costEstimate.label', { cost: costEstimate.costUsd.toFixed(2) })
+                    : t('translation.costEstimate.labelTokens', {
+                        tokens: (costEstimate.inputTokens + costEstimate.outputTokens).toLocaleString(),
+                      })
+                }
+                size='small'
+                color={costEstimate.requiresConfirmation ? 'warning' : 'default'}
+                variant='outlined'
+              />
+            </Tooltip>
+          )}
+
+          {/* 전체 재번역 버튼 */}
+          {canRetranslate && (
+            <Button variant='outlined' color='primary' startIcon={<RetranslateIcon />} onClick={onRetranslateAll} size='small'>
+              {t('translation.retranslateAll')}
+            </Button>
+          )}
+
           {/* 일시정지 버튼 */}
           {canPause && (
             <Button variant='contained' color='warning' startIcon={<PauseIcon />} onClick={onPause} size='small'>
@@ -166,6 +243,37 @@ export default function ChunksTab({
             </Button>
           )}
 
+          {/* 취소 버튼 */}
+          {canCancel && (
+            <Button variant='outlined' color='inherit' startIcon={<CancelIcon />} onClick={onCancel} size='small'>
+              {t('translation.cancelTranslation')}
+            </Button>
+          )}
+
+          {/* 번역 대기열 순번 표시 */}
+          {isQueued && (
+            <Chip
+              icon={<SessionQueuedIcon />}
+              label={t('translation.queue.queuedAt', { position: queuePosition })}
+              size='small'
+              color='info'
+              variant='outlined'
+            />
+          )}
+
+          {/* 요청 한도 대기 표시 */}
+          {queuedRequests > 0 && (
+            <Tooltip title={t('translation.rateLimitQueuedHelp')}>
+              <Chip
+                icon={<QueuedIcon />}
+                label={t('translation.rateLimitQueued', { count: queuedRequests })}
+                size='small'
+                color='warning'
+                variant='outlined'
+              />
+            </Tooltip>
+          )}
+
           {/* 번역 중 표시 */}
           {isTranslating && (
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -186,9 +294,14 @@ export default function ChunksTab({
           progress={progress}
           filter={filter}
           isTranslating={isTranslating}
+          streamingTexts={streamingTexts}
           onFilterChange={onFilterChange}
           onRetryChunk={onRetryChunk}
           onTranslateChunk={onTranslateChunk}
+          onShowRevisions={onShowRevisions}
+          onUpdateChunkText={onUpdateChunkText}
+          onSplitChunk={onSplitChunk}
+          onMergeChunk={onMergeChunk}
         />
       </Box>
     </Box>
@@ -0,0 +1,527 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  InputAdornment,
+  ToggleButtonGroup,
+  ToggleButton,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  TableSortLabel,
+  IconButton,
+  Tooltip,
+  Checkbox,
+  FormControlLabel,
+  Paper,
+  Chip,
+  CircularProgress,
+  Tabs,
+  Tab,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Search as SearchIcon,
+  FileUpload as ImportIcon,
+  FileDownload as ExportIcon,
+  TextFields as CaseSensitiveIcon,
+  Refresh as RefreshIcon,
+} from '@mui/icons-material';
+import type { GlossaryEntry, GlossaryReport, TranslationSession } from '@shared/types';
+import * as api from '../../api/translation';
+import { dialog } from '../../stores/dialogStore';
+import { snackbar } from '../../stores/snackbarStore';
+import GlossaryExtractionView from './GlossaryExtractionView';
+
+// ============================================
+// Types / Constants
+// ============================================
+
+type GlossaryScope = 'session' | 'global';
+type GlossaryView = 'terms' | 'report' | 'extract';
+type SortKey = 'sourceTerm' | 'targetTerm' | 'partOfSpeech';
+
+interface EntryForm {
+  sourceTerm: string;
+  targetTerm: string;
+  partOfSpeech: string;
+  notes: string;
+  caseSensitive: boolean;
+}
+
+const EMPTY_FORM: EntryForm = {
+  sourceTerm: '',
+  targetTerm: '',
+  partOfSpeech: '',
+  notes: '',
+  caseSensitive: false,
+};
+
+const NEW_ENTRY = 'new';
+
+// ============================================
+// Props
+// ============================================
+
+interface GlossaryDialogProps {
+  open: boolean;
+  session: TranslationSession | null; // null이면 전역 용어집만 편집
+  templateId: string | null; // 용어 추출 시 언어 쌍 판별용
+  onClose: () => void;
+}
+
+// ============================================
+// 용어 준수 보고서
+// ============================================
+
+function GlossaryReportView({ sessionId }: { sessionId: string }) {
+  const { t } = useTranslation();
+  const [report, setReport] = useState<GlossaryReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // 세션이 바뀌면 key로 다시 마운트되므로 sessionId / 새로고침 때만 로드
+  useEffect(() => {
+    let canceled = false;
+    api
+      .getGlossaryReport(sessionId)
+      .then(result => !canceled && setReport(result))
+      .catch(() => snackbar.error('translation.glossary.errors.reportFailed', true))
+      .finally(() => !canceled && setLoading(false));
+
+    return () => {
+      canceled = true;
+    };
+  }, [sessionId, reloadKey]);
+
+  if (loading || !report) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress size={32} />
+      </Box>
+    );
+  }
+
+  return (
+    <>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant='body2' sx={{ flex: 1 }}>
+          {report.checkedChunks === 0
+            ? t('translation.glossary.reportNoChunks')
+            : t('translation.glossary.reportSummary', { violating: report.violatingChunks, checked: report.checkedChunks })}
+        </Typography>
+        <Tooltip title={t('common.refresh')}>
+          <IconButton
+            size='small'
+            onClick={() => {
+              setLoading(true);
+              setReloadKey(key => key + 1);
+            }}
+          >
+            <RefreshIcon fontSize='small' />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      {report.checkedChunks > 0 && report.terms.length === 0 ? (
+        <Typography color='text.secondary' sx={{ textAlign: 'center', py: 4 }}>
+          {t('translation.glossary.reportEmpty')}
+        </Typography>
+      ) : (
+        report.terms.length > 0 && (
+          <TableContainer sx={{ maxHeight: 400 }}>
+            <Table stickyHeader size='small'>
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('translation.glossary.sourceTerm')}</TableCell>
+                  <TableCell>{t('translation.glossary.targetTerm')}</TableCell>
+                  <TableCell align='right'>{t('translation.glossary.missing')}</TableCell>
+                  <TableCell align='right'>{t('translation.glossary.untranslated')}</TableCell>
+                  <TableCell>{t('translation.glossary.chunks')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {report.terms.map(term => (
+                  <TableRow key={term.sourceTerm} hover>
+                    <TableCell>{term.sourceTerm}</TableCell>
+                    <TableCell>{term.targetTerm}</TableCell>
+                    <TableCell align='right'>{term.missing}</TableCell>
+                    <TableCell align='right'>{term.untranslated}</TableCell>
+                    <TableCell sx={{ color: 'text.secondary' }}>{term.chunkOrders.map(order => `#${order + 1}`).join(', ')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )
+      )}
+    </>
+  );
+}
+
+// ============================================
+// 용어집 다이얼로그
+// ============================================
+
+export default function GlossaryDialog({ open, session, templateId, onClose }: GlossaryDialogProps) {
+  const { t } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [scope, setScope] = useState<GlossaryScope>('session');
+  const [view, setView] = useState<GlossaryView>('terms');
+  const [entries, setEntries] = useState<GlossaryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({ key: 'sourceTerm', direction: 'asc' });
+  const [editingId, setEditingId] = useState<string | null>(null); // NEW_ENTRY = 새 용어
+  const [form, setForm] = useState<EntryForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0); // CSV 가져오기 후 다시 로드
+
+  const activeScope: GlossaryScope = session ? scope : 'global';
+  const activeView: GlossaryView = session ? view : 'terms'; // 보고서 / 추출은 세션이 있을 때만
+  const scopeSessionId = activeScope === 'session' ? (session?.id ?? null) : null;
+
+  // 열 때 / 범위가 바뀔 때 다시 로드
+  useEffect(() => {
+    if (!open) return;
+
+    let canceled = false;
+    setEditingId(null);
+    setLoading(true);
+    api
+      .listGlossaryEntries(scopeSessionId)
+      .then(result => !canceled && setEntries(result))
+      .catch(() => snackbar.error('translation.glossary.errors.loadFailed', true))
+      .finally(() => !canceled && setLoading(false));
+
+    return () => {
+      canceled = true;
+    };
+  }, [open, scopeSessionId, reloadKey]);
+
+  // 검색 + 정렬
+  const visibleEntries = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = query
+      ? entries.filter(e => [e.sourceTerm, e.targetTerm, e.notes ?? ''].some(value => value.toLowerCase().includes(query)))
+      : entries;
+
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    return [...filtered].sort((a, b) => (a[sort.key] ?? '').localeCompare(b[sort.key] ?? '') * direction);
+  }, [entries, search, sort]);
+
+  const duplicate =
+    editingId !== null && entries.some(e => e.sourceTerm === form.sourceTerm.trim() && e.id !== editingId) ? form.sourceTerm.trim() : null;
+  const canSave = Boolean(form.sourceTerm.trim() && form.targetTerm.trim()) && !duplicate && !saving;
+
+  const handleSort = (key: SortKey) => {
+    setSort(prev => ({ key, direction: prev.key === key && prev.direction === 'asc' ? 'desc' : 'asc' }));
+  };
+
+  const handleAdd = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(NEW_ENTRY);
+  };
+
+  const handleEdit = (entry: GlossaryEntry) => {
+    setForm({
+      sourceTerm: entry.sourceTerm,
+      targetTerm: entry.targetTerm,
+      partOfSpeech: entry.partOfSpeech ?? '',
+      notes: entry.notes ?? '',
+      caseSensitive: entry.caseSensitive,
+    });
+    setEditingId(entry.id);
+  };
+
+  const handleSave = async () => {
+    if (!canSave || editingId === null) return;
+
+    const data = {
+      sourceTerm: form.sourceTerm.trim(),
+      targetTerm: form.targetTerm.trim(),
+      partOfSpeech: form.partOfSpeech.trim() || null,
+      notes: form.notes.trim() || null,
+      caseSensitive: form.caseSensitive,
+    };
+
+    setSaving(true);
+    try {
+      if (editingId === NEW_ENTRY) {
+        const created = await api.createGlossaryEntry({ sessionId: scopeSessionId, ...data });
+        setEntries(prev => [...prev, created]);
+      } else {
+        const updated = await api.updateGlossaryEntry(editingId, data);
+        setEntries(prev => prev.map(e => (e.id === updated.id ? updated : e)));
+      }
+      setEditingId(null);
+    } catch {
+      snackbar.error('translation.glossary.errors.saveFailed', true);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: GlossaryEntry) => {
+    const confirmed = await dialog.confirm(t('translation.glossary.confirmDelete', { term: entry.sourceTerm }));
+    if (!confirmed) return;
+
+    try {
+      await api.deleteGlossaryEntry(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+      if (editingId === entry.id) {
+        setEditingId(null);
+      }
+    } catch {
+      snackbar.error('translation.glossary.errors.deleteFailed', true);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = await api.importGlossaryCsv(scopeSessionId, file);
+      snackbar.success(t('translation.glossary.imported', result));
+      setReloadKey(key => key + 1);
+    } catch {
+      snackbar.error('translation.glossary.errors.importFailed', true);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const { fileName, blob } = await api.exportGlossaryCsv(scopeSessionId);
+
+      // 파일 다운로드 트리거
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch {
+      snackbar.error('translation.glossary.errors.exportFailed', true);
+    }
+  };
+
+  const renderForm = () => (
+    <Paper variant='outlined' sx={{ p: 2, display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr 160px', gap: 1.5 }}>
+        <TextField
+          label={t('translation.glossary.sourceTerm')}
+          size='small'
+          value={form.sourceTerm}
+          onChange={e => setForm(prev => ({ ...prev, sourceTerm: e.target.value }))}
+          error={Boolean(duplicate)}
+          helperText={duplicate ? t('translation.glossary.duplicate') : undefined}
+          inputProps={{ maxLength: 200 }}
+          autoFocus
+          required
+        />
+        <TextField
+          label={t('translation.glossary.targetTerm')}
+          size='small'
+          value={form.targetTerm}
+          onChange={e => setForm(prev => ({ ...prev, targetTerm: e.target.value }))}
+          inputProps={{ maxLength: 200 }}
+          required
+        />
+        <TextField
+          label={t('translation.glossary.partOfSpeech')}
+          size='small'
+          value={form.partOfSpeech}
+          onChange={e => setForm(prev => ({ ...prev, partOfSpeech: e.target.value }))}
+          inputProps={{ maxLength: 50 }}
+        />
+      </Box>
+      <TextField
+        label={t('translation.glossary.notes')}
+        size='small'
+        value={form.notes}
+        onChange={e => setForm(prev => ({ ...prev, notes: e.target.value }))}
+        inputProps={{ maxLength: 500 }}
+        fullWidth
+      />
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <FormControlLabel
+          control={
+            <Checkbox
+              size='small'
+              checked={form.caseSensitive}
+              onChange={e => setForm(prev => ({ ...prev, caseSensitive: e.target.checked }))}
+            />
+          }
+          label={<Typography variant='body2'>{t('translation.glossary.caseSensitive')}</Typography>}
+        />
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button size='small' onClick={() => setEditingId(null)} disabled={saving}>
+            {t('common.cancel')}
+          </Button>
+          <Button size='small' variant='contained' onClick={handleSave} disabled={!canSave}>
+            {t('common.save')}
+          </Button>
+        </Box>
+      </Box>
+    </Paper>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth='md' fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        {t('translation.glossary.title')}
+        <Chip label={entries.length} size='small' />
+      </DialogTitle>
+      {session && (
+        <Tabs value={activeView} onChange={(_, value: GlossaryView) => setView(value)} sx={{ px: 3 }}>
+          <Tab value='terms' label={t('translation.glossary.terms')} />
+          <Tab value='report' label={t('translation.glossary.report')} />
+          <Tab value='extract' label={t('translation.glossary.extract.title')} />
+        </Tabs>
+      )}
+      <DialogContent dividers sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        {/* 추출 중에 다른 탭으로 가도 작업이 이어지도록 숨기기만 함 */}
+        {session && (
+          <Box sx={{ display: activeView === 'extract' ? 'flex' : 'none', flexDirection: 'column', gap: 2 }}>
+            <GlossaryExtractionView
+              key={session.id}
+              sessionId={session.id}
+              templateId={templateId}
+              onAdded={() => setReloadKey(key => key + 1)}
+            />
+          </Box>
+        )}
+
+        {session && activeView === 'report' && (
+          <>
+            <Typography variant='caption' color='text.secondary'>
+              {t('translation.glossary.reportHelp')}
+            </Typography>
+            <GlossaryReportView key={session.id} sessionId={session.id} />
+          </>
+        )}
+
+        {activeView === 'terms' && (
+          <>
+            <Typography variant='caption' color='text.secondary'>
+              {t('translation.glossary.help')}
+            </Typography>
+
+            {/* 범위 / 검색 / 가져오기 · 내보내기 */}
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+              <ToggleButtonGroup size='small' exclusive value={activeScope} onChange={(_, value) => value && setScope(value)}>
+                <ToggleButton value='session' disabled={!session}>
+                  {t('translation.glossary.scopeSession')}
+                </ToggleButton>
+                <ToggleButton value='global'>{t('translation.glossary.scopeGlobal')}</ToggleButton>
+              </ToggleButtonGroup>
+              <TextField
+                size='small'
+                placeholder={t('translation.glossary.search')}
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                sx={{ flex: 1, minWidth: 160 }}
+                InputProps={{
+                  startAdornment: (
+                    <InputAdornment position='start'>
+                      <SearchIcon fontSize='small' color='action' />
+                    </InputAdornment>
+                  ),
+                }}
+              />
+              <input ref={fileInputRef} type='file' accept='.csv,text/csv' hidden onChange={handleImport} />
+              <Tooltip title={t('translation.glossary.importHelp')}>
+                <Button size='small' startIcon={<ImportIcon />} onClick={() => fileInputRef.current?.click()}>
+                  {t('translation.glossary.import')}
+                </Button>
+              </Tooltip>
+              <Button size='small' startIcon={<ExportIcon />} onClick={handleExport} disabled={entries.length === 0}>
+                {t('translation.glossary.export')}
+              </Button>
+              <Button size='small' variant='contained' startIcon={<AddIcon />} onClick={handleAdd} disabled={editingId !== null}>
+                {t('translation.glossary.add')}
+              </Button>
+            </Box>
+
+            {editingId !== null && renderForm()}
+
+            {/* 용어 목록 */}
+            {loading ? (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                <CircularProgress size={32} />
+              </Box>
+            ) : visibleEntries.length === 0 ? (
+              <Typography color='text.secondary' sx={{ textAlign: 'center', py: 4 }}>
+                {search ? t('translation.glossary.noResults') : t('translation.glossary.empty')}
+              </Typography>
+            ) : (
+              <TableContainer sx={{ maxHeight: 400 }}>
+                <Table stickyHeader size='small'>
+                  <TableHead>
+                    <TableRow>
+                      {(['sourceTerm', 'targetTerm', 'partOfSpeech'] as const).map(key => (
+                        <TableCell key={key}>
+                          <TableSortLabel active={sort.key === key} direction={sort.direction} onClick={() => handleSort(key)}>
+                            {t(`translation.glossary.${key}`)}
+                          </TableSortLabel>
+                        </TableCell>
+                      ))}
+                      <TableCell>{t('translation.glossary.notes')}</TableCell>
+                      <TableCell align='right' />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {visibleEntries.map(entry => (
+                      <TableRow key={entry.id} hover selected={entry.id === editingId}>
+                        <TableCell>
+                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                            {entry.sourceTerm}
+                            {entry.caseSensitive && (
+                              <Tooltip title={t('translation.glossary.caseSensitive')}>
+                                <CaseSensitiveIcon fontSize='inherit' color='action' />
+                              </Tooltip>
+                            )}
+                          </Box>
+                        </TableCell>
+                        <TableCell>{entry.targetTerm}</TableCell>
+                        <TableCell>{entry.partOfSpeech}</TableCell>
+                        <TableCell sx={{ color: 'text.secondary' }}>{entry.notes}</TableCell>
+                        <TableCell align='right' sx={{ whiteSpace: 'nowrap' }}>
+                          <IconButton size='small' onClick={() => handleEdit(entry)} disabled={editingId !== null}>
+                            <EditIcon fontSize='small' />
+                          </IconButton>
+                          <IconButton size='small' color='error' onClick={() => handleDelete(entry)}>
+                            <DeleteIcon fontSize='small' />
+                          </IconButton>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('common.close')}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,284 @@
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Button,
+  Typography,
+  TextField,
+  ToggleButtonGroup,
+  ToggleButton,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Checkbox,
+  Chip,
+  LinearProgress,
+  Alert,
+} from '@mui/material';
+import { AutoAwesome as ExtractIcon, Stop as StopIcon, PlaylistAdd as AcceptIcon } from '@mui/icons-material';
+import type { GlossaryCandidate } from '@shared/types';
+import * as api from '../../api/translation';
+import { translationWs } from '../../api/websocket';
+import { snackbar } from '../../stores/snackbarStore';
+
+// ============================================
+// Types
+// ============================================
+
+type ExtractionMode = 'sample' | 'all';
+
+interface CandidateRow extends GlossaryCandidate {
+  selected: boolean;
+}
+
+interface ExtractionProgress {
+  processedChunks: number;
+  totalChunks: number;
+  candidates: number;
+}
+
+// ============================================
+// Props
+// ============================================
+
+interface GlossaryExtractionViewProps {
+  sessionId: string;
+  templateId: string | null; // 언어 쌍 판별용 (세션 템플릿이 있으면 무시됨)
+  onAdded: () => void; // 용어집에 추가한 뒤 용어 목록 새로고침
+}
+
+// ============================================
+// 용어 추출 / 검토
+// ============================================
+
+export default function GlossaryExtractionView({ sessionId, templateId, onAdded }: GlossaryExtractionViewProps) {
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<ExtractionMode>('sample');
+  const [sampleSize, setSampleSize] = useState(10);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null);
+  const [rows, setRows] = useState<CandidateRow[] | null>(null);
+  const [failedChunks, setFailedChunks] = useState(0);
+  const [adding, setAdding] = useState(false);
+  const runningRef = useRef(false);
+
+  // 진행 상황 이벤트 수신
+  useEffect(() => {
+    return translationWs.onEvent(event => {
+      if (event.type === 'glossary:extract-progress' && event.sessionId === sessionId) {
+        setProgress({ processedChunks: event.processedChunks, totalChunks: event.totalChunks, candidates: event.candidates });
+      }
+    });
+  }, [sessionId]);
+
+  // 다이얼로그를 닫으면 진행 중인 추출도 중단
+  useEffect(() => {
+    return () => {
+      if (runningRef.current) {
+        api.cancelGlossaryExtraction(sessionId);
+      }
+    };
+  }, [sessionId]);
+
+  const selectedRows = rows?.filter(row => row.selected) ?? [];
+
+  const handleExtract = async () => {
+    setRunning(true);
+    runningRef.current = true;
+    setProgress(null);
+    setRows(null);
+
+    try {
+      const result = await api.extractGlossaryCandidates(sessionId, { templateId, mode, sampleSize });
+      setRows(result.candidates.map(candidate => ({ ...candidate, selected: true })));
+      setFailedChunks(result.failedChunks);
+    } catch {
+      snackbar.error('translation.glossary.extract.errors.failed', true);
+    } finally {
+      setRunning(false);
+      runningRef.current = false;
+    }
+  };
+
+  const updateRow = (sourceTerm: string, changes: Partial<CandidateRow>) => {
+    setRows(prev => prev?.map(row => (row.sourceTerm === sourceTerm ? { ...row, ...changes } : row)) ?? null);
+  };
+
+  const handleSelectAll = (selected: boolean) => {
+    setRows(prev => prev?.map(row => ({ ...row, selected })) ?? null);
+  };
+
+  const handleAccept = async () => {
+    const accepted = selectedRows.filter(row => row.targetTerm.trim());
+    if (accepted.length === 0) return;
+
+    setAdding(true);
+    try {
+      const result = await api.addGlossaryEntries(
+        sessionId,
+        accepted.map(row => ({
+          sourceTerm: row.sourceTerm,
+          targetTerm: row.targetTerm.trim(),
+          partOfSpeech: row.category,
+          notes: row.notes?.trim() || null,
+        }))
+      );
+      snackbar.success(t('translation.glossary.extract.added', result));
+
+      const acceptedTerms = new Set(accepted.map(row => row.sourceTerm));
+      setRows(prev => prev?.filter(row => !acceptedTerms.has(row.sourceTerm)) ?? null);
+      onAdded();
+    } catch {
+      snackbar.error('translation.glossary.errors.saveFailed', true);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <>
+      <Typography variant='caption' color='text.secondary'>
+        {t('translation.glossary.extract.help')}
+      </Typography>
+
+      {/* 추출 범위 / 시작 · 중단 */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+        <ToggleButtonGroup size='small' exclusive value={mode} onChange={(_, value) => value && setMode(value)} disabled={running}>
+          <ToggleButton value='sample'>{t('translation.glossary.extract.modeSample')}</ToggleButton>
+          <ToggleButton value='all'>{t('translation.glossary.extract.modeAll')}</ToggleButton>
+        </ToggleButtonGroup>
+        {mode === 'sample' && (
+          <TextField
+            label={t('translation.glossary.extract.sampleSize')}
+            type='number'
+            size='small'
+            value={sampleSize}
+            onChange={e => setSampleSize(Math.min(100, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+            disabled={running}
+            sx={{ width: 140 }}
+            InputProps={{
+              inputProps: { min: 1, max: 100 },
+            }}
+          />
+        )}
+        <Box sx={{ flex: 1 }} />
+        {running ? (
+          <Button size='small' color='warning' startIcon={<StopIcon />} onClick={() => api.cancelGlossaryExtraction(sessionId)}>
+            {t('translation.glossary.extract.stop')}
+          </Button>
+        ) : (
+          <Button size='small' variant='contained' startIcon={<ExtractIcon />} onClick={handleExtract}>
+            {t('translation.glossary.extract.start')}
+          </Button>
+        )}
+      </Box>
+
+      {running && (
+        <Box>
+          <LinearProgress
+            variant={progress ? 'determinate' : 'indeterminate'}
+            value={progress && progress.totalChunks > 0 ? (progress.processedChunks / progress.totalChunks) * 100 : 0}
+          />
+          {progress && (
+            <Typography variant='caption' color='text.secondary'>
+              {t('translation.glossary.extract.progress', {
+                processed: progress.processedChunks,
+                total: progress.totalChunks,
+                candidates: progress.candidates,
+              })}
+            </Typography>
+          )}
+        </Box>
+      )}
+
+      {failedChunks > 0 && !running && (
+        <Alert severity='warning'>{t('translation.glossary.extract.failedChunks', { count: failedChunks })}</Alert>
+      )}
+
+      {/* 후보 검토 */}
+      {rows &&
+        (rows.length === 0 ? (
+          <Typography color='text.secondary' sx={{ textAlign: 'center', py: 4 }}>
+            {t('translation.glossary.extract.empty')}
+          </Typography>
+        ) : (
+          <>
+            <TableContainer sx={{ maxHeight: 400 }}>
+              <Table stickyHeader size='small'>
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding='checkbox'>
+                      <Checkbox
+                        size='small'
+                        checked={selectedRows.length === rows.length}
+                        indeterminate={selectedRows.length > 0 && selectedRows.length < rows.length}
+                        onChange={e => handleSelectAll(e.target.checked)}
+                      />
+                    </TableCell>
+                    <TableCell>{t('translation.glossary.sourceTerm')}</TableCell>
+                    <TableCell>{t('translation.glossary.targetTerm')}</TableCell>
+                    <TableCell>{t('translation.glossary.extract.category')}</TableCell>
+                    <TableCell align='right'>{t('translation.glossary.extract.frequency')}</TableCell>
+                    <TableCell>{t('translation.glossary.notes')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.sourceTerm} hover>
+                      <TableCell padding='checkbox'>
+                        <Checkbox
+                          size='small'
+                          checked={row.selected}
+                          onChange={e => updateRow(row.sourceTerm, { selected: e.target.checked })}
+                        />
+                      </TableCell>
+                      <TableCell>{row.sourceTerm}</TableCell>
+                      <TableCell>
+                        <TextField
+                          size='small'
+                          variant='standard'
+                          value={row.targetTerm}
+                          onChange={e => updateRow(row.sourceTerm, { targetTerm: e.target.value })}
+                          error={row.selected && !row.targetTerm.trim()}
+                          inputProps={{ maxLength: 200 }}
+                          fullWidth
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Chip size='small' variant='outlined' label={t(`translation.glossary.extract.categories.${row.category}`)} />
+                      </TableCell>
+                      <TableCell align='right'>{row.frequency}</TableCell>
+                      <TableCell>
+                        <TextField
+                          size='small'
+                          variant='standard'
+                          value={row.notes ?? ''}
+                          onChange={e => updateRow(row.sourceTerm, { notes: e.target.value })}
+                          inputProps={{ maxLength: 500 }}
+                          fullWidth
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+              <Button
+                size='small'
+                variant='contained'
+                startIcon={<AcceptIcon />}
+                onClick={handleAccept}
+                disabled={adding || selectedRows.length === 0}
+              >
+                {t('translation.glossary.extract.accept', { count: selectedRows.length })}
+              </Button>
+            </Box>
+          </>
+        ))}
+    </>
+  );
+}
@@ -0,0 +1,306 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Typography,
+  Drawer,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Checkbox,
+  Button,
+  Chip,
+  Divider,
+  Tooltip,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  KeyboardArrowUp as MoveUpIcon,
+  KeyboardArrowDown as MoveDownIcon,
+  VerticalAlignTop as MoveToTopIcon,
+  Delete as RemoveIcon,
+  PlaylistAdd as AddIcon,
+  ClearAll as ClearIcon,
+} from '@mui/icons-material';
+import type { TranslationQueueEntry, TranslationQueueStatus, TranslationSession, TranslationSessionStatus } from '@shared/types';
+
+// ============================================
+// Constants
+// ============================================
+
+const PANEL_WIDTH = 360;
+
+// 대기열에 추가할 수 있는 세션 상태
+const ENQUEUEABLE_STATUSES: TranslationSessionStatus[] = ['ready', 'paused', 'failed'];
+
+const statusColor: Record<TranslationQueueStatus, 'default' | 'primary' | 'warning' | 'success' | 'error' | 'info'> = {
+  queued: 'info',
+  running: 'primary',
+  paused: 'warning',
+  done: 'success',
+  failed: 'error',
+  canceled: 'default',
+};
+
+// ============================================
+// Props
+// ============================================
+
+interface QueuePanelProps {
+  open: boolean;
+  entries: TranslationQueueEntry[];
+  sessions: TranslationSession[];
+  canEnqueue: boolean; // 프롬프트 템플릿이 선택되어 있는지
+  onClose: () => void;
+  onEnqueue: (sessionIds: string[]) => void;
+  onRemove: (sessionId: string) => void;
+  onReorder: (sessionIds: string[]) => void;
+  onClearFinished: () => void;
+}
+
+// ============================================
+// 대기열 항목
+// ============================================
+
+interface QueueItemProps {
+  entry: TranslationQueueEntry;
+  actions?: React.ReactNode;
+}
+
+function QueueItem({ entry, actions }: QueueItemProps) {
+  const { t } = useTranslation();
+
+  return (
+    <ListItem dense secondaryAction={actions} sx={{ pr: actions ? 14 : 2 }}>
+      <ListItemText
+        primary={
+          <Typography variant='body2' noWrap>
+            {entry.sessionTitle}
+          </Typography>
+        }
+        secondary={
+          entry.errorMessage ? (
+            <Typography variant='caption' color='error' noWrap component='span' sx={{ display: 'block' }}>
+              {entry.errorMessage}
+            </Typography>
+          ) : undefined
+        }
+      />
+      <Chip label={t(`translation.queue.status.${entry.status}`)} size='small' color={statusColor[entry.status]} variant='outlined' />
+    </ListItem>
+  );
+}
+
+// ============================================
+// 번역 대기열 패널
+// ============================================
+
+export default function QueuePanel({
+  open,
+  entries,
+  sessions,
+  canEnqueue,
+  onClose,
+  onEnqueue,
+  onRemove,
+  onReorder,
+  onClearFinished,
+}: QueuePanelProps) {
+  const { t } = useTranslation();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // 상태별 분류 (entries는 position 순)
+  const running = entries.filter(e => e.status === 'running');
+  const waiting = entries.filter(e => e.status === 'queued');
+  const finished = entries.filter(e => e.status !== 'running' && e.status !== 'queued');
+
+  // 아직 대기 / 실행 중이 아닌 번역 가능한 세션
+  const activeIds = new Set([...running, ...waiting].map(e => e.sessionId));
+  const candidates = sessions.filter(s => ENQUEUEABLE_STATUSES.includes(s.status) && !activeIds.has(s.id));
+
+  const waitingIds = waiting.map(e => e.sessionId);
+
+  const move = (index: number, target: number) => {
+    const next = [...waitingIds];
+    const [id] = next.splice(index, 1);
+    next.splice(target, 0, id);
+    onReorder(next);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  };
+
+  const handleEnqueue = () => {
+    // 목록 순서대로 추가
+    onEnqueue(candidates.filter(s => selectedIds.includes(s.id)).map(s => s.id));
+    setSelectedIds([]);
+  };
+
+  const sectionTitle = (label: string, count: number) => (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, px: 2, pt: 1.5, pb: 0.5 }}>
+      <Typography variant='subtitle2' fontWeight={600}>
+        {label}
+      </Typography>
+      <Chip label={count} size='small' />
+    </Box>
+  );
+
+  return (
+    <Drawer anchor='right' open={open} onClose={onClose}>
+      <Box sx={{ width: PANEL_WIDTH, height: '100%', display: 'flex', flexDirection: 'column' }}>
+        {/* 헤더 */}
+        <Box sx={{ p: 2, pb: 1, display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Typography variant='h6' fontWeight={600}>
+            {t('translation.queue.title')}
+          </Typography>
+          <IconButton onClick={onClose} size='small'>
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        <Divider />
+
+        <Box sx={{ flex: 1, overflowY: 'auto' }}>
+          {entries.length === 0 && (
+            <Typography color='text.secondary' variant='body2' sx={{ textAlign: 'center', py: 3 }}>
+              {t('translation.queue.empty')}
+            </Typography>
+          )}
+
+          {/* 실행 중 */}
+          {running.length > 0 && (
+            <>
+              {sectionTitle(t('translation.queue.running'), running.length)}
+              <List dense disablePadding>
+                {running.map(entry => (
+                  <QueueItem key={entry.sessionId} entry={entry} />
+                ))}
+              </List>
+            </>
+          )}
+
+          {/* 대기 중 */}
+          {waiting.length > 0 && (
+            <>
+              {sectionTitle(t('translation.queue.waiting'), waiting.length)}
+              <List dense disablePadding>
+                {waiting.map((entry, index) => (
+                  <QueueItem
+                    key={entry.sessionId}
+                    entry={entry}
+                    actions={
+                      <>
+                        <Tooltip title={t('translation.queue.moveToTop')}>
+                          <span>
+                            <IconButton size='small' disabled={index === 0} onClick={() => move(index, 0)}>
+                              <MoveToTopIcon fontSize='small' />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title={t('translation.queue.moveUp')}>
+                          <span>
+                            <IconButton size='small' disabled={index === 0} onClick={() => move(index, index - 1)}>
+                              <MoveUpIcon fontSize='small' />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title={t('translation.queue.moveDown')}>
+                          <span>
+                            <IconButton size='small' disabled={index === waiting.length - 1} onClick={() => move(index, index + 1)}>
+                              <MoveDownIcon fontSize='small' />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title={t('translation.queue.remove')}>
+                          <IconButton size='small' edge='end' onClick={() => onRemove(entry.sessionId)}>
+                            <RemoveIcon fontSize='small' />
+                          </IconButton>
+                        </Tooltip>
+                      </>
+                    }
+                  />
+                ))}
+              </List>
+            </>
+          )}
+
+          {/* 종료됨 */}
+          {finished.length > 0 && (
+            <>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', pr: 1 }}>
+                {sectionTitle(t('translation.queue.finished'), finished.length)}
+                <Button size='small' color='inherit' startIcon={<ClearIcon />} onClick={onClearFinished} sx={{ mt: 1 }}>
+                  {t('translation.queue.clearFinished')}
+                </Button>
+              </Box>
+              <List dense disablePadding>
+                {finished.map(entry => (
+                  <QueueItem
+                    key={entry.sessionId}
+                    entry={entry}
+                    actions={
+                      <Tooltip title={t('translation.queue.remove')}>
+                        <IconButton size='small' edge='end' onClick={() => onRemove(entry.sessionId)}>
+                          <RemoveIcon fontSize='small' />
+                        </IconButton>
+                      </Tooltip>
+                    }
+                  />
+                ))}
+              </List>
+            </>
+          )}
+
+          {/* 세션 추가 */}
+          {candidates.length > 0 && (
+            <>
+              <Divider sx={{ mt: 1.5 }} />
+              {sectionTitle(t('translation.queue.addSessions'), candidates.length)}
+              <Typography variant='caption' color='text.secondary' sx={{ display: 'block', px: 2 }}>
+                {t('translation.queue.addSessionsHelp')}
+              </Typography>
+              <List dense>
+                {candidates.map(session => (
+                  <ListItemButton key={session.id} onClick={() => toggleSelected(session.id)} sx={{ py: 0 }}>
+                    <ListItemIcon sx={{ minWidth: 36 }}>
+                      <Checkbox edge='start' size='small' checked={selectedIds.includes(session.id)} tabIndex={-1} disableRipple />
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={
+                        <Typography variant='body2' noWrap>
+                          {session.title}
+                        </Typography>
+                      }
+                      secondary={t(`translation.sessionStatus.${session.status}`)}
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+            </>
+          )}
+        </Box>
+
+        {candidates.length > 0 && (
+          <>
+            <Divider />
+            <Box sx={{ p: 2 }}>
+              <Button
+                fullWidth
+                variant='contained'
+                startIcon={<AddIcon />}
+                disabled={!canEnqueue || selectedIds.length === 0}
+                onClick={handleEnqueue}
+              >
+                {t('translation.queue.add')}
+              </Button>
+            </Box>
+          </>
+        )}
+      </Box>
+    </Drawer>
+  );
+}
@@ -1,7 +1,60 @@
 import { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, Box, Typography } from '@mui/material';
-import type { TranslationSession, CreateSessionRequest, UpdateSessionRequest } from '@shared/types';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Paper,
+  Alert,
+} from '@mui/material';
+import { ExpandMore as ExpandMoreIcon, Tune as TuneIcon, Preview as PreviewIcon } from '@mui/icons-material';
+import type {
+  TranslationSession,
+  CreateSessionRequest,
+  UpdateSessionRequest,
+  SessionConfigOverrides,
+  TranslationConfig,
+  GeminiModelInfo,
+  PromptTemplate,
+  PostProcessPreview,
+} from '@shared/types';
+import { getSession, previewPostProcess } from '../../api/translation';
+
+// ============================================
+// Constants
+// ============================================
+
+// 숫자 설정 (빈 값 = 전역 설정 사용)
+const NUMERIC_OVERRIDES = ['chunkSize', 'temperature', 'maxOutputTokens', 'topP', 'topK'] as const;
+type NumericOverride = (typeof NUMERIC_OVERRIDES)[number];
+
+const INTEGER_OVERRIDES: NumericOverride[] = ['chunkSize', 'maxOutputTokens', 'topK'];
+
+const EMPTY_NUMERIC: Record<NumericOverride, string> = {
+  chunkSize: '',
+  temperature: '',
+  maxOutputTokens: '',
+  topP: '',
+  topK: '',
+};
+
+function parseOverride(key: NumericOverride, value: string): number | null {
+  if (!value.trim()) return null;
+  const parsed = INTEGER_OVERRIDES.includes(key) ? parseInt(value, 10) : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
 
 // ============================================
 // Props
@@ -13,17 +66,30 @@ interface SessionDialogProps {
   onClose: () => void;
   onCreate?: (data: CreateSessionRequest) => Promise<void>;
   onUpdate?: (id: string, data: UpdateSessionRequest) => Promise<void>;
+  config: TranslationConfig | null; // 전역 설정 (상속 값 표시용)
+  models: GeminiModelInfo[];
+  templates: PromptTemplate[];
 }
 
 // ============================================
 // 세션 다이얼로그
 // ============================================
 
-export default function SessionDialog({ open, session, onClose, onCreate, onUpdate }: SessionDialogProps) {
+export default function SessionDialog({ open, session, onClose, onCreate, onUpdate, config, models, templates }: SessionDialogProps) {
   const { t } = useTranslation();
   const [title, setTitle] = useState('');
   const [memo, setMemo] = useState('');
-  const [customDict, setCustomDict] = useState('');
+  const [customDict, setCustomDict] = useState(''); // 용어집 도입 전의 자유 형식 사전
+  const [summary, setSummary] = useState('');
+  const [loadedSummary, setLoadedSummary] = useState(''); // 번역 중 자동 갱신된 요약을 덮어쓰지 않도록 고친 경우에만 저장
+  const [model, setModel] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [numeric, setNumeric] = useState(EMPTY_NUMERIC);
+  const [postProcessRules, setPostProcessRules] = useState('');
+  const [preview, setPreview] = useState<PostProcessPreview | null | undefined>(undefined); // undefined = 미리보기 전
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [overridesExpanded, setOverridesExpanded] = useState(false);
   const [loading, setLoading] = useState(false);
 
   const isEdit = Boolean(session);
@@ -35,30 +101,97 @@ export default function SessionDialog({ open, session, onClose, onCreate, onUpda
         setTitle(session.title);
         setMemo(session.memo || '');
         setCustomDict(session.customDict || '');
+        setSummary(session.summary ?? '');
+        setLoadedSummary(session.summary ?? '');
+        setModel(session.model ?? '');
+        setTemplateId(session.templateId ?? '');
+        setNumeric(
+          Object.fromEntries(NUMERIC_OVERRIDES.map(key => [key, session[key]?.toString() ?? ''])) as Record<NumericOverride, string>
+        );
+        setPostProcessRules(session.postProcessRules ?? '');
+        setOverridesExpanded(
+          Boolean(session.model || session.templateId || session.postProcessRules || NUMERIC_OVERRIDES.some(key => session[key] !== null))
+        );
       } else {
         setTitle('');
         setMemo('');
         setCustomDict('');
+        setSummary('');
+        setLoadedSummary('');
+        setModel('');
+        setTemplateId('');
+        setNumeric(EMPTY_NUMERIC);
+        setPostProcessRules('');
+        setOverridesExpanded(false);
       }
+      setPreview(undefined);
+      setPreviewError(null);
     }
   }, [open, session]);
 
+  // 목록의 세션 정보보다 요약이 최신일 수 있으므로 다시 불러옴
+  useEffect(() => {
+    if (!open || !session) return;
+
+    let cancelled = false;
+    getSession(session.id)
+      .then(latest => {
+        if (cancelled) return;
+        setSummary(latest.summary ?? '');
+        setLoadedSummary(latest.summary ?? '');
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [open, session]);
+
+  const globalModelName = models.find(m => m.id === config?.model)?.name ?? config?.model ?? '';
+
+  const handlePreview = async () => {
+    if (!session) return;
+
+    setPreviewing(true);
+    setPreviewError(null);
+    try {
+      setPreview(await previewPostProcess(session.id, postProcessRules.trim() || null));
+    } catch (err) {
+      setPreview(undefined);
+      setPreviewError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
   const handleSubmit = async () => {
     if (!title.trim()) return;
 
+    const overrides: SessionConfigOverrides = {
+      model: model || null,
+      templateId: templateId || null,
+      chunkSize: parseOverride('chunkSize', numeric.chunkSize),
+      temperature: parseOverride('temperature', numeric.temperature),
+      maxOutputTokens: parseOverride('maxOutputTokens', numeric.maxOutputTokens),
+      topP: parseOverride('topP', numeric.topP),
+      topK: parseOverride('topK', numeric.topK),
+      postProcessRules: postProcessRules.trim() || null,
+    };
+
     setLoading(true);
     try {
       if (isEdit && session && onUpdate) {
         await onUpdate(session.id, {
           title: title.trim(),
           memo: memo.trim() || undefined,
-          customDict: customDict.trim() || undefined,
+          customDict: customDict.trim() || null,
+          ...(summary !== loadedSummary && { summary: summary.trim() || null }),
+          ...overrides,
         });
       } else if (onCreate) {
         await onCreate({
           title: title.trim(),
           memo: memo.trim() || undefined,
-          customDict: customDict.trim() || undefined,
+          ...overrides,
         });
       }
       onClose();
@@ -94,29 +227,174 @@ export default function SessionDialog({ open, session, onClose, onCreate, onUpda
             placeholder={t('translation.sessionMemoPlaceholder')}
           />
 
-          {/* 사용자 사전 */}
-          <Box>
-            <Typography variant='subtitle2' gutterBottom>
-              {t('translation.customDict')}
-            </Typography>
-            <Typography variant='caption' color='text.secondary' gutterBottom sx={{ display: 'block', mb: 1 }}>
-              {t('translation.customDictHelp')}
-            </Typography>
-            <TextField
-              value={customDict}
-              onChange={e => setCustomDict(e.target.value)}
-              fullWidth
-              multiline
-              rows={4}
-              placeholder={t('translation.customDictPlaceholder')}
-              sx={{
-                '& .MuiInputBase-input': {
-                  fontFamily: 'monospace',
-                  fontSize: '0.875rem',
-                },
-              }}
-            />
-          </Box>
+          {/* 이전 사용자 사전 (내용이 있는 세션만 표시) */}
+          {session?.customDict && (
+            <Box>
+              <Typography variant='subtitle2' gutterBottom>
+                {t('translation.customDict')}
+              </Typography>
+              <Typography variant='caption' color='text.secondary' gutterBottom sx={{ display: 'block', mb: 1 }}>
+                {t('translation.customDictHelp')}
+              </Typography>
+              <TextField
+                value={customDict}
+                onChange={e => setCustomDict(e.target.value)}
+                fullWidth
+                multiline
+                rows={4}
+                sx={{
+                  '& .MuiInputBase-input': {
+                    fontFamily: 'monospace',
+                    fontSize: '0.875rem',
+                  },
+                }}
+              />
+            </Box>
+          )}
+
+          {/* 지금까지의 줄거리 (요약을 켠 경우 번역 중 자동 갱신) */}
+          {isEdit && (
+            <Box>
+              <Typography variant='subtitle2' gutterBottom>
+                {t('translation.summary.title')}
+              </Typography>
+              <Typography variant='caption' color='text.secondary' gutterBottom sx={{ display: 'block', mb: 1 }}>
+                {t('translation.summary.sessionHelp')}
+              </Typography>
+              <TextField value={summary} onChange={e => setSummary(e.target.value)} fullWidth multiline rows={4} />
+            </Box>
+          )}
+
+          {/* 세션별 번역 설정 */}
+          <Accordion expanded={overridesExpanded} onChange={(_, exp) => setOverridesExpanded(exp)} disableGutters variant='outlined'>
+            <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <TuneIcon fontSize='small' />
+                <Typography>{t('translation.sessionSettings.title')}</Typography>
+              </Box>
+            </AccordionSummary>
+            <AccordionDetails>
+              <Typography variant='caption' color='text.secondary' sx={{ display: 'block', mb: 2 }}>
+                {t('translation.sessionSettings.help')}
+              </Typography>
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                {/* 모델 */}
+                <FormControl fullWidth size='small'>
+                  <InputLabel shrink>{t('translation.model')}</InputLabel>
+                  <Select value={model} label={t('translation.model')} onChange={e => setModel(e.target.value)} displayEmpty notched>
+                    <MenuItem value=''>
+                      <em>{t('translation.sessionSettings.inherit', { value: globalModelName })}</em>
+                    </MenuItem>
+                    {models.map(m => (
+                      <MenuItem key={m.id} value={m.id}>
+                        {m.name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+
+                {/* 템플릿 */}
+                <FormControl fullWidth size='small'>
+                  <InputLabel shrink>{t('translation.template')}</InputLabel>
+                  <Select
+                    value={templateId}
+                    label={t('translation.template')}
+                    onChange={e => setTemplateId(e.target.value)}
+                    displayEmpty
+                    notched
+                  >
+                    <MenuItem value=''>
+                      <em>{t('translation.sessionSettings.inheritTemplate')}</em>
+                    </MenuItem>
+                    {templates.map(template => (
+                      <MenuItem key={template.id} value={template.id}>
+                        {template.title} ({template.sourceLanguage} → {template.targetLanguage})
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+
+                {/* 숫자 설정 */}
+                <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+                  {NUMERIC_OVERRIDES.map(key => (
+                    <TextField
+                      key={key}
+                      label={t(`translation.sessionSettings.${key}`)}
+                      type='number'
+                      size='small'
+                      value={numeric[key]}
+                      onChange={e => setNumeric(prev => ({ ...prev, [key]: e.target.value }))}
+                      placeholder={config?.[key]?.toString() ?? t('translation.default')}
+                      InputLabelProps={{ shrink: true }}
+                    />
+                  ))}
+                </Box>
+
+                {/* 후처리 규칙 */}
+                <Box>
+                  <Typography variant='subtitle2' gutterBottom>
+                    {t('translation.sessionSettings.postProcess')}
+                  </Typography>
+                  <Typography variant='caption' color='text.secondary' sx={{ display: 'block', mb: 1 }}>
+                    {t('translation.sessionSettings.postProcessHelp')}
+                  </Typography>
+                  <TextField
+                    value={postProcessRules}
+                    onChange={e => setPostProcessRules(e.target.value)}
+                    fullWidth
+                    multiline
+                    rows={4}
+                    placeholder={t('translation.sessionSettings.postProcessPlaceholder')}
+                    sx={{
+                      '& .MuiInputBase-input': {
+                        fontFamily: 'monospace',
+                        fontSize: '0.875rem',
+                      },
+                    }}
+                  />
+                  {isEdit && (
+                    <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+                      <Button size='small' startIcon={<PreviewIcon />} onClick={handlePreview} disabled={previewing}>
+                        {t('translation.sessionSettings.postProcessPreview')}
+                      </Button>
+                    </Box>
+                  )}
+                  {previewError && (
+                    <Alert severity='error' sx={{ mt: 1 }}>
+                      {previewError}
+                    </Alert>
+                  )}
+                  {preview === null && (
+                    <Typography variant='caption' color='text.secondary' sx={{ display: 'block', mt: 1 }}>
+                      {t('translation.sessionSettings.postProcessPreviewEmpty')}
+                    </Typography>
+                  )}
+                  {preview && (
+                    <Box sx={{ mt: 1, display: 'flex', flexDirection: 'column', gap: 1 }}>
+                      <Typography variant='caption' color='text.secondary'>
+                        {t('translation.sessionSettings.postProcessPreviewChunk', { order: preview.order + 1 })}
+                        {preview.before === preview.after && ` · ${t('translation.sessionSettings.postProcessPreviewUnchanged')}`}
+                      </Typography>
+                      <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 1 }}>
+                        {(['before', 'after'] as const).map(key => (
+                          <Box key={key}>
+                            <Typography variant='caption' color='text.secondary'>
+                              {t(`translation.sessionSettings.postProcessPreview${key === 'before' ? 'Before' : 'After'}`)}
+                            </Typography>
+                            <Paper variant='outlined' sx={{ p: 1, maxHeight: 200, overflow: 'auto' }}>
+                              <Typography variant='body2' sx={{ whiteSpace: 'pre-wrap' }}>
+                                {preview[key]}
+                              </Typography>
+                            </Paper>
+                          </Box>
+                        ))}
+                      </Box>
+                    </Box>
+                  )}
+                </Box>
+              </Box>
+            </AccordionDetails>
+          </Accordion>
         </Box>
       </DialogContent>
       <DialogActions sx={{ px: 3, pb: 2 }}>
@@ -36,6 +36,7 @@ import {
   PlayArrow as PlayIcon,
   Schedule as PendingIcon,
   Terminal as TerminalIcon,
+  Insights as UsageIcon,
   Settings as SettingsIcon,
   ChevronLeft as ChevronLeftIcon,
 } from '@mui/icons-material';
@@ -63,6 +64,7 @@ interface SessionSidebarProps {
   onEditSession: (session: TranslationSession) => void;
   // 하단 액션 버튼
   onNavigateLogs: () => void;
+  onNavigateUsage: () => void;
   onOpenSettings: () => void;
 }
 
@@ -203,6 +205,7 @@ interface SidebarContentProps {
   onDeleteSession: (id: string) => void;
   onEditSession: (session: TranslationSession) => void;
   onNavigateLogs: () => void;
+  onNavigateUsage: () => void;
   onOpenSettings: () => void;
 }
 
@@ -217,6 +220,7 @@ function SidebarContent({
   onDeleteSession,
   onEditSession,
   onNavigateLogs,
+  onNavigateUsage,
   onOpenSettings,
 }: SidebarContentProps) {
   const { t } = useTranslation();
@@ -395,6 +399,12 @@ function SidebarContent({
             </ListItemIcon>
             <ListItemText primary={<Typography variant='body2'>{t('logs.title')}</Typography>} />
           </ListItemButton>
+          <ListItemButton onClick={onNavigateUsage} sx={{ borderRadius: 2, py: 1 }}>
+            <ListItemIcon sx={{ minWidth: 40 }}>
+              <UsageIcon fontSize='small' />
+            </ListItemIcon>
+            <ListItemText primary={<Typography variant='body2'>{t('usage.title')}</Typography>} />
+          </ListItemButton>
           <ListItemButton onClick={onOpenSettings} sx={{ borderRadius: 2, py: 1 }}>
             <ListItemIcon sx={{ minWidth: 40 }}>
               <SettingsIcon fontSize='small' />
@@ -422,6 +432,7 @@ export default function SessionSidebar({
   onDeleteSession,
   onEditSession,
   onNavigateLogs,
+  onNavigateUsage,
   onOpenSettings,
 }: SessionSidebarProps) {
   const theme = useTheme();
@@ -439,6 +450,7 @@ export default function SessionSidebar({
       onDeleteSession={onDeleteSession}
       onEditSession={onEditSession}
       onNavigateLogs={onNavigateLogs}
+      onNavigateUsage={onNavigateUsage}
       onOpenSettings={onOpenSettings}
     />
   );
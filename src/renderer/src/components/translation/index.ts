@@ -3,7 +3,11 @@ export { default as ChunkProgressPanel } from './ChunkProgressPanel';
 export { default as ControlPanel } from './ControlPanel';
 export { default as SessionDialog } from './SessionDialog';
 export { default as FileUploadZone } from './FileUploadZone';
-export { default as ChunkListView } from './ChunkListView';
+export { default as ChunkListView, type ChunkFilter } from './ChunkListView';
 export { default as SourceEditorTab } from './SourceEditorTab';
 export { default as ChunksTab } from './ChunksTab';
-export { default as ResultTab } from './ResultTab';
\ No newline at end of file
+export { default as ResultTab } from './ResultTab';
+export { default as QueuePanel } from './QueuePanel';
+export { default as ChunkRevisionsDialog } from './ChunkRevisionsDialog';
+export { default as GlossaryDialog } from './GlossaryDialog';
+export { default as CharactersDialog } from './CharactersDialog';
@@ -0,0 +1,61 @@
+import { useTranslation } from 'react-i18next';
+import { Box, Button, FormControl, IconButton, InputLabel, MenuItem, Select, Stack, Tooltip, Typography } from '@mui/material';
+import { Refresh as RefreshIcon, ArrowBack as ArrowBackIcon, Download as DownloadIcon } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import type { UsagePeriod } from '../../stores/usageStore';
+
+const PERIODS: UsagePeriod[] = [7, 30, 90, null];
+
+interface UsageHeaderProps {
+  period: UsagePeriod;
+  onPeriodChange: (period: UsagePeriod) => void;
+  onRefresh: () => void;
+  onExport: () => void;
+}
+
+export default function UsageHeader({ period, onPeriodChange, onRefresh, onExport }: UsageHeaderProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 4, gap: 2, flexWrap: 'wrap' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        <IconButton onClick={() => navigate('/translation')} sx={{ mr: 1 }}>
+          <ArrowBackIcon />
+        </IconButton>
+        <Box>
+          <Typography variant='h4' fontWeight='bold'>
+            {t('usage.title')}
+          </Typography>
+          <Typography variant='body2' color='text.secondary'>
+            {t('usage.subtitle')}
+          </Typography>
+        </Box>
+      </Box>
+      <Stack direction='row' spacing={1} alignItems='center'>
+        <FormControl size='small' sx={{ minWidth: 140 }}>
+          <InputLabel>{t('usage.period')}</InputLabel>
+          <Select
+            value={period === null ? 'all' : String(period)}
+            label={t('usage.period')}
+            onChange={e => onPeriodChange(e.target.value === 'all' ? null : (Number(e.target.value) as UsagePeriod))}
+          >
+            {PERIODS.map(days => (
+              <MenuItem key={days ?? 'all'} value={days === null ? 'all' : String(days)}>
+                {days === null ? t('usage.allTime') : t('usage.lastDays', { count: days })}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Tooltip title={t('common.refresh')}>
+          <IconButton onClick={onRefresh}>
+            <RefreshIcon />
+          </IconButton>
+        </Tooltip>
+        <Button variant='outlined' startIcon={<DownloadIcon />} onClick={onExport}>
+          {t('usage.exportCsv')}
+        </Button>
+      </Stack>
+    </Box>
+  );
+}
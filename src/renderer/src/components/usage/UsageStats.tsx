@@ -0,0 +1,58 @@
+import { useTranslation } from 'react-i18next';
+import { Box, Card, CardContent, Typography, useTheme } from '@mui/material';
+import type { UsageTotals } from '@shared/types';
+import { formatUsd } from './format';
+
+interface UsageStatsProps {
+  totals: UsageTotals;
+}
+
+export default function UsageStats({ totals }: UsageStatsProps) {
+  const { t } = useTranslation();
+  const theme = useTheme();
+
+  return (
+    <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))', gap: 2, mb: 4 }}>
+      <Card sx={{ bgcolor: theme.custom.stateBackground.primary.light }}>
+        <CardContent sx={{ py: 2, '&:last-child': { pb: 2 } }}>
+          <Typography variant='h4' fontWeight='bold'>
+            {t('usage.cost', { cost: formatUsd(totals.costUsd) })}
+          </Typography>
+          <Typography variant='body2' color='text.secondary'>
+            {t('usage.stats.cost')}
+          </Typography>
+        </CardContent>
+      </Card>
+      <Card sx={{ bgcolor: theme.custom.stateBackground.secondary.light }}>
+        <CardContent sx={{ py: 2, '&:last-child': { pb: 2 } }}>
+          <Typography variant='h4' fontWeight='bold'>
+            {totals.requests.toLocaleString()}
+          </Typography>
+          <Typography variant='body2' color='text.secondary'>
+            {t('usage.stats.requests')}
+          </Typography>
+        </CardContent>
+      </Card>
+      <Card sx={{ bgcolor: theme.custom.stateBackground.info.light }}>
+        <CardContent sx={{ py: 2, '&:last-child': { pb: 2 } }}>
+          <Typography variant='h4' fontWeight='bold'>
+            {totals.promptTokens.toLocaleString()}
+          </Typography>
+          <Typography variant='body2' color='text.secondary'>
+            {t('usage.stats.promptTokens')}
+          </Typography>
+        </CardContent>
+      </Card>
+      <Card sx={{ bgcolor: theme.custom.stateBackground.success.light }}>
+        <CardContent sx={{ py: 2, '&:last-child': { pb: 2 } }}>
+          <Typography variant='h4' fontWeight='bold'>
+            {(totals.completionTokens + totals.thinkingTokens).toLocaleString()}
+          </Typography>
+          <Typography variant='body2' color='text.secondary'>
+            {t('usage.stats.outputTokens', { thinking: totals.thinkingTokens.toLocaleString() })}
+          </Typography>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CircularProgress,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tabs,
+  Typography,
+} from '@mui/material';
+import type { UsageSummary, UsageTotals } from '@shared/types';
+import { formatUsd } from './format';
+
+type UsageGrouping = 'session' | 'model' | 'day';
+
+// 표 한 줄 (기준별 이름 + 합계, 가격 정보가 없는 모델은 비용 대신 '-')
+interface UsageRow {
+  key: string;
+  label: string;
+  muted: boolean; // 세션과 무관한 호출 / 삭제된 세션
+  priced: boolean;
+  totals: UsageTotals;
+}
+
+interface UsageTableProps {
+  summary: UsageSummary | null;
+  loading: boolean;
+}
+
+export default function UsageTable({ summary, loading }: UsageTableProps) {
+  const { t } = useTranslation();
+  const [grouping, setGrouping] = useState<UsageGrouping>('session');
+
+  const getRows = (): UsageRow[] => {
+    if (!summary) {
+      return [];
+    }
+
+    switch (grouping) {
+      case 'session':
+        return summary.bySession.map(usage => ({
+          key: usage.sessionId ?? '',
+          label: usage.sessionTitle ?? t('usage.noSession'),
+          muted: usage.sessionTitle === null,
+          priced: true,
+          totals: usage,
+        }));
+      case 'model':
+        return summary.byModel.map(usage => ({ key: usage.model, label: usage.model, muted: false, priced: usage.priced, totals: usage }));
+      case 'day':
+        return summary.byDay.map(usage => ({ key: usage.date, label: usage.date, muted: false, priced: true, totals: usage }));
+    }
+  };
+
+  const rows = getRows();
+
+  return (
+    <Card>
+      <Tabs
+        value={grouping}
+        onChange={(_e, value: UsageGrouping) => setGrouping(value)}
+        sx={{ px: 2, borderBottom: 1, borderColor: 'divider' }}
+      >
+        <Tab value='session' label={t('usage.bySession')} />
+        <Tab value='model' label={t('usage.byModel')} />
+        <Tab value='day' label={t('usage.byDay')} />
+      </Tabs>
+      <TableContainer>
+        <Table size='small'>
+          <TableHead>
+            <TableRow>
+              <TableCell>{t(`usage.columns.${grouping}`)}</TableCell>
+              <TableCell align='right'>{t('usage.columns.requests')}</TableCell>
+              <TableCell align='right'>{t('usage.columns.promptTokens')}</TableCell>
+              <TableCell align='right'>{t('usage.columns.completionTokens')}</TableCell>
+              <TableCell align='right'>{t('usage.columns.thinkingTokens')}</TableCell>
+              <TableCell align='right'>{t('usage.columns.totalTokens')}</TableCell>
+              <TableCell align='right'>{t('usage.columns.cost')}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} align='center' sx={{ py: 8 }}>
+                  <CircularProgress />
+                </TableCell>
+              </TableRow>
+            ) : rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} align='center' sx={{ py: 8 }}>
+                  <Typography color='text.secondary'>{t('usage.empty')}</Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map(row => (
+                <TableRow key={row.key} hover>
+                  <TableCell>
+                    <Typography variant='body2' color={row.muted ? 'text.secondary' : 'text.primary'} noWrap sx={{ maxWidth: 360 }}>
+                      {row.label}
+                    </Typography>
+                  </TableCell>
+                  <TableCell align='right'>{row.totals.requests.toLocaleString()}</TableCell>
+                  <TableCell align='right'>{row.totals.promptTokens.toLocaleString()}</TableCell>
+                  <TableCell align='right'>{row.totals.completionTokens.toLocaleString()}</TableCell>
+                  <TableCell align='right'>{row.totals.thinkingTokens.toLocaleString()}</TableCell>
+                  <TableCell align='right'>{row.totals.totalTokens.toLocaleString()}</TableCell>
+                  <TableCell align='right'>{row.priced ? t('usage.cost', { cost: formatUsd(row.totals.costUsd) }) : '-'}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Card>
+  );
+}
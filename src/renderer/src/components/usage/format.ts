@@ -0,0 +1,4 @@
+// 1달러 미만은 작은 금액도 보이도록 소수점 4자리까지
+export function formatUsd(value: number): string {
+  return value.toFixed(value > 0 && value < 1 ? 4 : 2);
+}
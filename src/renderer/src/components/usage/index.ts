@@ -0,0 +1,3 @@
+export { default as UsageHeader } from './UsageHeader';
+export { default as UsageStats } from './UsageStats';
+export { default as UsageTable } from './UsageTable';
@@ -126,6 +126,43 @@ export default {
       cleanupResult: '{{count}} logs have been cleaned up.',
     },
 
+    // Usage
+    usage: {
+      title: 'Usage',
+      subtitle: 'Gemini API tokens and estimated cost',
+      empty: 'No API calls in this period',
+      period: 'Period',
+      lastDays: 'Last {{count}} days',
+      allTime: 'All time',
+      exportCsv: 'Export CSV',
+      cost: '${{cost}}',
+      noSession: 'No session (or deleted)',
+      bySession: 'By Session',
+      byModel: 'By Model',
+      byDay: 'By Day',
+      stats: {
+        cost: 'Estimated Cost',
+        requests: 'API Calls',
+        promptTokens: 'Input Tokens',
+        outputTokens: 'Output Tokens (thinking {{thinking}})',
+      },
+      columns: {
+        session: 'Session',
+        model: 'Model',
+        day: 'Date',
+        requests: 'Calls',
+        promptTokens: 'Input',
+        completionTokens: 'Output',
+        thinkingTokens: 'Thinking',
+        totalTokens: 'Total',
+        cost: 'Cost',
+      },
+      errors: {
+        loadFailed: 'Failed to load usage',
+        exportFailed: 'Failed to export usage',
+      },
+    },
+
     // Translation
     translation: {
       title: 'Translation',
@@ -145,10 +182,146 @@ export default {
       sessionCreated: 'Session created',
       sessionDeleted: 'Session deleted',
 
-      // Custom Dict
-      customDict: 'Custom Dictionary',
-      customDictHelp: 'Enter one term per line in "source=translation" format',
-      customDictPlaceholder: 'Harry Potter=해리 포터\nHogwarts=호그와트',
+      // Custom Dict (용어집 도입 전의 사전)
+      customDict: 'Custom Dictionary (Legacy)',
+      customDictHelp:
+        'Your dictionary from before the glossary. Its "source=translation" lines were copied to the glossary, and templates that use session.customDict still read this field.',
+
+      // Glossary
+      glossary: {
+        title: 'Glossary',
+        open: 'Glossary',
+        help: "Terms whose source term appears in a chunk are added to that chunk's prompt. Session terms take precedence over global terms with the same source term.",
+        scopeSession: 'This Session',
+        scopeGlobal: 'Global',
+        search: 'Search terms',
+        add: 'Add Term',
+        import: 'Import CSV',
+        importHelp: 'Columns: sourceTerm, targetTerm, partOfSpeech, notes, caseSensitive. Terms with the same source term are overwritten.',
+        export: 'Export CSV',
+        sourceTerm: 'Source Term',
+        targetTerm: 'Translation',
+        partOfSpeech: 'Part of Speech',
+        notes: 'Notes',
+        caseSensitive: 'Case-sensitive',
+        duplicate: 'This term already exists',
+        empty: 'No terms yet.',
+        noResults: 'No matching terms.',
+        confirmDelete: 'Delete the term "{{term}}"?',
+        imported: 'Glossary imported: {{added}} added, {{updated}} updated, {{skipped}} skipped',
+        terms: 'Terms',
+        report: 'Usage Report',
+        reportHelp:
+          'Translated chunks are checked against the current glossary. A term is flagged when its source term appears in the chunk but its translation does not.',
+        reportSummary: '{{violating}} of {{checked}} translated chunks miss glossary terms',
+        reportNoChunks: 'No translated chunks to check yet.',
+        reportEmpty: 'Every translated chunk uses the glossary terms.',
+        missing: 'Missing',
+        untranslated: 'Untranslated',
+        chunks: 'Chunks',
+        label: 'Glossary',
+        filter: 'Glossary Issues',
+        violation: {
+          missing: '"{{source}}" should be "{{target}}"',
+          untranslated: '"{{source}}" was left untranslated (expected "{{target}}")',
+        },
+        extract: {
+          title: 'Extract Terms',
+          help: 'Send the source text to the configured model to collect proper nouns, recurring terms and honorifics with proposed translations. Review the list and add the terms you want to this session. Terms already in the glossary are skipped.',
+          modeSample: 'Sample',
+          modeAll: 'All Chunks',
+          sampleSize: 'Chunks to Sample',
+          start: 'Extract',
+          stop: 'Stop',
+          progress: '{{processed}} / {{total}} chunks · {{candidates}} candidates',
+          failedChunks: 'Extraction failed for {{count}} chunk(s). Their terms are missing from the list.',
+          empty: 'No new terms were found.',
+          category: 'Category',
+          frequency: 'Occurrences',
+          categories: {
+            name: 'Name',
+            term: 'Term',
+            honorific: 'Honorific',
+          },
+          accept: 'Add {{count}} to Glossary',
+          added: 'Glossary updated: {{added}} added, {{updated}} updated, {{skipped}} skipped',
+          errors: {
+            failed: 'Failed to extract terms',
+          },
+        },
+        corrections: 'Glossary Corrections',
+        correctionsHelp:
+          'When a translated chunk misses glossary terms, ask the model to fix only those terms up to this many times. The correction is kept only if it misses fewer terms. 0 disables',
+        errors: {
+          loadFailed: 'Failed to load the glossary',
+          saveFailed: 'Failed to save the term',
+          deleteFailed: 'Failed to delete the term',
+          importFailed: 'Failed to import the CSV file',
+          exportFailed: 'Failed to export the glossary',
+          reportFailed: 'Failed to check glossary usage',
+        },
+      },
+      characterProfiles: {
+        open: 'Characters',
+        title: 'Characters',
+        help: 'Names, speech levels and notes for characters whose name or alias appears in a chunk are added to the prompt, so the translation stays consistent across chunks',
+        add: 'Add Character',
+        empty: 'No characters yet',
+        name: 'Name',
+        targetName: 'Translated Name',
+        aliases: 'Aliases',
+        aliasesHelp: 'Other names used in the source text, separated by commas',
+        gender: 'Gender',
+        genders: {
+          female: 'Female',
+          male: 'Male',
+          other: 'Other',
+        },
+        role: 'Role',
+        notes: 'Notes',
+        speech: 'Speech Level',
+        defaultSpeechLevel: 'Default Speech Level',
+        speechLevels: {
+          formal: 'Formal',
+          polite: 'Polite',
+          casual: 'Casual',
+        },
+        speechTowardHelp: 'Speech level toward specific characters, when it differs from the default',
+        addSpeechToward: 'Add Speech Level Toward…',
+        unspecified: 'Not set',
+        duplicate: 'A character with this name already exists',
+        confirmDelete: 'Delete character "{{name}}"?',
+        errors: {
+          loadFailed: 'Failed to load characters',
+          saveFailed: 'Failed to save character',
+          deleteFailed: 'Failed to delete character',
+        },
+      },
+
+      // Session Settings
+      sessionSettings: {
+        title: 'Translation Settings for This Session',
+        help: 'Leave a setting empty to use the global value from Settings.',
+        inherit: 'Use global ({{value}})',
+        inheritTemplate: 'Use the template selected in the chunk tab',
+        templateLocked: 'This session always uses its own template. Change it in the session settings.',
+        chunkSize: 'Chunk Size',
+        temperature: 'Temperature',
+        maxOutputTokens: 'Max Output Tokens',
+        topP: 'Top-P',
+        topK: 'Top-K',
+        postProcess: 'Post-processing Rules',
+        postProcessHelp:
+          'YAML list applied in order to each translated chunk, after the rules in the template front matter. Rule types: replace (pattern, replacement, flags), quotes (curly / straight / corner), ellipsis (unicode / dots), stripPreamble.',
+        postProcessPlaceholder:
+          "- type: stripPreamble\n- type: ellipsis\n  style: unicode\n- type: replace\n  pattern: '\\s+$'\n  flags: gm",
+        postProcessPreview: 'Preview',
+        postProcessPreviewChunk: 'Chunk #{{order}}',
+        postProcessPreviewUnchanged: 'No changes',
+        postProcessPreviewEmpty: 'No translated chunks to preview yet.',
+        postProcessPreviewBefore: 'Current',
+        postProcessPreviewAfter: 'With rules',
+      },
 
       // Tabs
       tabs: {
@@ -190,6 +363,7 @@ export default {
       chunks: 'chunks',
       completed: 'Completed',
       failed: 'Failed',
+      blocked: 'Blocked',
       pending: 'Pending',
       complete: 'Complete',
       clickToRetry: 'Click to retry',
@@ -208,6 +382,7 @@ export default {
         processing: 'Processing',
         completed: 'Completed',
         failed: 'Failed',
+        blocked: 'Blocked',
       },
 
       // Filter
@@ -218,11 +393,85 @@ export default {
       retryChunk: 'Retry Chunk',
       translateChunk: 'Translate Chunk',
       retranslateChunk: 'Retranslate',
+      manuallyEdited: 'Edited',
+      manuallyEditedHelp: 'Edited by hand. Retranslating the whole session keeps this text unless you choose to include edited chunks',
+      revertChunkText: 'Revert',
+      truncation: {
+        continued: 'Continued',
+        continuedHelp: 'The output hit the token limit and was completed with follow-up requests',
+        truncated: 'Truncated',
+        truncatedHelp: 'The output kept hitting the token limit. Raise Max Output Tokens or split this chunk and try again',
+      },
+      blockedHelp: 'Blocked by Gemini ({{reason}}). The source text is kept in the final translation until you retry or edit this chunk',
+      qa: {
+        title: 'Quality Checks',
+        help: 'Each translated chunk is checked for unusual length, untranslated source text, missing paragraphs, repetition loops and leftover prompt formatting',
+        label: 'QA',
+        filter: 'QA Issues',
+        autoRetries: 'Automatic Retranslations',
+        autoRetriesHelp:
+          'Retranslate flagged chunks up to this many times. The new output replaces the old one only if it has fewer issues. 0 disables',
+        flags: {
+          length_ratio: 'Unusual length compared to the source',
+          residual_source_script: 'Untranslated source text remains',
+          paragraph_mismatch: 'Paragraph count differs from the source',
+          repetition: 'Repeated sentences',
+          template_artifact: 'Prompt formatting in the output',
+        },
+      },
+      memory: {
+        title: 'Translation Memory',
+        help: 'Completed chunks from other sessions are matched paragraph by paragraph. Similar paragraphs are added to the prompt as reference translations',
+        mode: 'Mode',
+        modes: {
+          off: 'Off',
+          reference: 'Reference similar translations only',
+          reuse: 'Reuse exact matches without calling the API',
+        },
+        exact: 'TM',
+        exactHelp: 'Reused from an earlier translation of the same text. No API request was made',
+        fuzzy: 'TM Reference',
+        fuzzyHelp: 'Similar earlier translations were included in the prompt as references',
+        filter: 'Translation Memory',
+      },
+      costEstimate: {
+        title: 'Estimated Cost',
+        label: '≈ ${{cost}}',
+        labelTokens: '≈ {{tokens}} tokens',
+        tokens: 'Input ≈ {{input}} tokens, output ≈ {{output}} tokens (×{{ratio}} of the source text)',
+        chunks: '{{count}} chunks to translate',
+        reused: '{{count}} chunks reused from translation memory',
+        sourceApi: 'Input tokens counted with the Gemini API',
+        sourceLocal: 'Estimated locally because the Gemini API could not be reached',
+        confirm:
+          'This translation is estimated to cost about ${{cost}} ({{input}} input / {{output}} output tokens), which is above ${{threshold}}. Start anyway?',
+        settingsHelp: 'Before a translation starts, its cost is estimated from the prompts and the model prices',
+        threshold: 'Confirm Above (USD)',
+        thresholdHelp: 'Ask before starting when the estimate is higher. 0 turns this off',
+      },
+      summary: {
+        title: 'Story So Far',
+        help: 'A running synopsis of the translated text is added to the prompt as background. It is updated after every few completed chunks',
+        interval: 'Update Interval (chunks)',
+        intervalHelp: '0 turns the summary off',
+        model: 'Summary Model',
+        sameAsTranslation: 'Same as translation model',
+        sessionHelp:
+          'Updated automatically during translation. You can edit it, and clearing it starts the summary over from the first chunk',
+      },
+      chunkTextSaved: 'Translation saved',
+      splitChunk: 'Split at Cursor',
+      splitChunkHelp: 'Click in the source text where the new chunk should start',
+      mergeWithNext: 'Merge with Next',
+      chunkSplit: 'Chunk split',
+      chunksMerged: 'Chunks merged',
 
       // Controls
       startTranslation: 'Start Translation',
       pause: 'Pause',
       resume: 'Resume',
+      cancelTranslation: 'Cancel',
+      retranslateAll: 'Retranslate All',
       retryFailed: 'Retry Failed',
       translating: 'Translating...',
       settings: 'Settings',
@@ -250,6 +499,10 @@ export default {
       chunkSize: 'Chunk Size',
       characters: 'chars',
       chunkSizeHelp: 'Larger chunks preserve more context, but increase retry cost on errors',
+      concurrency: 'Concurrent Chunks',
+      concurrencyHelp: 'Number of chunks translated in parallel. Higher values finish faster but hit API rate limits sooner',
+      queueConcurrency: 'Concurrent Sessions',
+      queueConcurrencyHelp: 'Number of queued sessions translated at the same time. All sessions share the same API rate limits',
       configUpdated: 'Settings saved',
       advancedSettings: 'Advanced Settings',
       temperature: 'Temperature',
@@ -259,6 +512,30 @@ export default {
       maxOutputTokensHelp: 'Maximum number of tokens to generate. Leave empty to use model default',
       topPHelp: 'Cumulative probability sampling. Lower values reduce diversity',
       topKHelp: 'Sample from top K tokens only. Leave empty to disable',
+      autoRetry: 'Automatic Retry',
+      autoRetryHelp: 'Rate limit, server and timeout errors are retried with exponential backoff before the chunk is marked as failed',
+      maxAttempts: 'Max Attempts',
+      retryBaseDelay: 'Initial Delay',
+      retryMaxDelay: 'Max Delay',
+      blockedFallback: {
+        title: 'Blocked Chunks',
+        help: 'When Gemini blocks a chunk for safety or policy reasons, try once more with another template or model, or skip it and keep the source text',
+        action: 'When Blocked',
+        skip: 'Skip (keep source text)',
+        template: 'Retry with another template',
+        model: 'Retry with another model',
+        fallbackTemplate: 'Fallback Template',
+        fallbackModel: 'Fallback Model',
+      },
+      seconds: 's',
+      rateLimits: 'Rate Limits',
+      rateLimitsHelp:
+        'Requests are queued so the selected model stays within these limits. Leave empty to use the model default, 0 disables the limit',
+      rpm: 'Requests / min',
+      tpm: 'Tokens / min',
+      rpd: 'Requests / day',
+      rateLimitQueued: '{{count}} queued',
+      rateLimitQueuedHelp: 'Requests waiting for the API rate limit window to free up',
       default: 'Default',
       enable: 'Enable',
       useDefault: 'Use Default',
@@ -276,6 +553,68 @@ export default {
       // Confirm
       confirm: {
         deleteSession: 'Delete this session? All translation data will be deleted.',
+        cancelTranslation: 'Stop translating this session? Chunks already translated are kept.',
+        retranslateAll: 'Retranslate every chunk with the selected template? Current translations stay in each chunk history.',
+        retranslateEdited: '{{count}} chunk(s) were edited by hand. Retranslate them too? Choose cancel to keep your edits.',
+        splitChunk: 'Split chunk #{{order}} here? Its current translation is cleared and both parts will be translated again.',
+        mergeChunks:
+          'Merge chunk #{{order}} with the next chunk? Their current translations are cleared and the merged chunk will be translated again.',
+      },
+
+      // Chunk revisions
+      revisions: {
+        title: 'Translation History',
+        empty: 'No translation history for this chunk',
+        current: 'Current',
+        promote: 'Use This Version',
+        promoted: 'Translation restored',
+        origin: {
+          auto: 'Auto',
+          retry: 'Retranslated',
+          manual: 'Edited',
+          memory: 'Translation Memory',
+        },
+      },
+
+      // Translation queue
+      queue: {
+        title: 'Translation Queue',
+        open: 'Open translation queue',
+        running: 'Running',
+        waiting: 'Waiting',
+        finished: 'Finished',
+        empty: 'No sessions in the queue',
+        queuedAt: 'Queued #{{position}}',
+        addSessions: 'Add Sessions',
+        addSessionsHelp: 'Selected sessions are translated in order with the current prompt template',
+        add: 'Add to Queue',
+        moveUp: 'Move up',
+        moveDown: 'Move down',
+        moveToTop: 'Move to top',
+        remove: 'Remove from queue',
+        clearFinished: 'Clear Finished',
+        status: {
+          queued: 'Queued',
+          running: 'Running',
+          paused: 'Paused',
+          done: 'Done',
+          failed: 'Failed',
+          canceled: 'Canceled',
+        },
+      },
+
+      // Interrupted session recovery
+      rechunk: {
+        title: 'Re-chunk Source',
+        confirm:
+          'The new source splits into {{total}} chunk(s): {{kept}} kept, {{changed}} changed, {{added}} new, {{removed}} removed. Kept chunks keep their translations; changed and new chunks will be translated again. Continue?',
+      },
+
+      recovery: {
+        title: 'Interrupted Translations',
+        interrupted: '{{count}} session(s) were interrupted when the app was last closed and have been paused.',
+        interruptedResume:
+          '{{count}} session(s) were interrupted when the app was last closed and have been paused. Resume them with the template they were using?',
       },
 
       // Errors
@@ -285,6 +624,15 @@ export default {
         loadSessionFailed: 'Failed to load session',
         updateSessionFailed: 'Failed to update session',
         deleteSessionFailed: 'Failed to delete session',
+        resumeInterruptedFailed: 'Failed to resume some interrupted sessions',
+        loadQueueFailed: 'Failed to load the translation queue',
+        enqueueFailed: 'Failed to add some sessions to the queue',
+        updateQueueFailed: 'Failed to update the translation queue',
+        loadRevisionsFailed: 'Failed to load translation history',
+        promoteRevisionFailed: 'Failed to restore translation',
+        saveChunkTextFailed: 'Failed to save translation',
+        splitChunkFailed: 'Failed to split chunk',
+        mergeChunksFailed: 'Failed to merge chunks',
         noSourceText: 'Please enter text to translate',
         noSessionSelected: 'Please select a session first',
         noTemplateSelected: 'Please select a prompt template',
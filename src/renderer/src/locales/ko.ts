@@ -126,6 +126,43 @@ export default {
       cleanupResult: '{{count}}개의 로그가 정리되었습니다.',
     },
 
+    // Usage
+    usage: {
+      title: '사용량',
+      subtitle: 'Gemini API 토큰 사용량과 예상 비용',
+      empty: '이 기간에 API 호출이 없습니다',
+      period: '기간',
+      lastDays: '최근 {{count}}일',
+      allTime: '전체 기간',
+      exportCsv: 'CSV 내보내기',
+      cost: '${{cost}}',
+      noSession: '세션 없음 (또는 삭제됨)',
+      bySession: '세션별',
+      byModel: '모델별',
+      byDay: '일별',
+      stats: {
+        cost: '예상 비용',
+        requests: 'API 호출',
+        promptTokens: '입력 토큰',
+        outputTokens: '출력 토큰 (사고 {{thinking}})',
+      },
+      columns: {
+        session: '세션',
+        model: '모델',
+        day: '날짜',
+        requests: '호출',
+        promptTokens: '입력',
+        completionTokens: '출력',
+        thinkingTokens: '사고',
+        totalTokens: '합계',
+        cost: '비용',
+      },
+      errors: {
+        loadFailed: '사용량을 불러오는데 실패했습니다',
+        exportFailed: '사용량 내보내기에 실패했습니다',
+      },
+    },
+
     // Translation
     translation: {
       title: '번역',
@@ -145,10 +182,145 @@ export default {
       sessionCreated: '세션이 생성되었습니다',
       sessionDeleted: '세션이 삭제되었습니다',
 
-      // Custom Dict
-      customDict: '사용자 사전',
-      customDictHelp: '원문=번역문 형식으로 한 줄에 하나씩 입력하세요',
-      customDictPlaceholder: 'Harry Potter=해리 포터\nHogwarts=호그와트',
+      // Custom Dict (용어집 도입 전의 사전)
+      customDict: '사용자 사전 (이전 형식)',
+      customDictHelp:
+        '용어집 도입 전의 사전입니다. "원문=번역문" 줄은 용어집에 복사되었고, session.customDict를 쓰는 템플릿은 계속 이 내용을 사용합니다.',
+
+      // Glossary
+      glossary: {
+        title: '용어집',
+        open: '용어집',
+        help: '청크 원문에 등장하는 용어만 해당 청크의 프롬프트에 포함됩니다. 원문 용어가 같으면 세션 용어가 전역 용어보다 우선합니다.',
+        scopeSession: '이 세션',
+        scopeGlobal: '전역',
+        search: '용어 검색',
+        add: '용어 추가',
+        import: 'CSV 가져오기',
+        importHelp: '열: sourceTerm, targetTerm, partOfSpeech, notes, caseSensitive. 원문 용어가 같은 항목은 덮어씁니다.',
+        export: 'CSV 내보내기',
+        sourceTerm: '원문 용어',
+        targetTerm: '번역어',
+        partOfSpeech: '품사',
+        notes: '메모',
+        caseSensitive: '대소문자 구분',
+        duplicate: '이미 있는 용어입니다',
+        empty: '등록된 용어가 없습니다.',
+        noResults: '일치하는 용어가 없습니다.',
+        confirmDelete: '"{{term}}" 용어를 삭제하시겠습니까?',
+        imported: '용어집 가져오기 완료: 추가 {{added}}개, 갱신 {{updated}}개, 건너뜀 {{skipped}}개',
+        terms: '용어',
+        report: '용어 준수 보고서',
+        reportHelp: '번역된 청크를 현재 용어집으로 검사합니다. 청크에 원문 용어가 있는데 지정한 번역어가 없으면 위반으로 표시합니다.',
+        reportSummary: '번역된 청크 {{checked}}개 중 {{violating}}개가 용어를 지키지 않았습니다',
+        reportNoChunks: '아직 검사할 번역된 청크가 없습니다.',
+        reportEmpty: '모든 번역된 청크가 용어를 지켰습니다.',
+        missing: '번역어 없음',
+        untranslated: '번역 안 됨',
+        chunks: '청크',
+        label: '용어',
+        filter: '용어 문제',
+        violation: {
+          missing: '"{{source}}" → "{{target}}"(으)로 번역되지 않음',
+          untranslated: '"{{source}}"이(가) 번역되지 않고 남음 ("{{target}}" 필요)',
+        },
+        extract: {
+          title: '용어 추출',
+          help: '원문을 설정한 모델에 보내 고유명사, 반복되는 용어, 호칭을 번역어 제안과 함께 모읍니다. 목록을 검토한 뒤 원하는 용어를 이 세션의 용어집에 추가하세요. 이미 용어집에 있는 용어는 제외됩니다.',
+          modeSample: '샘플',
+          modeAll: '전체 청크',
+          sampleSize: '샘플 청크 수',
+          start: '추출',
+          stop: '중단',
+          progress: '{{processed}} / {{total}} 청크 · 후보 {{candidates}}개',
+          failedChunks: '청크 {{count}}개에서 추출에 실패했습니다. 해당 청크의 용어는 목록에 없습니다.',
+          empty: '새로운 용어를 찾지 못했습니다.',
+          category: '분류',
+          frequency: '등장 횟수',
+          categories: {
+            name: '고유명사',
+            term: '용어',
+            honorific: '호칭',
+          },
+          accept: '{{count}}개 용어집에 추가',
+          added: '용어집 갱신: 추가 {{added}}개, 갱신 {{updated}}개, 건너뜀 {{skipped}}개',
+          errors: {
+            failed: '용어를 추출하지 못했습니다',
+          },
+        },
+        corrections: '용어 교정 요청 횟수',
+        correctionsHelp:
+          '번역된 청크가 용어를 지키지 않았으면 해당 용어만 고치도록 최대 이 횟수만큼 요청합니다. 위반이 더 적을 때만 교정본을 사용합니다. 0은 사용 안 함입니다',
+        errors: {
+          loadFailed: '용어집을 불러오지 못했습니다',
+          saveFailed: '용어를 저장하지 못했습니다',
+          deleteFailed: '용어를 삭제하지 못했습니다',
+          importFailed: 'CSV 파일을 가져오지 못했습니다',
+          exportFailed: '용어집을 내보내지 못했습니다',
+          reportFailed: '용어 준수 여부를 검사하지 못했습니다',
+        },
+      },
+      characterProfiles: {
+        open: '등장인물',
+        title: '등장인물',
+        help: '청크에 이름이나 별명이 나오는 인물의 번역명, 말투, 메모를 프롬프트에 추가해 청크가 바뀌어도 번역이 일관되게 유지되도록 합니다',
+        add: '인물 추가',
+        empty: '등록된 인물이 없습니다',
+        name: '이름',
+        targetName: '번역명',
+        aliases: '별명',
+        aliasesHelp: '원문에서 이 인물을 가리키는 다른 이름 (쉼표로 구분)',
+        gender: '성별',
+        genders: {
+          female: '여성',
+          male: '남성',
+          other: '기타',
+        },
+        role: '역할',
+        notes: '메모',
+        speech: '말투',
+        defaultSpeechLevel: '기본 말투',
+        speechLevels: {
+          formal: '격식체',
+          polite: '존댓말',
+          casual: '반말',
+        },
+        speechTowardHelp: '기본 말투와 다르게 말하는 상대가 있으면 추가하세요',
+        addSpeechToward: '상대별 말투 추가',
+        unspecified: '지정 안 함',
+        duplicate: '같은 이름의 인물이 이미 있습니다',
+        confirmDelete: '"{{name}}" 인물을 삭제할까요?',
+        errors: {
+          loadFailed: '등장인물을 불러오지 못했습니다',
+          saveFailed: '인물을 저장하지 못했습니다',
+          deleteFailed: '인물을 삭제하지 못했습니다',
+        },
+      },
+
+      // Session Settings
+      sessionSettings: {
+        title: '이 세션의 번역 설정',
+        help: '비워 둔 항목은 설정 화면의 전역 값을 사용합니다.',
+        inherit: '전역 설정 사용 ({{value}})',
+        inheritTemplate: '청크 탭에서 선택한 템플릿 사용',
+        templateLocked: '이 세션은 지정된 템플릿을 사용합니다. 세션 설정에서 변경하세요.',
+        chunkSize: '청크 크기',
+        temperature: 'Temperature',
+        maxOutputTokens: '최대 출력 토큰',
+        topP: 'Top-P',
+        topK: 'Top-K',
+        postProcess: '후처리 규칙',
+        postProcessHelp:
+          '번역된 청크마다 템플릿 front matter의 규칙 다음에 순서대로 적용되는 YAML 목록입니다. 규칙 종류: replace (pattern, replacement, flags), quotes (curly / straight / corner), ellipsis (unicode / dots), stripPreamble.',
+        postProcessPlaceholder:
+          "- type: stripPreamble\n- type: ellipsis\n  style: unicode\n- type: replace\n  pattern: '\\s+$'\n  flags: gm",
+        postProcessPreview: '미리보기',
+        postProcessPreviewChunk: '청크 #{{order}}',
+        postProcessPreviewUnchanged: '변경 없음',
+        postProcessPreviewEmpty: '미리볼 번역된 청크가 아직 없습니다.',
+        postProcessPreviewBefore: '현재',
+        postProcessPreviewAfter: '규칙 적용',
+      },
 
       // Tabs
       tabs: {
@@ -190,6 +362,7 @@ export default {
       chunks: '청크',
       completed: '완료',
       failed: '실패',
+      blocked: '차단됨',
       pending: '대기',
       complete: '완료',
       clickToRetry: '클릭하여 재시도',
@@ -208,6 +381,7 @@ export default {
         processing: '처리 중',
         completed: '완료',
         failed: '실패',
+        blocked: '차단됨',
       },
 
       // Filter
@@ -218,11 +392,84 @@ export default {
       retryChunk: '청크 재시도',
       translateChunk: '청크 번역',
       retranslateChunk: '재번역',
+      manuallyEdited: '수정됨',
+      manuallyEditedHelp: '직접 수정한 번역문입니다. 전체 재번역 시 수정한 청크를 포함하도록 선택하지 않으면 그대로 유지됩니다',
+      revertChunkText: '되돌리기',
+      truncation: {
+        continued: '이어서 생성',
+        continuedHelp: '출력 토큰 한도에 걸려 후속 요청으로 나머지 번역을 이어 받았습니다',
+        truncated: '잘림',
+        truncatedHelp: '계속 출력 토큰 한도에 걸렸습니다. 최대 출력 토큰을 늘리거나 청크를 분할한 뒤 다시 시도하세요',
+      },
+      blockedHelp: 'Gemini가 차단했습니다 ({{reason}}). 다시 번역하거나 직접 수정하기 전까지 최종 번역문에는 원문이 들어갑니다',
+      qa: {
+        title: '품질 검사',
+        help: '번역된 청크마다 비정상적인 길이, 번역되지 않은 원문, 빠진 문단, 반복 생성, 프롬프트 형식 잔여물을 검사합니다',
+        label: 'QA',
+        filter: '품질 문제',
+        autoRetries: '자동 재번역 횟수',
+        autoRetriesHelp:
+          '문제가 발견된 청크를 최대 이 횟수만큼 다시 번역합니다. 문제가 더 적을 때만 새 번역문으로 바꿉니다. 0은 사용 안 함입니다',
+        flags: {
+          length_ratio: '원문 대비 길이가 비정상적임',
+          residual_source_script: '번역되지 않은 원문이 남아 있음',
+          paragraph_mismatch: '문단 수가 원문과 다름',
+          repetition: '같은 문장이 반복됨',
+          template_artifact: '출력에 프롬프트 형식이 섞임',
+        },
+      },
+      memory: {
+        title: '번역 메모리',
+        help: '다른 세션에서 완료된 청크를 문단 단위로 비교합니다. 비슷한 문단은 참고 번역으로 프롬프트에 추가됩니다',
+        mode: '사용 방식',
+        modes: {
+          off: '사용 안 함',
+          reference: '비슷한 번역만 참고',
+          reuse: '같은 원문은 API 호출 없이 재사용',
+        },
+        exact: 'TM',
+        exactHelp: '같은 원문의 이전 번역을 재사용했습니다. API 요청을 보내지 않았습니다',
+        fuzzy: 'TM 참고',
+        fuzzyHelp: '비슷한 이전 번역을 참고로 프롬프트에 넣었습니다',
+        filter: '번역 메모리',
+      },
+      costEstimate: {
+        title: '예상 비용',
+        label: '≈ ${{cost}}',
+        labelTokens: '≈ {{tokens}} 토큰',
+        tokens: '입력 약 {{input}} 토큰, 출력 약 {{output}} 토큰 (원문의 ×{{ratio}})',
+        chunks: '번역할 청크 {{count}}개',
+        reused: '번역 메모리로 재사용할 청크 {{count}}개',
+        sourceApi: '입력 토큰은 Gemini API로 계산했습니다',
+        sourceLocal: 'Gemini API에 연결할 수 없어 로컬에서 추정했습니다',
+        confirm:
+          '이 번역의 예상 비용은 약 ${{cost}}입니다 (입력 {{input}} / 출력 {{output}} 토큰). ${{threshold}}를 넘습니다. 그래도 시작할까요?',
+        settingsHelp: '번역을 시작하기 전에 프롬프트와 모델 가격으로 비용을 추정합니다',
+        threshold: '확인 기준 (USD)',
+        thresholdHelp: '예상 비용이 이보다 크면 시작하기 전에 묻습니다. 0이면 묻지 않습니다',
+      },
+      summary: {
+        title: '지금까지의 줄거리',
+        help: '번역한 내용의 줄거리를 배경 정보로 프롬프트에 추가합니다. 청크가 몇 개 완료될 때마다 갱신됩니다',
+        interval: '갱신 간격 (청크)',
+        intervalHelp: '0이면 요약하지 않습니다',
+        model: '요약 모델',
+        sameAsTranslation: '번역 모델과 같음',
+        sessionHelp: '번역 중에 자동으로 갱신됩니다. 직접 고칠 수 있고, 비우면 첫 청크부터 다시 요약합니다',
+      },
+      chunkTextSaved: '번역문을 저장했습니다',
+      splitChunk: '커서 위치에서 분할',
+      splitChunkHelp: '원문에서 새 청크가 시작될 위치를 클릭하세요',
+      mergeWithNext: '다음 청크와 병합',
+      chunkSplit: '청크를 분할했습니다',
+      chunksMerged: '청크를 병합했습니다',
 
       // Controls
       startTranslation: '번역 시작',
       pause: '일시정지',
       resume: '재개',
+      cancelTranslation: '취소',
+      retranslateAll: '전체 재번역',
       retryFailed: '실패 청크 재시도',
       translating: '번역 중...',
       settings: '설정',
@@ -250,6 +497,10 @@ export default {
       chunkSize: '청크 크기',
       characters: '자',
       chunkSizeHelp: '청크가 클수록 문맥을 더 잘 이해하지만, 오류 발생 시 재시도 비용이 커집니다',
+      concurrency: '동시 번역 청크 수',
+      concurrencyHelp: '동시에 번역할 청크 수입니다. 높을수록 빨리 끝나지만 API 요청 한도에 더 빨리 도달합니다',
+      queueConcurrency: '동시 번역 세션 수',
+      queueConcurrencyHelp: '대기열에서 동시에 번역할 세션 수입니다. 모든 세션이 같은 API 요청 한도를 나눠 사용합니다',
       configUpdated: '설정이 저장되었습니다',
       advancedSettings: '고급 설정',
       temperature: '온도 (Temperature)',
@@ -258,6 +509,29 @@ export default {
       maxOutputTokensHelp: '생성할 수 있는 최대 토큰 수입니다. 비워두면 모델 기본값을 사용합니다',
       topPHelp: '누적 확률 기반 샘플링. 낮을수록 다양성이 줄어듭니다',
       topKHelp: '상위 K개 토큰에서만 샘플링. 비워두면 비활성화됩니다',
+      autoRetry: '자동 재시도',
+      autoRetryHelp: '요청 한도 초과, 서버 오류, 타임아웃은 청크를 실패로 표시하기 전에 지수 백오프로 다시 시도합니다',
+      maxAttempts: '최대 시도 횟수',
+      retryBaseDelay: '첫 대기 시간',
+      retryMaxDelay: '최대 대기 시간',
+      blockedFallback: {
+        title: '차단된 청크',
+        help: 'Gemini가 안전 / 정책 사유로 청크를 차단하면 다른 템플릿이나 모델로 한 번 더 시도하거나, 건너뛰고 원문을 유지합니다',
+        action: '차단 시',
+        skip: '건너뛰기 (원문 유지)',
+        template: '다른 템플릿으로 재시도',
+        model: '다른 모델로 재시도',
+        fallbackTemplate: '대체 템플릿',
+        fallbackModel: '대체 모델',
+      },
+      seconds: '초',
+      rateLimits: '요청 한도',
+      rateLimitsHelp: '선택한 모델이 이 한도를 넘지 않도록 요청을 대기열에 넣습니다. 비워두면 모델 기본값을 사용하고, 0은 제한 없음입니다',
+      rpm: '분당 요청',
+      tpm: '분당 토큰',
+      rpd: '일일 요청',
+      rateLimitQueued: '{{count}}건 대기 중',
+      rateLimitQueuedHelp: 'API 요청 한도에 여유가 생기기를 기다리는 요청',
       default: '기본값',
       enable: '활성화',
       useDefault: '기본값 사용',
@@ -275,6 +549,67 @@ export default {
       // Confirm
       confirm: {
         deleteSession: '이 세션을 삭제하시겠습니까? 모든 번역 데이터가 삭제됩니다.',
+        cancelTranslation: '이 세션의 번역을 취소하시겠습니까? 이미 번역된 청크는 유지됩니다.',
+        retranslateAll: '선택한 템플릿으로 모든 청크를 다시 번역하시겠습니까? 현재 번역문은 청크별 번역 이력에 남습니다.',
+        retranslateEdited: '직접 수정한 청크가 {{count}}개 있습니다. 이 청크도 다시 번역하시겠습니까? 취소를 누르면 수정본을 유지합니다.',
+        splitChunk: '#{{order}} 청크를 이 위치에서 분할하시겠습니까? 현재 번역문은 비워지고 두 청크 모두 다시 번역합니다.',
+        mergeChunks: '#{{order}} 청크를 다음 청크와 병합하시겠습니까? 현재 번역문은 비워지고 병합된 청크를 다시 번역합니다.',
+      },
+
+      // 청크 번역 이력
+      revisions: {
+        title: '번역 이력',
+        empty: '이 청크의 번역 이력이 없습니다',
+        current: '현재',
+        promote: '이 버전 사용',
+        promoted: '번역문을 되돌렸습니다',
+        origin: {
+          auto: '자동',
+          retry: '재번역',
+          manual: '직접 수정',
+          memory: 'Translation Memory',
+        },
+      },
+
+      // 번역 대기열
+      queue: {
+        title: '번역 대기열',
+        open: '번역 대기열 열기',
+        running: '실행 중',
+        waiting: '대기 중',
+        finished: '종료됨',
+        empty: '대기열에 세션이 없습니다',
+        queuedAt: '대기 {{position}}번',
+        addSessions: '세션 추가',
+        addSessionsHelp: '선택한 세션을 현재 프롬프트 템플릿으로 순서대로 번역합니다',
+        add: '대기열에 추가',
+        moveUp: '위로',
+        moveDown: '아래로',
+        moveToTop: '맨 위로',
+        remove: '대기열에서 제거',
+        clearFinished: '종료된 항목 정리',
+        status: {
+          queued: '대기',
+          running: '실행 중',
+          paused: '일시정지',
+          done: '완료',
+          failed: '실패',
+          canceled: '취소됨',
+        },
+      },
+
+      // 중단된 세션 복구
+      rechunk: {
+        title: '원문 다시 청킹',
+        confirm:
+          '새 원문은 {{total}}개 청크로 나뉩니다: 유지 {{kept}}개, 변경 {{changed}}개, 추가 {{added}}개, 삭제 {{removed}}개. 유지되는 청크는 번역을 그대로 사용하고, 변경 / 추가된 청크만 다시 번역합니다. 계속하시겠습니까?',
+      },
+
+      recovery: {
+        title: '중단된 번역',
+        interrupted: '앱이 종료되면서 {{count}}개 세션의 번역이 중단되어 일시정지 상태로 전환되었습니다.',
+        interruptedResume:
+          '앱이 종료되면서 {{count}}개 세션의 번역이 중단되어 일시정지 상태로 전환되었습니다. 사용하던 템플릿으로 번역을 재개하시겠습니까?',
       },
 
       // Errors
@@ -284,6 +619,15 @@ export default {
         loadSessionFailed: '세션을 불러오는데 실패했습니다',
         updateSessionFailed: '세션 수정에 실패했습니다',
         deleteSessionFailed: '세션 삭제에 실패했습니다',
+        resumeInterruptedFailed: '중단된 세션 일부를 재개하지 못했습니다',
+        loadQueueFailed: '번역 대기열을 불러오지 못했습니다',
+        enqueueFailed: '일부 세션을 대기열에 추가하지 못했습니다',
+        updateQueueFailed: '번역 대기열을 변경하지 못했습니다',
+        loadRevisionsFailed: '번역 이력을 불러오지 못했습니다',
+        promoteRevisionFailed: '번역문을 되돌리지 못했습니다',
+        saveChunkTextFailed: '번역문을 저장하지 못했습니다',
+        splitChunkFailed: '청크를 분할하지 못했습니다',
+        mergeChunksFailed: '청크를 병합하지 못했습니다',
         noSourceText: '번역할 텍스트를 입력하세요',
         noSessionSelected: '세션을 먼저 선택하세요',
         noTemplateSelected: '프롬프트 템플릿을 선택하세요',
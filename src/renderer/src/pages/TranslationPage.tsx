@@ -1,6 +1,6 @@
 import { useEffect, useState, useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Box, Typography, Paper, IconButton, useMediaQuery, useTheme, Tabs, Tab } from '@mui/material';
+import { Box, Typography, Paper, IconButton, Badge, Tooltip, useMediaQuery, useTheme, Tabs, Tab } from '@mui/material';
 import {
   Translate as TranslateIcon,
   Menu as MenuIcon,
@@ -8,13 +8,27 @@ import {
   ViewList as ChunksIcon,
   CheckCircle as ResultIcon,
   Settings as SettingsIcon,
+  QueueOutlined as QueueIcon,
+  MenuBook as GlossaryIcon,
+  People as CharactersIcon,
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import { useTranslationStore } from '../stores/translationStore';
 import { useSettingsStore, type TranslationSettingsProps } from '../stores/settingsStore';
 import { dialog } from '../stores/dialogStore';
-import { SessionSidebar, SessionDialog, SourceEditorTab, ChunksTab, ResultTab } from '../components/translation';
-import type { TranslationSession, CreateSessionRequest, UpdateSessionRequest, TranslationChunkStatus } from '@shared/types';
+import {
+  SessionSidebar,
+  SessionDialog,
+  SourceEditorTab,
+  ChunksTab,
+  ResultTab,
+  QueuePanel,
+  ChunkRevisionsDialog,
+  GlossaryDialog,
+  CharactersDialog,
+  type ChunkFilter,
+} from '../components/translation';
+import type { TranslationSession, CreateSessionRequest, UpdateSessionRequest, TranslationCostEstimate } from '@shared/types';
 import * as api from '../api/translation';
 import { snackbar } from '../stores/snackbarStore';
 
@@ -42,6 +56,9 @@ export default function TranslationPage() {
     currentSessionId,
     currentSession,
     chunks,
+    streamingTexts,
+    revisions,
+    revisionsLoading,
     progress,
     isTranslating,
     isPaused,
@@ -50,6 +67,8 @@ export default function TranslationPage() {
     modelsLoading,
     templates,
     selectedTemplateId,
+    rateLimitStatus,
+    queue,
     loadSessions,
     createSession,
     selectSession,
@@ -59,9 +78,21 @@ export default function TranslationPage() {
     loadChunks,
     translateSingleChunk,
     retryChunk,
+    updateChunkText,
+    loadChunkRevisions,
+    promoteChunkRevision,
+    splitChunk,
+    mergeChunkWithNext,
     startTranslation,
+    retranslateAll,
     pauseTranslation,
     resumeTranslation,
+    cancelTranslation,
+    resumeInterruptedSessions,
+    enqueueSessions,
+    removeFromQueue,
+    reorderQueue,
+    clearFinishedQueue,
     loadConfig,
     updateConfig,
     loadModels,
@@ -76,6 +107,11 @@ export default function TranslationPage() {
   const [editingSession, setEditingSession] = useState<TranslationSession | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(!isMobile);
   const [prevIsMobile, setPrevIsMobile] = useState(isMobile);
+  const [queueOpen, setQueueOpen] = useState(false);
+  const [glossaryOpen, setGlossaryOpen] = useState(false);
+  const [charactersOpen, setCharactersOpen] = useState(false);
+  const [revisionChunkId, setRevisionChunkId] = useState<string | null>(null);
+  const [costEstimate, setCostEstimate] = useState<TranslationCostEstimate | null>(null);
 
   // 탭 상태
   const [activeTab, setActiveTab] = useState<TabValue>('source');
@@ -85,7 +121,7 @@ export default function TranslationPage() {
   const [isChunking, setIsChunking] = useState(false);
 
   // 청크 필터 상태 (클라이언트 사이드)
-  const [chunkFilter, setChunkFilter] = useState<TranslationChunkStatus | null>(null);
+  const [chunkFilter, setChunkFilter] = useState<ChunkFilter | null>(null);
 
   // 화면 크기 변경 시 사이드바 상태 조정
   if (isMobile !== prevIsMobile) {
@@ -106,6 +142,31 @@ export default function TranslationPage() {
     };
   }, [loadSessions, loadConfig, loadModels, loadTemplates, connectWs, disconnectWs]);
 
+  // 이전 실행에서 번역 도중 종료된 세션 안내 (앱 시작 후 한 번만 표시됨)
+  useEffect(() => {
+    const notifyInterruptedSessions = async () => {
+      const report = await api.getRecoveryReport();
+      if (report.sessions.length === 0) {
+        return;
+      }
+
+      const count = report.sessions.length;
+      const canResume = report.sessions.some(s => s.lastTemplateId !== null);
+
+      if (!canResume) {
+        await dialog.alert(t('translation.recovery.interrupted', { count }), t('translation.recovery.title'));
+        return;
+      }
+
+      const confirmed = await dialog.confirm(t('translation.recovery.interruptedResume', { count }), t('translation.recovery.title'));
+      if (confirmed) {
+        await resumeInterruptedSessions(report.sessions);
+      }
+    };
+
+    notifyInterruptedSessions().catch(() => {});
+  }, [t, resumeInterruptedSessions]);
+
   // 세션 변경 시 상태 초기화
   useEffect(() => {
     if (currentSession) {
@@ -210,6 +271,13 @@ export default function TranslationPage() {
 
     setIsChunking(true);
     try {
+      // 기존 청크가 있으면 유지 / 변경 내역을 보여주고 확인
+      if (chunks.length > 0) {
+        const summary = await api.previewRechunk(currentSessionId, sourceText);
+        const confirmed = await dialog.confirm(t('translation.rechunk.confirm', summary), t('translation.rechunk.title'));
+        if (!confirmed) return;
+      }
+
       // API 호출: 소스 텍스트로 청킹 시작
       await api.startTranslation(currentSessionId, sourceText);
 
@@ -227,11 +295,11 @@ export default function TranslationPage() {
     } finally {
       setIsChunking(false);
     }
-  }, [currentSessionId, sourceText, selectSession, loadChunks]);
+  }, [currentSessionId, sourceText, chunks.length, selectSession, loadChunks, t]);
 
   // 청크 필터 변경 (클라이언트 사이드)
-  const handleFilterChange = useCallback((status: TranslationChunkStatus | null) => {
-    setChunkFilter(status);
+  const handleFilterChange = useCallback((filter: ChunkFilter | null) => {
+    setChunkFilter(filter);
   }, []);
 
   // 실패 청크 모두 재시도
@@ -240,6 +308,76 @@ export default function TranslationPage() {
     failedChunks.forEach(chunk => retryChunk(chunk.id));
   }, [chunks, retryChunk]);
 
+  // 청크 번역 이력 열기
+  const handleShowRevisions = useCallback(
+    (chunkId: string) => {
+      setRevisionChunkId(chunkId);
+      loadChunkRevisions(chunkId);
+    },
+    [loadChunkRevisions]
+  );
+
+  // 선택한 리비전을 현재 번역문으로 지정
+  const handlePromoteRevision = useCallback(
+    async (revisionId: string) => {
+      if (!revisionChunkId) return;
+      await promoteChunkRevision(revisionChunkId, revisionId);
+    },
+    [revisionChunkId, promoteChunkRevision]
+  );
+
+  // 전체 재번역 (직접 수정한 청크가 있으면 포함할지 확인)
+  const handleRetranslateAll = useCallback(async () => {
+    const confirmed = await dialog.confirm(t('translation.confirm.retranslateAll'));
+    if (!confirmed) return;
+
+    const editedCount = chunks.filter(c => c.manuallyEditedAt).length;
+    const force = editedCount > 0 && (await dialog.confirm(t('translation.confirm.retranslateEdited', { count: editedCount })));
+
+    await retranslateAll(force);
+  }, [t, chunks, retranslateAll]);
+
+  // 청크 분할 (번역문이 있으면 비워지므로 확인)
+  const handleSplitChunk = useCallback(
+    async (chunkId: string, position: number) => {
+      const chunk = chunks.find(c => c.id === chunkId);
+      if (!chunk) return;
+
+      if (chunk.translatedText) {
+        const confirmed = await dialog.confirm(t('translation.confirm.splitChunk', { order: chunk.order + 1 }));
+        if (!confirmed) return;
+      }
+
+      await splitChunk(chunkId, position);
+    },
+    [t, chunks, splitChunk]
+  );
+
+  // 다음 청크와 병합 (번역문이 있으면 비워지므로 확인)
+  const handleMergeChunk = useCallback(
+    async (chunkId: string) => {
+      const chunk = chunks.find(c => c.id === chunkId);
+      if (!chunk) return;
+
+      const next = chunks.find(c => c.order === chunk.order + 1);
+      if (chunk.translatedText || next?.translatedText) {
+        const confirmed = await dialog.confirm(t('translation.confirm.mergeChunks', { order: chunk.order + 1 }));
+        if (!confirmed) return;
+      }
+
+      await mergeChunkWithNext(chunkId);
+    },
+    [t, chunks, mergeChunkWithNext]
+  );
+
+  // 번역 취소
+  const handleCancelTranslation = useCallback(async () => {
+    const confirmed = await dialog.confirm(t('translation.confirm.cancelTranslation'));
+    if (confirmed) {
+      cancelTranslation();
+    }
+  }, [t, cancelTranslation]);
+
   // 설정 열기
   const handleOpenSettings = useCallback(
     (tab: number = 0) => {
@@ -247,12 +385,13 @@ export default function TranslationPage() {
         config,
         models,
         modelsLoading,
+        templates,
         onSave: updateConfig,
         onLoadModels: loadModels,
       };
       openSettings(tab, translationProps);
     },
-    [config, models, modelsLoading, updateConfig, loadModels, openSettings]
+    [config, models, modelsLoading, templates, updateConfig, loadModels, openSettings]
   );
 
   // 탭 변경
@@ -266,24 +405,82 @@ export default function TranslationPage() {
   }, []);
 
   // 파생 상태
+  // 세션에 지정된 템플릿이 있으면 번역 시 그 템플릿이 사용됨
+  const sessionTemplateId =
+    currentSession?.templateId && templates.some(tpl => tpl.id === currentSession.templateId) ? currentSession.templateId : null;
   const hasChunks = chunks.length > 0 || (currentSession?.totalChunks ?? 0) > 0;
   const hasCompletedChunks = chunks.some(c => c.status === 'completed');
   const hasFailedChunks = chunks.some(c => c.status === 'failed');
+  const queuedRequests = rateLimitStatus.reduce((sum, s) => sum + s.queued, 0);
+  const waitingQueue = queue.filter(e => e.status === 'queued');
+  const activeQueueCount = queue.filter(e => e.status === 'running').length + waitingQueue.length;
+  const queueIndex = waitingQueue.findIndex(e => e.sessionId === currentSessionId);
+  const queuePosition = queueIndex === -1 ? null : queueIndex + 1;
+  const pendingChunkCount = chunks.filter(c => c.status === 'pending' || c.status === 'failed').length;
+
+  // 번역 시작 전 예상 비용 (대기 / 실패 청크가 바뀔 때마다 다시 계산)
+  useEffect(() => {
+    if (!currentSessionId || !selectedTemplateId || isTranslating || isPaused || pendingChunkCount === 0) {
+      setCostEstimate(null);
+      return;
+    }
+
+    let cancelled = false;
+    api
+      .estimateTranslationCost(currentSessionId, selectedTemplateId)
+      .then(estimate => {
+        if (!cancelled) setCostEstimate(estimate);
+      })
+      .catch(() => {
+        if (!cancelled) setCostEstimate(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentSessionId, selectedTemplateId, isTranslating, isPaused, pendingChunkCount]);
+
+  // 번역 시작 (예상 비용이 설정한 기준을 넘으면 확인)
+  const handleStart = useCallback(async () => {
+    // 추정이 아직 끝나지 않았으면 기다림 (추정에 실패해도 번역은 시작할 수 있음)
+    const estimate =
+      costEstimate ??
+      (currentSessionId && selectedTemplateId
+        ? await api.estimateTranslationCost(currentSessionId, selectedTemplateId).catch(() => null)
+        : null);
+
+    if (estimate?.requiresConfirmation && estimate.costUsd !== null) {
+      const confirmed = await dialog.confirm(
+        t('translation.costEstimate.confirm', {
+          cost: estimate.costUsd.toFixed(2),
+          input: estimate.inputTokens.toLocaleString(),
+          output: estimate.outputTokens.toLocaleString(),
+          threshold: config?.costConfirmThreshold ?? 0,
+        }),
+        t('translation.costEstimate.title')
+      );
+      if (!confirmed) return;
+    }
+
+    await startTranslation();
+  }, [t, costEstimate, currentSessionId, selectedTemplateId, config, startTranslation]);
 
   // 필터링된 청크 (클라이언트 사이드)
   const filteredChunks = useMemo(() => {
     if (!chunkFilter) return chunks;
+    if (chunkFilter === 'qaFlagged') return chunks.filter(c => c.qaFlags);
+    if (chunkFilter === 'glossaryViolations') return chunks.filter(c => c.glossaryViolations);
+    if (chunkFilter === 'tmMatched') return chunks.filter(c => c.tmMatch);
     return chunks.filter(c => c.status === chunkFilter);
   }, [chunks, chunkFilter]);
 
-  // 번역된 텍스트 (청크에서 직접 계산)
+  // 번역된 텍스트 (청크에서 직접 계산, 번역 중인 청크는 스트리밍 출력 포함)
   const translatedText = useMemo(() => {
-    return chunks
-      .filter(c => c.status === 'completed' && c.translatedText)
+    return [...chunks]
       .sort((a, b) => a.order - b.order)
-      .map(c => c.translatedText)
+      .map(c => (c.status === 'completed' ? c.translatedText : streamingTexts[c.id]))
+      .filter(Boolean)
       .join('\n\n');
-  }, [chunks]);
+  }, [chunks, streamingTexts]);
 
   // 탭 활성화 상태
   const isSourceTabEnabled = Boolean(currentSession);
@@ -304,6 +501,7 @@ export default function TranslationPage() {
         onDeleteSession={handleDeleteSession}
         onEditSession={handleEditSession}
         onNavigateLogs={() => navigate('/logs')}
+        onNavigateUsage={() => navigate('/usage')}
         onOpenSettings={() => handleOpenSettings(0)}
       />
 
@@ -353,12 +551,38 @@ export default function TranslationPage() {
                 </Typography>
               )}
             </Box>
+            {/* 등장인물 버튼 (세션 메모 옆) */}
+            {currentSession && (
+              <Tooltip title={t('translation.characterProfiles.open')}>
+                <IconButton onClick={() => setCharactersOpen(true)} size='small' color='inherit'>
+                  <CharactersIcon fontSize='small' />
+                </IconButton>
+              </Tooltip>
+            )}
           </Box>
 
-          {/* 설정 버튼 */}
-          <IconButton onClick={() => handleOpenSettings(1)} color='inherit'>
-            <SettingsIcon />
-          </IconButton>
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            {/* 용어집 버튼 */}
+            <Tooltip title={t('translation.glossary.open')}>
+              <IconButton onClick={() => setGlossaryOpen(true)} color='inherit'>
+                <GlossaryIcon />
+              </IconButton>
+            </Tooltip>
+
+            {/* 번역 대기열 버튼 */}
+            <Tooltip title={t('translation.queue.open')}>
+              <IconButton onClick={() => setQueueOpen(true)} color='inherit'>
+                <Badge badgeContent={activeQueueCount} color='primary'>
+                  <QueueIcon />
+                </Badge>
+              </IconButton>
+            </Tooltip>
+
+            {/* 설정 버튼 */}
+            <IconButton onClick={() => handleOpenSettings(1)} color='inherit'>
+              <SettingsIcon />
+            </IconButton>
+          </Box>
         </Paper>
 
         {/* 콘텐츠 영역 */}
@@ -474,17 +698,28 @@ export default function TranslationPage() {
                   progress={progress}
                   filter={chunkFilter}
                   templates={templates}
-                  selectedTemplateId={selectedTemplateId}
+                  selectedTemplateId={sessionTemplateId ?? selectedTemplateId}
+                  templateLocked={sessionTemplateId !== null}
                   onSelectTemplate={selectTemplate}
                   isTranslating={isTranslating}
                   isPaused={isPaused}
                   hasFailedChunks={hasFailedChunks}
+                  queuedRequests={queuedRequests}
+                  streamingTexts={streamingTexts}
+                  queuePosition={queuePosition}
+                  costEstimate={costEstimate}
                   onFilterChange={handleFilterChange}
                   onRetryChunk={retryChunk}
                   onTranslateChunk={translateSingleChunk}
-                  onStart={startTranslation}
+                  onShowRevisions={handleShowRevisions}
+                  onUpdateChunkText={updateChunkText}
+                  onSplitChunk={handleSplitChunk}
+                  onMergeChunk={handleMergeChunk}
+                  onStart={handleStart}
+                  onRetranslateAll={handleRetranslateAll}
                   onPause={pauseTranslation}
                   onResume={resumeTranslation}
+                  onCancel={handleCancelTranslation}
                   onRetryFailed={handleRetryFailed}
                   onBackToSource={handleBackToSource}
                 />
@@ -515,6 +750,44 @@ export default function TranslationPage() {
         onClose={handleCloseSessionDialog}
         onCreate={handleCreateSession}
         onUpdate={handleUpdateSession}
+        config={config}
+        models={models}
+        templates={templates}
+      />
+
+      {/* 청크 번역 이력 */}
+      <ChunkRevisionsDialog
+        open={revisionChunkId !== null}
+        chunk={chunks.find(c => c.id === revisionChunkId) ?? null}
+        revisions={revisions}
+        loading={revisionsLoading}
+        disabled={isTranslating}
+        onClose={() => setRevisionChunkId(null)}
+        onPromote={handlePromoteRevision}
+      />
+
+      {/* 용어집 */}
+      <GlossaryDialog
+        open={glossaryOpen}
+        session={currentSession}
+        templateId={sessionTemplateId ?? selectedTemplateId}
+        onClose={() => setGlossaryOpen(false)}
+      />
+
+      {/* 등장인물 */}
+      <CharactersDialog open={charactersOpen} session={currentSession} onClose={() => setCharactersOpen(false)} />
+
+      {/* 번역 대기열 */}
+      <QueuePanel
+        open={queueOpen}
+        entries={queue}
+        sessions={sessions}
+        canEnqueue={Boolean(selectedTemplateId)}
+        onClose={() => setQueueOpen(false)}
+        onEnqueue={enqueueSessions}
+        onRemove={removeFromQueue}
+        onReorder={reorderQueue}
+        onClearFinished={clearFinishedQueue}
       />
     </Box>
   );
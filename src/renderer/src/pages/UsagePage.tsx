@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+import { Container } from '@mui/material';
+import { useUsageStore } from '../stores/usageStore';
+import { UsageHeader, UsageStats, UsageTable } from '../components/usage';
+
+export default function UsagePage() {
+  // Zustand store에서 상태와 액션 가져오기
+  const { summary, loading, period, loadSummary, exportCsv, setPeriod } = useUsageStore();
+
+  // 초기 로드 / 기간 변경 시 재로드
+  useEffect(() => {
+    loadSummary();
+  }, [period, loadSummary]);
+
+  return (
+    <Container maxWidth='xl' sx={{ py: 4 }}>
+      {/* 헤더 */}
+      <UsageHeader period={period} onPeriodChange={setPeriod} onRefresh={loadSummary} onExport={exportCsv} />
+
+      {/* 합계 카드 */}
+      {summary && <UsageStats totals={summary.totals} />}
+
+      {/* 세션 / 모델 / 일별 사용량 */}
+      <UsageTable summary={summary} loading={loading} />
+    </Container>
+  );
+}
@@ -1,11 +1,12 @@
 import { create } from 'zustand';
-import type { TranslationConfig, GeminiModelInfo, UpdateTranslationConfigRequest } from '@shared/types';
+import type { TranslationConfig, GeminiModelInfo, PromptTemplate, UpdateTranslationConfigRequest } from '@shared/types';
 
 // 번역 설정 props
 export interface TranslationSettingsProps {
   config: TranslationConfig | null;
   models: GeminiModelInfo[];
   modelsLoading: boolean;
+  templates: PromptTemplate[]; // 차단 시 대체 템플릿 선택용
   onSave: (data: UpdateTranslationConfigRequest) => Promise<void>;
   onLoadModels: () => Promise<void>;
 }
@@ -10,6 +10,10 @@ import type {
   WsServerEvent,
   PromptTemplate,
   GeminiModelInfo,
+  RateLimitStatus,
+  InterruptedSession,
+  TranslationQueueEntry,
+  TranslationChunkRevision,
 } from '@shared/types';
 import * as api from '../api/translation';
 import { translationWs } from '../api/websocket';
@@ -29,8 +33,13 @@ interface TranslationState {
   currentSession: TranslationSession | null;
   chunks: TranslationChunk[];
   chunksLoading: boolean;
+  streamingTexts: Record<string, string>; // 번역 중인 청크의 실시간 출력 (chunkId → 텍스트)
   sessionLoading: boolean;
 
+  // 청크 번역 이력 (이력 다이얼로그에서 보고 있는 청크)
+  revisions: TranslationChunkRevision[];
+  revisionsLoading: boolean;
+
   // 진행 상황
   progress: ProgressInfo | null;
   isTranslating: boolean;
@@ -50,6 +59,12 @@ interface TranslationState {
   // WebSocket 상태
   wsConnected: boolean;
 
+  // 요청 한도 대기열 상태 (모델별)
+  rateLimitStatus: RateLimitStatus[];
+
+  // 전역 번역 대기열
+  queue: TranslationQueueEntry[];
+
   // 템플릿
   templates: PromptTemplate[];
   templatesLoading: boolean;
@@ -70,11 +85,26 @@ interface TranslationState {
   loadChunks: () => Promise<void>;
   translateSingleChunk: (chunkId: string) => Promise<void>;
   retryChunk: (chunkId: string) => Promise<void>;
+  updateChunkText: (chunkId: string, translatedText: string) => Promise<void>;
+  loadChunkRevisions: (chunkId: string) => Promise<void>;
+  promoteChunkRevision: (chunkId: string, revisionId: string) => Promise<void>;
+  splitChunk: (chunkId: string, position: number) => Promise<void>;
+  mergeChunkWithNext: (chunkId: string) => Promise<void>;
 
   // 번역 제어
   startTranslation: () => Promise<void>;
+  retranslateAll: (force: boolean) => Promise<void>;
   pauseTranslation: () => void;
   resumeTranslation: () => void;
+  cancelTranslation: () => void;
+  resumeInterruptedSessions: (sessions: InterruptedSession[]) => Promise<void>;
+
+  // 대기열
+  loadQueue: () => Promise<void>;
+  enqueueSessions: (sessionIds: string[]) => Promise<void>;
+  removeFromQueue: (sessionId: string) => Promise<void>;
+  reorderQueue: (sessionIds: string[]) => Promise<void>;
+  clearFinishedQueue: () => Promise<void>;
 
   // 설정
   loadConfig: () => Promise<void>;
@@ -82,6 +112,7 @@ interface TranslationState {
   loadModels: () => Promise<void>;
   loadTemplates: () => Promise<void>;
   selectTemplate: (id: string) => void;
+  loadRateLimitStatus: () => Promise<void>;
 
   // WebSocket
   connectWs: () => void;
@@ -97,10 +128,11 @@ function calculateProgress(chunks: TranslationChunk[]): ProgressInfo {
   const total = chunks.length;
   const completed = chunks.filter(c => c.status === 'completed').length;
   const failed = chunks.filter(c => c.status === 'failed').length;
+  const blocked = chunks.filter(c => c.status === 'blocked').length;
   const pending = chunks.filter(c => c.status === 'pending' || c.status === 'processing').length;
-  const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
+  const percent = total > 0 ? Math.round(((completed + blocked) / total) * 100) : 0;
 
-  return { total, completed, failed, pending, percent };
+  return { total, completed, failed, blocked, pending, percent };
 }
 
 // ============================================
@@ -110,8 +142,6 @@ function calculateProgress(chunks: TranslationChunk[]): ProgressInfo {
 export const useTranslationStore = create<TranslationState>((set, get) => {
   // WebSocket 이벤트 핸들러
   const handleWsEvent = (event: WsServerEvent) => {
-    const state = get();
-
     switch (event.type) {
       case 'subscribed':
         set({
@@ -133,13 +163,25 @@ export const useTranslationStore = create<TranslationState>((set, get) => {
         });
         break;
 
+      case 'chunk:delta':
+        // 스트리밍 출력 - 현재 세션의 청크만 미리보기 갱신
+        set(state =>
+          event.sessionId === state.currentSessionId ? { streamingTexts: { ...state.streamingTexts, [event.chunkId]: event.text } } : {}
+        );
+        break;
+
       case 'chunk:progress':
-        // 청크 완료/실패 - chunks 업데이트 및 progress 재계산
+        // 청크 완료/실패 - chunks 업데이트 및 progress 재계산 (스트리밍 미리보기는 최종 결과로 대체)
         set(state => {
           const newChunks = state.chunks.map(c => (c.id === event.chunk.id ? event.chunk : c));
+          const streamingTexts = { ...state.streamingTexts };
+          if (event.chunk.status !== 'processing') {
+            delete streamingTexts[event.chunk.id];
+          }
           return {
             chunks: newChunks,
             progress: calculateProgress(newChunks),
+            streamingTexts,
           };
         });
         break;
@@ -163,6 +205,14 @@ export const useTranslationStore = create<TranslationState>((set, get) => {
         snackbar.success('translation.completed', true);
         break;
 
+      case 'rateLimit:status':
+        set({ rateLimitStatus: event.models });
+        break;
+
+      case 'queue:status':
+        set({ queue: event.entries });
+        break;
+
       case 'error':
         snackbar.error(event.message);
         break;
@@ -177,7 +227,10 @@ export const useTranslationStore = create<TranslationState>((set, get) => {
     currentSession: null,
     chunks: [],
     chunksLoading: false,
+    streamingTexts: {},
     sessionLoading: false,
+    revisions: [],
+    revisionsLoading: false,
     progress: null,
     isTranslating: false,
     isPaused: false,
@@ -187,6 +240,8 @@ export const useTranslationStore = create<TranslationState>((set, get) => {
     models: [],
     modelsLoading: false,
     wsConnected: false,
+    rateLimitStatus: [],
+    queue: [],
     templates: [],
     templatesLoading: false,
     selectedTemplateId: null,
@@ -232,6 +287,7 @@ export const useTranslationStore = create<TranslationState>((set, get) => {
           currentSessionId: null,
           currentSession: null,
           chunks: [],
+          streamingTexts: {},
           progress: null,
           isTranslating: false,
           isPaused: false,
@@ -239,7 +295,7 @@ export const useTranslationStore = create<TranslationState>((set, get) => {
         return;
       }
 
-      set({ sessionLoading: true, currentSessionId: id });
+      set({ sessionLoading: true, currentSessionId: id, streamingTexts: {} });
 
       try {
         const session = await api.getSession(id);
@@ -434,8 +490,26 @@ export const useTranslationStore = create<TranslationState>((set, get) => {
           // WebSocket 없으면 REST로
           await api.translateAll(state.currentSessionId, state.selectedTemplateId);
         }
+      } catch {
+        snackbar.error('translation.errors.startFailed', true);
+      }
+    },
+
+    // 전체 재번역 (완료된 청크 포함, 대기열을 통해 실행)
+    retranslateAll: async force => {
+      const state = get();
+      if (!state.currentSessionId) {
+        return;
+      }
+
+      if (!state.selectedTemplateId) {
+        snackbar.error('translation.errors.noTemplateSelected', true);
+        return;
+      }
 
-        set({ isTranslating: true });
+      try {
+        await api.retranslateAll(state.currentSessionId, state.selectedTemplateId, force);
+        await get().loadChunks();
       } catch {
         snackbar.error('translation.errors.startFailed', true);
       }
@@ -457,6 +531,86 @@ export const useTranslationStore = create<TranslationState>((set, get) => {
       }
     },
 
+    // 번역 취소
+    cancelTranslation: () => {
+      const state = get();
+      if (state.currentSessionId && state.wsConnected) {
+        translationWs.cancel(state.currentSessionId);
+      }
+    },
+
+    // 앱 종료로 중단된 세션들을 마지막으로 사용한 템플릿으로 재개
+    resumeInterruptedSessions: async sessions => {
+      const resumable = sessions.filter(s => s.lastTemplateId !== null);
+
+      const results = await Promise.allSettled(resumable.map(s => api.resumeTranslation(s.id, s.lastTemplateId!)));
+      if (results.some(r => r.status === 'rejected')) {
+        snackbar.error('translation.errors.resumeInterruptedFailed', true);
+      }
+
+      await get().loadSessions();
+    },
+
+    // 대기열 로드
+    loadQueue: async () => {
+      try {
+        const queue = await api.listQueue();
+        set({ queue });
+      } catch {
+        snackbar.error('translation.errors.loadQueueFailed', true);
+      }
+    },
+
+    // 여러 세션을 선택한 템플릿으로 대기열에 추가
+    enqueueSessions: async sessionIds => {
+      const { selectedTemplateId } = get();
+      if (!selectedTemplateId) {
+        snackbar.error('translation.errors.noTemplateSelected', true);
+        return;
+      }
+
+      const results = await Promise.allSettled(sessionIds.map(id => api.enqueueTranslation(id, selectedTemplateId)));
+      if (results.some(r => r.status === 'rejected')) {
+        snackbar.error('translation.errors.enqueueFailed', true);
+      }
+    },
+
+    // 대기열에서 제거
+    removeFromQueue: async sessionId => {
+      try {
+        await api.removeFromQueue(sessionId);
+      } catch {
+        snackbar.error('translation.errors.updateQueueFailed', true);
+      }
+    },
+
+    // 대기열 순서 변경 (이벤트가 오기 전에 화면 먼저 갱신)
+    reorderQueue: async sessionIds => {
+      set(state => ({
+        queue: [...state.queue].sort((a, b) => {
+          const ia = sessionIds.indexOf(a.sessionId);
+          const ib = sessionIds.indexOf(b.sessionId);
+          return ia === -1 || ib === -1 ? a.position - b.position : ia - ib;
+        }),
+      }));
+
+      try {
+        await api.reorderQueue(sessionIds);
+      } catch {
+        snackbar.error('translation.errors.updateQueueFailed', true);
+        await get().loadQueue();
+      }
+    },
+
+    // 끝난 항목 정리
+    clearFinishedQueue: async () => {
+      try {
+        await api.clearFinishedQueue();
+      } catch {
+        snackbar.error('translation.errors.updateQueueFailed', true);
+      }
+    },
+
     // 청크 재시도
     retryChunk: async chunkId => {
       const state = get();
@@ -479,6 +633,75 @@ export const useTranslationStore = create<TranslationState>((set, get) => {
       }
     },
 
+    // 번역문 직접 수정
+    updateChunkText: async (chunkId, translatedText) => {
+      try {
+        const chunk = await api.updateChunkText(chunkId, translatedText);
+        set(state => {
+          const newChunks = state.chunks.map(c => (c.id === chunkId ? chunk : c));
+          return {
+            chunks: newChunks,
+            progress: calculateProgress(newChunks),
+          };
+        });
+        snackbar.success('translation.chunkTextSaved', true);
+      } catch {
+        snackbar.error('translation.errors.saveChunkTextFailed', true);
+        throw new Error('Failed to save chunk text');
+      }
+    },
+
+    // 청크 번역 이력 로드
+    loadChunkRevisions: async chunkId => {
+      set({ revisions: [], revisionsLoading: true });
+      try {
+        const revisions = await api.listChunkRevisions(chunkId);
+        set({ revisions, revisionsLoading: false });
+      } catch {
+        snackbar.error('translation.errors.loadRevisionsFailed', true);
+        set({ revisionsLoading: false });
+      }
+    },
+
+    // 이전 리비전을 현재 번역문으로 지정
+    promoteChunkRevision: async (chunkId, revisionId) => {
+      try {
+        const chunk = await api.promoteChunkRevision(chunkId, revisionId);
+        set(state => {
+          const newChunks = state.chunks.map(c => (c.id === chunkId ? chunk : c));
+          return {
+            chunks: newChunks,
+            progress: calculateProgress(newChunks),
+          };
+        });
+        snackbar.success('translation.revisions.promoted', true);
+      } catch {
+        snackbar.error('translation.errors.promoteRevisionFailed', true);
+      }
+    },
+
+    // 청크 분할
+    splitChunk: async (chunkId, position) => {
+      try {
+        await api.splitChunk(chunkId, position);
+        await get().loadChunks();
+        snackbar.success('translation.chunkSplit', true);
+      } catch {
+        snackbar.error('translation.errors.splitChunkFailed', true);
+      }
+    },
+
+    // 다음 청크와 병합
+    mergeChunkWithNext: async chunkId => {
+      try {
+        await api.mergeChunkWithNext(chunkId);
+        await get().loadChunks();
+        snackbar.success('translation.chunksMerged', true);
+      } catch {
+        snackbar.error('translation.errors.mergeChunksFailed', true);
+      }
+    },
+
     // 설정 로드
     loadConfig: async () => {
       try {
@@ -534,11 +757,25 @@ export const useTranslationStore = create<TranslationState>((set, get) => {
       set({ selectedTemplateId: id });
     },
 
+    // 요청 한도 대기열 상태 로드
+    loadRateLimitStatus: async () => {
+      try {
+        const rateLimitStatus = await api.getRateLimitStatus();
+        set({ rateLimitStatus });
+      } catch {
+        // 이후 이벤트로 갱신되므로 무시
+      }
+    },
+
     // WebSocket 연결
     connectWs: () => {
       translationWs.connect();
       translationWs.onEvent(handleWsEvent);
       set({ wsConnected: true });
+
+      // 현재 요청 한도 / 번역 대기열 상태 (이후 변경분은 이벤트로 수신)
+      get().loadRateLimitStatus();
+      get().loadQueue();
     },
 
     // WebSocket 연결 해제
@@ -561,7 +798,10 @@ export const useTranslationStore = create<TranslationState>((set, get) => {
         currentSession: null,
         chunks: [],
         chunksLoading: false,
+        streamingTexts: {},
         sessionLoading: false,
+        revisions: [],
+        revisionsLoading: false,
         progress: null,
         isTranslating: false,
         isPaused: false,
@@ -571,6 +811,8 @@ export const useTranslationStore = create<TranslationState>((set, get) => {
         models: [],
         modelsLoading: false,
         wsConnected: false,
+        rateLimitStatus: [],
+        queue: [],
         templates: [],
         templatesLoading: false,
         selectedTemplateId: null,
@@ -0,0 +1,67 @@
+import { create } from 'zustand';
+import type { UsageSummary } from '@shared/types';
+import { getUsageSummary, exportUsageCsv } from '../api/usage';
+import { snackbar } from './snackbarStore';
+
+// 조회 기간 (일, null = 전체 기간)
+export type UsagePeriod = 7 | 30 | 90 | null;
+
+interface UsageState {
+  // 사용량 데이터
+  summary: UsageSummary | null;
+  loading: boolean;
+
+  // 필터
+  period: UsagePeriod;
+
+  // 액션
+  loadSummary: () => Promise<void>;
+  exportCsv: () => Promise<void>;
+  setPeriod: (period: UsagePeriod) => void;
+}
+
+export const useUsageStore = create<UsageState>((set, get) => ({
+  // 초기 상태
+  summary: null,
+  loading: false,
+
+  period: 30,
+
+  // 사용량 로드
+  loadSummary: async () => {
+    const { period } = get();
+    set({ loading: true });
+
+    try {
+      const summary = await getUsageSummary(period === null ? {} : { days: period });
+      set({ summary, loading: false });
+    } catch {
+      snackbar.error('usage.errors.loadFailed', true);
+      set({ loading: false });
+    }
+  },
+
+  // 조회 기간의 호출별 사용량을 CSV로 다운로드
+  exportCsv: async () => {
+    const { period } = get();
+
+    try {
+      const { fileName, blob } = await exportUsageCsv(period === null ? {} : { days: period });
+
+      // 파일 다운로드 트리거
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch {
+      snackbar.error('usage.errors.exportFailed', true);
+    }
+  },
+
+  // 필터 액션
+  setPeriod: period => set({ period }),
+}));
@@ -13,6 +13,9 @@ import type {
   PaginatedChunksResponse,
   FileUploadResponse,
   TranslationProgressResponse,
+  RechunkSummary,
+  TranslationCostEstimate,
+  PostProcessPreview,
   GetLogsRequest,
   GetLogsResponse,
   LogStatsResponse,
@@ -24,6 +27,30 @@ import type {
   CreateSessionRequest,
   UpdateSessionRequest,
   UpdateTranslationConfigRequest,
+  ModelRateLimitOverride,
+  UpdateRateLimitsRequest,
+  RateLimitStatus,
+  RecoveryReport,
+  TranslationQueueEntry,
+  EnqueueTranslationRequest,
+  ReorderQueueRequest,
+  TranslationChunkRevision,
+  UpdateChunkTextRequest,
+  RetranslateSessionRequest,
+  GlossaryEntry,
+  CreateGlossaryEntryRequest,
+  UpdateGlossaryEntryRequest,
+  GlossaryImportResult,
+  GlossaryReport,
+  AddGlossaryEntriesRequest,
+  ExtractGlossaryRequest,
+  GlossaryExtractionResult,
+  WsGlossaryExtractProgressEvent,
+  SessionCharacter,
+  CreateSessionCharacterRequest,
+  UpdateSessionCharacterRequest,
+  GetUsageRequest,
+  UsageSummary,
   WsSubscribedEvent,
   ProgressInfo,
 } from './index';
@@ -93,6 +120,44 @@ export interface ElectronAPI {
     list: () => Promise<GeminiModelInfo[]>;
   };
 
+  // Rate Limits
+  rateLimits: {
+    list: () => Promise<ModelRateLimitOverride[]>;
+    update: (model: string, data: UpdateRateLimitsRequest) => Promise<ModelRateLimitOverride>;
+    getStatus: () => Promise<RateLimitStatus[]>;
+  };
+
+  // Translation Queue
+  queue: {
+    list: () => Promise<TranslationQueueEntry[]>;
+    enqueue: (data: EnqueueTranslationRequest) => Promise<void>;
+    remove: (sessionId: string) => Promise<void>;
+    reorder: (sessionIds: ReorderQueueRequest) => Promise<void>;
+    clearFinished: () => Promise<void>;
+  };
+
+  // Glossary (sessionId = null: 전역 용어)
+  glossary: {
+    list: (sessionId: string | null) => Promise<GlossaryEntry[]>;
+    create: (data: CreateGlossaryEntryRequest) => Promise<GlossaryEntry>;
+    update: (id: string, data: UpdateGlossaryEntryRequest) => Promise<GlossaryEntry>;
+    delete: (id: string) => Promise<void>;
+    importCsv: (sessionId: string | null, content: string) => Promise<GlossaryImportResult>;
+    exportCsv: (sessionId: string | null) => Promise<{ fileName: string; content: string }>;
+    report: (sessionId: string) => Promise<GlossaryReport>;
+    addMany: (sessionId: string, entries: AddGlossaryEntriesRequest) => Promise<GlossaryImportResult>;
+    extract: (sessionId: string, data: ExtractGlossaryRequest) => Promise<GlossaryExtractionResult>;
+    cancelExtract: (sessionId: string) => Promise<void>;
+  };
+
+  // Characters (세션별 등장인물)
+  characters: {
+    list: (sessionId: string) => Promise<SessionCharacter[]>;
+    create: (sessionId: string, data: CreateSessionCharacterRequest) => Promise<SessionCharacter>;
+    update: (id: string, data: UpdateSessionCharacterRequest) => Promise<SessionCharacter>;
+    delete: (id: string) => Promise<void>;
+  };
+
   // Templates
   templates: {
     list: () => Promise<PromptTemplate[]>;
@@ -114,20 +179,35 @@ export interface ElectronAPI {
     delete: (id: string) => Promise<void>;
     getChunks: (id: string) => Promise<TranslationChunk[]>;
     getChunksPaginated: (id: string, options: { page: number; limit: number; status?: string }) => Promise<PaginatedChunksResponse>;
+    previewPostProcess: (id: string, rules: string | null) => Promise<PostProcessPreview | null>;
     uploadFile: (id: string, fileName: string, content: string) => Promise<FileUploadResponse>;
     downloadTranslation: (id: string) => Promise<{ fileName: string; content: string }>;
   };
 
+  // Chunks
+  chunks: {
+    listRevisions: (chunkId: string) => Promise<TranslationChunkRevision[]>;
+    promoteRevision: (chunkId: string, revisionId: string) => Promise<TranslationChunk>;
+    split: (chunkId: string, position: number) => Promise<TranslationChunk[]>;
+    mergeWithNext: (chunkId: string) => Promise<TranslationChunk>;
+  };
+
   // Translation
   translation: {
     start: (sessionId: string, sourceText: string) => Promise<TranslationProgressResponse>;
+    previewRechunk: (sessionId: string, sourceText: string) => Promise<RechunkSummary>;
+    estimateCost: (sessionId: string, templateId: string) => Promise<TranslationCostEstimate>;
     translateAll: (sessionId: string, templateId: string) => Promise<void>;
+    retranslateAll: (sessionId: string, data: RetranslateSessionRequest) => Promise<void>;
     getProgress: (sessionId: string) => Promise<TranslationProgressResponse>;
     getPartial: (sessionId: string) => Promise<string>;
     retryChunk: (chunkId: string, templateId: string) => Promise<TranslationChunk>;
     translateChunk: (chunkId: string, templateId: string) => Promise<TranslationChunk>;
+    updateChunkText: (chunkId: string, data: UpdateChunkTextRequest) => Promise<TranslationChunk>;
     pause: (sessionId: string) => Promise<void>;
+    cancel: (sessionId: string) => Promise<void>;
     resume: (sessionId: string, templateId: string) => Promise<void>;
+    getRecoveryReport: () => Promise<RecoveryReport>;
     subscribe: (sessionId: string) => Promise<WsSubscribedEvent>;
     unsubscribe: (sessionId: string) => Promise<void>;
   };
@@ -142,6 +222,12 @@ export interface ElectronAPI {
     cleanup: () => Promise<DeleteLogsResponse>;
   };
 
+  // Usage (API 호출별 토큰 사용량)
+  usage: {
+    getSummary: (params?: GetUsageRequest) => Promise<UsageSummary>;
+    exportCsv: (params?: GetUsageRequest) => Promise<{ fileName: string; content: string }>;
+  };
+
   // Events (IPC event listeners)
   on: (channel: string, callback: (data: unknown) => void) => () => void;
 
@@ -167,6 +253,12 @@ export interface TranslationEvents {
     chunkId: string;
     order: number;
   };
+  'translation:chunk-delta': {
+    sessionId: string;
+    chunkId: string;
+    order: number;
+    text: string;
+  };
   'translation:chunk-progress': {
     sessionId: string;
     chunk: TranslationChunk;
@@ -182,6 +274,13 @@ export interface TranslationEvents {
     session: TranslationSession;
     translatedText: string | null;
   };
+  'translation:rate-limit': {
+    models: RateLimitStatus[];
+  };
+  'translation:queue': {
+    entries: TranslationQueueEntry[];
+  };
+  'translation:glossary-extract': WsGlossaryExtractProgressEvent;
   'translation:error': {
     sessionId?: string;
     message: string;
@@ -58,13 +58,112 @@ export const TranslationSessionStatusSchema = z.enum([
 ]);
 export type TranslationSessionStatus = z.infer<typeof TranslationSessionStatusSchema>;
 
-export const TranslationChunkStatusSchema = z.enum(['pending', 'processing', 'completed', 'failed']);
+export const TranslationChunkStatusSchema = z.enum([
+  'pending',
+  'processing',
+  'completed',
+  'failed',
+  'blocked', // 안전 필터 등으로 차단되어 원문을 그대로 둠
+]);
 export type TranslationChunkStatus = z.infer<typeof TranslationChunkStatusSchema>;
 
+// 출력 토큰 한도로 잘린 응답 처리 결과
+export const TruncationRecoverySchema = z.enum([
+  'continued', // 이어서 생성해 전체 번역문을 얻음
+  'truncated', // 이어서 생성해도 끝나지 않아 실패 처리
+]);
+export type TruncationRecovery = z.infer<typeof TruncationRecoverySchema>;
+
+// 청크가 차단되었을 때 대응 방법
+export const BlockedFallbackSchema = z.enum([
+  'skip', // 재시도 없이 차단으로 표시
+  'template', // 대체 템플릿으로 한 번 더 시도
+  'model', // 대체 모델로 한 번 더 시도
+]);
+export type BlockedFallback = z.infer<typeof BlockedFallbackSchema>;
+
+// 번역문 품질 검사 항목
+export const QaFlagSchema = z.enum([
+  'length_ratio', // 원문 대비 길이가 언어 쌍의 일반적인 범위를 벗어남
+  'residual_source_script', // 번역되지 않은 원문 문자가 많이 남음
+  'paragraph_mismatch', // 문단 수가 원문과 다름
+  'repetition', // 같은 문장 / 구절이 반복되는 생성 루프
+  'template_artifact', // ChatML 태그 등 프롬프트 형식이 출력에 섞임
+]);
+export type QaFlag = z.infer<typeof QaFlagSchema>;
+
+// 번역 메모리 (이전 세션의 완료된 청크) 사용 방식
+export const TranslationMemoryModeSchema = z.enum([
+  'off', // 사용 안 함
+  'reference', // 비슷한 문단의 이전 번역을 프롬프트에 참고로만 전달
+  'reuse', // 원문이 같으면 API 호출 없이 이전 번역을 재사용, 비슷하면 참고로 전달
+]);
+export type TranslationMemoryMode = z.infer<typeof TranslationMemoryModeSchema>;
+
+// 청크의 번역 메모리 적중 여부
+export const TmMatchSchema = z.enum([
+  'exact', // 이전 번역을 그대로 재사용
+  'fuzzy', // 비슷한 이전 번역을 참고로 전달
+]);
+export type TmMatch = z.infer<typeof TmMatchSchema>;
+
+// ============================================
+// 후처리 규칙
+// ============================================
+
+// 템플릿 front matter의 postprocess 블록 / 세션 설정에 정의하며 순서대로 적용
+export const PostProcessRuleSchema = z.discriminatedUnion('type', [
+  // 정규식 치환
+  z.object({
+    type: z.literal('replace'),
+    pattern: z.string().min(1),
+    replacement: z.string().default(''),
+    flags: z
+      .string()
+      .regex(/^[gimsuy]*$/)
+      .default('g'),
+  }),
+  // 따옴표 통일 (curly: “ ” ‘ ’, straight: " ', corner: 「 」 『 』)
+  z.object({
+    type: z.literal('quotes'),
+    style: z.enum(['curly', 'straight', 'corner']),
+  }),
+  // 말줄임표 통일 (unicode: …, dots: ...)
+  z.object({
+    type: z.literal('ellipsis'),
+    style: z.enum(['unicode', 'dots']),
+  }),
+  // "Here is the translation:" 같은 모델의 머리말 제거 (patterns를 지정하면 기본 패턴 대신 사용)
+  z.object({
+    type: z.literal('stripPreamble'),
+    patterns: z.array(z.string()).optional(),
+  }),
+]);
+export type PostProcessRule = z.infer<typeof PostProcessRuleSchema>;
+
+export const PostProcessRulesSchema = z.array(PostProcessRuleSchema);
+
+// 후처리 규칙 미리보기 (번역된 청크 하나에 적용한 결과)
+export const PostProcessPreviewSchema = z.object({
+  chunkId: z.string(),
+  order: z.number().int(),
+  before: z.string(),
+  after: z.string(),
+});
+export type PostProcessPreview = z.infer<typeof PostProcessPreviewSchema>;
+
 // ============================================
 // Gemini 모델 정보
 // ============================================
 
+// 요청 한도 (null 또는 0 = 제한 없음)
+export const RateLimitsSchema = z.object({
+  rpm: z.number().int().min(0).nullable(), // 분당 요청 수
+  tpm: z.number().int().min(0).nullable(), // 분당 입력 토큰 수
+  rpd: z.number().int().min(0).nullable(), // 일일 요청 수
+});
+export type RateLimits = z.infer<typeof RateLimitsSchema>;
+
 export const GeminiModelInfoSchema = z.object({
   id: z.string(),
   name: z.string(),
@@ -72,6 +171,11 @@ export const GeminiModelInfoSchema = z.object({
   defaultTemperature: z.number().min(0).max(2),
   contextWindow: z.number().int().positive(),
   isExperimental: z.boolean().default(false),
+  rateLimits: RateLimitsSchema, // 모델 기본 요청 한도
+  pricing: z.object({
+    input: z.number().min(0), // 입력 100만 토큰당 USD
+    output: z.number().min(0), // 출력 100만 토큰당 USD
+  }),
 });
 export type GeminiModelInfo = z.infer<typeof GeminiModelInfoSchema>;
 
@@ -79,6 +183,32 @@ export type GeminiModelInfo = z.infer<typeof GeminiModelInfoSchema>;
 export const ListModelsResponseSchema = z.array(GeminiModelInfoSchema);
 export type ListModelsResponse = z.infer<typeof ListModelsResponseSchema>;
 
+// ============================================
+// 요청 한도 (Rate Limit)
+// ============================================
+
+// 모델별 사용자 재정의 (null = 모델 기본값 사용)
+export const ModelRateLimitOverrideSchema = RateLimitsSchema.extend({
+  model: z.string(),
+  updatedAt: z.string(), // ISO 8601
+});
+export type ModelRateLimitOverride = z.infer<typeof ModelRateLimitOverrideSchema>;
+
+// PUT /rate-limits/:model 요청
+export const UpdateRateLimitsRequestSchema = RateLimitsSchema.partial();
+export type UpdateRateLimitsRequest = z.infer<typeof UpdateRateLimitsRequestSchema>;
+
+// 모델별 현재 사용량 / 대기열 상태
+export const RateLimitStatusSchema = z.object({
+  model: z.string(),
+  queued: z.number().int(), // 한도 때문에 대기 중인 요청 수
+  requestsLastMinute: z.number().int(),
+  tokensLastMinute: z.number().int(),
+  requestsToday: z.number().int(),
+  limits: RateLimitsSchema, // 실제 적용 중인 한도
+});
+export type RateLimitStatus = z.infer<typeof RateLimitStatusSchema>;
+
 // ============================================
 // GenerationConfig (LLM 생성 설정)
 // ============================================
@@ -105,6 +235,20 @@ export const TranslationConfigSchema = z.object({
   maxOutputTokens: z.number().int().positive().optional(),
   topP: z.number().min(0).max(1).optional(),
   topK: z.number().int().positive().optional(),
+  concurrency: z.number().int().min(1).default(1),
+  queueConcurrency: z.number().int().min(1).default(1),
+  maxAttempts: z.number().int().min(1).default(3),
+  retryBaseDelayMs: z.number().int().min(0).default(2000),
+  retryMaxDelayMs: z.number().int().min(0).default(60000),
+  blockedFallback: BlockedFallbackSchema.default('skip'),
+  fallbackTemplateId: z.string().nullable().optional(),
+  fallbackModel: z.string().nullable().optional(),
+  qaAutoRetries: z.number().int().min(0).default(0),
+  glossaryCorrections: z.number().int().min(0).default(0),
+  translationMemory: TranslationMemoryModeSchema.default('reuse'),
+  summaryInterval: z.number().int().min(0).default(0),
+  summaryModel: z.string().nullable().optional(),
+  costConfirmThreshold: z.number().min(0).default(1),
   updatedAt: z.string(), // ISO 8601
 });
 export type TranslationConfig = z.infer<typeof TranslationConfigSchema>;
@@ -121,6 +265,20 @@ export const UpdateTranslationConfigRequestSchema = z.object({
   maxOutputTokens: z.number().int().positive().optional(),
   topP: z.number().min(0).max(1).optional(),
   topK: z.number().int().positive().optional(),
+  concurrency: z.number().int().min(1).max(8).optional(),
+  queueConcurrency: z.number().int().min(1).max(4).optional(),
+  maxAttempts: z.number().int().min(1).max(10).optional(),
+  retryBaseDelayMs: z.number().int().min(0).max(600000).optional(),
+  retryMaxDelayMs: z.number().int().min(0).max(600000).optional(),
+  blockedFallback: BlockedFallbackSchema.optional(),
+  fallbackTemplateId: z.string().nullable().optional(), // null = 해제
+  fallbackModel: z.string().nullable().optional(), // null = 해제
+  qaAutoRetries: z.number().int().min(0).max(3).optional(),
+  glossaryCorrections: z.number().int().min(0).max(3).optional(),
+  translationMemory: TranslationMemoryModeSchema.optional(),
+  summaryInterval: z.number().int().min(0).max(50).optional(), // 0 = 사용 안 함
+  summaryModel: z.string().nullable().optional(), // null = 번역 모델
+  costConfirmThreshold: z.number().min(0).max(10000).optional(), // USD, 0 = 확인 안 함
 });
 export type UpdateTranslationConfigRequest = z.infer<typeof UpdateTranslationConfigRequestSchema>;
 
@@ -132,6 +290,19 @@ export type UpdateTranslationConfigResponse = z.infer<typeof UpdateTranslationCo
 // 세션 (TranslationSession)
 // ============================================
 
+// 세션별 설정 (null = 전역 설정 사용, templateId는 null이면 선택한 템플릿 사용)
+export const SessionConfigOverridesSchema = z.object({
+  model: z.string().nullable(),
+  templateId: z.string().nullable(),
+  chunkSize: z.number().int().min(100).max(10000).nullable(),
+  temperature: z.number().min(0).max(2).nullable(),
+  maxOutputTokens: z.number().int().positive().nullable(),
+  topP: z.number().min(0).max(1).nullable(),
+  topK: z.number().int().positive().nullable(),
+  postProcessRules: z.string().nullable(), // 후처리 규칙 (YAML, 템플릿 규칙 뒤에 적용)
+});
+export type SessionConfigOverrides = z.infer<typeof SessionConfigOverridesSchema>;
+
 export const TranslationSessionSchema = z.object({
   id: z.string(),
   title: z.string(),
@@ -142,6 +313,10 @@ export const TranslationSessionSchema = z.object({
   translatedText: z.string().nullable(),
   status: TranslationSessionStatusSchema,
   totalChunks: z.number().int().default(0),
+  lastTemplateId: z.string().nullable().optional(), // 마지막으로 번역에 사용한 템플릿
+  summary: z.string().nullable().optional(), // 지금까지의 줄거리 요약
+  summaryChunkId: z.string().nullable().optional(), // 요약에 포함된 마지막 청크
+  ...SessionConfigOverridesSchema.shape,
   createdAt: z.string(), // ISO 8601
   updatedAt: z.string(), // ISO 8601
 });
@@ -156,6 +331,7 @@ export const CreateSessionRequestSchema = z.object({
   title: z.string().min(1).max(200),
   memo: z.string().optional(),
   customDict: z.string().optional(),
+  ...SessionConfigOverridesSchema.partial().shape,
 });
 export type CreateSessionRequest = z.infer<typeof CreateSessionRequestSchema>;
 
@@ -171,7 +347,9 @@ export type GetSessionResponse = z.infer<typeof GetSessionResponseSchema>;
 export const UpdateSessionRequestSchema = z.object({
   title: z.string().min(1).max(200).optional(),
   memo: z.string().optional(),
-  customDict: z.string().optional(),
+  customDict: z.string().nullable().optional(), // 용어집으로 옮기지 못한 이전 사용자 사전 (null = 삭제)
+  summary: z.string().nullable().optional(), // 줄거리 요약 직접 수정 (null = 삭제)
+  ...SessionConfigOverridesSchema.partial().shape,
 });
 export type UpdateSessionRequest = z.infer<typeof UpdateSessionRequestSchema>;
 
@@ -194,6 +372,13 @@ export const TranslationChunkSchema = z.object({
   retryCount: z.number().int(),
   tokenCount: z.number().int().nullable(),
   processingTime: z.number().int().nullable(),
+  currentRevisionId: z.string().nullable().optional(),
+  manuallyEditedAt: z.string().nullable().optional(), // 직접 수정한 청크는 전체 재번역에서 기본으로 제외
+  truncationRecovery: TruncationRecoverySchema.nullable().optional(),
+  blockReason: z.string().nullable().optional(),
+  qaFlags: z.string().nullable().optional(), // QaFlag를 쉼표로 구분한 문자열 (DB 값 그대로)
+  glossaryViolations: z.string().nullable().optional(), // GlossaryViolation 배열의 JSON (DB 값 그대로)
+  tmMatch: TmMatchSchema.nullable().optional(),
   createdAt: z.string(), // ISO 8601
   updatedAt: z.string(), // ISO 8601
 });
@@ -247,6 +432,16 @@ export const StartTranslationRequestSchema = z.object({
 });
 export type StartTranslationRequest = z.infer<typeof StartTranslationRequestSchema>;
 
+// POST /sessions/:id/rechunk/preview 응답 (재청킹 시 기존 청크가 어떻게 바뀌는지)
+export const RechunkSummarySchema = z.object({
+  kept: z.number().int(), // 원문이 같아 번역을 그대로 유지하는 청크
+  changed: z.number().int(), // 원문이 바뀌어 다시 번역할 청크
+  added: z.number().int(), // 새로 생긴 청크
+  removed: z.number().int(), // 사라지는 기존 청크
+  total: z.number().int(), // 재청킹 후 청크 수
+});
+export type RechunkSummary = z.infer<typeof RechunkSummarySchema>;
+
 // POST /sessions/:id/translate 요청 (번역 실행)
 export const TranslateRequestSchema = z.object({
   templateId: z.string(),
@@ -270,6 +465,24 @@ export const TranslateAllResponseSchema = z.object({
 });
 export type TranslateAllResponse = z.infer<typeof TranslateAllResponseSchema>;
 
+// 예상 토큰 수를 어떻게 셌는지 (api = countTokens로 보정, local = 로컬 추정만)
+export const TokenCountSourceSchema = z.enum(['api', 'local']);
+export type TokenCountSource = z.infer<typeof TokenCountSourceSchema>;
+
+// POST /sessions/:id/estimate 응답 (번역 시작 전 예상 비용)
+export const TranslationCostEstimateSchema = z.object({
+  model: z.string(),
+  chunkCount: z.number().int(), // API로 번역할 청크 수
+  reusedChunkCount: z.number().int(), // 번역 메모리로 재사용할 청크 수 (비용 없음)
+  inputTokens: z.number().int(),
+  outputTokens: z.number().int(),
+  outputRatio: z.number(), // 원문 토큰 대비 예상 출력 토큰 비율 (언어 쌍별)
+  costUsd: z.number().nullable(), // 가격 정보가 없는 모델이면 null
+  tokenSource: TokenCountSourceSchema,
+  requiresConfirmation: z.boolean(), // 예상 비용이 설정한 기준을 넘음
+});
+export type TranslationCostEstimate = z.infer<typeof TranslationCostEstimateSchema>;
+
 // GET /sessions/:id/progress 응답
 export const TranslationProgressResponseSchema = z.object({
   sessionId: z.string(),
@@ -277,6 +490,7 @@ export const TranslationProgressResponseSchema = z.object({
   totalChunks: z.number().int(),
   completedChunks: z.number().int(),
   failedChunks: z.number().int(),
+  blockedChunks: z.number().int(),
   pendingChunks: z.number().int(),
   processingChunks: z.number().int(),
   progressPercent: z.number(),
@@ -303,6 +517,316 @@ export type TranslateChunkRequest = z.infer<typeof TranslateChunkRequestSchema>;
 export const TranslateChunkResponseSchema = TranslationChunkSchema;
 export type TranslateChunkResponse = z.infer<typeof TranslateChunkResponseSchema>;
 
+// PATCH /chunks/:id/text 요청 (번역문 직접 수정)
+export const UpdateChunkTextRequestSchema = z.object({
+  translatedText: z.string().trim().min(1),
+});
+export type UpdateChunkTextRequest = z.infer<typeof UpdateChunkTextRequestSchema>;
+
+// POST /sessions/:id/retranslate 요청 (전체 재번역)
+export const RetranslateSessionRequestSchema = z.object({
+  templateId: z.string(),
+  force: z.boolean().default(false), // true면 직접 수정한 청크도 다시 번역
+});
+export type RetranslateSessionRequest = z.infer<typeof RetranslateSessionRequestSchema>;
+
+// ============================================
+// 청크 리비전 (번역 이력)
+// ============================================
+
+export const ChunkRevisionOriginSchema = z.enum([
+  'auto', // 세션 전체 번역
+  'retry', // 청크 단위 번역 / 재시도
+  'manual', // 직접 수정
+  'memory', // 번역 메모리에서 재사용
+]);
+export type ChunkRevisionOrigin = z.infer<typeof ChunkRevisionOriginSchema>;
+
+export const TranslationChunkRevisionSchema = z.object({
+  id: z.string(),
+  chunkId: z.string(),
+  translatedText: z.string(),
+  origin: ChunkRevisionOriginSchema,
+  model: z.string().nullable(),
+  templateId: z.string().nullable(),
+  generationConfig: z.record(z.string(), z.unknown()).nullable(),
+  promptTokens: z.number().int().nullable(),
+  completionTokens: z.number().int().nullable(),
+  totalTokens: z.number().int().nullable(),
+  processingTime: z.number().int().nullable(),
+  createdAt: z.string(), // ISO 8601
+});
+export type TranslationChunkRevision = z.infer<typeof TranslationChunkRevisionSchema>;
+
+// GET /chunks/:id/revisions 응답 (최신순)
+export const GetChunkRevisionsResponseSchema = z.array(TranslationChunkRevisionSchema);
+export type GetChunkRevisionsResponse = z.infer<typeof GetChunkRevisionsResponseSchema>;
+
+// ============================================
+// 용어집 (Glossary)
+// ============================================
+
+// 용어 (sessionId가 null이면 모든 세션에 적용되는 전역 용어)
+export const GlossaryEntrySchema = z.object({
+  id: z.string(),
+  sessionId: z.string().nullable(),
+  sourceTerm: z.string(),
+  targetTerm: z.string(),
+  partOfSpeech: z.string().nullable(),
+  notes: z.string().nullable(),
+  caseSensitive: z.boolean(),
+  createdAt: z.string(), // ISO 8601
+  updatedAt: z.string(), // ISO 8601
+});
+export type GlossaryEntry = z.infer<typeof GlossaryEntrySchema>;
+
+// POST /glossary 요청
+export const CreateGlossaryEntryRequestSchema = z.object({
+  sessionId: z.string().nullable(),
+  sourceTerm: z.string().trim().min(1).max(200),
+  targetTerm: z.string().trim().min(1).max(200),
+  partOfSpeech: z.string().trim().max(50).nullable().optional(),
+  notes: z.string().trim().max(500).nullable().optional(),
+  caseSensitive: z.boolean().optional(),
+});
+export type CreateGlossaryEntryRequest = z.infer<typeof CreateGlossaryEntryRequestSchema>;
+
+// PATCH /glossary/:id 요청
+export const UpdateGlossaryEntryRequestSchema = CreateGlossaryEntryRequestSchema.omit({ sessionId: true }).partial();
+export type UpdateGlossaryEntryRequest = z.infer<typeof UpdateGlossaryEntryRequestSchema>;
+
+// POST /glossary/import 응답 (원문 용어가 같은 항목은 덮어씀)
+export const GlossaryImportResultSchema = z.object({
+  added: z.number().int(),
+  updated: z.number().int(),
+  skipped: z.number().int(), // 원문 / 번역어가 비어 있는 행
+});
+export type GlossaryImportResult = z.infer<typeof GlossaryImportResultSchema>;
+
+// 용어 준수 검사 (missing: 지정한 번역어가 없음, untranslated: 원문 용어가 번역되지 않고 남음)
+export const GlossaryViolationKindSchema = z.enum(['missing', 'untranslated']);
+export type GlossaryViolationKind = z.infer<typeof GlossaryViolationKindSchema>;
+
+export const GlossaryViolationSchema = z.object({
+  sourceTerm: z.string(),
+  targetTerm: z.string(),
+  kind: GlossaryViolationKindSchema,
+});
+export type GlossaryViolation = z.infer<typeof GlossaryViolationSchema>;
+
+// GET /sessions/:id/glossary-report 응답 (현재 용어집으로 완료된 청크를 다시 검사한 결과)
+export const GlossaryReportTermSchema = z.object({
+  sourceTerm: z.string(),
+  targetTerm: z.string(),
+  missing: z.number().int(),
+  untranslated: z.number().int(),
+  chunkOrders: z.array(z.number().int()), // 위반이 있는 청크 순서 (오름차순)
+});
+export type GlossaryReportTerm = z.infer<typeof GlossaryReportTermSchema>;
+
+export const GlossaryReportSchema = z.object({
+  checkedChunks: z.number().int(),
+  violatingChunks: z.number().int(),
+  terms: z.array(GlossaryReportTermSchema), // 위반이 많은 용어 먼저
+});
+export type GlossaryReport = z.infer<typeof GlossaryReportSchema>;
+
+// 용어 추출 (name: 인명 / 지명 등 고유명사, term: 반복되는 용어, honorific: 호칭 / 경칭)
+export const GlossaryTermCategorySchema = z.enum(['name', 'term', 'honorific']);
+export type GlossaryTermCategory = z.infer<typeof GlossaryTermCategorySchema>;
+
+// POST /sessions/:id/glossary/extract 요청
+export const ExtractGlossaryRequestSchema = z.object({
+  templateId: z.string().nullable().optional(), // 언어 쌍 판별용 (세션 템플릿이 있으면 세션 템플릿 우선)
+  mode: z.enum(['sample', 'all']),
+  sampleSize: z.number().int().min(1).max(100).optional(), // mode = sample일 때 보낼 청크 수 (원문 전체에 고르게 분포)
+});
+export type ExtractGlossaryRequest = z.infer<typeof ExtractGlossaryRequestSchema>;
+
+// 추출된 용어 후보 (이미 용어집에 있는 용어는 제외)
+export const GlossaryCandidateSchema = z.object({
+  sourceTerm: z.string(),
+  targetTerm: z.string(), // 모델이 제안한 번역어 (여러 청크에서 다르면 가장 많이 제안된 것)
+  category: GlossaryTermCategorySchema,
+  notes: z.string().nullable(),
+  frequency: z.number().int(), // 원문 전체에서 등장한 횟수
+});
+export type GlossaryCandidate = z.infer<typeof GlossaryCandidateSchema>;
+
+// POST /sessions/:id/glossary/extract 응답
+export const GlossaryExtractionResultSchema = z.object({
+  candidates: z.array(GlossaryCandidateSchema), // 등장 횟수가 많은 용어 먼저
+  processedChunks: z.number().int(),
+  failedChunks: z.number().int(),
+});
+export type GlossaryExtractionResult = z.infer<typeof GlossaryExtractionResultSchema>;
+
+// POST /sessions/:id/glossary/entries 요청 (검토한 후보를 한 번에 추가, 원문 용어가 같은 항목은 덮어씀)
+export const AddGlossaryEntriesRequestSchema = z.array(CreateGlossaryEntryRequestSchema.omit({ sessionId: true }));
+export type AddGlossaryEntriesRequest = z.infer<typeof AddGlossaryEntriesRequestSchema>;
+
+// ============================================
+// 등장인물 (Characters)
+// ============================================
+
+// 말투 (formal: 격식체, polite: 정중한 비격식체, casual: 반말)
+export const SpeechLevelSchema = z.enum(['formal', 'polite', 'casual']);
+export type SpeechLevel = z.infer<typeof SpeechLevelSchema>;
+
+export const CharacterGenderSchema = z.enum(['female', 'male', 'other']);
+export type CharacterGender = z.infer<typeof CharacterGenderSchema>;
+
+// 특정 인물에게 쓰는 말투 (기본 말투와 다를 때만)
+export const CharacterSpeechLevelSchema = z.object({
+  characterId: z.string(),
+  level: SpeechLevelSchema,
+});
+export type CharacterSpeechLevel = z.infer<typeof CharacterSpeechLevelSchema>;
+
+export const SessionCharacterSchema = z.object({
+  id: z.string(),
+  sessionId: z.string(),
+  name: z.string(), // 원문에서 쓰는 이름
+  aliases: z.array(z.string()), // 원문에서 이 인물을 가리키는 다른 표기
+  gender: CharacterGenderSchema.nullable(),
+  role: z.string().nullable(),
+  targetName: z.string().nullable(), // 번역문에서 쓸 이름
+  defaultSpeechLevel: SpeechLevelSchema.nullable(),
+  speechLevels: z.array(CharacterSpeechLevelSchema),
+  notes: z.string().nullable(),
+  createdAt: z.string(), // ISO 8601
+  updatedAt: z.string(), // ISO 8601
+});
+export type SessionCharacter = z.infer<typeof SessionCharacterSchema>;
+
+// POST /sessions/:id/characters 요청
+export const CreateSessionCharacterRequestSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  aliases: z.array(z.string().trim().min(1).max(200)).max(20).optional(),
+  gender: CharacterGenderSchema.nullable().optional(),
+  role: z.string().trim().max(100).nullable().optional(),
+  targetName: z.string().trim().max(200).nullable().optional(),
+  defaultSpeechLevel: SpeechLevelSchema.nullable().optional(),
+  speechLevels: z.array(CharacterSpeechLevelSchema).optional(),
+  notes: z.string().trim().max(500).nullable().optional(),
+});
+export type CreateSessionCharacterRequest = z.infer<typeof CreateSessionCharacterRequestSchema>;
+
+// PATCH /characters/:id 요청
+export const UpdateSessionCharacterRequestSchema = CreateSessionCharacterRequestSchema.partial();
+export type UpdateSessionCharacterRequest = z.infer<typeof UpdateSessionCharacterRequestSchema>;
+
+// ============================================
+// 중단된 세션 복구
+// ============================================
+
+// 앱이 번역 도중 종료되어 일시 정지 상태로 복구된 세션
+export const InterruptedSessionSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  lastTemplateId: z.string().nullable(),
+});
+export type InterruptedSession = z.infer<typeof InterruptedSessionSchema>;
+
+// GET /recovery 응답
+export const RecoveryReportSchema = z.object({
+  sessions: z.array(InterruptedSessionSchema),
+  resetChunks: z.number().int(), // processing → pending 으로 되돌린 청크 수
+});
+export type RecoveryReport = z.infer<typeof RecoveryReportSchema>;
+
+// ============================================
+// 번역 대기열
+// ============================================
+
+export const TranslationQueueStatusSchema = z.enum([
+  'queued', // 실행 대기
+  'running', // 번역 중
+  'paused', // 일시 정지됨 (재개하면 다시 대기열로)
+  'done', // 완료
+  'failed', // 일부 청크 실패 또는 오류
+  'canceled', // 취소됨
+]);
+export type TranslationQueueStatus = z.infer<typeof TranslationQueueStatusSchema>;
+
+export const TranslationQueueEntrySchema = z.object({
+  sessionId: z.string(),
+  sessionTitle: z.string(),
+  templateId: z.string(),
+  position: z.number().int(),
+  status: TranslationQueueStatusSchema,
+  errorMessage: z.string().nullable(),
+  enqueuedAt: z.string(), // ISO 8601
+  startedAt: z.string().nullable(),
+  finishedAt: z.string().nullable(),
+});
+export type TranslationQueueEntry = z.infer<typeof TranslationQueueEntrySchema>;
+
+// POST /queue 요청
+export const EnqueueTranslationRequestSchema = z.object({
+  sessionId: z.string(),
+  templateId: z.string(),
+});
+export type EnqueueTranslationRequest = z.infer<typeof EnqueueTranslationRequestSchema>;
+
+// PUT /queue/order 요청 (대기 중인 항목의 새 실행 순서)
+export const ReorderQueueRequestSchema = z.array(z.string());
+export type ReorderQueueRequest = z.infer<typeof ReorderQueueRequestSchema>;
+
+// ============================================
+// 토큰 사용량 (Usage)
+// ============================================
+
+// API 호출 용도 (continuation: 잘린 출력 이어서 생성, glossaryCorrection: 용어 교정 요청)
+export const UsagePurposeSchema = z.enum(['translation', 'continuation', 'glossaryCorrection', 'summary', 'glossaryExtraction', 'other']);
+export type UsagePurpose = z.infer<typeof UsagePurposeSchema>;
+
+// 사용량 합계 (costUsd는 가격 정보가 있는 모델의 호출만 합산)
+export const UsageTotalsSchema = z.object({
+  requests: z.number().int(),
+  promptTokens: z.number().int(),
+  completionTokens: z.number().int(),
+  thinkingTokens: z.number().int(),
+  totalTokens: z.number().int(),
+  costUsd: z.number(),
+});
+export type UsageTotals = z.infer<typeof UsageTotalsSchema>;
+
+// 세션별 사용량 (sessionId가 null이면 세션과 무관한 호출 또는 삭제된 세션)
+export const SessionUsageSchema = UsageTotalsSchema.extend({
+  sessionId: z.string().nullable(),
+  sessionTitle: z.string().nullable(),
+});
+export type SessionUsage = z.infer<typeof SessionUsageSchema>;
+
+// 모델별 사용량
+export const ModelUsageSchema = UsageTotalsSchema.extend({
+  model: z.string(),
+  priced: z.boolean(), // 가격 정보가 있는 모델인지 (없으면 costUsd = 0)
+});
+export type ModelUsage = z.infer<typeof ModelUsageSchema>;
+
+// 일별 사용량 (로컬 날짜)
+export const DailyUsageSchema = UsageTotalsSchema.extend({
+  date: z.string(), // YYYY-MM-DD
+});
+export type DailyUsage = z.infer<typeof DailyUsageSchema>;
+
+// GET /usage 요청
+export const GetUsageRequestSchema = z.object({
+  days: z.number().int().positive().optional(), // 최근 n일 (없으면 전체 기간)
+});
+export type GetUsageRequest = z.infer<typeof GetUsageRequestSchema>;
+
+// GET /usage 응답 (세션 / 모델은 토큰이 많은 순, 일별은 최신순)
+export const UsageSummarySchema = z.object({
+  totals: UsageTotalsSchema,
+  bySession: z.array(SessionUsageSchema),
+  byModel: z.array(ModelUsageSchema),
+  byDay: z.array(DailyUsageSchema),
+});
+export type UsageSummary = z.infer<typeof UsageSummarySchema>;
+
 // ============================================
 // LLM Provider
 // ============================================
@@ -360,6 +884,7 @@ export type SessionNotFoundResponse = z.infer<typeof SessionNotFoundResponseSche
 export const ProgressInfoSchema = z.object({
   completed: z.number().int(),
   failed: z.number().int(),
+  blocked: z.number().int(),
   pending: z.number().int(),
   total: z.number().int(),
   percent: z.number(),
@@ -395,6 +920,16 @@ export const WsChunkStartEventSchema = z.object({
 });
 export type WsChunkStartEvent = z.infer<typeof WsChunkStartEventSchema>;
 
+// 청크 스트리밍 출력 (번역 중인 청크의 지금까지 생성된 텍스트)
+export const WsChunkDeltaEventSchema = z.object({
+  type: z.literal('chunk:delta'),
+  sessionId: z.string(),
+  chunkId: z.string(),
+  order: z.number().int(),
+  text: z.string(),
+});
+export type WsChunkDeltaEvent = z.infer<typeof WsChunkDeltaEventSchema>;
+
 // 세션 상태 변경
 export const WsSessionStatusEventSchema = z.object({
   type: z.literal('session:status'),
@@ -413,6 +948,30 @@ export const WsSessionCompleteEventSchema = z.object({
 });
 export type WsSessionCompleteEvent = z.infer<typeof WsSessionCompleteEventSchema>;
 
+// 요청 한도 대기열 상태
+export const WsRateLimitStatusEventSchema = z.object({
+  type: z.literal('rateLimit:status'),
+  models: z.array(RateLimitStatusSchema),
+});
+export type WsRateLimitStatusEvent = z.infer<typeof WsRateLimitStatusEventSchema>;
+
+// 번역 대기열 상태
+export const WsQueueStatusEventSchema = z.object({
+  type: z.literal('queue:status'),
+  entries: z.array(TranslationQueueEntrySchema),
+});
+export type WsQueueStatusEvent = z.infer<typeof WsQueueStatusEventSchema>;
+
+// 용어 추출 진행 상황
+export const WsGlossaryExtractProgressEventSchema = z.object({
+  type: z.literal('glossary:extract-progress'),
+  sessionId: z.string(),
+  processedChunks: z.number().int(),
+  totalChunks: z.number().int(),
+  candidates: z.number().int(), // 지금까지 모인 후보 수
+});
+export type WsGlossaryExtractProgressEvent = z.infer<typeof WsGlossaryExtractProgressEventSchema>;
+
 // 에러
 export const WsErrorEventSchema = z.object({
   type: z.literal('error'),
@@ -427,8 +986,12 @@ export const WsServerEventSchema = z.discriminatedUnion('type', [
   WsSubscribedEventSchema,
   WsChunkProgressEventSchema,
   WsChunkStartEventSchema,
+  WsChunkDeltaEventSchema,
   WsSessionStatusEventSchema,
   WsSessionCompleteEventSchema,
+  WsRateLimitStatusEventSchema,
+  WsQueueStatusEventSchema,
+  WsGlossaryExtractProgressEventSchema,
   WsErrorEventSchema,
 ]);
 export type WsServerEvent = z.infer<typeof WsServerEventSchema>;